@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'BANK_TRANSFER', 'BONUS');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "bonusPoints" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "work_orders" ADD COLUMN "paidAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Already paid orders are considered fully paid
+UPDATE "work_orders" SET "paidAmount" = "totalAmount" WHERE "status" IN ('PAID', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "isPrepayment" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "workOrderId" TEXT NOT NULL,
+    "receivedById" TEXT,
+    "transactionId" TEXT,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_tenantId_idx" ON "payments"("tenantId");
+CREATE INDEX "payments_workOrderId_idx" ON "payments"("workOrderId");
+CREATE INDEX "payments_paidAt_idx" ON "payments"("paidAt");
+CREATE UNIQUE INDEX "payments_transactionId_key" ON "payments"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payments" ADD CONSTRAINT "payments_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payments" ADD CONSTRAINT "payments_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "payments" ADD CONSTRAINT "payments_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
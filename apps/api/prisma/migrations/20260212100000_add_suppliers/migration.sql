@@ -0,0 +1,63 @@
+-- CreateTable: suppliers
+CREATE TABLE "suppliers" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "inn" TEXT,
+    "kpp" TEXT,
+    "contactPerson" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "address" TEXT,
+    "paymentTermsDays" INTEGER,
+    "leadTimeDays" INTEGER,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+
+    CONSTRAINT "suppliers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "suppliers_tenantId_idx" ON "suppliers"("tenantId");
+CREATE INDEX "suppliers_inn_idx" ON "suppliers"("inn");
+CREATE UNIQUE INDEX "suppliers_name_tenantId_key" ON "suppliers"("name", "tenantId");
+ALTER TABLE "suppliers" ADD CONSTRAINT "suppliers_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: supplier_parts (price lists)
+CREATE TABLE "supplier_parts" (
+    "id" TEXT NOT NULL,
+    "price" DECIMAL(12,2) NOT NULL,
+    "supplierSku" TEXT,
+    "leadTimeDays" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supplierId" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+
+    CONSTRAINT "supplier_parts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "supplier_parts_partId_idx" ON "supplier_parts"("partId");
+CREATE UNIQUE INDEX "supplier_parts_supplierId_partId_key" ON "supplier_parts"("supplierId", "partId");
+ALTER TABLE "supplier_parts" ADD CONSTRAINT "supplier_parts_supplierId_fkey"
+    FOREIGN KEY ("supplierId") REFERENCES "suppliers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "supplier_parts" ADD CONSTRAINT "supplier_parts_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate free-text purchase_orders.supplier into suppliers
+INSERT INTO "suppliers" ("id", "name", "tenantId", "updatedAt")
+SELECT gen_random_uuid()::text, "supplier", "tenantId", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "supplier", "tenantId" FROM "purchase_orders") AS s;
+
+ALTER TABLE "purchase_orders" ADD COLUMN "supplierId" TEXT;
+UPDATE "purchase_orders" po SET "supplierId" = s."id"
+FROM "suppliers" s
+WHERE s."name" = po."supplier" AND s."tenantId" = po."tenantId";
+
+ALTER TABLE "purchase_orders" ALTER COLUMN "supplierId" SET NOT NULL;
+ALTER TABLE "purchase_orders" DROP COLUMN "supplier";
+
+CREATE INDEX "purchase_orders_supplierId_idx" ON "purchase_orders"("supplierId");
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplierId_fkey"
+    FOREIGN KEY ("supplierId") REFERENCES "suppliers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
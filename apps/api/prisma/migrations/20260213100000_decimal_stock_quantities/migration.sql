@@ -0,0 +1,12 @@
+-- Fractional stock quantities (litres, kilograms, metres)
+ALTER TABLE "parts" ALTER COLUMN "currentStock" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "parts" ALTER COLUMN "minStock" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "warehouse_stock" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "warehouse_stock" ALTER COLUMN "reserved" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "stock_movements" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "purchase_order_items" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(12,3);
+ALTER TABLE "purchase_order_items" ALTER COLUMN "received" SET DATA TYPE DECIMAL(12,3);
+
+-- Purchase unit conversion (e.g. barrel = 208 L)
+ALTER TABLE "parts" ADD COLUMN "purchaseUnit" TEXT;
+ALTER TABLE "parts" ADD COLUMN "purchaseUnitFactor" DECIMAL(12,3);
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "StocktakeStatus" AS ENUM ('IN_PROGRESS', 'APPROVED', 'CANCELLED');
+
+-- CreateTable: stocktakes
+CREATE TABLE "stocktakes" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "status" "StocktakeStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "notes" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+
+    CONSTRAINT "stocktakes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "stocktakes_tenantId_idx" ON "stocktakes"("tenantId");
+CREATE INDEX "stocktakes_warehouseId_idx" ON "stocktakes"("warehouseId");
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_createdById_fkey"
+    FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_approvedById_fkey"
+    FOREIGN KEY ("approvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: stocktake_items
+CREATE TABLE "stocktake_items" (
+    "id" TEXT NOT NULL,
+    "expectedQty" DECIMAL(12,3) NOT NULL,
+    "countedQty" DECIMAL(12,3),
+    "unitCost" DECIMAL(12,2) NOT NULL,
+    "stocktakeId" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+
+    CONSTRAINT "stocktake_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "stocktake_items_partId_idx" ON "stocktake_items"("partId");
+CREATE UNIQUE INDEX "stocktake_items_stocktakeId_partId_key" ON "stocktake_items"("stocktakeId", "partId");
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_stocktakeId_fkey"
+    FOREIGN KEY ("stocktakeId") REFERENCES "stocktakes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
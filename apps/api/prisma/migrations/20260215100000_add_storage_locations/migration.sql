@@ -0,0 +1,49 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'RELOCATION';
+
+-- CreateTable: storage_locations
+CREATE TABLE "storage_locations" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "zone" TEXT,
+    "rack" TEXT,
+    "shelf" TEXT,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "warehouseId" TEXT NOT NULL,
+
+    CONSTRAINT "storage_locations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "storage_locations_warehouseId_idx" ON "storage_locations"("warehouseId");
+CREATE UNIQUE INDEX "storage_locations_warehouseId_code_key" ON "storage_locations"("warehouseId", "code");
+ALTER TABLE "storage_locations" ADD CONSTRAINT "storage_locations_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: location_stock
+CREATE TABLE "location_stock" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+
+    CONSTRAINT "location_stock_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "location_stock_locationId_idx" ON "location_stock"("locationId");
+CREATE UNIQUE INDEX "location_stock_partId_locationId_key" ON "location_stock"("partId", "locationId");
+ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_locationId_fkey"
+    FOREIGN KEY ("locationId") REFERENCES "storage_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: stock_movements
+ALTER TABLE "stock_movements" ADD COLUMN "locationId" TEXT;
+ALTER TABLE "stock_movements" ADD COLUMN "toLocationId" TEXT;
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_locationId_fkey"
+    FOREIGN KEY ("locationId") REFERENCES "storage_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_toLocationId_fkey"
+    FOREIGN KEY ("toLocationId") REFERENCES "storage_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
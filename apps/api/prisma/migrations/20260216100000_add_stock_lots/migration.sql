@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN "costAmount" DECIMAL(12,2);
+ALTER TABLE "work_order_items" ADD COLUMN "costAmount" DECIMAL(12,2);
+ALTER TABLE "work_orders" ADD COLUMN "partsCost" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable: stock_lots
+CREATE TABLE "stock_lots" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+    "remaining" DECIMAL(12,3) NOT NULL,
+    "unitCost" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "movementId" TEXT,
+
+    CONSTRAINT "stock_lots_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "stock_lots_partId_warehouseId_idx" ON "stock_lots"("partId", "warehouseId");
+CREATE UNIQUE INDEX "stock_lots_movementId_key" ON "stock_lots"("movementId");
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_movementId_fkey"
+    FOREIGN KEY ("movementId") REFERENCES "stock_movements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: stock_lot_consumptions
+CREATE TABLE "stock_lot_consumptions" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lotId" TEXT NOT NULL,
+    "movementId" TEXT NOT NULL,
+
+    CONSTRAINT "stock_lot_consumptions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "stock_lot_consumptions_lotId_idx" ON "stock_lot_consumptions"("lotId");
+CREATE INDEX "stock_lot_consumptions_movementId_idx" ON "stock_lot_consumptions"("movementId");
+ALTER TABLE "stock_lot_consumptions" ADD CONSTRAINT "stock_lot_consumptions_lotId_fkey"
+    FOREIGN KEY ("lotId") REFERENCES "stock_lots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stock_lot_consumptions" ADD CONSTRAINT "stock_lot_consumptions_movementId_fkey"
+    FOREIGN KEY ("movementId") REFERENCES "stock_movements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Opening lots: current stock valued at Part.costPrice
+INSERT INTO "stock_lots" ("id", "quantity", "remaining", "unitCost", "partId", "warehouseId")
+SELECT gen_random_uuid()::text, ws."quantity", ws."quantity", p."costPrice", ws."partId", ws."warehouseId"
+FROM "warehouse_stock" ws
+JOIN "parts" p ON p."id" = ws."partId"
+WHERE ws."quantity" > 0;
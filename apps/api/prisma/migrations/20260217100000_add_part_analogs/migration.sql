@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "parts" ADD COLUMN "oemKey" TEXT;
+CREATE INDEX "parts_oemKey_idx" ON "parts"("oemKey");
+
+-- Backfill: нормализованный OEM-номер для существующих запчастей
+UPDATE "parts"
+SET "oemKey" = NULLIF(regexp_replace(upper("oemNumber"), '[^A-Z0-9А-ЯЁ]', '', 'g'), '')
+WHERE "oemNumber" IS NOT NULL;
+
+-- CreateTable: part_analog_groups
+CREATE TABLE "part_analog_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+
+    CONSTRAINT "part_analog_groups_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "part_analog_groups_tenantId_idx" ON "part_analog_groups"("tenantId");
+ALTER TABLE "part_analog_groups" ADD CONSTRAINT "part_analog_groups_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: part_analogs
+CREATE TABLE "part_analogs" (
+    "id" TEXT NOT NULL,
+    "brand" TEXT,
+    "oemNumber" TEXT NOT NULL,
+    "oemKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "groupId" TEXT NOT NULL,
+
+    CONSTRAINT "part_analogs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "part_analogs_groupId_idx" ON "part_analogs"("groupId");
+CREATE INDEX "part_analogs_oemKey_idx" ON "part_analogs"("oemKey");
+ALTER TABLE "part_analogs" ADD CONSTRAINT "part_analogs_groupId_fkey"
+    FOREIGN KEY ("groupId") REFERENCES "part_analog_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "PriceChangeSource" AS ENUM ('MANUAL', 'RECEIPT', 'MARKUP_RULES');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "clientGroup" TEXT;
+
+-- CreateTable: markup_rules
+CREATE TABLE "markup_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "brand" TEXT,
+    "manufacturer" TEXT,
+    "minCost" DECIMAL(12,2),
+    "maxCost" DECIMAL(12,2),
+    "clientGroup" TEXT,
+    "markupPercent" DECIMAL(7,2) NOT NULL,
+    "roundTo" DECIMAL(12,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "supplierId" TEXT,
+
+    CONSTRAINT "markup_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "markup_rules_tenantId_idx" ON "markup_rules"("tenantId");
+ALTER TABLE "markup_rules" ADD CONSTRAINT "markup_rules_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "markup_rules" ADD CONSTRAINT "markup_rules_supplierId_fkey"
+    FOREIGN KEY ("supplierId") REFERENCES "suppliers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: part_price_history
+CREATE TABLE "part_price_history" (
+    "id" TEXT NOT NULL,
+    "source" "PriceChangeSource" NOT NULL,
+    "prevCostPrice" DECIMAL(12,2) NOT NULL,
+    "costPrice" DECIMAL(12,2) NOT NULL,
+    "prevSellPrice" DECIMAL(12,2) NOT NULL,
+    "sellPrice" DECIMAL(12,2) NOT NULL,
+    "reference" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partId" TEXT NOT NULL,
+    "ruleId" TEXT,
+
+    CONSTRAINT "part_price_history_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "part_price_history_partId_createdAt_idx" ON "part_price_history"("partId", "createdAt");
+ALTER TABLE "part_price_history" ADD CONSTRAINT "part_price_history_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "part_price_history" ADD CONSTRAINT "part_price_history_ruleId_fkey"
+    FOREIGN KEY ("ruleId") REFERENCES "markup_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('ACTIVE', 'CONSUMED', 'RELEASED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "work_order_items" ADD COLUMN "warehouseId" TEXT;
+ALTER TABLE "work_order_items" ADD CONSTRAINT "work_order_items_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: stock_reservations
+CREATE TABLE "stock_reservations" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+    "consumedQty" DECIMAL(12,3) NOT NULL DEFAULT 0,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "workOrderItemId" TEXT NOT NULL,
+
+    CONSTRAINT "stock_reservations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "stock_reservations_workOrderItemId_idx" ON "stock_reservations"("workOrderItemId");
+CREATE INDEX "stock_reservations_partId_warehouseId_status_idx" ON "stock_reservations"("partId", "warehouseId", "status");
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_workOrderItemId_fkey"
+    FOREIGN KEY ("workOrderItemId") REFERENCES "work_order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: действующие резервы восстанавливаются из истории движений
+-- (RESERVED − UNRESERVED − CONSUMPTION по позиции и складу)
+INSERT INTO "stock_reservations" ("id", "quantity", "status", "partId", "warehouseId", "workOrderItemId", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, net."quantity", 'ACTIVE', net."partId", net."warehouseId", net."referenceId", net."createdAt", CURRENT_TIMESTAMP
+FROM (
+    SELECT m."referenceId", m."warehouseId", m."partId", MIN(m."createdAt") AS "createdAt",
+           SUM(CASE WHEN m."type" = 'RESERVED' THEN m."quantity" ELSE -m."quantity" END) AS "quantity"
+    FROM "stock_movements" m
+    JOIN "work_order_items" i ON i."id" = m."referenceId"
+    WHERE m."type" IN ('RESERVED', 'UNRESERVED', 'CONSUMPTION') AND m."warehouseId" IS NOT NULL
+    GROUP BY m."referenceId", m."warehouseId", m."partId"
+) net
+WHERE net."quantity" > 0;
+
+-- Склад-источник существующих позиций — склад, с которого резервировалось больше всего
+UPDATE "work_order_items" i
+SET "warehouseId" = (
+    SELECT m."warehouseId"
+    FROM "stock_movements" m
+    WHERE m."referenceId" = i."id" AND m."type" = 'RESERVED' AND m."warehouseId" IS NOT NULL
+    GROUP BY m."warehouseId"
+    ORDER BY SUM(m."quantity") DESC
+    LIMIT 1
+)
+WHERE i."type" = 'PART' AND i."partId" IS NOT NULL;
@@ -0,0 +1,110 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'RETURN_TO_SUPPLIER';
+
+-- CreateTable: client_returns
+CREATE TABLE "client_returns" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "reason" TEXT,
+    "refundAmount" DECIMAL(12,2) NOT NULL,
+    "refundMethod" "PaymentMethod" NOT NULL,
+    "costAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "workOrderId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "transactionId" TEXT,
+
+    CONSTRAINT "client_returns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "client_returns_number_tenantId_key" ON "client_returns"("number", "tenantId");
+CREATE UNIQUE INDEX "client_returns_transactionId_key" ON "client_returns"("transactionId");
+CREATE INDEX "client_returns_tenantId_idx" ON "client_returns"("tenantId");
+CREATE INDEX "client_returns_workOrderId_idx" ON "client_returns"("workOrderId");
+ALTER TABLE "client_returns" ADD CONSTRAINT "client_returns_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "client_returns" ADD CONSTRAINT "client_returns_workOrderId_fkey"
+    FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "client_returns" ADD CONSTRAINT "client_returns_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "client_returns" ADD CONSTRAINT "client_returns_createdById_fkey"
+    FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "client_returns" ADD CONSTRAINT "client_returns_transactionId_fkey"
+    FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: client_return_items
+CREATE TABLE "client_return_items" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+    "unitPrice" DECIMAL(12,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "costAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "returnId" TEXT NOT NULL,
+    "workOrderItemId" TEXT NOT NULL,
+
+    CONSTRAINT "client_return_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "client_return_items_returnId_idx" ON "client_return_items"("returnId");
+CREATE INDEX "client_return_items_workOrderItemId_idx" ON "client_return_items"("workOrderItemId");
+ALTER TABLE "client_return_items" ADD CONSTRAINT "client_return_items_returnId_fkey"
+    FOREIGN KEY ("returnId") REFERENCES "client_returns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "client_return_items" ADD CONSTRAINT "client_return_items_workOrderItemId_fkey"
+    FOREIGN KEY ("workOrderItemId") REFERENCES "work_order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: supplier_returns
+CREATE TABLE "supplier_returns" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "reason" TEXT,
+    "creditAmount" DECIMAL(12,2) NOT NULL,
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "transactionId" TEXT,
+
+    CONSTRAINT "supplier_returns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "supplier_returns_number_tenantId_key" ON "supplier_returns"("number", "tenantId");
+CREATE UNIQUE INDEX "supplier_returns_transactionId_key" ON "supplier_returns"("transactionId");
+CREATE INDEX "supplier_returns_tenantId_idx" ON "supplier_returns"("tenantId");
+CREATE INDEX "supplier_returns_supplierId_idx" ON "supplier_returns"("supplierId");
+CREATE INDEX "supplier_returns_purchaseOrderId_idx" ON "supplier_returns"("purchaseOrderId");
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_supplierId_fkey"
+    FOREIGN KEY ("supplierId") REFERENCES "suppliers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_purchaseOrderId_fkey"
+    FOREIGN KEY ("purchaseOrderId") REFERENCES "purchase_orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_warehouseId_fkey"
+    FOREIGN KEY ("warehouseId") REFERENCES "warehouses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_createdById_fkey"
+    FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "supplier_returns" ADD CONSTRAINT "supplier_returns_transactionId_fkey"
+    FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: supplier_return_items
+CREATE TABLE "supplier_return_items" (
+    "id" TEXT NOT NULL,
+    "quantity" DECIMAL(12,3) NOT NULL,
+    "unitCost" DECIMAL(12,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "returnId" TEXT NOT NULL,
+    "purchaseOrderItemId" TEXT NOT NULL,
+
+    CONSTRAINT "supplier_return_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "supplier_return_items_returnId_idx" ON "supplier_return_items"("returnId");
+CREATE INDEX "supplier_return_items_purchaseOrderItemId_idx" ON "supplier_return_items"("purchaseOrderItemId");
+ALTER TABLE "supplier_return_items" ADD CONSTRAINT "supplier_return_items_returnId_fkey"
+    FOREIGN KEY ("returnId") REFERENCES "supplier_returns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "supplier_return_items" ADD CONSTRAINT "supplier_return_items_purchaseOrderItemId_fkey"
+    FOREIGN KEY ("purchaseOrderItemId") REFERENCES "purchase_order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
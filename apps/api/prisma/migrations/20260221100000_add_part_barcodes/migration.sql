@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "BarcodeFormat" AS ENUM ('EAN13', 'EAN8', 'CODE128');
+
+-- CreateTable: part_barcodes
+CREATE TABLE "part_barcodes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "format" "BarcodeFormat" NOT NULL,
+    "isManufacturer" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+
+    CONSTRAINT "part_barcodes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "part_barcodes_code_tenantId_key" ON "part_barcodes"("code", "tenantId");
+CREATE INDEX "part_barcodes_partId_idx" ON "part_barcodes"("partId");
+ALTER TABLE "part_barcodes" ADD CONSTRAINT "part_barcodes_partId_fkey"
+    FOREIGN KEY ("partId") REFERENCES "parts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "part_barcodes" ADD CONSTRAINT "part_barcodes_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
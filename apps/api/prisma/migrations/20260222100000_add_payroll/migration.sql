@@ -0,0 +1,38 @@
+-- CreateTable: payroll_schemes
+CREATE TABLE "payroll_schemes" (
+    "id" TEXT NOT NULL,
+    "fixedSalary" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "laborPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "normHourRate" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "payroll_schemes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "payroll_schemes_userId_key" ON "payroll_schemes"("userId");
+CREATE INDEX "payroll_schemes_tenantId_idx" ON "payroll_schemes"("tenantId");
+ALTER TABLE "payroll_schemes" ADD CONSTRAINT "payroll_schemes_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_schemes" ADD CONSTRAINT "payroll_schemes_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: payroll_repair_type_rates
+CREATE TABLE "payroll_repair_type_rates" (
+    "id" TEXT NOT NULL,
+    "laborPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "normHourRate" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "schemeId" TEXT NOT NULL,
+    "repairTypeId" TEXT NOT NULL,
+
+    CONSTRAINT "payroll_repair_type_rates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "payroll_repair_type_rates_schemeId_repairTypeId_key" ON "payroll_repair_type_rates"("schemeId", "repairTypeId");
+ALTER TABLE "payroll_repair_type_rates" ADD CONSTRAINT "payroll_repair_type_rates_schemeId_fkey"
+    FOREIGN KEY ("schemeId") REFERENCES "payroll_schemes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_repair_type_rates" ADD CONSTRAINT "payroll_repair_type_rates_repairTypeId_fkey"
+    FOREIGN KEY ("repairTypeId") REFERENCES "repair_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
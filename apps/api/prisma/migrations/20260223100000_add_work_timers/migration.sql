@@ -0,0 +1,34 @@
+-- AlterTable: work_logs — работа, по которой засечено время
+ALTER TABLE "work_logs" ADD COLUMN "workOrderItemId" TEXT;
+CREATE INDEX "work_logs_workOrderItemId_idx" ON "work_logs"("workOrderItemId");
+ALTER TABLE "work_logs" ADD CONSTRAINT "work_logs_workOrderItemId_fkey"
+    FOREIGN KEY ("workOrderItemId") REFERENCES "work_order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateEnum
+CREATE TYPE "WorkTimerStatus" AS ENUM ('RUNNING', 'PAUSED');
+
+-- CreateTable: work_timers
+CREATE TABLE "work_timers" (
+    "id" TEXT NOT NULL,
+    "status" "WorkTimerStatus" NOT NULL DEFAULT 'RUNNING',
+    "segmentStartedAt" TIMESTAMP(3),
+    "elapsedSeconds" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "workOrderId" TEXT NOT NULL,
+    "workOrderItemId" TEXT NOT NULL,
+    "mechanicId" TEXT NOT NULL,
+
+    CONSTRAINT "work_timers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "work_timers_workOrderItemId_mechanicId_key" ON "work_timers"("workOrderItemId", "mechanicId");
+CREATE INDEX "work_timers_workOrderId_idx" ON "work_timers"("workOrderId");
+CREATE INDEX "work_timers_mechanicId_idx" ON "work_timers"("mechanicId");
+-- Не больше одного идущего таймера у механика
+CREATE UNIQUE INDEX "work_timers_mechanicId_running_key" ON "work_timers"("mechanicId") WHERE "status" = 'RUNNING';
+ALTER TABLE "work_timers" ADD CONSTRAINT "work_timers_workOrderId_fkey"
+    FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "work_timers" ADD CONSTRAINT "work_timers_workOrderItemId_fkey"
+    FOREIGN KEY ("workOrderItemId") REFERENCES "work_order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "work_timers" ADD CONSTRAINT "work_timers_mechanicId_fkey"
+    FOREIGN KEY ("mechanicId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "ShiftPattern" AS ENUM ('WEEKLY', 'CYCLE');
+CREATE TYPE "AbsenceType" AS ENUM ('VACATION', 'SICK_LEAVE', 'DAY_OFF', 'OTHER');
+
+-- CreateTable: shift_schedules
+CREATE TABLE "shift_schedules" (
+    "id" TEXT NOT NULL,
+    "pattern" "ShiftPattern" NOT NULL DEFAULT 'WEEKLY',
+    "weekDays" INTEGER[],
+    "cycleWorkDays" INTEGER NOT NULL DEFAULT 2,
+    "cycleRestDays" INTEGER NOT NULL DEFAULT 2,
+    "cycleStart" DATE,
+    "startTime" TEXT NOT NULL DEFAULT '09:00',
+    "endTime" TEXT NOT NULL DEFAULT '18:00',
+    "breakMinutes" INTEGER NOT NULL DEFAULT 60,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "shift_schedules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "shift_schedules_userId_key" ON "shift_schedules"("userId");
+CREATE INDEX "shift_schedules_tenantId_idx" ON "shift_schedules"("tenantId");
+ALTER TABLE "shift_schedules" ADD CONSTRAINT "shift_schedules_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "shift_schedules" ADD CONSTRAINT "shift_schedules_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable: absences
+CREATE TABLE "absences" (
+    "id" TEXT NOT NULL,
+    "type" "AbsenceType" NOT NULL,
+    "dateFrom" DATE NOT NULL,
+    "dateTo" DATE NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "absences_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "absences_tenantId_dateFrom_idx" ON "absences"("tenantId", "dateFrom");
+CREATE INDEX "absences_userId_idx" ON "absences"("userId");
+ALTER TABLE "absences" ADD CONSTRAINT "absences_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "absences" ADD CONSTRAINT "absences_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "absences" ADD CONSTRAINT "absences_createdById_fkey"
+    FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable: attendances
+CREATE TABLE "attendances" (
+    "id" TEXT NOT NULL,
+    "clockIn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clockOut" TIMESTAMP(3),
+    "notes" TEXT,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "attendances_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "attendances_tenantId_clockIn_idx" ON "attendances"("tenantId", "clockIn");
+CREATE INDEX "attendances_userId_clockIn_idx" ON "attendances"("userId", "clockIn");
+-- Не больше одной открытой отметки прихода у сотрудника
+CREATE UNIQUE INDEX "attendances_userId_open_key" ON "attendances"("userId") WHERE "clockOut" IS NULL;
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
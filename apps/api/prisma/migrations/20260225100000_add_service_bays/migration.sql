@@ -0,0 +1,30 @@
+-- CreateTable: service_bays (таблица была удалена в 20260205100000_drop_service_bays)
+CREATE TABLE "service_bays" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "tenantId" TEXT NOT NULL,
+
+    CONSTRAINT "service_bays_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "service_bays_name_tenantId_key" ON "service_bays"("name", "tenantId");
+CREATE INDEX "service_bays_tenantId_idx" ON "service_bays"("tenantId");
+ALTER TABLE "service_bays" ADD CONSTRAINT "service_bays_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: appointments
+ALTER TABLE "appointments" ADD COLUMN "serviceBayId" TEXT;
+CREATE INDEX "appointments_serviceBayId_scheduledStart_idx" ON "appointments"("serviceBayId", "scheduledStart");
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_serviceBayId_fkey"
+    FOREIGN KEY ("serviceBayId") REFERENCES "service_bays"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable: work_orders
+ALTER TABLE "work_orders" ADD COLUMN "serviceBayId" TEXT;
+CREATE INDEX "work_orders_serviceBayId_idx" ON "work_orders"("serviceBayId");
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_serviceBayId_fkey"
+    FOREIGN KEY ("serviceBayId") REFERENCES "service_bays"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable: appointments — подтверждённое перебронирование сверх лимитов загрузки
+ALTER TABLE "appointments" ADD COLUMN "overbookedAt" TIMESTAMP(3);
+ALTER TABLE "appointments" ADD COLUMN "overbookConflicts" JSONB;
+ALTER TABLE "appointments" ADD COLUMN "overbookedById" TEXT;
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_overbookedById_fkey"
+    FOREIGN KEY ("overbookedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -7,13 +7,24 @@ import { AuthModule } from './modules/auth/auth.module';
 import { TenantsModule } from './modules/tenants/tenants.module';
 import { UsersModule } from './modules/users/users.module';
 import { ServicesModule } from './modules/services/services.module';
+import { ServiceBaysModule } from './modules/service-bays/service-bays.module';
 import { VehiclesModule } from './modules/vehicles/vehicles.module';
 import { AppointmentsModule } from './modules/appointments/appointments.module';
 import { WorkOrdersModule } from './modules/work-orders/work-orders.module';
 import { PartsModule } from './modules/parts/parts.module';
 import { InventoryModule } from './modules/inventory/inventory.module';
+import { SuppliersModule } from './modules/suppliers/suppliers.module';
+import { PurchaseOrdersModule } from './modules/purchase-orders/purchase-orders.module';
+import { StocktakesModule } from './modules/stocktakes/stocktakes.module';
+import { PricingModule } from './modules/pricing/pricing.module';
+import { FinanceModule } from './modules/finance/finance.module';
+import { PaymentsModule } from './modules/payments/payments.module';
+import { ReturnsModule } from './modules/returns/returns.module';
+import { PayrollModule } from './modules/payroll/payroll.module';
+import { ShiftsModule } from './modules/shifts/shifts.module';
 import { DashboardModule } from './modules/dashboard/dashboard.module';
 import { AiWorkOrderModule } from './modules/ai-work-order/ai-work-order.module';
+import { PublicBookingModule } from './modules/public-booking/public-booking.module';
 import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
 import { RolesGuard } from './common/guards/roles.guard';
 import { TenantScopeInterceptor } from './common/interceptors/tenant-scope.interceptor';
@@ -29,13 +40,24 @@ import { TenantScopeInterceptor } from './common/interceptors/tenant-scope.inter
     TenantsModule,
     UsersModule,
     ServicesModule,
+    ServiceBaysModule,
     VehiclesModule,
     AppointmentsModule,
     WorkOrdersModule,
     PartsModule,
     InventoryModule,
+    SuppliersModule,
+    PurchaseOrdersModule,
+    StocktakesModule,
+    PricingModule,
+    FinanceModule,
+    PaymentsModule,
+    ReturnsModule,
+    PayrollModule,
+    ShiftsModule,
     DashboardModule,
     AiWorkOrderModule,
+    PublicBookingModule,
   ],
   controllers: [AppController],
   providers: [
@@ -2,3 +2,4 @@ export { CurrentUser, type CurrentUserData } from './current-user.decorator';
 export { CurrentTenant } from './current-tenant.decorator';
 export { Roles, ROLES_KEY } from './roles.decorator';
 export { Public, IS_PUBLIC_KEY } from './public.decorator';
+export { RateLimit, RATE_LIMIT_KEY, type RateLimitOptions } from './rate-limit.decorator';
@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+export type RateLimitOptions = {
+  /** Сколько запросов разрешено за окно */
+  limit: number;
+  /** Длина окна, мс */
+  windowMs: number;
+};
+
+/**
+ * Ограничение частоты запросов с одного IP, проверяется RateLimitGuard.
+ * Использование: @RateLimit({ limit: 5, windowMs: 60_000 })
+ */
+export const RateLimit = (options: RateLimitOptions) => SetMetadata(RATE_LIMIT_KEY, options);
@@ -1,2 +1,3 @@
 export { JwtAuthGuard } from './jwt-auth.guard';
 export { RolesGuard } from './roles.guard';
+export { RateLimitGuard } from './rate-limit.guard';
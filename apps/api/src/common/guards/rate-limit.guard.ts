@@ -0,0 +1,50 @@
+import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_KEY, type RateLimitOptions } from '../decorators';
+
+/**
+ * Счётчик запросов в памяти процесса по IP и эндпоинту (фиксированное окно).
+ * Для публичных эндпоинтов без JWT; подключается через @UseGuards(RateLimitGuard) вместе с @RateLimit.
+ * За nginx IP берётся из X-Real-IP.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly hits = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const ip = request.headers['x-real-ip'] || request.ip;
+    const key = `${context.getClass().name}.${context.getHandler().name}:${ip}`;
+    const now = Date.now();
+
+    if (this.hits.size > 10_000) {
+      for (const [k, v] of this.hits) {
+        if (v.resetAt <= now) this.hits.delete(k);
+      }
+    }
+
+    const entry = this.hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      this.hits.set(key, { count: 1, resetAt: now + options.windowMs });
+      return true;
+    }
+
+    if (entry.count >= options.limit) {
+      throw new HttpException('Слишком много запросов — попробуйте позже', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    entry.count++;
+    return true;
+  }
+}
@@ -0,0 +1,349 @@
+import { deflateSync } from 'zlib';
+import { dirname, join } from 'path';
+import { openSync, type Font, type Glyph, type Subset } from 'fontkit';
+
+export type LabelBarcodeFormat = 'EAN13' | 'EAN8' | 'CODE128';
+
+export type Label = {
+  title: string;
+  subtitle?: string | null;
+  price?: number | null;
+  code: string;
+  format: LabelBarcodeFormat;
+};
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+// Лист A4 самоклеящихся этикеток 70 × 37 мм: 3 колонки × 8 рядов, без полей
+const MM = 72 / 25.4;
+const PAGE_WIDTH = 210 * MM;
+const PAGE_HEIGHT = 297 * MM;
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = PAGE_WIDTH / COLUMNS;
+const LABEL_HEIGHT = PAGE_HEIGHT / ROWS;
+const PADDING = 8;
+
+/**
+ * Лист этикеток PDF: штрихкод рисуется прямоугольниками, текст — шрифтом DejaVu Sans
+ * Condensed. В файл встраивается подмножество шрифта только с использованными
+ * глифами, поэтому кириллица печатается как есть, а PDF остаётся лёгким.
+ */
+export function buildLabelsPdf(labels: Label[]): Buffer {
+  const fonts: LabelFonts = {
+    regular: new EmbeddedFont('F1', loadFont(FONT_REGULAR)),
+    bold: new EmbeddedFont('F2', loadFont(FONT_BOLD)),
+  };
+  const perPage = COLUMNS * ROWS;
+  const pages: string[] = [];
+  for (let start = 0; start < Math.max(labels.length, 1); start += perPage) {
+    pages.push(
+      labels
+        .slice(start, start + perPage)
+        .map((label, i) => {
+          const x = (i % COLUMNS) * LABEL_WIDTH;
+          const y = PAGE_HEIGHT - (Math.floor(i / COLUMNS) + 1) * LABEL_HEIGHT;
+          return drawLabel(label, x, y, fonts);
+        })
+        .join('\n'),
+    );
+  }
+  return pdf(pages, [fonts.regular, fonts.bold]);
+}
+
+function drawLabel(label: Label, x: number, y: number, fonts: LabelFonts): string {
+  const width = LABEL_WIDTH - PADDING * 2;
+  const left = x + PADDING;
+  const top = y + LABEL_HEIGHT - PADDING;
+  const ops: string[] = [];
+
+  const titleLines = wrap(label.title, fonts.bold, 8, width).slice(0, 2);
+  titleLines.forEach((line, i) => ops.push(text(line, fonts.bold, left, top - 8 - i * 9, 8)));
+  if (label.subtitle) {
+    ops.push(text(fit(label.subtitle, fonts.regular, 7, width), fonts.regular, left, top - 8 - titleLines.length * 9, 7));
+  }
+
+  // Штрихкод с тихими зонами по 10 модулей, не шире 1.5 pt на модуль
+  const modules = encode(label.code, label.format);
+  const moduleWidth = Math.min(1.5, width / (modules.length + 20));
+  const barsLeft = left + (width - modules.length * moduleWidth) / 2;
+  const barsBottom = y + PADDING + 10;
+  const barsHeight = top - 8 - (titleLines.length + (label.subtitle ? 1 : 0)) * 9 - 4 - barsBottom;
+  ops.push('0 g');
+  for (let i = 0; i < modules.length; ) {
+    if (modules[i] !== '1') {
+      i++;
+      continue;
+    }
+    let run = 1;
+    while (modules[i + run] === '1') run++;
+    ops.push(`${num(barsLeft + i * moduleWidth)} ${num(barsBottom)} ${num(run * moduleWidth)} ${num(barsHeight)} re`);
+    i += run;
+  }
+  ops.push('f');
+
+  ops.push(text(label.code, fonts.regular, left, y + PADDING, 7));
+  if (label.price !== null && label.price !== undefined) {
+    const price = `${formatPrice(label.price)} ₽`;
+    ops.push(text(price, fonts.bold, left + width - fonts.bold.width(price, 9), y + PADDING, 9));
+  }
+  return ops.join('\n');
+}
+
+// --- Barcode encoding (строка модулей: 1 — штрих, 0 — пробел) ---
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = EAN_L.map((p) => p.replace(/./g, (c) => (c === '0' ? '1' : '0')));
+const EAN_G = EAN_R.map((p) => p.split('').reverse().join(''));
+// Чётность левой половины EAN-13 по первой цифре
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Ширины штрихов/пробелов символов Code128 (значения 0–105), стоп-символ отдельно
+const CODE128 = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = '2331112';
+
+function encode(code: string, format: LabelBarcodeFormat): string {
+  const d = code.split('').map(Number);
+  switch (format) {
+    case 'EAN13': {
+      const parity = EAN13_PARITY[d[0]];
+      const left = d.slice(1, 7).map((n, i) => (parity[i] === 'L' ? EAN_L : EAN_G)[n]).join('');
+      return `101${left}01010${d.slice(7).map((n) => EAN_R[n]).join('')}101`;
+    }
+    case 'EAN8':
+      return `101${d.slice(0, 4).map((n) => EAN_L[n]).join('')}01010${d.slice(4).map((n) => EAN_R[n]).join('')}101`;
+    case 'CODE128': {
+      const values = [CODE128_START_B, ...code.split('').map((c) => c.charCodeAt(0) - 32)];
+      const checksum = values.reduce((s, v, i) => s + v * (i || 1), 0) % 103;
+      return [...values, checksum].map((v) => bars(CODE128[v])).join('') + bars(CODE128_STOP);
+    }
+  }
+}
+
+function bars(widths: string): string {
+  return widths
+    .split('')
+    .map((w, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(w)))
+    .join('');
+}
+
+// --- Text ---
+
+const FONT_REGULAR = 'DejaVuSansCondensed.ttf';
+const FONT_BOLD = 'DejaVuSansCondensed-Bold.ttf';
+const fontCache = new Map<string, Font>();
+
+type LabelFonts = { regular: EmbeddedFont; bold: EmbeddedFont };
+
+function loadFont(file: string): Font {
+  let font = fontCache.get(file);
+  if (!font) {
+    const dir = join(dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+    font = openSync(join(dir, file)) as Font;
+    fontCache.set(file, font);
+  }
+  return font;
+}
+
+/** Шрифт документа: копит использованные глифы, чтобы встроить только их */
+class EmbeddedFont {
+  readonly subset: Subset;
+  // Номер глифа в подмножестве → ширина (1/1000 кегля) и символы для копирования текста
+  readonly widths = new Map<number, number>();
+  readonly unicode = new Map<number, number[]>();
+
+  constructor(
+    readonly resource: string,
+    readonly font: Font,
+  ) {
+    this.subset = font.createSubset();
+  }
+
+  width(value: string, size: number): number {
+    const units = this.font.layout(value).glyphs.reduce((sum, g) => sum + g.advanceWidth, 0);
+    return (units / this.font.unitsPerEm) * size;
+  }
+
+  /** Строка в кодах глифов подмножества (Identity-H) для оператора Tj */
+  encode(value: string): string {
+    return this.font
+      .layout(value)
+      .glyphs.map((glyph) => {
+        const gid = this.include(glyph);
+        this.widths.set(gid, Math.round((glyph.advanceWidth / this.font.unitsPerEm) * 1000));
+        this.unicode.set(gid, glyph.codePoints);
+        return gid.toString(16).padStart(4, '0');
+      })
+      .join('');
+  }
+
+  private include(glyph: Glyph): number {
+    // В типах fontkit includeGlyph возвращает boolean, на деле — номер глифа в подмножестве
+    return this.subset.includeGlyph(glyph) as unknown as number;
+  }
+}
+
+function fit(value: string, font: EmbeddedFont, size: number, width: number): string {
+  if (font.width(value, size) <= width) return value;
+  let chars = value.length;
+  while (chars > 1 && font.width(`${value.slice(0, chars)}…`, size) > width) chars--;
+  return `${value.slice(0, chars).trimEnd()}…`;
+}
+
+function wrap(value: string, font: EmbeddedFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && font.width(next, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  // Последняя видимая строка обрезается, если текст не поместился в две
+  if (lines.length > 2) lines[1] = fit(`${lines[1]} ${lines.slice(2).join(' ')}`, font, size, width);
+  return lines.map((l) => fit(l, font, size, width));
+}
+
+function text(value: string, font: EmbeddedFont, x: number, y: number, size: number): string {
+  return `BT /${font.resource} ${size} Tf ${num(x)} ${num(y)} Td <${font.encode(value)}> Tj ET`;
+}
+
+function formatPrice(price: number): string {
+  const [int, frac] = price.toFixed(2).split('.');
+  return `${int.replace(/\B(?=(\d{3})+(?!\d))/g, ' ')}${frac === '00' ? '' : `.${frac}`}`;
+}
+
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+// --- PDF container ---
+
+function pdf(pages: string[], fonts: EmbeddedFont[]): Buffer {
+  const objects: Buffer[] = [];
+  const pageIds = pages.map((_, i) => 3 + i * 2);
+  // Каждый шрифт — пять объектов после страниц, см. fontObjects
+  const fontIds = fonts.map((_, i) => 3 + pages.length * 2 + i * 5);
+  const fontResources = fonts.map((font, i) => `/${font.resource} ${fontIds[i]} 0 R`).join(' ');
+
+  objects.push(Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`));
+  pages.forEach((content, i) => {
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+          `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      ),
+    );
+    objects.push(stream(Buffer.from(content, 'latin1')));
+  });
+  fonts.forEach((font, i) => objects.push(...fontObjects(font, fontIds[i])));
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+  chunks.push(Buffer.from(xref));
+  return Buffer.concat(chunks);
+}
+
+function stream(data: Buffer, extra = ''): Buffer {
+  const packed = deflateSync(data);
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${packed.length} /Filter /FlateDecode${extra} >>\nstream\n`),
+    packed,
+    Buffer.from('\nendstream'),
+  ]);
+}
+
+/** Type0-шрифт: сам шрифт, CIDFont, дескриптор, файл подмножества и ToUnicode для копирования текста */
+function fontObjects(font: EmbeddedFont, id: number): Buffer[] {
+  const face = font.font;
+  const scale = (value: number) => Math.round((value / face.unitsPerEm) * 1000);
+  // Префикс из шести заглавных букв — признак подмножества шрифта
+  const name = `LABEL${String.fromCharCode(64 + Number(font.resource.slice(1)))}+${face.postscriptName}`;
+  const bbox = [face.bbox.minX, face.bbox.minY, face.bbox.maxX, face.bbox.maxY].map(scale).join(' ');
+  const widths = [...font.widths]
+    .sort(([a], [b]) => a - b)
+    .map(([gid, width]) => `${gid} [${width}]`)
+    .join(' ');
+  const file = Buffer.from(font.subset.encode());
+
+  return [
+    Buffer.from(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H ` +
+        `/DescendantFonts [${id + 1} 0 R] /ToUnicode ${id + 4} 0 R >>`,
+    ),
+    Buffer.from(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+        `/FontDescriptor ${id + 2} 0 R /CIDToGIDMap /Identity /DW 1000 /W [${widths}] >>`,
+    ),
+    Buffer.from(
+      `<< /Type /FontDescriptor /FontName /${name} /Flags 32 /FontBBox [${bbox}] ` +
+        `/ItalicAngle ${face.italicAngle} /Ascent ${scale(face.ascent)} /Descent ${scale(face.descent)} ` +
+        `/CapHeight ${scale(face.capHeight || face.ascent)} /StemV 80 /FontFile2 ${id + 3} 0 R >>`,
+    ),
+    stream(file, ` /Length1 ${file.length}`),
+    stream(Buffer.from(toUnicode(font.unicode))),
+  ];
+}
+
+function toUnicode(map: Map<number, number[]>): string {
+  const hex = (codePoints: number[]) =>
+    Buffer.from(String.fromCodePoint(...codePoints), 'utf16le').swap16().toString('hex');
+  const entries = [...map].filter(([, codePoints]) => codePoints.length > 0);
+  const blocks: string[] = [];
+  // В одном блоке bfchar — не больше 100 записей
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(
+      `${chunk.length} beginbfchar\n` +
+        chunk.map(([gid, codePoints]) => `<${gid.toString(16).padStart(4, '0')}> <${hex(codePoints)}>`).join('\n') +
+        '\nendbfchar',
+    );
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
@@ -62,8 +62,20 @@ const TENANT_MODELS = new Set([
   'Appointment',
   'WorkOrder',
   'Part',
+  'PartAnalogGroup',
+  'PartBarcode',
+  'PayrollScheme',
+  'ShiftSchedule',
+  'Absence',
+  'Attendance',
+  'Supplier',
   'PurchaseOrder',
+  'MarkupRule',
+  'Stocktake',
   'Transaction',
+  'Payment',
+  'ClientReturn',
+  'SupplierReturn',
 ]);
 
 function hasTenantId(model: string | undefined): boolean {
@@ -165,6 +165,10 @@ class AdjustDto {
   @ValidateNested({ each: true })
   @Type(() => AdjustCurrentPartDto)
   currentParts!: AdjustCurrentPartDto[];
+
+  @IsOptional()
+  @IsUUID()
+  clientId?: string;
 }
 
 // --- Controller ---
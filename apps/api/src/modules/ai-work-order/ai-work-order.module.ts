@@ -7,9 +7,10 @@ import { WorkOrdersModule } from '../work-orders/work-orders.module';
 import { AppointmentsModule } from '../appointments/appointments.module';
 import { UsersModule } from '../users/users.module';
 import { VehiclesModule } from '../vehicles/vehicles.module';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
-  imports: [WorkOrdersModule, AppointmentsModule, UsersModule, VehiclesModule, ConfigModule],
+  imports: [WorkOrdersModule, AppointmentsModule, UsersModule, VehiclesModule, PricingModule, ConfigModule],
   controllers: [AiWorkOrderController],
   providers: [AiWorkOrderService, SpravochnikService],
 })
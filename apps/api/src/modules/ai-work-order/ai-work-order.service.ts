@@ -7,6 +7,7 @@ import { WorkOrdersService } from '../work-orders/work-orders.service';
 import { AppointmentsService } from '../appointments/appointments.service';
 import { UsersService } from '../users/users.service';
 import { VehiclesService } from '../vehicles/vehicles.service';
+import { PricingService } from '../pricing/pricing.service';
 import { buildParseOnlyPrompt, buildSystemPrompt, buildAdjustPrompt, buildServiceMatchPrompt, type VehicleHistoryEntry } from './ai-prompt';
 import { SpravochnikService } from './spravochnik.service';
 
@@ -42,6 +43,7 @@ export class AiWorkOrderService {
     private readonly usersService: UsersService,
     private readonly vehiclesService: VehiclesService,
     private readonly spravochnikService: SpravochnikService,
+    private readonly pricingService: PricingService,
   ) {
     const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
     if (!apiKey) {
@@ -58,6 +60,17 @@ export class AiWorkOrderService {
     this.anthropic = new Anthropic(opts);
   }
 
+  /** Цены запчастей для группы клиента — те же, что подставит наряд; без клиента остаётся базовая цена */
+  private async withClientPrices<T extends { partId: string; sellPrice: number }>(
+    tenantId: string,
+    clientId: string | null | undefined,
+    parts: T[],
+  ): Promise<T[]> {
+    if (!clientId || parts.length === 0) return parts;
+    const prices = await this.pricingService.getPartPrices(tenantId, parts.map((p) => p.partId), clientId);
+    return parts.map((p) => ({ ...p, sellPrice: prices.get(p.partId)?.sellPrice ?? p.sellPrice }));
+  }
+
   /**
    * Запрашивает историю использования запчастей по марке+модели из прошлых ЗН.
    * Группирует: какие запчасти использовались при каких работах.
@@ -341,7 +354,7 @@ export class AiWorkOrderService {
 
         const fullPrompt = buildSystemPrompt(
           services.map((s) => ({ ...s, price: Number(s.price), normHours: s.normHours ? Number(s.normHours) : null })),
-          parts.map((p) => ({ ...p, sellPrice: Number(p.sellPrice) })),
+          parts.map((p) => ({ ...p, sellPrice: Number(p.sellPrice), currentStock: Number(p.currentStock) })),
           mechanics,
         );
 
@@ -368,7 +381,7 @@ export class AiWorkOrderService {
 
           finalParts = (p2.suggestedParts || []).filter((p) => partIds.has(p.partId)).map((p) => {
             const part = parts.find((pt) => pt.id === p.partId);
-            return { partId: p.partId, name: part?.name || p.name, sku: part?.sku || null, sellPrice: Number(part?.sellPrice ?? p.sellPrice), quantity: p.quantity || 1, inStock: (part?.currentStock ?? 0) >= (p.quantity || 1) };
+            return { partId: p.partId, name: part?.name || p.name, sku: part?.sku || null, sellPrice: Number(part?.sellPrice ?? p.sellPrice), quantity: p.quantity || 1, inStock: Number(part?.currentStock ?? 0) >= (p.quantity || 1) };
           });
         }
       } catch (e) {
@@ -405,7 +418,7 @@ export class AiWorkOrderService {
       },
       clientComplaints: complaint,
       suggestedServices: finalServices,
-      suggestedParts: finalParts,
+      suggestedParts: await this.withClientPrices(tenantId, existingClient?.id, finalParts),
       suggestedMechanic: suggestedMechanic
         ? {
             mechanicId: suggestedMechanic.id,
@@ -486,7 +499,8 @@ export class AiWorkOrderService {
         serviceId: svc.serviceId,
       });
     }
-    for (const part of data.parts) {
+    // Цену запчастей не берём из превью — считаем по группе клиента, как при добавлении в наряд
+    for (const part of await this.withClientPrices(tenantId, clientId, data.parts)) {
       plannedItems.push({
         type: 'PART',
         description: part.name,
@@ -496,7 +510,8 @@ export class AiWorkOrderService {
       });
     }
 
-    // 4. Create appointment with advisor = current user
+    // 4. Create appointment with advisor = current user.
+    // Клиент уже на приёмке — запись создаётся и сверх лимитов загрузки, с отметкой о перебронировании
     const now = new Date();
     const oneHourLater = new Date(now.getTime() + 60 * 60 * 1000);
     const appointment = await this.appointmentsService.create(tenantId, {
@@ -507,6 +522,8 @@ export class AiWorkOrderService {
       scheduledEnd: oneHourLater.toISOString(),
       notes: data.clientComplaints,
       source: 'ai',
+      forceOverbook: true,
+      userId,
     });
 
     // 5. Update with plannedItems
@@ -528,6 +545,7 @@ export class AiWorkOrderService {
       complaint: string;
       currentServices: { serviceId: string; name: string }[];
       currentParts: { partId: string; name: string }[];
+      clientId?: string;
     },
   ) {
     // 1. Try spravochnik first (AI selects services from available list)
@@ -594,7 +612,7 @@ export class AiWorkOrderService {
 
             return {
               suggestedServices,
-              suggestedParts: [...uniqueParts.values()].map((p) => ({
+              suggestedParts: await this.withClientPrices(tenantId, data.clientId, [...uniqueParts.values()].map((p) => ({
                 partId: p.partId!,
                 name: p.partName,
                 sku: p.partSku || null,
@@ -602,7 +620,7 @@ export class AiWorkOrderService {
                 quantity: 1,
                 inStock: p.currentStock > 0,
                 usageCount: p.usageCount,
-              })),
+              }))),
               explanation: 'Подобрано из справочника на основе истории обслуживания',
               spravochnikUsed: true,
             };
@@ -676,7 +694,7 @@ export class AiWorkOrderService {
       data.currentServices,
       data.currentParts,
       allServices.map((s) => ({ ...s, price: Number(s.price), normHours: s.normHours ? Number(s.normHours) : null })),
-      allParts.map((p) => ({ ...p, sellPrice: Number(p.sellPrice) })),
+      allParts.map((p) => ({ ...p, sellPrice: Number(p.sellPrice), currentStock: Number(p.currentStock) })),
       vehicleHistory,
     );
 
@@ -715,10 +733,10 @@ export class AiWorkOrderService {
         const svc = allServices.find((sv) => sv.id === s.serviceId);
         return { serviceId: s.serviceId, name: svc?.name || s.name, price: Number(svc?.price ?? s.price), normHours: svc?.normHours ? Number(svc.normHours) : s.normHours };
       }),
-      suggestedParts: validParts.map((p: any) => {
+      suggestedParts: await this.withClientPrices(tenantId, data.clientId, validParts.map((p: any) => {
         const part = allParts.find((pt) => pt.id === p.partId);
-        return { partId: p.partId, name: part?.name || p.name, sellPrice: Number(part?.sellPrice ?? p.sellPrice), quantity: p.quantity || 1, inStock: (part?.currentStock ?? 0) >= (p.quantity || 1) };
-      }),
+        return { partId: p.partId, name: part?.name || p.name, sellPrice: Number(part?.sellPrice ?? p.sellPrice), quantity: p.quantity || 1, inStock: Number(part?.currentStock ?? 0) >= (p.quantity || 1) };
+      })),
       explanation: aiParsed.explanation || '',
       spravochnikUsed: false,
     };
@@ -262,7 +262,7 @@ export class SpravochnikService implements OnModuleInit {
             partBrand: p.partBrand,
             avgPrice: Number(p.avgPrice),
             usageCount: Number(p.usageCount),
-            currentStock: realPart?.currentStock ?? 0,
+            currentStock: Number(realPart?.currentStock ?? 0),
             currentPrice: realPart ? Number(realPart.sellPrice) : Number(p.avgPrice),
             isActive: realPart?.isActive ?? false,
           };
@@ -0,0 +1,174 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { BAY_BOOKING_APPOINTMENT_STATUSES } from '../service-bays/service-bays.service';
+import { Prisma } from '@prisma/client';
+import { zonedTimeLabel } from '@sto-crm/shared';
+
+/** Лимиты параллельных записей; null — без ограничения */
+export type AppointmentCapacityRules = {
+  /** Записей, пересекающихся с одним часом (10:00–11:00) */
+  maxPerHour: number | null;
+  /** Одновременных записей у одного приёмщика */
+  maxPerAdvisor: number | null;
+  /** Одновременных записей на одном посту */
+  maxPerBay: number | null;
+};
+
+/** По умолчанию ограничен только пост: одна машина в один момент */
+export const DEFAULT_CAPACITY_RULES: AppointmentCapacityRules = { maxPerHour: null, maxPerAdvisor: null, maxPerBay: 1 };
+
+export type CapacityRule = 'hour' | 'advisor' | 'bay';
+
+const conflictInclude = {
+  client: { select: { firstName: true, lastName: true } },
+  vehicle: { select: { make: true, model: true } },
+} satisfies Prisma.AppointmentInclude;
+
+type CapacityAppointment = {
+  id: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  advisorId: string | null;
+  serviceBayId: string | null;
+};
+
+export type CapacityConflict<T extends CapacityAppointment = CapacityAppointment> = {
+  rule: CapacityRule;
+  limit: number;
+  appointments: T[];
+};
+
+const HOUR_MS = 3_600_000;
+
+const RULE_LABELS: Record<CapacityRule, string> = {
+  hour: 'записей в час',
+  advisor: 'записей у приёмщика',
+  bay: 'записей на посту',
+};
+
+/**
+ * Какие лимиты нарушит запись на интервал [start, end) среди уже существующих записей.
+ * Лимит нарушен, когда пересекающихся записей уже столько, сколько разрешено.
+ */
+export function findCapacityConflicts<T extends CapacityAppointment>(
+  rules: AppointmentCapacityRules,
+  candidate: { start: Date; end: Date; advisorId?: string | null; serviceBayId?: string | null },
+  appointments: T[],
+): CapacityConflict<T>[] {
+  const overlapping = appointments.filter((a) => a.scheduledStart < candidate.end && a.scheduledEnd > candidate.start);
+  const conflicts: CapacityConflict<T>[] = [];
+
+  if (rules.maxPerHour != null) {
+    const clashing = new Set<T>();
+    const firstHour = Math.floor(candidate.start.getTime() / HOUR_MS) * HOUR_MS;
+    for (let hour = firstHour; hour < candidate.end.getTime(); hour += HOUR_MS) {
+      const inHour = overlapping.filter((a) => a.scheduledStart.getTime() < hour + HOUR_MS && a.scheduledEnd.getTime() > hour);
+      if (inHour.length >= rules.maxPerHour) inHour.forEach((a) => clashing.add(a));
+    }
+    if (clashing.size > 0) conflicts.push({ rule: 'hour', limit: rules.maxPerHour, appointments: [...clashing] });
+  }
+
+  if (rules.maxPerAdvisor != null && candidate.advisorId) {
+    const same = overlapping.filter((a) => a.advisorId === candidate.advisorId);
+    if (same.length >= rules.maxPerAdvisor) conflicts.push({ rule: 'advisor', limit: rules.maxPerAdvisor, appointments: same });
+  }
+
+  if (rules.maxPerBay != null && candidate.serviceBayId) {
+    const same = overlapping.filter((a) => a.serviceBayId === candidate.serviceBayId);
+    if (same.length >= rules.maxPerBay) conflicts.push({ rule: 'bay', limit: rules.maxPerBay, appointments: same });
+  }
+
+  return conflicts;
+}
+
+@Injectable()
+export class AppointmentCapacityService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Лимиты из Tenant.settings.appointmentCapacity, иначе — по умолчанию */
+  async getRules(tenantId: string): Promise<{ rules: AppointmentCapacityRules; isDefault: boolean }> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    const rules = ((tenant?.settings ?? {}) as Record<string, any>).appointmentCapacity;
+    if (!rules) return { rules: DEFAULT_CAPACITY_RULES, isDefault: true };
+    return { rules: { ...DEFAULT_CAPACITY_RULES, ...rules }, isDefault: false };
+  }
+
+  /** null возвращает лимиты по умолчанию */
+  async updateRules(
+    tenantId: string,
+    rules: AppointmentCapacityRules | null,
+  ): Promise<{ rules: AppointmentCapacityRules; isDefault: boolean }> {
+    if (rules && Object.values(rules).some((v) => v != null && v < 1)) {
+      throw new BadRequestException('Лимит должен быть не меньше 1');
+    }
+
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    const { appointmentCapacity: _, ...settings } = (tenant?.settings ?? {}) as Record<string, any>;
+    const value = rules
+      ? { maxPerHour: rules.maxPerHour ?? null, maxPerAdvisor: rules.maxPerAdvisor ?? null, maxPerBay: rules.maxPerBay ?? null }
+      : null;
+
+    await this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { settings: (value ? { ...settings, appointmentCapacity: value } : settings) as Prisma.InputJsonObject },
+    });
+    return this.getRules(tenantId);
+  }
+
+  /**
+   * Нарушения лимитов для записи на интервал; excludeAppointmentId — сама запись при переносе.
+   * Завершённые, отменённые и неявки загрузку не создают. db — транзакция, если запись
+   * сохраняется под блокировкой (см. AppointmentsService.withCapacityLock).
+   */
+  async findConflicts(
+    tenantId: string,
+    candidate: { start: Date; end: Date; advisorId?: string | null; serviceBayId?: string | null },
+    excludeAppointmentId?: string,
+    db: any = this.prisma,
+  ) {
+    const { rules } = await this.getRules(tenantId);
+    // Для лимита в час нужны записи по границам затронутых часов, а не только самого интервала
+    const from = new Date(Math.floor(candidate.start.getTime() / HOUR_MS) * HOUR_MS);
+    const to = new Date(Math.ceil(candidate.end.getTime() / HOUR_MS) * HOUR_MS);
+    const appointments: Prisma.AppointmentGetPayload<{ include: typeof conflictInclude }>[] = await db.appointment.findMany({
+      where: {
+        tenantId,
+        status: { in: BAY_BOOKING_APPOINTMENT_STATUSES },
+        scheduledStart: { lt: to },
+        scheduledEnd: { gt: from },
+        ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+      },
+      include: conflictInclude,
+      orderBy: { scheduledStart: 'asc' },
+    });
+    return findCapacityConflicts(rules, candidate, appointments);
+  }
+
+  /**
+   * Ошибка 409 со списком пересекающихся записей — клиент может повторить запрос с forceOverbook.
+   * Время в тексте — в поясе автосервиса
+   */
+  throwConflict(conflicts: Awaited<ReturnType<AppointmentCapacityService['findConflicts']>>, timeZone: string): never {
+    const clashing = new Map(conflicts.flatMap((c) => c.appointments).map((a) => [a.id, a]));
+    const rules = conflicts.map((c) => `${RULE_LABELS[c.rule]} — не больше ${c.limit}`).join(', ');
+    const list = [...clashing.values()]
+      .map((a) => `${zonedTimeLabel(a.scheduledStart, timeZone)}–${zonedTimeLabel(a.scheduledEnd, timeZone)} ${a.client.lastName} ${a.client.firstName} (${a.vehicle.make} ${a.vehicle.model})`)
+      .join('; ');
+
+    throw new ConflictException({
+      statusCode: 409,
+      message: `Превышен лимит загрузки (${rules}). Пересекается с: ${list}`,
+      details: {
+        overbooking: true,
+        conflicts: conflicts.map((c) => ({ rule: c.rule, limit: c.limit, appointmentIds: c.appointments.map((a) => a.id) })),
+        appointments: [...clashing.values()].map((a) => ({
+          id: a.id,
+          scheduledStart: a.scheduledStart,
+          scheduledEnd: a.scheduledEnd,
+          client: a.client,
+          vehicle: a.vehicle,
+        })),
+      },
+    });
+  }
+}
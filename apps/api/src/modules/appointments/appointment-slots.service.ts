@@ -0,0 +1,149 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { ShiftsService } from '../shifts/shifts.service';
+import { BAY_BOOKING_APPOINTMENT_STATUSES } from '../service-bays/service-bays.service';
+import { AppointmentCapacityService, findCapacityConflicts } from './appointment-capacity.service';
+import { addDaysToKey, weekdayOfKey, zonedDateTime } from '@sto-crm/shared';
+
+/** Длительность записи без выбранных услуг */
+const DEFAULT_DURATION_MINUTES = 60;
+
+const MAX_RANGE_DAYS = 31;
+
+const DAY_MS = 86_400_000;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type AppointmentSlot = {
+  start: Date;
+  end: Date;
+  /** Первый свободный пост — подставляется в запись; null, если посты не заведены */
+  serviceBayId: string | null;
+  serviceBayName: string | null;
+};
+
+function parseTime(value: string): number {
+  const [h, m] = String(value).split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+/** «ГГГГ-ММ-ДД» — день автосервиса, время режима работы отсчитывается в его часовом поясе */
+function parseDateKey(value: string): string {
+  const key = value.slice(0, 10);
+  if (!DATE_KEY_PATTERN.test(key) || Number.isNaN(new Date(`${key}T00:00:00Z`).getTime())) {
+    throw new BadRequestException('Некорректная дата');
+  }
+  return key;
+}
+
+@Injectable()
+export class AppointmentSlotsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shiftsService: ShiftsService,
+    private readonly capacityService: AppointmentCapacityService,
+  ) {}
+
+  /**
+   * Свободные слоты под набор услуг за период (даты включительно).
+   *
+   * Слот подходит, если он целиком в режиме работы автосервиса, машина в это время
+   * не записана, не превышен лимит записей в час, есть пост с запасом по лимиту
+   * (если посты заведены) и механиков на смене больше, чем уже пересекающихся записей
+   * (если графики механиков заведены).
+   */
+  async findSlots(
+    tenantId: string,
+    params: { from: string; to: string; serviceIds?: string[]; vehicleId?: string; step?: number },
+  ): Promise<{ durationMinutes: number; slots: AppointmentSlot[] }> {
+    if (!params.from || !params.to) throw new BadRequestException('Укажите период');
+    const timeZone = await this.shiftsService.getTimeZone(tenantId);
+    const firstDay = parseDateKey(params.from);
+    const lastDay = parseDateKey(params.to);
+    const from = zonedDateTime(firstDay, 0, timeZone);
+    const toExclusive = zonedDateTime(addDaysToKey(lastDay, 1), 0, timeZone);
+    if (from >= toExclusive) throw new BadRequestException('Начало периода должно быть раньше конца');
+    if (toExclusive.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Период подбора слотов — не больше ${MAX_RANGE_DAYS} дней`);
+    }
+    const step = params.step && params.step >= 5 ? params.step : 30;
+
+    const durationMinutes = await this.getDurationMinutes(tenantId, params.serviceIds ?? []);
+    const schedule = await this.shiftsService.getWorkSchedule(tenantId);
+    const { rules } = await this.capacityService.getRules(tenantId);
+
+    const [bays, appointments, mechanicsConfigured] = await Promise.all([
+      this.prisma.serviceBay.findMany({
+        where: { tenantId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.appointment.findMany({
+        where: {
+          tenantId,
+          status: { in: BAY_BOOKING_APPOINTMENT_STATUSES },
+          scheduledStart: { lt: toExclusive },
+          scheduledEnd: { gt: from },
+        },
+        select: { id: true, scheduledStart: true, scheduledEnd: true, advisorId: true, serviceBayId: true, vehicleId: true },
+      }),
+      this.shiftsService.hasMechanicSchedules(tenantId),
+    ]);
+    const shifts = mechanicsConfigured
+      ? await this.shiftsService.getShiftWindows(tenantId, from, toExclusive, 'MECHANIC')
+      : [];
+
+    const now = new Date();
+    const slots: AppointmentSlot[] = [];
+    for (let day = firstDay; day <= lastDay; day = addDaysToKey(day, 1)) {
+      if (!schedule.workDays.includes(weekdayOfKey(day))) continue;
+      const close = zonedDateTime(day, parseTime(schedule.endTime), timeZone).getTime();
+
+      for (
+        let startMs = zonedDateTime(day, parseTime(schedule.startTime), timeZone).getTime();
+        startMs + durationMinutes * 60_000 <= close;
+        startMs += step * 60_000
+      ) {
+        const start = new Date(startMs);
+        const end = new Date(startMs + durationMinutes * 60_000);
+        if (start < now) continue;
+
+        const overlapping = appointments.filter((a) => a.scheduledStart < end && a.scheduledEnd > start);
+        if (params.vehicleId && overlapping.some((a) => a.vehicleId === params.vehicleId)) continue;
+        if (findCapacityConflicts(rules, { start, end }, appointments).length > 0) continue;
+
+        if (mechanicsConfigured) {
+          const mechanics = new Set(shifts.filter((w) => w.start <= start && w.end >= end).map((w) => w.user.id));
+          if (mechanics.size <= overlapping.length) continue;
+        }
+
+        let bay: { id: string; name: string } | undefined;
+        if (bays.length > 0) {
+          const perBay = rules.maxPerBay ?? Infinity;
+          const freeBays = bays.filter((b) => overlapping.filter((a) => a.serviceBayId === b.id).length < perBay);
+          // Записи без поста тоже займут какой-то из свободных постов
+          const unassigned = overlapping.filter((a) => !a.serviceBayId || !bays.some((b) => b.id === a.serviceBayId));
+          if (freeBays.length <= unassigned.length) continue;
+          bay = freeBays[0];
+        }
+
+        slots.push({ start, end, serviceBayId: bay?.id ?? null, serviceBayName: bay?.name ?? null });
+      }
+    }
+
+    return { durationMinutes, slots };
+  }
+
+  // --- Helpers ---
+
+  /** Длительность по нормативам услуг (Service.estimatedMinutes) */
+  private async getDurationMinutes(tenantId: string, serviceIds: string[]): Promise<number> {
+    if (serviceIds.length === 0) return DEFAULT_DURATION_MINUTES;
+    const services = await this.prisma.service.findMany({
+      where: { tenantId, id: { in: serviceIds }, isActive: true },
+      select: { id: true, estimatedMinutes: true },
+    });
+    if (services.length !== new Set(serviceIds).size) throw new NotFoundException('Услуга не найдена');
+    return services.reduce((sum, s) => sum + s.estimatedMinutes, 0) || DEFAULT_DURATION_MINUTES;
+  }
+}
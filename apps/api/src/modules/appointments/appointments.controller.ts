@@ -1,8 +1,10 @@
-import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
+import { Controller, Get, Post, Put, Patch, Delete, Param, Body, Query, ForbiddenException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEnum, IsUUID, IsArray } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsUUID, IsArray, IsBoolean, IsInt, Min, ArrayNotEmpty } from 'class-validator';
 import { AppointmentsService } from './appointments.service';
-import { Roles, CurrentTenant } from '../../common/decorators';
+import { AppointmentSlotsService } from './appointment-slots.service';
+import { AppointmentCapacityService } from './appointment-capacity.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { AppointmentStatus } from '@prisma/client';
 
@@ -23,6 +25,10 @@ class CreateAppointmentDto {
   @IsUUID()
   advisorId?: string;
 
+  @IsOptional()
+  @IsUUID()
+  serviceBayId?: string;
+
   @IsOptional()
   @IsString()
   source?: string;
@@ -34,6 +40,26 @@ class CreateAppointmentDto {
   @IsOptional()
   @IsString()
   notes?: string;
+
+  /** Записать сверх лимитов загрузки */
+  @IsOptional()
+  @IsBoolean()
+  forceOverbook?: boolean;
+}
+
+class SelfBookingDto {
+  @IsUUID()
+  vehicleId!: string;
+
+  @IsArray() @ArrayNotEmpty() @IsUUID('all', { each: true })
+  serviceIds!: string[];
+
+  @IsString()
+  scheduledStart!: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
 }
 
 class UpdateAppointmentDto {
@@ -49,6 +75,11 @@ class UpdateAppointmentDto {
   @IsUUID()
   advisorId?: string;
 
+  /** null — снять запись с поста */
+  @IsOptional()
+  @IsUUID()
+  serviceBayId?: string | null;
+
   @IsOptional()
   @IsString()
   source?: string;
@@ -80,6 +111,33 @@ class UpdateAppointmentDto {
   @IsOptional()
   @IsString()
   reminderAt?: string;
+
+  /** Перенести сверх лимитов загрузки */
+  @IsOptional()
+  @IsBoolean()
+  forceOverbook?: boolean;
+}
+
+/** Клиент с правом appointments:create не может обойти лимиты загрузки и подбор слотов */
+function assertCanOverbook(user: CurrentUserData, dto: { forceOverbook?: boolean }) {
+  if (dto.forceOverbook && user.role === 'CLIENT') {
+    throw new ForbiddenException('Записать сверх лимита может только сотрудник');
+  }
+}
+
+class UpdateCapacityRulesDto {
+  @IsOptional() @IsInt() @Min(1)
+  maxPerHour?: number | null;
+
+  @IsOptional() @IsInt() @Min(1)
+  maxPerAdvisor?: number | null;
+
+  @IsOptional() @IsInt() @Min(1)
+  maxPerBay?: number | null;
+
+  /** true — вернуть лимиты по умолчанию */
+  @IsOptional() @IsBoolean()
+  reset?: boolean;
 }
 
 class UpdateStatusDto {
@@ -91,18 +149,29 @@ class UpdateStatusDto {
 @ApiBearerAuth()
 @Controller('appointments')
 export class AppointmentsController {
-  constructor(private readonly appointmentsService: AppointmentsService) {}
+  constructor(
+    private readonly appointmentsService: AppointmentsService,
+    private readonly appointmentSlotsService: AppointmentSlotsService,
+    private readonly appointmentCapacityService: AppointmentCapacityService,
+  ) {}
 
   @Get()
   @Roles('appointments:read')
   @ApiOperation({ summary: 'Список записей' })
   @ApiQuery({ name: 'status', required: false, enum: AppointmentStatus })
   @ApiQuery({ name: 'clientId', required: false })
+  @ApiQuery({ name: 'serviceBayId', required: false })
   @ApiQuery({ name: 'from', required: false, description: 'ISO date' })
   @ApiQuery({ name: 'to', required: false, description: 'ISO date' })
   findAll(
     @CurrentTenant() tenantId: string,
-    @Query() query: PaginationDto & { status?: AppointmentStatus; clientId?: string; from?: string; to?: string },
+    @Query() query: PaginationDto & {
+      status?: AppointmentStatus;
+      clientId?: string;
+      serviceBayId?: string;
+      from?: string;
+      to?: string;
+    },
   ) {
     return this.appointmentsService.findAll(tenantId, {
       page: Number(query.page) || 1,
@@ -111,6 +180,7 @@ export class AppointmentsController {
       order: query.order ?? 'asc',
       status: query.status,
       clientId: query.clientId,
+      serviceBayId: query.serviceBayId,
       from: query.from,
       to: query.to,
     });
@@ -121,13 +191,55 @@ export class AppointmentsController {
   @ApiOperation({ summary: 'События календаря' })
   @ApiQuery({ name: 'from', required: true })
   @ApiQuery({ name: 'to', required: true })
+  @ApiQuery({ name: 'serviceBayId', required: false })
   getCalendarEvents(
     @CurrentTenant() tenantId: string,
-    @Query() query: { from: string; to: string },
+    @Query() query: { from: string; to: string; serviceBayId?: string },
   ) {
     return this.appointmentsService.getCalendarEvents(tenantId, {
       from: query.from,
       to: query.to,
+      serviceBayId: query.serviceBayId,
+    });
+  }
+
+  @Get('slots')
+  @Roles('appointments:read')
+  @ApiOperation({ summary: 'Свободные слоты для записи' })
+  @ApiQuery({ name: 'from', required: true, description: 'ГГГГ-ММ-ДД' })
+  @ApiQuery({ name: 'to', required: true, description: 'ГГГГ-ММ-ДД, включительно' })
+  @ApiQuery({ name: 'serviceIds', required: false, description: 'ID услуг через запятую' })
+  @ApiQuery({ name: 'vehicleId', required: false })
+  @ApiQuery({ name: 'step', required: false, type: Number, description: 'Шаг сетки, мин' })
+  getSlots(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from: string; to: string; serviceIds?: string; vehicleId?: string; step?: string },
+  ) {
+    return this.appointmentSlotsService.findSlots(tenantId, {
+      from: query.from,
+      to: query.to,
+      serviceIds: query.serviceIds?.split(',').filter(Boolean),
+      vehicleId: query.vehicleId,
+      step: Number(query.step) || undefined,
+    });
+  }
+
+  @Get('capacity')
+  @Roles('appointments:read')
+  @ApiOperation({ summary: 'Лимиты параллельных записей' })
+  getCapacityRules(@CurrentTenant() tenantId: string) {
+    return this.appointmentCapacityService.getRules(tenantId);
+  }
+
+  @Put('capacity')
+  @Roles('services:update')
+  @ApiOperation({ summary: 'Задать лимиты параллельных записей' })
+  updateCapacityRules(@CurrentTenant() tenantId: string, @Body() dto: UpdateCapacityRulesDto) {
+    const { reset, ...rules } = dto;
+    return this.appointmentCapacityService.updateRules(tenantId, reset ? null : {
+      maxPerHour: rules.maxPerHour ?? null,
+      maxPerAdvisor: rules.maxPerAdvisor ?? null,
+      maxPerBay: rules.maxPerBay ?? null,
     });
   }
 
@@ -141,15 +253,37 @@ export class AppointmentsController {
   @Post()
   @Roles('appointments:create')
   @ApiOperation({ summary: 'Создать запись' })
-  create(@CurrentTenant() tenantId: string, @Body() dto: CreateAppointmentDto) {
-    return this.appointmentsService.create(tenantId, dto);
+  create(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateAppointmentDto,
+  ) {
+    assertCanOverbook(user, dto);
+    return this.appointmentsService.create(tenantId, { ...dto, userId: user.id });
+  }
+
+  @Post('self-booking')
+  @Roles('appointments:create')
+  @ApiOperation({ summary: 'Онлайн-запись клиента на свободный слот' })
+  createSelfBooking(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: SelfBookingDto,
+  ) {
+    return this.appointmentsService.createSelfBooking(tenantId, user.id, dto);
   }
 
   @Patch(':id')
   @Roles('appointments:update')
   @ApiOperation({ summary: 'Обновить запись' })
-  update(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateAppointmentDto) {
-    return this.appointmentsService.update(tenantId, id, dto);
+  update(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: UpdateAppointmentDto,
+  ) {
+    assertCanOverbook(user, dto);
+    return this.appointmentsService.update(tenantId, id, { ...dto, userId: user.id });
   }
 
   @Patch(':id/status')
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { AppointmentsController } from './appointments.controller';
 import { AppointmentsService } from './appointments.service';
+import { AppointmentSlotsService } from './appointment-slots.service';
+import { AppointmentCapacityService } from './appointment-capacity.service';
+import { ShiftsModule } from '../shifts/shifts.module';
+import { ServiceBaysModule } from '../service-bays/service-bays.module';
 
 @Module({
+  imports: [ShiftsModule, ServiceBaysModule],
   controllers: [AppointmentsController],
-  providers: [AppointmentsService],
-  exports: [AppointmentsService],
+  providers: [AppointmentsService, AppointmentSlotsService, AppointmentCapacityService],
+  exports: [AppointmentsService, AppointmentSlotsService],
 })
 export class AppointmentsModule {}
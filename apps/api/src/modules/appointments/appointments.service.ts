@@ -1,18 +1,36 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
+import { ShiftsService } from '../shifts/shifts.service';
+import { ServiceBaysService } from '../service-bays/service-bays.service';
+import { AppointmentCapacityService } from './appointment-capacity.service';
+import { AppointmentSlotsService } from './appointment-slots.service';
 import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
-import { Appointment, AppointmentStatus } from '@prisma/client';
+import { zonedDateKey } from '@sto-crm/shared';
+import { Appointment, AppointmentStatus, Prisma } from '@prisma/client';
 
 const appointmentInclude = {
   client: { select: { id: true, firstName: true, lastName: true, middleName: true, phone: true, email: true } },
   advisor: { select: { id: true, firstName: true, lastName: true } },
   vehicle: { select: { id: true, make: true, model: true, licensePlate: true, year: true, mileage: true } },
+  serviceBay: { select: { id: true, name: true } },
+  overbookedBy: { select: { id: true, firstName: true, lastName: true } },
   workOrder: { select: { id: true, orderNumber: true, status: true } },
 };
 
+/** Перебронирование сверх лимитов — только явным флагом, с отметкой кто его подтвердил */
+type OverbookOptions = { forceOverbook?: boolean; userId?: string };
+
 @Injectable()
 export class AppointmentsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(AppointmentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shiftsService: ShiftsService,
+    private readonly serviceBaysService: ServiceBaysService,
+    private readonly capacityService: AppointmentCapacityService,
+    private readonly slotsService: AppointmentSlotsService,
+  ) {}
 
   async findAll(
     tenantId: string,
@@ -23,16 +41,18 @@ export class AppointmentsService {
       order: 'asc' | 'desc';
       status?: AppointmentStatus;
       clientId?: string;
+      serviceBayId?: string;
       from?: string;
       to?: string;
     },
   ): Promise<PaginatedResponse<any>> {
-    const { page, limit, sort, order, status, clientId, from, to } = params;
+    const { page, limit, sort, order, status, clientId, serviceBayId, from, to } = params;
     const skip = (page - 1) * limit;
 
     const where: any = { tenantId };
     if (status) where.status = status;
     if (clientId) where.clientId = clientId;
+    if (serviceBayId) where.serviceBayId = serviceBayId;
     if (from || to) {
       where.scheduledStart = {};
       if (from) where.scheduledStart.gte = new Date(from);
@@ -70,10 +90,11 @@ export class AppointmentsService {
       scheduledStart: string;
       scheduledEnd: string;
       advisorId?: string;
+      serviceBayId?: string;
       source?: string;
       adChannel?: string;
       notes?: string;
-    },
+    } & OverbookOptions,
   ): Promise<any> {
     const start = new Date(data.scheduledStart);
     const end = new Date(data.scheduledEnd);
@@ -81,20 +102,74 @@ export class AppointmentsService {
     if (end <= start) {
       throw new BadRequestException('Время окончания должно быть позже начала');
     }
+    await this.shiftsService.assertMechanicsOnShift(tenantId, start, end);
+    if (data.serviceBayId) {
+      await this.serviceBaysService.getActiveBay(tenantId, data.serviceBayId);
+    }
+    return this.withCapacityLock(tenantId, (tx) => this.insert(tx, tenantId, { ...data, start, end }));
+  }
 
-    return this.prisma.appointment.create({
-      data: {
-        scheduledStart: start,
-        scheduledEnd: end,
-        clientId: data.clientId,
-        vehicleId: data.vehicleId,
-        advisorId: data.advisorId,
-        source: data.source,
-        adChannel: data.adChannel,
+  /**
+   * Онлайн-запись клиента из личного кабинета или с сайта: своя машина, услуги для записи,
+   * время — только из свободных слотов. Попадает в воронку как обращение (PENDING).
+   * Без услуг слот считается на длительность по умолчанию.
+   */
+  async createSelfBooking(
+    tenantId: string,
+    clientId: string,
+    data: { vehicleId: string; serviceIds: string[]; scheduledStart: string; notes?: string },
+    options: { source?: string; adChannel?: string } = {},
+  ): Promise<any> {
+    const client = await this.prisma.user.findFirst({ where: { id: clientId, tenantId, role: 'CLIENT' } });
+    if (!client) throw new BadRequestException('Онлайн-запись доступна только клиентам');
+
+    const vehicle = await this.prisma.vehicle.findFirst({ where: { id: data.vehicleId, clientId, tenantId } });
+    if (!vehicle) throw new NotFoundException('Автомобиль не найден');
+
+    const services = await this.prisma.service.findMany({
+      where: { tenantId, id: { in: data.serviceIds }, isActive: true, serviceUsage: { in: ['PLANNING', 'BOTH'] } },
+    });
+    if (services.length !== new Set(data.serviceIds).size) {
+      throw new BadRequestException('Выберите услуги из списка для записи');
+    }
+
+    const start = new Date(data.scheduledStart);
+    if (Number.isNaN(start.getTime())) throw new BadRequestException('Некорректное время записи');
+    const day = zonedDateKey(start, await this.shiftsService.getTimeZone(tenantId));
+
+    // Слот ищется уже под блокировкой — видны все записи, сохранённые до нас
+    return this.withCapacityLock(tenantId, async (tx) => {
+      const { slots } = await this.slotsService.findSlots(tenantId, {
+        from: day,
+        to: day,
+        serviceIds: data.serviceIds,
+        vehicleId: vehicle.id,
+      });
+      const slot = slots.find((s) => s.start.getTime() === start.getTime());
+      if (!slot) throw new ConflictException('Это время уже занято — выберите другой слот');
+      await this.shiftsService.assertMechanicsOnShift(tenantId, slot.start, slot.end);
+      if (slot.serviceBayId) await this.serviceBaysService.getActiveBay(tenantId, slot.serviceBayId);
+
+      return this.insert(tx, tenantId, {
+        clientId,
+        vehicleId: vehicle.id,
+        start: slot.start,
+        end: slot.end,
+        serviceBayId: slot.serviceBayId ?? undefined,
+        source: options.source ?? 'client-portal',
+        adChannel: options.adChannel,
         notes: data.notes,
-        tenantId,
-      },
-      include: appointmentInclude,
+        plannedItems: services.length
+          ? services.map((svc) => ({
+              type: 'LABOR',
+              description: svc.name,
+              quantity: 1,
+              unitPrice: Number(svc.price),
+              normHours: svc.normHours != null ? Number(svc.normHours) : null,
+              serviceId: svc.id,
+            }))
+          : undefined,
+      });
     });
   }
 
@@ -127,6 +202,7 @@ export class AppointmentsService {
       scheduledStart?: string;
       scheduledEnd?: string;
       advisorId?: string;
+      serviceBayId?: string | null;
       source?: string;
       adChannel?: string;
       notes?: string;
@@ -135,22 +211,137 @@ export class AppointmentsService {
       status?: AppointmentStatus;
       plannedItems?: any;
       reminderAt?: string;
-    },
+    } & OverbookOptions,
   ): Promise<any> {
-    await this.findById(tenantId, id);
+    const existing = await this.findById(tenantId, id);
 
-    const updateData: any = { ...data };
+    const { forceOverbook: _force, userId: _userId, ...fields } = data;
+    const updateData: any = { ...fields };
     if (data.scheduledStart) updateData.scheduledStart = new Date(data.scheduledStart);
     if (data.scheduledEnd) updateData.scheduledEnd = new Date(data.scheduledEnd);
+    // Перенос записи проверяется по сменам так же, как новая запись
+    const start = updateData.scheduledStart ?? existing.scheduledStart;
+    const end = updateData.scheduledEnd ?? existing.scheduledEnd;
+    if (data.scheduledStart || data.scheduledEnd) {
+      if (end <= start) throw new BadRequestException('Время окончания должно быть позже начала');
+      await this.shiftsService.assertMechanicsOnShift(tenantId, start, end);
+    }
+    if (data.serviceBayId) {
+      await this.serviceBaysService.getActiveBay(tenantId, data.serviceBayId);
+    }
     if (data.reminderAt) updateData.reminderAt = new Date(data.reminderAt);
 
-    return this.prisma.appointment.update({
-      where: { id },
-      data: updateData,
+    // Лимиты загрузки проверяются при переносе, смене поста или приёмщика
+    if (!(data.scheduledStart || data.scheduledEnd || data.serviceBayId !== undefined || data.advisorId !== undefined)) {
+      return this.prisma.appointment.update({
+        where: { id },
+        data: updateData,
+        include: appointmentInclude,
+      });
+    }
+    return this.withCapacityLock(tenantId, async (tx) => {
+      const overbook = await this.checkCapacity(
+        tx,
+        tenantId,
+        {
+          start,
+          end,
+          advisorId: data.advisorId !== undefined ? data.advisorId : existing.advisorId,
+          serviceBayId: data.serviceBayId !== undefined ? data.serviceBayId : existing.serviceBayId,
+        },
+        data,
+        id,
+      );
+      return tx.appointment.update({
+        where: { id },
+        data: { ...updateData, ...overbook },
+        include: appointmentInclude,
+      });
+    });
+  }
+
+  /** Новая запись с проверкой лимитов загрузки; вызывается внутри withCapacityLock */
+  private async insert(
+    tx: any,
+    tenantId: string,
+    data: {
+      clientId: string;
+      vehicleId: string;
+      start: Date;
+      end: Date;
+      advisorId?: string;
+      serviceBayId?: string;
+      source?: string;
+      adChannel?: string;
+      notes?: string;
+      plannedItems?: Prisma.InputJsonValue;
+    } & OverbookOptions,
+  ): Promise<any> {
+    const overbook = await this.checkCapacity(
+      tx,
+      tenantId,
+      { start: data.start, end: data.end, advisorId: data.advisorId, serviceBayId: data.serviceBayId },
+      data,
+    );
+
+    return tx.appointment.create({
+      data: {
+        scheduledStart: data.start,
+        scheduledEnd: data.end,
+        clientId: data.clientId,
+        vehicleId: data.vehicleId,
+        advisorId: data.advisorId,
+        serviceBayId: data.serviceBayId,
+        source: data.source,
+        adChannel: data.adChannel,
+        notes: data.notes,
+        plannedItems: data.plannedItems,
+        ...overbook,
+        tenantId,
+      },
       include: appointmentInclude,
     });
   }
 
+  /**
+   * Проверка лимитов и сохранение записи — в одной транзакции под блокировкой тенанта:
+   * иначе два параллельных запроса (например, с виджета) займут один и тот же пост.
+   */
+  private withCapacityLock<T>(tenantId: string, fn: (tx: any) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tenantId}))`;
+      return fn(tx);
+    });
+  }
+
+  /**
+   * Лимиты загрузки: без forceOverbook нарушение — 409 со списком пересечений.
+   * С флагом запись сохраняется с отметкой о перебронировании и попадает в лог.
+   * Если лимиты больше не нарушены, прежняя отметка снимается.
+   */
+  private async checkCapacity(
+    tx: any,
+    tenantId: string,
+    candidate: { start: Date; end: Date; advisorId?: string | null; serviceBayId?: string | null },
+    options: OverbookOptions,
+    appointmentId?: string,
+  ) {
+    const conflicts = await this.capacityService.findConflicts(tenantId, candidate, appointmentId, tx);
+    if (conflicts.length === 0) {
+      return { overbookedAt: null, overbookedById: null, overbookConflicts: Prisma.DbNull };
+    }
+    if (!options.forceOverbook) {
+      this.capacityService.throwConflict(conflicts, await this.shiftsService.getTimeZone(tenantId));
+    }
+
+    const summary = conflicts.map((c) => ({ rule: c.rule, limit: c.limit, appointmentIds: c.appointments.map((a) => a.id) }));
+    this.logger.warn(
+      `Перебронирование${appointmentId ? ` записи ${appointmentId}` : ''} (тенант ${tenantId}, пользователь ${options.userId ?? '—'}): ` +
+        summary.map((c) => `${c.rule} ≥ ${c.limit}: ${c.appointmentIds.join(', ')}`).join('; '),
+    );
+    return { overbookedAt: new Date(), overbookedById: options.userId ?? null, overbookConflicts: summary };
+  }
+
   async delete(tenantId: string, id: string): Promise<void> {
     await this.findById(tenantId, id);
     await this.prisma.appointment.delete({ where: { id } });
@@ -158,13 +349,14 @@ export class AppointmentsService {
 
   async getCalendarEvents(
     tenantId: string,
-    params: { from: string; to: string },
+    params: { from: string; to: string; serviceBayId?: string },
   ): Promise<any[]> {
     return this.prisma.appointment.findMany({
       where: {
         tenantId,
         scheduledStart: { lt: new Date(params.to) },
         scheduledEnd: { gt: new Date(params.from) },
+        ...(params.serviceBayId && { serviceBayId: params.serviceBayId }),
       },
       include: appointmentInclude,
       orderBy: { scheduledStart: 'asc' },
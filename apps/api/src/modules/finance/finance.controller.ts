@@ -0,0 +1,144 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsUUID, IsNumber, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FinanceService } from './finance.service';
+import { Roles, CurrentTenant } from '../../common/decorators';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { TransactionType } from '@prisma/client';
+
+// ===== DTOs =====
+
+class CreateTransactionDto {
+  @IsEnum(TransactionType)
+  type!: TransactionType;
+
+  @Type(() => Number) @IsNumber() @Min(0.01)
+  amount!: number;
+
+  @IsOptional() @IsString()
+  category?: string;
+
+  @IsOptional() @IsString()
+  description?: string;
+
+  @IsOptional() @IsString()
+  date?: string;
+
+  @IsOptional() @IsUUID()
+  workOrderId?: string;
+}
+
+class UpdateTransactionDto {
+  @IsOptional() @IsEnum(TransactionType)
+  type?: TransactionType;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0.01)
+  amount?: number;
+
+  @IsOptional() @IsString()
+  category?: string;
+
+  @IsOptional() @IsString()
+  description?: string;
+
+  @IsOptional() @IsString()
+  date?: string;
+
+  @IsOptional() @IsUUID()
+  workOrderId?: string;
+}
+
+// ===== Controller =====
+
+@ApiTags('Финансы')
+@ApiBearerAuth()
+@Controller('finance')
+export class FinanceController {
+  constructor(private readonly financeService: FinanceService) {}
+
+  // --- Transactions ---
+
+  @Get('transactions')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Список операций' })
+  @ApiQuery({ name: 'type', required: false, enum: TransactionType })
+  @ApiQuery({ name: 'category', required: false })
+  @ApiQuery({ name: 'workOrderId', required: false })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date' })
+  @ApiQuery({ name: 'search', required: false })
+  findAll(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PaginationDto & {
+      type?: TransactionType;
+      category?: string;
+      workOrderId?: string;
+      from?: string;
+      to?: string;
+      search?: string;
+    },
+  ) {
+    return this.financeService.findAll(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 20,
+      sort: query.sort ?? 'date',
+      order: query.order ?? 'desc',
+      type: query.type,
+      category: query.category,
+      workOrderId: query.workOrderId,
+      from: query.from,
+      to: query.to,
+      search: query.search,
+    });
+  }
+
+  @Get('transactions/:id')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Детали операции' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.financeService.findById(tenantId, id);
+  }
+
+  @Post('transactions')
+  @Roles('finance:create')
+  @ApiOperation({ summary: 'Создать операцию' })
+  create(@CurrentTenant() tenantId: string, @Body() dto: CreateTransactionDto) {
+    return this.financeService.create(tenantId, dto);
+  }
+
+  @Patch('transactions/:id')
+  @Roles('finance:update')
+  @ApiOperation({ summary: 'Обновить операцию' })
+  update(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateTransactionDto) {
+    return this.financeService.update(tenantId, id, dto);
+  }
+
+  @Delete('transactions/:id')
+  @Roles('finance:delete')
+  @ApiOperation({ summary: 'Удалить операцию' })
+  remove(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.financeService.delete(tenantId, id);
+  }
+
+  // --- Reference & reports ---
+
+  @Get('categories')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Категории операций' })
+  getCategories(@CurrentTenant() tenantId: string) {
+    return this.financeService.getCategories(tenantId);
+  }
+
+  @Get('balance')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Остаток денежных средств по дням' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date' })
+  getBalance(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from?: string; to?: string },
+  ) {
+    return this.financeService.getBalance(tenantId, { from: query.from, to: query.to });
+  }
+}
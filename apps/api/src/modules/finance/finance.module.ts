@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { FinanceController } from './finance.controller';
+import { FinanceService } from './finance.service';
+
+@Module({
+  controllers: [FinanceController],
+  providers: [FinanceService],
+  exports: [FinanceService],
+})
+export class FinanceModule {}
@@ -0,0 +1,252 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import { TRANSACTION_CATEGORIES } from '@sto-crm/shared';
+import { TransactionType } from '@prisma/client';
+
+const transactionInclude = {
+  workOrder: { select: { id: true, orderNumber: true, status: true } },
+};
+
+@Injectable()
+export class FinanceService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===== Transactions =====
+
+  async findAll(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      sort: string;
+      order: 'asc' | 'desc';
+      type?: TransactionType;
+      category?: string;
+      workOrderId?: string;
+      from?: string;
+      to?: string;
+      search?: string;
+    },
+  ): Promise<PaginatedResponse<any> & { summary: { income: number; expense: number; net: number } }> {
+    const { page, limit, sort, order } = params;
+    const skip = (page - 1) * limit;
+    const where = this.buildWhere(tenantId, params);
+
+    const [data, total, sums] = await Promise.all([
+      this.prisma.transaction.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ [sort]: order }, { createdAt: order }],
+        include: transactionInclude,
+      }),
+      this.prisma.transaction.count({ where }),
+      this.prisma.transaction.groupBy({
+        by: ['type'],
+        where,
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const income = Number(sums.find((s) => s.type === 'INCOME')?._sum.amount ?? 0);
+    const expense = Number(sums.find((s) => s.type === 'EXPENSE')?._sum.amount ?? 0);
+
+    return {
+      ...paginate(data, total, page, limit),
+      summary: { income, expense, net: income - expense },
+    };
+  }
+
+  async findById(tenantId: string, id: string): Promise<any> {
+    const transaction = await this.prisma.transaction.findFirst({
+      where: { id, tenantId },
+      include: transactionInclude,
+    });
+    if (!transaction) throw new NotFoundException('Операция не найдена');
+    return transaction;
+  }
+
+  async create(
+    tenantId: string,
+    data: {
+      type: TransactionType;
+      amount: number;
+      category?: string;
+      description?: string;
+      date?: string;
+      workOrderId?: string;
+    },
+  ): Promise<any> {
+    if (data.workOrderId) await this.assertWorkOrder(tenantId, data.workOrderId);
+
+    return this.prisma.transaction.create({
+      data: {
+        type: data.type,
+        amount: data.amount,
+        category: data.category,
+        description: data.description,
+        date: data.date ? new Date(data.date) : new Date(),
+        workOrderId: data.workOrderId,
+        tenantId,
+      },
+      include: transactionInclude,
+    });
+  }
+
+  async update(
+    tenantId: string,
+    id: string,
+    data: {
+      type?: TransactionType;
+      amount?: number;
+      category?: string;
+      description?: string;
+      date?: string;
+      workOrderId?: string | null;
+    },
+  ): Promise<any> {
+    await this.findById(tenantId, id);
+    if (data.workOrderId) await this.assertWorkOrder(tenantId, data.workOrderId);
+
+    const updateData: any = { ...data };
+    if (data.date) updateData.date = new Date(data.date);
+
+    return this.prisma.transaction.update({
+      where: { id },
+      data: updateData,
+      include: transactionInclude,
+    });
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    await this.findById(tenantId, id);
+    await this.prisma.transaction.delete({ where: { id } });
+  }
+
+  // ===== Categories =====
+
+  /** Базовые категории + категории, которые тенант уже использовал */
+  async getCategories(tenantId: string): Promise<Record<TransactionType, string[]>> {
+    const used = await this.prisma.transaction.findMany({
+      where: { tenantId, category: { not: null } },
+      distinct: ['type', 'category'],
+      select: { type: true, category: true },
+    });
+
+    const result: Record<TransactionType, string[]> = {
+      INCOME: [...TRANSACTION_CATEGORIES.INCOME],
+      EXPENSE: [...TRANSACTION_CATEGORIES.EXPENSE],
+    };
+    for (const row of used) {
+      if (row.category && !result[row.type].includes(row.category)) {
+        result[row.type].push(row.category);
+      }
+    }
+    return result;
+  }
+
+  // ===== Balance =====
+
+  /**
+   * Движение денег за период с нарастающим остатком по дням.
+   * Входящий остаток — сумма всех операций до начала периода.
+   */
+  async getBalance(
+    tenantId: string,
+    params: { from?: string; to?: string },
+  ): Promise<{
+    openingBalance: number;
+    income: number;
+    expense: number;
+    closingBalance: number;
+    days: Array<{ date: string; income: number; expense: number; balance: number }>;
+  }> {
+    const from = params.from ? new Date(params.from) : undefined;
+    const to = params.to ? new Date(params.to) : undefined;
+
+    const opening = from
+      ? await this.prisma.transaction.groupBy({
+          by: ['type'],
+          where: { tenantId, date: { lt: from } },
+          _sum: { amount: true },
+        })
+      : [];
+    const openingBalance =
+      Number(opening.find((s) => s.type === 'INCOME')?._sum.amount ?? 0) -
+      Number(opening.find((s) => s.type === 'EXPENSE')?._sum.amount ?? 0);
+
+    const dateFilter: any = {};
+    if (from) dateFilter.gte = from;
+    if (to) dateFilter.lte = to;
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: { tenantId, ...(from || to ? { date: dateFilter } : {}) },
+      select: { type: true, amount: true, date: true },
+      orderBy: { date: 'asc' },
+    });
+
+    const byDay = new Map<string, { income: number; expense: number }>();
+    for (const t of transactions) {
+      const key = t.date.toISOString().slice(0, 10);
+      const day = byDay.get(key) ?? { income: 0, expense: 0 };
+      if (t.type === 'INCOME') day.income += Number(t.amount);
+      else day.expense += Number(t.amount);
+      byDay.set(key, day);
+    }
+
+    let balance = openingBalance;
+    let income = 0;
+    let expense = 0;
+    const days = [...byDay.entries()].map(([date, day]) => {
+      income += day.income;
+      expense += day.expense;
+      balance += day.income - day.expense;
+      return { date, income: day.income, expense: day.expense, balance };
+    });
+
+    return { openingBalance, income, expense, closingBalance: balance, days };
+  }
+
+  // ===== Helpers =====
+
+  private buildWhere(
+    tenantId: string,
+    params: {
+      type?: TransactionType;
+      category?: string;
+      workOrderId?: string;
+      from?: string;
+      to?: string;
+      search?: string;
+    },
+  ): any {
+    const where: any = { tenantId };
+    if (params.type) where.type = params.type;
+    if (params.category) where.category = params.category;
+    if (params.workOrderId) where.workOrderId = params.workOrderId;
+    if (params.from || params.to) {
+      where.date = {};
+      if (params.from) where.date.gte = new Date(params.from);
+      if (params.to) where.date.lte = new Date(params.to);
+    }
+    if (params.search) {
+      const s = params.search.trim();
+      where.OR = [
+        { description: { contains: s, mode: 'insensitive' } },
+        { category: { contains: s, mode: 'insensitive' } },
+        { workOrder: { orderNumber: { contains: s, mode: 'insensitive' } } },
+      ];
+    }
+    return where;
+  }
+
+  private async assertWorkOrder(tenantId: string, workOrderId: string) {
+    const workOrder = await this.prisma.workOrder.findFirst({
+      where: { id: workOrderId, tenantId },
+      select: { id: true, orderNumber: true, totalAmount: true },
+    });
+    if (!workOrder) throw new BadRequestException('Заказ-наряд не найден');
+    return workOrder;
+  }
+}
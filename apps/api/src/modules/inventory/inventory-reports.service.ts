@@ -0,0 +1,475 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from './inventory.service';
+import { buildXlsx, type XlsxSheet } from '../../common/utils/xlsx.utils';
+import { roundQuantity } from '@sto-crm/shared';
+import { StockMovementType, WorkOrderStatus } from '@prisma/client';
+
+export type InventoryReport = 'valuation' | 'dead-stock' | 'turnover' | 'abc-xyz';
+
+type ReportQuery = {
+  date?: string;
+  from?: string;
+  to?: string;
+  days?: number;
+  warehouseId?: string;
+};
+
+/** Выручка по запчастям — по ЗН с завершёнными работами */
+const SALES_WORK_ORDER_STATUSES: WorkOrderStatus[] = ['COMPLETED', 'INVOICED', 'PAID', 'CLOSED'];
+
+/** Движения товара; резерв и перекладка внутри склада движением не считаются */
+const STOCK_MOVEMENT_TYPES: StockMovementType[] = [
+  'PURCHASE', 'CONSUMPTION', 'RETURN', 'ADJUSTMENT', 'TRANSFER_IN', 'TRANSFER_OUT', 'RETURN_TO_SUPPLIER',
+];
+
+/** ABC — накопленная доля выручки, %; XYZ — коэффициент вариации месячного спроса, % */
+const ABC_THRESHOLDS = { A: 80, B: 95 };
+const XYZ_THRESHOLDS = { X: 10, Y: 25 };
+
+const DAY_MS = 86_400_000;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseDate(value: string | undefined, fallback: Date): Date {
+  if (!value) return fallback;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new BadRequestException('Некорректная дата');
+  return date;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+@Injectable()
+export class InventoryReportsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Оценка склада на дату по складам: себестоимость — по партиям FIFO (InventoryService.getValuation),
+   * цена продажи — действовавшая на дату по истории цен.
+   */
+  async getValuation(tenantId: string, params: { date?: string; warehouseId?: string }) {
+    const date = parseDate(params.date, new Date());
+    const warehouses = await this.prisma.warehouse.findMany({
+      where: { tenantId, ...(params.warehouseId ? { id: params.warehouseId } : {}) },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const valuations = [];
+    for (const warehouse of warehouses) {
+      const valuation = await this.inventoryService.getValuation(tenantId, {
+        date: date.toISOString(),
+        warehouseId: warehouse.id,
+      });
+      valuations.push({ warehouse, items: valuation.items });
+    }
+
+    const partIds = [...new Set(valuations.flatMap((v) => v.items.map((i) => i.partId)))];
+    const sellPrices = await this.getSellPricesAt(partIds, date);
+
+    const items = valuations.flatMap(({ warehouse, items }) =>
+      items.map((i) => {
+        const sellPrice = sellPrices.get(i.partId) ?? 0;
+        return {
+          warehouseId: warehouse.id,
+          warehouseName: warehouse.name,
+          partId: i.partId,
+          name: i.name,
+          sku: i.sku,
+          unit: i.unit,
+          quantity: i.quantity,
+          avgCost: i.avgCost,
+          costValue: i.value,
+          sellPrice,
+          sellValue: roundMoney(i.quantity * sellPrice),
+        };
+      }),
+    );
+
+    const summary = valuations.map(({ warehouse }) => {
+      const rows = items.filter((i) => i.warehouseId === warehouse.id);
+      return {
+        warehouseId: warehouse.id,
+        warehouseName: warehouse.name,
+        quantity: roundQuantity(rows.reduce((s, r) => s + r.quantity, 0)),
+        costValue: roundMoney(rows.reduce((s, r) => s + r.costValue, 0)),
+        sellValue: roundMoney(rows.reduce((s, r) => s + r.sellValue, 0)),
+      };
+    });
+
+    return {
+      date,
+      totals: {
+        quantity: roundQuantity(summary.reduce((s, w) => s + w.quantity, 0)),
+        costValue: roundMoney(summary.reduce((s, w) => s + w.costValue, 0)),
+        sellValue: roundMoney(summary.reduce((s, w) => s + w.sellValue, 0)),
+      },
+      warehouses: summary,
+      items,
+    };
+  }
+
+  /** Неликвид: остаток есть, а движений товара по складу не было days дней (или не было вовсе) */
+  async getDeadStock(tenantId: string, params: { days?: number; warehouseId?: string }) {
+    const days = params.days && params.days > 0 ? params.days : 180;
+    const now = new Date();
+    const since = new Date(now.getTime() - days * DAY_MS);
+    const warehouseFilter = params.warehouseId ? { warehouseId: params.warehouseId } : {};
+
+    const [stock, lastMovements, lots] = await Promise.all([
+      this.prisma.warehouseStock.findMany({
+        where: { warehouse: { tenantId }, quantity: { gt: 0 }, ...warehouseFilter },
+        include: {
+          part: { select: { id: true, name: true, sku: true, unit: true, costPrice: true, sellPrice: true } },
+          warehouse: { select: { id: true, name: true } },
+        },
+      }),
+      this.prisma.stockMovement.groupBy({
+        by: ['partId', 'warehouseId'],
+        where: { part: { tenantId }, type: { in: STOCK_MOVEMENT_TYPES }, ...warehouseFilter },
+        _max: { createdAt: true },
+      }),
+      this.prisma.stockLot.findMany({
+        where: { part: { tenantId }, remaining: { gt: 0 }, ...warehouseFilter },
+        select: { partId: true, warehouseId: true, remaining: true, unitCost: true },
+      }),
+    ]);
+
+    const items = stock
+      .map((ws) => {
+        const last = lastMovements.find((m) => m.partId === ws.partId && m.warehouseId === ws.warehouseId)?._max
+          .createdAt ?? null;
+        const quantity = Number(ws.quantity);
+        const partLots = lots.filter((l) => l.partId === ws.partId && l.warehouseId === ws.warehouseId);
+        const lotQty = partLots.reduce((s, l) => s + Number(l.remaining), 0);
+        // Остаток без партий (до учёта партий) оцениваем по текущей себестоимости
+        const costValue =
+          partLots.reduce((s, l) => s + Number(l.remaining) * Number(l.unitCost), 0) +
+          Math.max(0, quantity - lotQty) * Number(ws.part.costPrice);
+        return {
+          warehouseId: ws.warehouse.id,
+          warehouseName: ws.warehouse.name,
+          partId: ws.part.id,
+          name: ws.part.name,
+          sku: ws.part.sku,
+          unit: ws.part.unit,
+          quantity,
+          costValue: roundMoney(costValue),
+          sellValue: roundMoney(quantity * Number(ws.part.sellPrice)),
+          lastMovementAt: last,
+          daysIdle: last ? Math.floor((now.getTime() - last.getTime()) / DAY_MS) : null,
+        };
+      })
+      .filter((i) => !i.lastMovementAt || i.lastMovementAt < since)
+      .sort((a, b) => b.costValue - a.costValue);
+
+    return {
+      days,
+      since,
+      totals: {
+        positions: items.length,
+        costValue: roundMoney(items.reduce((s, i) => s + i.costValue, 0)),
+        sellValue: roundMoney(items.reduce((s, i) => s + i.sellValue, 0)),
+      },
+      items,
+    };
+  }
+
+  /**
+   * Оборачиваемость за период: себестоимость списаний в ЗН / средний запас
+   * (среднее оценок FIFO на начало и конец периода); дни запаса = дни периода / оборачиваемость.
+   */
+  async getTurnover(tenantId: string, params: { from?: string; to?: string; warehouseId?: string }) {
+    const to = parseDate(params.to, new Date());
+    const from = parseDate(params.from, new Date(to.getTime() - 90 * DAY_MS));
+    if (from >= to) throw new BadRequestException('Начало периода должно быть раньше конца');
+    const periodDays = Math.max(1, Math.round((to.getTime() - from.getTime()) / DAY_MS));
+
+    const [opening, closing, outflow] = await Promise.all([
+      this.inventoryService.getValuation(tenantId, { date: from.toISOString(), warehouseId: params.warehouseId }),
+      this.inventoryService.getValuation(tenantId, { date: to.toISOString(), warehouseId: params.warehouseId }),
+      this.prisma.stockMovement.groupBy({
+        by: ['partId'],
+        where: {
+          part: { tenantId },
+          type: 'CONSUMPTION',
+          createdAt: { gt: from, lte: to },
+          ...(params.warehouseId ? { warehouseId: params.warehouseId } : {}),
+        },
+        _sum: { quantity: true, costAmount: true },
+      }),
+    ]);
+
+    const partIds = [
+      ...new Set([...opening.items, ...closing.items].map((i) => i.partId).concat(outflow.map((o) => o.partId))),
+    ];
+    const parts = await this.prisma.part.findMany({
+      where: { id: { in: partIds }, tenantId },
+      select: { id: true, name: true, sku: true, unit: true },
+    });
+
+    const items = parts
+      .map((part) => {
+        const open = opening.items.find((i) => i.partId === part.id);
+        const close = closing.items.find((i) => i.partId === part.id);
+        const out = outflow.find((o) => o.partId === part.id);
+        const openingValue = open?.value ?? 0;
+        const closingValue = close?.value ?? 0;
+        const averageValue = roundMoney((openingValue + closingValue) / 2);
+        const consumedCost = roundMoney(Number(out?._sum.costAmount ?? 0));
+        const turnover = averageValue > 0 ? Math.round((consumedCost / averageValue) * 100) / 100 : null;
+        return {
+          partId: part.id,
+          name: part.name,
+          sku: part.sku,
+          unit: part.unit,
+          openingQuantity: open?.quantity ?? 0,
+          closingQuantity: close?.quantity ?? 0,
+          consumedQuantity: roundQuantity(Number(out?._sum.quantity ?? 0)),
+          openingValue,
+          closingValue,
+          averageValue,
+          consumedCost,
+          turnover,
+          daysOfStock: turnover ? Math.round(periodDays / turnover) : null,
+        };
+      })
+      .sort((a, b) => b.consumedCost - a.consumedCost);
+
+    const consumedCost = roundMoney(items.reduce((s, i) => s + i.consumedCost, 0));
+    const averageValue = roundMoney((opening.totalValue + closing.totalValue) / 2);
+    const turnover = averageValue > 0 ? Math.round((consumedCost / averageValue) * 100) / 100 : null;
+
+    return {
+      from,
+      to,
+      periodDays,
+      totals: {
+        openingValue: opening.totalValue,
+        closingValue: closing.totalValue,
+        averageValue,
+        consumedCost,
+        turnover,
+        daysOfStock: turnover ? Math.round(periodDays / turnover) : null,
+      },
+      items,
+    };
+  }
+
+  /**
+   * ABC — по выручке запчастей в завершённых ЗН (за вычетом возвратов): A — первые 80% выручки,
+   * B — следующие 15%, C — остальное. XYZ — по вариации продаж по месяцам периода:
+   * X — до 10%, Y — до 25%, Z — выше.
+   */
+  async getAbcXyz(tenantId: string, params: { from?: string; to?: string }) {
+    const to = parseDate(params.to, new Date());
+    const from = parseDate(params.from, new Date(to.getFullYear(), to.getMonth() - 5, 1));
+    if (from >= to) throw new BadRequestException('Начало периода должно быть раньше конца');
+
+    const months: string[] = [];
+    for (let d = new Date(from.getFullYear(), from.getMonth(), 1); d <= to; d.setMonth(d.getMonth() + 1)) {
+      months.push(monthKey(d));
+    }
+
+    const sold = await this.prisma.workOrderItem.findMany({
+      where: {
+        type: 'PART',
+        partId: { not: null },
+        OR: [{ recommended: false }, { approvedByClient: true }],
+        workOrder: { tenantId, status: { in: SALES_WORK_ORDER_STATUSES }, completedAt: { gte: from, lte: to } },
+      },
+      select: {
+        quantity: true,
+        totalPrice: true,
+        part: { select: { id: true, name: true, sku: true, unit: true } },
+        workOrder: { select: { completedAt: true } },
+        returnItems: { select: { quantity: true, amount: true } },
+      },
+    });
+
+    const byPart = new Map<string, { part: { id: string; name: string; sku: string | null; unit: string }; revenue: number; monthly: number[] }>();
+    for (const item of sold) {
+      const returnedQty = item.returnItems.reduce((s, r) => s + Number(r.quantity), 0);
+      const returnedAmount = item.returnItems.reduce((s, r) => s + Number(r.amount), 0);
+      const row = byPart.get(item.part!.id) ?? { part: item.part!, revenue: 0, monthly: months.map(() => 0) };
+      row.revenue += Number(item.totalPrice) - returnedAmount;
+      const index = months.indexOf(monthKey(item.workOrder.completedAt!));
+      if (index >= 0) row.monthly[index] += Number(item.quantity) - returnedQty;
+      byPart.set(item.part!.id, row);
+    }
+
+    const rows = [...byPart.values()]
+      .filter((r) => r.revenue > 0 || r.monthly.some((q) => q > 0))
+      .sort((a, b) => b.revenue - a.revenue);
+    const totalRevenue = roundMoney(rows.reduce((s, r) => s + r.revenue, 0));
+
+    let cumulative = 0;
+    const items = rows.map((r) => {
+      const share = totalRevenue > 0 ? (r.revenue / totalRevenue) * 100 : 0;
+      const before = cumulative;
+      cumulative += share;
+      const abc = before < ABC_THRESHOLDS.A ? 'A' : before < ABC_THRESHOLDS.B ? 'B' : 'C';
+
+      const quantity = r.monthly.reduce((s, q) => s + q, 0);
+      const mean = quantity / months.length;
+      const variance = r.monthly.reduce((s, q) => s + (q - mean) ** 2, 0) / months.length;
+      const cv = mean > 0 ? Math.round((Math.sqrt(variance) / mean) * 1000) / 10 : null;
+      const xyz = cv !== null && cv <= XYZ_THRESHOLDS.X ? 'X' : cv !== null && cv <= XYZ_THRESHOLDS.Y ? 'Y' : 'Z';
+
+      return {
+        partId: r.part.id,
+        name: r.part.name,
+        sku: r.part.sku,
+        unit: r.part.unit,
+        revenue: roundMoney(r.revenue),
+        share: Math.round(share * 10) / 10,
+        cumulativeShare: Math.round(cumulative * 10) / 10,
+        quantity: roundQuantity(quantity),
+        monthly: r.monthly.map(roundQuantity),
+        cv,
+        abc,
+        xyz,
+        group: `${abc}${xyz}`,
+      };
+    });
+
+    const matrix: Record<string, number> = {};
+    for (const abc of ['A', 'B', 'C']) {
+      for (const xyz of ['X', 'Y', 'Z']) {
+        matrix[`${abc}${xyz}`] = items.filter((i) => i.group === `${abc}${xyz}`).length;
+      }
+    }
+
+    return { from, to, months, totals: { revenue: totalRevenue, parts: items.length }, matrix, items };
+  }
+
+  // ===== XLSX export =====
+
+  async exportXlsx(tenantId: string, report: InventoryReport, query: ReportQuery): Promise<{ filename: string; content: Buffer }> {
+    switch (report) {
+      case 'valuation': {
+        const data = await this.getValuation(tenantId, query);
+        return {
+          filename: `valuation-${formatDay(data.date)}.xlsx`,
+          content: buildXlsx([
+            {
+              name: 'По складам',
+              header: ['Склад', 'Количество', 'Себестоимость', 'В ценах продажи'],
+              rows: [
+                ...data.warehouses.map((w) => [w.warehouseName, w.quantity, w.costValue, w.sellValue]),
+                ['Итого', data.totals.quantity, data.totals.costValue, data.totals.sellValue],
+              ],
+            },
+            {
+              name: 'Позиции',
+              header: ['Склад', 'Запчасть', 'Артикул', 'Ед.', 'Количество', 'Ср. себестоимость', 'Себестоимость', 'Цена продажи', 'В ценах продажи'],
+              rows: data.items.map((i) => [
+                i.warehouseName, i.name, i.sku, i.unit, i.quantity, i.avgCost, i.costValue, i.sellPrice, i.sellValue,
+              ]),
+            },
+          ]),
+        };
+      }
+      case 'dead-stock': {
+        const data = await this.getDeadStock(tenantId, query);
+        return {
+          filename: `dead-stock-${data.days}d.xlsx`,
+          content: buildXlsx([
+            {
+              name: `Без движения ${data.days} дн.`,
+              header: ['Склад', 'Запчасть', 'Артикул', 'Ед.', 'Остаток', 'Себестоимость', 'В ценах продажи', 'Последнее движение', 'Дней без движения'],
+              rows: data.items.map((i) => [
+                i.warehouseName, i.name, i.sku, i.unit, i.quantity, i.costValue, i.sellValue, i.lastMovementAt, i.daysIdle,
+              ]),
+            },
+          ]),
+        };
+      }
+      case 'turnover': {
+        const data = await this.getTurnover(tenantId, query);
+        return {
+          filename: `turnover-${formatDay(data.from)}-${formatDay(data.to)}.xlsx`,
+          content: buildXlsx([
+            {
+              name: 'Оборачиваемость',
+              header: [
+                'Запчасть', 'Артикул', 'Ед.', 'Остаток на начало', 'Остаток на конец', 'Списано',
+                'Запас на начало', 'Запас на конец', 'Средний запас', 'Себестоимость списаний', 'Оборачиваемость', 'Дней запаса',
+              ],
+              rows: [
+                ...data.items.map((i) => [
+                  i.name, i.sku, i.unit, i.openingQuantity, i.closingQuantity, i.consumedQuantity,
+                  i.openingValue, i.closingValue, i.averageValue, i.consumedCost, i.turnover, i.daysOfStock,
+                ]),
+                [
+                  'Итого', null, null, null, null, null, data.totals.openingValue, data.totals.closingValue,
+                  data.totals.averageValue, data.totals.consumedCost, data.totals.turnover, data.totals.daysOfStock,
+                ],
+              ],
+            },
+          ]),
+        };
+      }
+      case 'abc-xyz': {
+        const data = await this.getAbcXyz(tenantId, query);
+        const sheets: XlsxSheet[] = [
+          {
+            name: 'ABC-XYZ',
+            header: ['Запчасть', 'Артикул', 'Ед.', 'Выручка', 'Доля, %', 'Накопл. доля, %', 'Продано', ...data.months, 'Вариация, %', 'ABC', 'XYZ', 'Группа'],
+            rows: data.items.map((i) => [
+              i.name, i.sku, i.unit, i.revenue, i.share, i.cumulativeShare, i.quantity, ...i.monthly, i.cv, i.abc, i.xyz, i.group,
+            ]),
+          },
+          {
+            name: 'Матрица',
+            header: ['', 'X', 'Y', 'Z'],
+            rows: ['A', 'B', 'C'].map((abc) => [abc, ...['X', 'Y', 'Z'].map((xyz) => data.matrix[`${abc}${xyz}`])]),
+          },
+        ];
+        return { filename: `abc-xyz-${formatDay(data.from)}-${formatDay(data.to)}.xlsx`, content: buildXlsx(sheets) };
+      }
+      default:
+        throw new BadRequestException('Неизвестный отчёт');
+    }
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Цена продажи на дату: последнее изменение до даты, иначе цена «до» первого изменения после даты,
+   * иначе текущая Part.sellPrice.
+   */
+  private async getSellPricesAt(partIds: string[], date: Date): Promise<Map<string, number>> {
+    if (partIds.length === 0) return new Map();
+    const [parts, history] = await Promise.all([
+      this.prisma.part.findMany({ where: { id: { in: partIds } }, select: { id: true, sellPrice: true } }),
+      this.prisma.partPriceHistory.findMany({
+        where: { partId: { in: partIds } },
+        select: { partId: true, prevSellPrice: true, sellPrice: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const result = new Map<string, number>();
+    for (const part of parts) {
+      const changes = history.filter((h) => h.partId === part.id);
+      const before = changes.filter((h) => h.createdAt <= date).pop();
+      const after = changes.find((h) => h.createdAt > date);
+      const price = before ? before.sellPrice : after ? after.prevSellPrice : part.sellPrice;
+      result.set(part.id, Number(price));
+    }
+    return result;
+  }
+}
@@ -1,10 +1,15 @@
-import { Controller, Get, Post, Patch, Param, Body, Query } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, Res, StreamableFile } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
-import { IsString, IsOptional, IsNumber, IsArray, IsBoolean, ValidateNested, IsEnum } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsArray, IsBoolean, ValidateNested, IsEnum, Min, IsDateString, ValidateIf } from 'class-validator';
 import { Type } from 'class-transformer';
 import { InventoryService } from './inventory.service';
+import { LocationsService } from './locations.service';
+import { ReservationsService } from './reservations.service';
+import { InventoryReportsService, type InventoryReport } from './inventory-reports.service';
+import { XLSX_CONTENT_TYPE } from '../../common/utils/xlsx.utils';
 import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
-import { StockMovementType } from '@prisma/client';
+import { StockMovementType, ReservationStatus } from '@prisma/client';
+import { Response } from 'express';
 
 // ===== DTOs =====
 
@@ -42,6 +47,12 @@ class ReceiveItemDto {
 
   @IsOptional() @IsString()
   notes?: string;
+
+  @IsOptional() @IsString()
+  locationId?: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  unitCost?: number;
 }
 
 class ReceiveStockDto {
@@ -88,13 +99,71 @@ class TransferStockDto {
   notes?: string;
 }
 
+class CreateLocationDto {
+  @IsOptional() @IsString()
+  code?: string;
+
+  @IsOptional() @IsString()
+  zone?: string;
+
+  @IsOptional() @IsString()
+  rack?: string;
+
+  @IsOptional() @IsString()
+  shelf?: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class UpdateLocationDto extends CreateLocationDto {
+  @IsOptional() @IsBoolean()
+  isActive?: boolean;
+}
+
+class MoveStockDto {
+  @IsString()
+  partId!: string;
+
+  @IsString()
+  warehouseId!: string;
+
+  @IsOptional() @IsString()
+  fromLocationId?: string;
+
+  @IsOptional() @IsString()
+  toLocationId?: string;
+
+  @Type(() => Number) @IsNumber() @Min(0.001)
+  quantity!: number;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class UpdateReservationDto {
+  /** null — снять срок резерва */
+  @IsOptional() @ValidateIf((o) => o.expiresAt !== null) @IsDateString()
+  expiresAt?: string | null;
+}
+
+class TransferReservationDto {
+  @IsString()
+  toWarehouseId!: string;
+}
+
 // ===== Controller =====
 
 @ApiTags('Склад')
 @ApiBearerAuth()
 @Controller('inventory')
 export class InventoryController {
-  constructor(private readonly inventoryService: InventoryService) {}
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly locationsService: LocationsService,
+    private readonly reservationsService: ReservationsService,
+    private readonly reportsService: InventoryReportsService,
+  ) {}
 
   // --- Warehouses ---
 
@@ -119,6 +188,57 @@ export class InventoryController {
     return this.inventoryService.updateWarehouse(tenantId, id, dto);
   }
 
+  // --- Storage locations ---
+
+  @Get('warehouses/:id/locations')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Места хранения склада' })
+  getLocations(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.locationsService.findAll(tenantId, id);
+  }
+
+  @Post('warehouses/:id/locations')
+  @Roles('parts:create')
+  @ApiOperation({ summary: 'Создать место хранения' })
+  createLocation(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: CreateLocationDto) {
+    return this.locationsService.create(tenantId, id, dto);
+  }
+
+  @Patch('locations/:id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Обновить место хранения' })
+  updateLocation(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateLocationDto) {
+    return this.locationsService.update(tenantId, id, dto);
+  }
+
+  @Delete('locations/:id')
+  @Roles('parts:delete')
+  @ApiOperation({ summary: 'Удалить пустое место хранения' })
+  deleteLocation(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.locationsService.delete(tenantId, id);
+  }
+
+  @Get('locations/:id/stock')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Товар на месте хранения' })
+  getLocationStock(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.locationsService.getLocationStock(tenantId, id);
+  }
+
+  @Get('parts/:partId/placement')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Где лежит запчасть (склады и места)' })
+  getPartPlacement(@CurrentTenant() tenantId: string, @Param('partId') partId: string) {
+    return this.locationsService.getPartPlacement(tenantId, partId);
+  }
+
+  @Get('pick-list/:workOrderId')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Лист подбора запчастей по заказ-наряду' })
+  getPickList(@CurrentTenant() tenantId: string, @Param('workOrderId') workOrderId: string) {
+    return this.locationsService.getPickList(tenantId, workOrderId);
+  }
+
   // --- Stock levels ---
 
   @Get('stock')
@@ -158,6 +278,92 @@ export class InventoryController {
     });
   }
 
+  @Get('valuation')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Оценка склада по партиям (FIFO) на дату' })
+  @ApiQuery({ name: 'date', required: false })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  getValuation(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { date?: string; warehouseId?: string },
+  ) {
+    return this.inventoryService.getValuation(tenantId, query);
+  }
+
+  // --- Reports ---
+
+  @Get('reports/valuation')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Оценка склада на дату по себестоимости и ценам продажи, по складам' })
+  @ApiQuery({ name: 'date', required: false })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  getValuationReport(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { date?: string; warehouseId?: string },
+  ) {
+    return this.reportsService.getValuation(tenantId, query);
+  }
+
+  @Get('reports/dead-stock')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Неликвид: остатки без движения N дней' })
+  @ApiQuery({ name: 'days', required: false })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  getDeadStockReport(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { days?: string; warehouseId?: string },
+  ) {
+    return this.reportsService.getDeadStock(tenantId, {
+      days: Number(query.days) || undefined,
+      warehouseId: query.warehouseId,
+    });
+  }
+
+  @Get('reports/turnover')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Оборачиваемость запаса за период' })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  getTurnoverReport(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from?: string; to?: string; warehouseId?: string },
+  ) {
+    return this.reportsService.getTurnover(tenantId, query);
+  }
+
+  @Get('reports/abc-xyz')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'ABC/XYZ-анализ запчастей по выручке и стабильности спроса' })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  getAbcXyzReport(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from?: string; to?: string },
+  ) {
+    return this.reportsService.getAbcXyz(tenantId, query);
+  }
+
+  @Get('reports/:report/export')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Выгрузка отчёта по складу в XLSX' })
+  async exportReport(
+    @CurrentTenant() tenantId: string,
+    @Param('report') report: InventoryReport,
+    @Query() query: { date?: string; from?: string; to?: string; days?: string; warehouseId?: string },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { filename, content } = await this.reportsService.exportXlsx(tenantId, report, {
+      ...query,
+      days: Number(query.days) || undefined,
+    });
+    res.set({
+      'Content-Type': XLSX_CONTENT_TYPE,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    return new StreamableFile(content);
+  }
+
   // --- Movements ---
 
   @Get('movements')
@@ -179,6 +385,61 @@ export class InventoryController {
     });
   }
 
+  // --- Reservations ---
+
+  @Get('reservations')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Резервы под заказ-наряды' })
+  @ApiQuery({ name: 'partId', required: false })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  @ApiQuery({ name: 'status', required: false, enum: ReservationStatus })
+  getReservations(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { page?: string; limit?: string; partId?: string; warehouseId?: string; status?: ReservationStatus },
+  ) {
+    return this.reservationsService.findAll(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 50,
+      partId: query.partId,
+      warehouseId: query.warehouseId,
+      status: query.status,
+    });
+  }
+
+  @Patch('reservations/:id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Изменить срок резерва' })
+  updateReservation(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateReservationDto,
+  ) {
+    return this.reservationsService.update(tenantId, id, dto);
+  }
+
+  @Post('reservations/:id/release')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Снять резерв' })
+  releaseReservation(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+  ) {
+    return this.reservationsService.release(tenantId, id, user.id);
+  }
+
+  @Post('reservations/:id/transfer')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Перенести резерв на другой склад' })
+  transferReservation(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: TransferReservationDto,
+  ) {
+    return this.reservationsService.transfer(tenantId, id, { ...dto, userId: user.id });
+  }
+
   // --- Operations ---
 
   @Post('receive')
@@ -213,4 +474,15 @@ export class InventoryController {
   ) {
     return this.inventoryService.transferStock(tenantId, { ...dto, userId: user.id });
   }
+
+  @Post('move')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Перемещение между местами хранения' })
+  moveStock(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: MoveStockDto,
+  ) {
+    return this.locationsService.move(tenantId, { ...dto, userId: user.id });
+  }
 }
@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { InventoryController } from './inventory.controller';
 import { InventoryService } from './inventory.service';
+import { LocationsService } from './locations.service';
+import { ReservationsService } from './reservations.service';
+import { InventoryReportsService } from './inventory-reports.service';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
+  imports: [PricingModule],
   controllers: [InventoryController],
-  providers: [InventoryService],
-  exports: [InventoryService],
+  providers: [InventoryService, LocationsService, ReservationsService, InventoryReportsService],
+  exports: [InventoryService, LocationsService, ReservationsService],
 })
 export class InventoryModule {}
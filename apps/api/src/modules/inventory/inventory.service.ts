@@ -1,11 +1,37 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import { PricingService } from '../pricing/pricing.service';
+import { roundQuantity } from '@sto-crm/shared';
 import { StockMovementType } from '@prisma/client';
 
+type MovementInput = {
+  partId: string;
+  warehouseId: string;
+  type: StockMovementType;
+  quantity: number;
+  reference?: string;
+  referenceId?: string;
+  notes?: string;
+  userId?: string;
+  /** Место хранения; для RELOCATION — откуда */
+  locationId?: string;
+  /** Для RELOCATION — куда */
+  toLocationId?: string;
+  /** Себестоимость единицы для прихода (новая партия); без неё — Part.costPrice */
+  unitCost?: number;
+  /** Поставщик прихода — для правил наценки с условием по поставщику */
+  supplierId?: string;
+  /** Для расхода — сначала списывать партии приходов с этим referenceId (возврат поставщику по заказу) */
+  lotReferenceId?: string;
+};
+
 @Injectable()
 export class InventoryService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pricingService: PricingService,
+  ) {}
 
   // ===== Warehouses =====
 
@@ -45,10 +71,9 @@ export class InventoryService {
     const { page, limit, search, warehouseId, lowStock } = params;
     const skip = (page - 1) * limit;
 
-    const where: any = {
-      part: { tenantId },
-      quantity: { gt: 0 },
-    };
+    // Для дефицита нулевые остатки тоже интересны
+    const where: any = { part: { tenantId } };
+    if (!lowStock) where.quantity = { gt: 0 };
     if (warehouseId) where.warehouseId = warehouseId;
     if (search) {
       where.part = {
@@ -63,37 +88,43 @@ export class InventoryService {
       };
     }
 
-    const [rows, total] = await Promise.all([
-      this.prisma.warehouseStock.findMany({
-        where,
-        include: {
-          part: { select: { id: true, name: true, sku: true, brand: true, manufacturer: true, oemNumber: true, unit: true, costPrice: true, sellPrice: true, minStock: true, code1C: true } },
-          warehouse: { select: { id: true, name: true } },
-        },
-        skip,
-        take: limit,
-        orderBy: { part: { name: 'asc' } },
-      }),
-      this.prisma.warehouseStock.count({ where }),
-    ]);
+    const include = {
+      part: { select: { id: true, name: true, sku: true, brand: true, manufacturer: true, oemNumber: true, unit: true, costPrice: true, sellPrice: true, minStock: true, code1C: true } },
+      warehouse: { select: { id: true, name: true } },
+    };
+
+    // Сравнение quantity с part.minStock в Prisma where не выразить —
+    // при lowStock фильтруем до пагинации, иначе total и страницы врут
+    const [rows, total] = lowStock
+      ? await this.prisma.warehouseStock
+          .findMany({ where, include, orderBy: { part: { name: 'asc' } } })
+          .then((all) => {
+            const low = all.filter((r) => Number(r.quantity) <= Number(r.part.minStock));
+            return [low.slice(skip, skip + limit), low.length] as const;
+          })
+      : await Promise.all([
+          this.prisma.warehouseStock.findMany({
+            where,
+            include,
+            skip,
+            take: limit,
+            orderBy: { part: { name: 'asc' } },
+          }),
+          this.prisma.warehouseStock.count({ where }),
+        ]);
 
     const data = rows.map((r) => ({
       id: r.id,
       partId: r.partId,
       warehouseId: r.warehouseId,
-      quantity: r.quantity,
-      reserved: r.reserved,
-      available: r.quantity - r.reserved,
+      quantity: Number(r.quantity),
+      reserved: Number(r.reserved),
+      available: roundQuantity(Number(r.quantity) - Number(r.reserved)),
       part: r.part,
       warehouse: r.warehouse,
     }));
 
-    // Filter low stock after mapping if needed
-    const filtered = lowStock
-      ? data.filter((d) => d.quantity <= (d.part.minStock ?? 0))
-      : data;
-
-    return paginate(lowStock ? filtered : data, total, page, limit);
+    return paginate(data, total, page, limit);
   }
 
   // Aggregated stock per part (sum across all warehouses)
@@ -140,8 +171,8 @@ export class InventoryService {
     ]);
 
     const data = parts.map((p) => {
-      const totalQty = p.warehouseStock.reduce((s, ws) => s + ws.quantity, 0);
-      const totalReserved = p.warehouseStock.reduce((s, ws) => s + ws.reserved, 0);
+      const totalQty = roundQuantity(p.warehouseStock.reduce((s, ws) => s + Number(ws.quantity), 0));
+      const totalReserved = roundQuantity(p.warehouseStock.reduce((s, ws) => s + Number(ws.reserved), 0));
       return {
         id: p.id,
         name: p.name,
@@ -152,16 +183,16 @@ export class InventoryService {
         unit: p.unit,
         costPrice: p.costPrice,
         sellPrice: p.sellPrice,
-        minStock: p.minStock,
+        minStock: Number(p.minStock),
         code1C: p.code1C,
         totalQuantity: totalQty,
         totalReserved: totalReserved,
-        available: totalQty - totalReserved,
+        available: roundQuantity(totalQty - totalReserved),
         warehouses: p.warehouseStock.map((ws) => ({
           warehouseId: ws.warehouseId,
           warehouseName: ws.warehouse.name,
-          quantity: ws.quantity,
-          reserved: ws.reserved,
+          quantity: Number(ws.quantity),
+          reserved: Number(ws.reserved),
         })),
       };
     });
@@ -169,20 +200,81 @@ export class InventoryService {
     return paginate(data, total, page, limit);
   }
 
+  /**
+   * Оценка склада по партиям FIFO на дату: остаток каждой партии, полученной до даты,
+   * за вычетом списаний до той же даты, по цене партии.
+   */
+  async getValuation(
+    tenantId: string,
+    params: { date?: string; warehouseId?: string },
+  ): Promise<{
+    date: Date;
+    totalQuantity: number;
+    totalValue: number;
+    items: Array<{
+      partId: string;
+      name: string;
+      sku: string | null;
+      unit: string;
+      quantity: number;
+      value: number;
+      avgCost: number;
+    }>;
+  }> {
+    const date = params.date ? new Date(params.date) : new Date();
+    if (Number.isNaN(date.getTime())) throw new BadRequestException('Некорректная дата');
+
+    const where: any = { part: { tenantId }, createdAt: { lte: date } };
+    if (params.warehouseId) where.warehouseId = params.warehouseId;
+
+    const lots = await this.prisma.stockLot.findMany({
+      where,
+      select: {
+        quantity: true,
+        unitCost: true,
+        part: { select: { id: true, name: true, sku: true, unit: true } },
+        consumptions: { where: { createdAt: { lte: date } }, select: { quantity: true } },
+      },
+    });
+
+    const byPart = new Map<string, { partId: string; name: string; sku: string | null; unit: string; quantity: number; value: number }>();
+    for (const lot of lots) {
+      const left = roundQuantity(Number(lot.quantity) - lot.consumptions.reduce((s, c) => s + Number(c.quantity), 0));
+      if (left <= 0) continue;
+      const row = byPart.get(lot.part.id) ?? {
+        partId: lot.part.id,
+        name: lot.part.name,
+        sku: lot.part.sku,
+        unit: lot.part.unit,
+        quantity: 0,
+        value: 0,
+      };
+      row.quantity = roundQuantity(row.quantity + left);
+      row.value += left * Number(lot.unitCost);
+      byPart.set(lot.part.id, row);
+    }
+
+    const items = [...byPart.values()]
+      .map((r) => ({
+        ...r,
+        value: Math.round(r.value * 100) / 100,
+        avgCost: Math.round((r.value / r.quantity) * 100) / 100,
+      }))
+      .sort((a, b) => b.value - a.value);
+
+    return {
+      date,
+      totalQuantity: roundQuantity(items.reduce((s, i) => s + i.quantity, 0)),
+      totalValue: Math.round(items.reduce((s, i) => s + i.value, 0) * 100) / 100,
+      items,
+    };
+  }
+
   // ===== Stock Movements =====
 
   async addMovement(
     tenantId: string,
-    data: {
-      partId: string;
-      warehouseId: string;
-      type: StockMovementType;
-      quantity: number;
-      reference?: string;
-      referenceId?: string;
-      notes?: string;
-      userId?: string;
-    },
+    data: MovementInput,
   ) {
     // Validate part belongs to tenant
     const part = await this.prisma.part.findFirst({ where: { id: data.partId, tenantId } });
@@ -191,49 +283,86 @@ export class InventoryService {
     const wh = await this.prisma.warehouse.findFirst({ where: { id: data.warehouseId, tenantId } });
     if (!wh) throw new NotFoundException('Склад не найден');
 
-    return this.prisma.$transaction(async (tx) => {
-      // Create movement record
-      const movement = await tx.stockMovement.create({
-        data: {
-          type: data.type,
-          quantity: data.quantity,
-          reference: data.reference,
-          referenceId: data.referenceId,
-          notes: data.notes,
-          userId: data.userId,
-          partId: data.partId,
-          warehouseId: data.warehouseId,
-        },
+    const locationIds = [data.locationId, data.toLocationId].filter((id): id is string => !!id);
+    if (locationIds.length > 0) {
+      const count = await this.prisma.storageLocation.count({
+        where: { id: { in: locationIds }, warehouseId: data.warehouseId },
       });
+      if (count !== new Set(locationIds).size) {
+        throw new BadRequestException('Место хранения не найдено на этом складе');
+      }
+    }
 
-      // Update warehouse stock
-      const delta = this.getQuantityDelta(data.type, data.quantity);
-      const reserveDelta = this.getReserveDelta(data.type, data.quantity);
+    return this.prisma.$transaction((tx) => this.applyMovement(tx, data));
+  }
 
-      await tx.warehouseStock.upsert({
-        where: {
-          partId_warehouseId: {
-            partId: data.partId,
-            warehouseId: data.warehouseId,
-          },
-        },
-        create: {
+  /**
+   * Запись движения и пересчёт остатков внутри внешней транзакции —
+   * для операций, которые проводят несколько движений атомарно (инвентаризация).
+   * Принадлежность запчасти и склада тенанту проверяет вызывающий.
+   */
+  async applyMovement(
+    tx: any,
+    data: MovementInput,
+  ) {
+    // Create movement record
+    const movement = await tx.stockMovement.create({
+      data: {
+        type: data.type,
+        quantity: data.quantity,
+        reference: data.reference,
+        referenceId: data.referenceId,
+        notes: data.notes,
+        userId: data.userId,
+        partId: data.partId,
+        warehouseId: data.warehouseId,
+        locationId: data.locationId,
+        toLocationId: data.toLocationId,
+      },
+    });
+
+    // Update warehouse stock
+    const delta = this.getQuantityDelta(data.type, data.quantity);
+    const reserveDelta = this.getReserveDelta(data.type, data.quantity);
+
+    await tx.warehouseStock.upsert({
+      where: {
+        partId_warehouseId: {
           partId: data.partId,
           warehouseId: data.warehouseId,
-          quantity: Math.max(0, delta),
-          reserved: Math.max(0, reserveDelta),
-        },
-        update: {
-          quantity: { increment: delta },
-          reserved: { increment: reserveDelta },
         },
-      });
+      },
+      create: {
+        partId: data.partId,
+        warehouseId: data.warehouseId,
+        quantity: Math.max(0, delta),
+        reserved: Math.max(0, reserveDelta),
+      },
+      update: {
+        quantity: { increment: delta },
+        reserved: { increment: reserveDelta },
+      },
+    });
 
-      // Update part.currentStock (aggregate)
-      await this.syncPartCurrentStock(tx, data.partId);
+    await this.syncLocationStock(tx, data, delta);
 
-      return movement;
-    });
+    // Update part.currentStock (aggregate)
+    await this.syncPartCurrentStock(tx, data.partId);
+
+    // Приход по новой цене меняет себестоимость и цену продажи по правилам наценки
+    if (data.type === 'PURCHASE' && data.unitCost !== undefined) {
+      await this.pricingService.applyReceiptCost(tx, {
+        partId: data.partId,
+        unitCost: data.unitCost,
+        supplierId: data.supplierId,
+        reference: data.reference,
+        userId: data.userId,
+      });
+    }
+
+    const costAmount = await this.syncLots(tx, movement.id, data, delta);
+    if (costAmount === null) return movement;
+    return tx.stockMovement.update({ where: { id: movement.id }, data: { costAmount } });
   }
 
   async getMovements(
@@ -260,6 +389,8 @@ export class InventoryService {
         include: {
           part: { select: { id: true, name: true, sku: true, unit: true } },
           warehouse: { select: { id: true, name: true } },
+          location: { select: { id: true, code: true } },
+          toLocation: { select: { id: true, code: true } },
         },
         skip,
         take: limit,
@@ -277,7 +408,7 @@ export class InventoryService {
     tenantId: string,
     data: {
       warehouseId: string;
-      items: Array<{ partId: string; quantity: number; notes?: string }>;
+      items: Array<{ partId: string; quantity: number; notes?: string; locationId?: string; unitCost?: number }>;
       reference?: string;
       userId?: string;
     },
@@ -292,6 +423,8 @@ export class InventoryService {
         reference: data.reference,
         notes: item.notes,
         userId: data.userId,
+        locationId: item.locationId,
+        unitCost: item.unitCost,
       });
       results.push(m);
     }
@@ -311,8 +444,8 @@ export class InventoryService {
     const ws = await this.prisma.warehouseStock.findUnique({
       where: { partId_warehouseId: { partId: data.partId, warehouseId: data.warehouseId } },
     });
-    const currentQty = ws?.quantity ?? 0;
-    const diff = data.newQuantity - currentQty;
+    const currentQty = Number(ws?.quantity ?? 0);
+    const diff = roundQuantity(data.newQuantity - currentQty);
     if (diff === 0) return null;
 
     return this.addMovement(tenantId, {
@@ -340,7 +473,7 @@ export class InventoryService {
     const ws = await this.prisma.warehouseStock.findUnique({
       where: { partId_warehouseId: { partId: data.partId, warehouseId: data.fromWarehouseId } },
     });
-    const available = (ws?.quantity ?? 0) - (ws?.reserved ?? 0);
+    const available = roundQuantity(Number(ws?.quantity ?? 0) - Number(ws?.reserved ?? 0));
     if (available < data.quantity) {
       throw new BadRequestException(`Недостаточно свободного остатка (доступно: ${available})`);
     }
@@ -354,6 +487,7 @@ export class InventoryService {
       userId: data.userId,
     });
 
+    // Партия на складе-получателе — по себестоимости, списанной со склада-источника
     const inMovement = await this.addMovement(tenantId, {
       partId: data.partId,
       warehouseId: data.toWarehouseId,
@@ -361,6 +495,7 @@ export class InventoryService {
       quantity: data.quantity,
       notes: data.notes,
       userId: data.userId,
+      unitCost: Number(outMovement.costAmount) / data.quantity,
     });
 
     return { out: outMovement, in: inMovement };
@@ -376,12 +511,15 @@ export class InventoryService {
         return quantity;
       case 'CONSUMPTION':
       case 'TRANSFER_OUT':
+      case 'RETURN_TO_SUPPLIER':
         return -quantity;
       case 'ADJUSTMENT':
         return quantity; // can be negative
       case 'RESERVED':
       case 'UNRESERVED':
         return 0; // reserve doesn't change total quantity
+      case 'RELOCATION':
+        return 0; // moves between locations inside the warehouse
       default:
         return 0;
     }
@@ -399,6 +537,111 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Размещённый остаток по местам хранения. Приход с местом кладётся на него,
+   * расход с местом снимается с него. Расход без места сначала уменьшает
+   * неразмещённый остаток, и только когда его не хватает — места (по порядку кодов).
+   */
+  private async syncLocationStock(tx: any, data: MovementInput, delta: number) {
+    if (data.type === 'RELOCATION') {
+      if (data.locationId) await this.changeLocationStock(tx, data.partId, data.locationId, -data.quantity);
+      if (data.toLocationId) await this.changeLocationStock(tx, data.partId, data.toLocationId, data.quantity);
+      return;
+    }
+    if (delta === 0) return;
+
+    if (data.locationId) {
+      await this.changeLocationStock(tx, data.partId, data.locationId, delta);
+      return;
+    }
+    if (delta > 0) return;
+
+    const ws = await tx.warehouseStock.findUnique({
+      where: { partId_warehouseId: { partId: data.partId, warehouseId: data.warehouseId } },
+      select: { quantity: true },
+    });
+    const placed = await tx.locationStock.findMany({
+      where: { partId: data.partId, location: { warehouseId: data.warehouseId }, quantity: { gt: 0 } },
+      select: { locationId: true, quantity: true },
+      orderBy: { location: { code: 'asc' } },
+    });
+    let excess = roundQuantity(
+      placed.reduce((s: number, p: any) => s + Number(p.quantity), 0) - Math.max(0, Number(ws?.quantity ?? 0)),
+    );
+    for (const p of placed) {
+      if (excess <= 0) break;
+      const take = Math.min(excess, Number(p.quantity));
+      await this.changeLocationStock(tx, data.partId, p.locationId, -take);
+      excess = roundQuantity(excess - take);
+    }
+  }
+
+  private async changeLocationStock(tx: any, partId: string, locationId: string, delta: number) {
+    const row = await tx.locationStock.upsert({
+      where: { partId_locationId: { partId, locationId } },
+      create: { partId, locationId, quantity: delta },
+      update: { quantity: { increment: delta } },
+    });
+    if (Number(row.quantity) < 0) {
+      throw new BadRequestException('На месте хранения недостаточно товара');
+    }
+    if (Number(row.quantity) === 0) {
+      await tx.locationStock.delete({ where: { id: row.id } });
+    }
+  }
+
+  /**
+   * Партии FIFO: приход создаёт партию, расход списывает самые ранние партии склада.
+   * Если партий не хватает (остаток без истории), недостающее оценивается по Part.costPrice.
+   * Возвращает стоимость движения или null для движений без изменения остатка.
+   */
+  private async syncLots(tx: any, movementId: string, data: MovementInput, delta: number): Promise<number | null> {
+    if (delta === 0) return null;
+
+    if (delta > 0) {
+      const unitCost = data.unitCost ?? (await this.getFallbackCost(tx, data.partId));
+      await tx.stockLot.create({
+        data: {
+          quantity: delta,
+          remaining: delta,
+          unitCost,
+          partId: data.partId,
+          warehouseId: data.warehouseId,
+          movementId,
+        },
+      });
+      return Math.round(delta * unitCost * 100) / 100;
+    }
+
+    let need = -delta;
+    let cost = 0;
+    const lots = await tx.stockLot.findMany({
+      where: { partId: data.partId, warehouseId: data.warehouseId, remaining: { gt: 0 } },
+      include: { movement: { select: { referenceId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (data.lotReferenceId) {
+      const own = (lot: any) => Number(lot.movement?.referenceId === data.lotReferenceId);
+      lots.sort((a: any, b: any) => own(b) - own(a));
+    }
+    for (const lot of lots) {
+      if (need <= 0) break;
+      const take = Math.min(need, Number(lot.remaining));
+      await tx.stockLot.update({ where: { id: lot.id }, data: { remaining: { decrement: take } } });
+      await tx.stockLotConsumption.create({ data: { lotId: lot.id, movementId, quantity: take } });
+      cost += take * Number(lot.unitCost);
+      need = roundQuantity(need - take);
+    }
+    if (need > 0) cost += need * (await this.getFallbackCost(tx, data.partId));
+
+    return Math.round(cost * 100) / 100;
+  }
+
+  private async getFallbackCost(tx: any, partId: string): Promise<number> {
+    const part = await tx.part.findUnique({ where: { id: partId }, select: { costPrice: true } });
+    return Number(part?.costPrice ?? 0);
+  }
+
   private async syncPartCurrentStock(tx: any, partId: string) {
     const agg = await tx.warehouseStock.aggregate({
       where: { partId },
@@ -0,0 +1,290 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from './inventory.service';
+import { ReservationsService } from './reservations.service';
+import { roundQuantity } from '@sto-crm/shared';
+
+type LocationData = {
+  code?: string;
+  zone?: string;
+  rack?: string;
+  shelf?: string;
+  notes?: string;
+  isActive?: boolean;
+};
+
+@Injectable()
+export class LocationsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+    private readonly reservationsService: ReservationsService,
+  ) {}
+
+  // ===== Locations =====
+
+  async findAll(tenantId: string, warehouseId: string): Promise<any[]> {
+    await this.assertWarehouse(tenantId, warehouseId);
+
+    const locations = await this.prisma.storageLocation.findMany({
+      where: { warehouseId },
+      include: { stock: { select: { quantity: true } } },
+      orderBy: { code: 'asc' },
+    });
+
+    return locations.map(({ stock, ...l }) => ({
+      ...l,
+      partsCount: stock.length,
+      totalQuantity: roundQuantity(stock.reduce((s, i) => s + Number(i.quantity), 0)),
+    }));
+  }
+
+  /** Код места по умолчанию собирается из зоны, стеллажа и полки: «A-03-2» */
+  async create(tenantId: string, warehouseId: string, data: LocationData): Promise<any> {
+    await this.assertWarehouse(tenantId, warehouseId);
+    const code = (data.code || [data.zone, data.rack, data.shelf].filter(Boolean).join('-')).trim();
+    if (!code) throw new BadRequestException('Укажите код места или зону/стеллаж/полку');
+    await this.assertUniqueCode(warehouseId, code);
+
+    return this.prisma.storageLocation.create({
+      data: { ...data, code, warehouseId },
+    });
+  }
+
+  async update(tenantId: string, id: string, data: LocationData): Promise<any> {
+    const location = await this.findById(tenantId, id);
+    if (data.code && data.code !== location.code) {
+      await this.assertUniqueCode(location.warehouseId, data.code);
+    }
+    return this.prisma.storageLocation.update({ where: { id }, data });
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    await this.findById(tenantId, id);
+    const occupied = await this.prisma.locationStock.count({ where: { locationId: id, quantity: { gt: 0 } } });
+    if (occupied > 0) {
+      throw new BadRequestException('На месте хранения есть товар — переместите его или деактивируйте место');
+    }
+    await this.prisma.storageLocation.delete({ where: { id } });
+  }
+
+  async getLocationStock(tenantId: string, id: string): Promise<any[]> {
+    await this.findById(tenantId, id);
+    const rows = await this.prisma.locationStock.findMany({
+      where: { locationId: id, quantity: { gt: 0 } },
+      include: { part: { select: { id: true, name: true, sku: true, brand: true, oemNumber: true, unit: true } } },
+      orderBy: { part: { name: 'asc' } },
+    });
+    return rows.map((r) => ({ ...r, quantity: Number(r.quantity) }));
+  }
+
+  /** Где лежит запчасть: по каждому складу — места и неразмещённый остаток */
+  async getPartPlacement(tenantId: string, partId: string): Promise<any[]> {
+    const part = await this.prisma.part.findFirst({ where: { id: partId, tenantId }, select: { id: true } });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+
+    const [stock, placed] = await Promise.all([
+      this.prisma.warehouseStock.findMany({
+        where: { partId, warehouse: { tenantId } },
+        include: { warehouse: { select: { id: true, name: true } } },
+      }),
+      this.prisma.locationStock.findMany({
+        where: { partId, quantity: { gt: 0 } },
+        include: { location: { select: { id: true, code: true, warehouseId: true } } },
+        orderBy: { location: { code: 'asc' } },
+      }),
+    ]);
+
+    return stock.map((ws) => {
+      const locations = placed
+        .filter((p) => p.location.warehouseId === ws.warehouseId)
+        .map((p) => ({ id: p.location.id, code: p.location.code, quantity: Number(p.quantity) }));
+      const placedQty = locations.reduce((s, l) => s + l.quantity, 0);
+      return {
+        warehouseId: ws.warehouseId,
+        warehouseName: ws.warehouse.name,
+        quantity: Number(ws.quantity),
+        locations,
+        unplaced: roundQuantity(Math.max(0, Number(ws.quantity) - placedQty)),
+      };
+    });
+  }
+
+  // ===== Moves =====
+
+  /**
+   * Перемещение между местами одного склада — движение RELOCATION.
+   * Без fromLocationId товар берётся из неразмещённого остатка (размещение после приёмки),
+   * без toLocationId — снимается с места в неразмещённый.
+   */
+  async move(
+    tenantId: string,
+    data: {
+      partId: string;
+      warehouseId: string;
+      fromLocationId?: string;
+      toLocationId?: string;
+      quantity: number;
+      notes?: string;
+      userId?: string;
+    },
+  ): Promise<any> {
+    if (!data.fromLocationId && !data.toLocationId) {
+      throw new BadRequestException('Укажите место, откуда или куда перемещается товар');
+    }
+    if (data.fromLocationId === data.toLocationId) {
+      throw new BadRequestException('Место назначения совпадает с исходным');
+    }
+
+    const available = data.fromLocationId
+      ? await this.getLocationQuantity(data.partId, data.fromLocationId)
+      : await this.getUnplacedQuantity(data.partId, data.warehouseId);
+    if (available < data.quantity) {
+      throw new BadRequestException(`Недостаточно товара для перемещения (доступно: ${available})`);
+    }
+
+    return this.inventoryService.addMovement(tenantId, {
+      partId: data.partId,
+      warehouseId: data.warehouseId,
+      type: 'RELOCATION',
+      quantity: data.quantity,
+      locationId: data.fromLocationId,
+      toLocationId: data.toLocationId,
+      notes: data.notes,
+      userId: data.userId,
+    });
+  }
+
+  // ===== Pick list =====
+
+  /**
+   * Лист подбора по PART-позициям заказ-наряда: где взять каждую запчасть.
+   * Склады — те, где под позицию есть активный резерв, иначе склад позиции,
+   * а если он не выбран — все склады с остатком.
+   * Строки отсортированы по коду первого места, чтобы обходить склад по порядку.
+   */
+  async getPickList(tenantId: string, workOrderId: string): Promise<any> {
+    const workOrder = await this.prisma.workOrder.findFirst({
+      where: { id: workOrderId, tenantId },
+      select: {
+        id: true,
+        orderNumber: true,
+        vehicle: { select: { make: true, model: true, licensePlate: true } },
+        mechanic: { select: { firstName: true, lastName: true } },
+        items: {
+          where: { type: 'PART', partId: { not: null }, OR: [{ recommended: false }, { approvedByClient: true }] },
+          select: {
+            id: true,
+            description: true,
+            quantity: true,
+            warehouseId: true,
+            part: { select: { id: true, name: true, sku: true, brand: true, oemNumber: true, unit: true } },
+          },
+        },
+      },
+    });
+    if (!workOrder) throw new NotFoundException('Заказ-наряд не найден');
+
+    const itemIds = workOrder.items.map((i) => i.id);
+    const partIds = [...new Set(workOrder.items.map((i) => i.part!.id))];
+
+    const [totals, stock, placed] = await Promise.all([
+      this.reservationsService.getItemTotals(itemIds),
+      this.prisma.warehouseStock.findMany({
+        where: { partId: { in: partIds }, warehouse: { tenantId }, quantity: { gt: 0 } },
+        include: { warehouse: { select: { id: true, name: true } } },
+        orderBy: { quantity: 'desc' },
+      }),
+      this.prisma.locationStock.findMany({
+        where: { partId: { in: partIds }, quantity: { gt: 0 } },
+        include: { location: { select: { id: true, code: true, warehouseId: true } } },
+        orderBy: { location: { code: 'asc' } },
+      }),
+    ]);
+
+    const lines = workOrder.items.map((item) => {
+      const partId = item.part!.id;
+      const reserved = totals.get(item.id)?.held ?? new Map<string, number>();
+      const sourceIds = reserved.size > 0 ? [...reserved.keys()] : item.warehouseId ? [item.warehouseId] : [];
+
+      const sources = stock
+        .filter((ws) => ws.partId === partId && (sourceIds.length === 0 || sourceIds.includes(ws.warehouseId)))
+        .map((ws) => {
+          const locations = placed
+            .filter((p) => p.partId === partId && p.location.warehouseId === ws.warehouseId)
+            .map((p) => ({ id: p.location.id, code: p.location.code, quantity: Number(p.quantity) }));
+          const placedQty = locations.reduce((s, l) => s + l.quantity, 0);
+          return {
+            warehouseId: ws.warehouseId,
+            warehouseName: ws.warehouse.name,
+            reserved: reserved.get(ws.warehouseId) ?? 0,
+            locations,
+            unplaced: roundQuantity(Math.max(0, Number(ws.quantity) - placedQty)),
+          };
+        });
+
+      return {
+        itemId: item.id,
+        description: item.description,
+        part: item.part,
+        quantity: Number(item.quantity),
+        sources,
+      };
+    });
+
+    const firstCode = (line: (typeof lines)[number]) => line.sources[0]?.locations[0]?.code ?? '￿';
+    lines.sort((a, b) => firstCode(a).localeCompare(firstCode(b), 'ru', { numeric: true }));
+
+    return {
+      workOrder: {
+        id: workOrder.id,
+        orderNumber: workOrder.orderNumber,
+        vehicle: workOrder.vehicle,
+        mechanic: workOrder.mechanic,
+      },
+      lines,
+    };
+  }
+
+  // --- Helpers ---
+
+  private async findById(tenantId: string, id: string) {
+    const location = await this.prisma.storageLocation.findFirst({
+      where: { id, warehouse: { tenantId } },
+    });
+    if (!location) throw new NotFoundException('Место хранения не найдено');
+    return location;
+  }
+
+  private async assertWarehouse(tenantId: string, warehouseId: string) {
+    const wh = await this.prisma.warehouse.findFirst({ where: { id: warehouseId, tenantId } });
+    if (!wh) throw new NotFoundException('Склад не найден');
+  }
+
+  private async assertUniqueCode(warehouseId: string, code: string) {
+    const existing = await this.prisma.storageLocation.findFirst({ where: { warehouseId, code } });
+    if (existing) throw new ConflictException('Место с таким кодом уже есть на складе');
+  }
+
+  private async getLocationQuantity(partId: string, locationId: string): Promise<number> {
+    const row = await this.prisma.locationStock.findUnique({
+      where: { partId_locationId: { partId, locationId } },
+      select: { quantity: true },
+    });
+    return Number(row?.quantity ?? 0);
+  }
+
+  private async getUnplacedQuantity(partId: string, warehouseId: string): Promise<number> {
+    const [ws, placed] = await Promise.all([
+      this.prisma.warehouseStock.findUnique({
+        where: { partId_warehouseId: { partId, warehouseId } },
+        select: { quantity: true },
+      }),
+      this.prisma.locationStock.aggregate({
+        where: { partId, location: { warehouseId } },
+        _sum: { quantity: true },
+      }),
+    ]);
+    return roundQuantity(Number(ws?.quantity ?? 0) - Number(placed._sum.quantity ?? 0));
+  }
+}
@@ -0,0 +1,414 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from './inventory.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import { roundQuantity } from '@sto-crm/shared';
+import { ReservationStatus } from '@prisma/client';
+
+type ItemContext = {
+  itemId: string;
+  partId: string;
+  /** Ссылка для движений: «WO:WO-00042» */
+  reference: string;
+  userId?: string;
+};
+
+const reservationInclude = {
+  part: { select: { id: true, name: true, sku: true, unit: true } },
+  warehouse: { select: { id: true, name: true } },
+  workOrderItem: {
+    select: {
+      id: true,
+      description: true,
+      quantity: true,
+      workOrder: {
+        select: {
+          id: true,
+          orderNumber: true,
+          status: true,
+          client: { select: { id: true, firstName: true, lastName: true } },
+          vehicle: { select: { make: true, model: true, licensePlate: true } },
+          mechanic: { select: { id: true, firstName: true, lastName: true } },
+        },
+      },
+    },
+  },
+};
+
+@Injectable()
+export class ReservationsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  // ===== Reservations =====
+
+  /** Кто держит резерв: список резервов с заказ-нарядом, клиентом и сроком */
+  async findAll(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      partId?: string;
+      warehouseId?: string;
+      status?: ReservationStatus;
+    },
+  ): Promise<PaginatedResponse<any>> {
+    await this.releaseExpired(tenantId);
+
+    const { page, limit, partId, warehouseId, status } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = { part: { tenantId }, status: status ?? 'ACTIVE' };
+    if (partId) where.partId = partId;
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const [data, total] = await Promise.all([
+      this.prisma.stockReservation.findMany({
+        where,
+        skip,
+        take: limit,
+        include: reservationInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.stockReservation.count({ where }),
+    ]);
+
+    return paginate(data, total, page, limit);
+  }
+
+  async update(tenantId: string, id: string, data: { expiresAt?: string | null }): Promise<any> {
+    const reservation = await this.findActive(tenantId, id);
+    return this.prisma.stockReservation.update({
+      where: { id: reservation.id },
+      data: { expiresAt: data.expiresAt ? new Date(data.expiresAt) : null },
+      include: reservationInclude,
+    });
+  }
+
+  /** Ручное снятие резерва (например, клиент забрал деталь с другого заказа) */
+  async release(tenantId: string, id: string, userId?: string): Promise<any> {
+    const reservation = await this.findActive(tenantId, id);
+    const reference = `WO:${reservation.workOrderItem.workOrder.orderNumber}`;
+    await this.prisma.$transaction((tx) =>
+      this.closeReservation(tx, reservation, 'RELEASED', { reference, userId, notes: 'Резерв снят вручную' }),
+    );
+    return this.prisma.stockReservation.findUnique({ where: { id }, include: reservationInclude });
+  }
+
+  /**
+   * Перенос резерва на другой склад: свободный товар перемещается вместе с резервом
+   * (снятие резерва → перемещение → резерв на складе-получателе), склад позиции меняется.
+   */
+  async transfer(tenantId: string, id: string, data: { toWarehouseId: string; userId?: string }): Promise<any> {
+    const reservation = await this.findActive(tenantId, id);
+    if (reservation.warehouseId === data.toWarehouseId) {
+      throw new BadRequestException('Резерв уже на этом складе');
+    }
+    const target = await this.prisma.warehouse.findFirst({
+      where: { id: data.toWarehouseId, tenantId, isActive: true },
+    });
+    if (!target) throw new BadRequestException('Склад не найден');
+
+    const quantity = Number(reservation.quantity);
+    const reference = `WO:${reservation.workOrderItem.workOrder.orderNumber}`;
+    const base = { partId: reservation.partId, quantity, reference, referenceId: reservation.workOrderItemId, userId: data.userId };
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.inventoryService.applyMovement(tx, { ...base, warehouseId: reservation.warehouseId, type: 'UNRESERVED' });
+      const out = await this.inventoryService.applyMovement(tx, {
+        ...base,
+        warehouseId: reservation.warehouseId,
+        type: 'TRANSFER_OUT',
+        notes: `Перенос резерва на склад «${target.name}»`,
+      });
+      await this.inventoryService.applyMovement(tx, {
+        ...base,
+        warehouseId: target.id,
+        type: 'TRANSFER_IN',
+        unitCost: Number(out.costAmount) / quantity,
+      });
+      await this.inventoryService.applyMovement(tx, { ...base, warehouseId: target.id, type: 'RESERVED' });
+
+      await tx.stockReservation.update({ where: { id }, data: { warehouseId: target.id } });
+      await tx.workOrderItem.update({ where: { id: reservation.workOrderItemId }, data: { warehouseId: target.id } });
+    });
+
+    return this.prisma.stockReservation.findUnique({ where: { id }, include: reservationInclude });
+  }
+
+  /** Снятие просроченных резервов — выполняется перед чтением и перед новым резервированием */
+  async releaseExpired(tenantId: string): Promise<number> {
+    const expired = await this.prisma.stockReservation.findMany({
+      where: { part: { tenantId }, status: 'ACTIVE', expiresAt: { lte: new Date() } },
+      include: { workOrderItem: { select: { workOrder: { select: { orderNumber: true } } } } },
+    });
+    for (const reservation of expired) {
+      await this.prisma.$transaction((tx) =>
+        this.closeReservation(tx, reservation, 'EXPIRED', {
+          reference: `WO:${reservation.workOrderItem.workOrder.orderNumber}`,
+          notes: 'Истёк срок резерва',
+        }),
+      );
+    }
+    return expired.length;
+  }
+
+  // ===== Work order items =====
+
+  /**
+   * Резерв под позицию со склада-источника. Если склад не задан — выбирается склад,
+   * где свободного остатка хватает на всё количество (иначе — где его больше всего),
+   * и он становится складом позиции. Резервируется не больше свободного остатка.
+   * Возвращает зарезервированное количество.
+   */
+  async reserveForItem(
+    tenantId: string,
+    data: ItemContext & { quantity: number; warehouseId?: string | null },
+  ): Promise<number> {
+    if (data.quantity <= 0) return 0;
+    await this.releaseExpired(tenantId);
+
+    const stocks = await this.prisma.warehouseStock.findMany({
+      where: {
+        partId: data.partId,
+        warehouse: { tenantId, isActive: true },
+        ...(data.warehouseId ? { warehouseId: data.warehouseId } : {}),
+      },
+      select: { warehouseId: true, quantity: true, reserved: true },
+    });
+    const options = stocks
+      .map((ws) => ({ warehouseId: ws.warehouseId, available: roundQuantity(Number(ws.quantity) - Number(ws.reserved)) }))
+      .sort((a, b) => b.available - a.available);
+    const source = options.find((o) => o.available >= data.quantity) ?? options[0];
+
+    const warehouseId = data.warehouseId ?? source?.warehouseId;
+    if (warehouseId) {
+      await this.prisma.workOrderItem.update({ where: { id: data.itemId }, data: { warehouseId } });
+    }
+
+    const quantity = Math.min(data.quantity, Math.max(0, source?.available ?? 0));
+    if (!source || quantity <= 0) return 0;
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.inventoryService.applyMovement(tx, {
+        partId: data.partId,
+        warehouseId: source.warehouseId,
+        type: 'RESERVED',
+        quantity,
+        reference: data.reference,
+        referenceId: data.itemId,
+        userId: data.userId,
+      });
+      await tx.stockReservation.create({
+        data: {
+          partId: data.partId,
+          warehouseId: source.warehouseId,
+          workOrderItemId: data.itemId,
+          quantity,
+          userId: data.userId,
+        },
+      });
+    });
+    return quantity;
+  }
+
+  /**
+   * Приведение резерва позиции к нужному количеству: недостающее докупается
+   * со склада позиции, лишнее снимается с самых поздних резервов.
+   */
+  async adjustForItem(tenantId: string, data: ItemContext & { quantity: number }): Promise<void> {
+    const reservations = await this.getActive(data.itemId);
+    const held = roundQuantity(reservations.reduce((s, r) => s + Number(r.quantity), 0));
+    const consumed = await this.getConsumed(data.itemId);
+    const target = roundQuantity(Math.max(0, data.quantity - consumed));
+
+    if (target > held) {
+      const item = await this.prisma.workOrderItem.findUnique({
+        where: { id: data.itemId },
+        select: { warehouseId: true },
+      });
+      await this.reserveForItem(tenantId, { ...data, quantity: roundQuantity(target - held), warehouseId: item?.warehouseId });
+      return;
+    }
+
+    let excess = roundQuantity(held - target);
+    if (excess <= 0) return;
+    await this.prisma.$transaction(async (tx) => {
+      for (const reservation of [...reservations].reverse()) {
+        if (excess <= 0) break;
+        const take = Math.min(excess, Number(reservation.quantity));
+        await this.reduceReservation(tx, reservation, take, 'RELEASED', data);
+        excess = roundQuantity(excess - take);
+      }
+    });
+  }
+
+  /**
+   * Дорезервирование перед завершением заказ-наряда: резерв мог истечь или быть снят.
+   * Возвращает, сколько ещё не хватает — ни списано, ни удерживается.
+   */
+  async reserveOutstanding(tenantId: string, data: ItemContext & { quantity: number }): Promise<number> {
+    await this.adjustForItem(tenantId, data);
+    const reservations = await this.getActive(data.itemId);
+    const held = reservations.reduce((s, r) => s + Number(r.quantity), 0);
+    const consumed = await this.getConsumed(data.itemId);
+    return roundQuantity(Math.max(0, data.quantity - consumed - held));
+  }
+
+  /** Смена склада-источника: резерв снимается и ставится заново на новом складе */
+  async changeItemWarehouse(
+    tenantId: string,
+    data: ItemContext & { quantity: number; warehouseId: string },
+  ): Promise<number> {
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: data.warehouseId, tenantId, isActive: true },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
+
+    await this.releaseForItem(data);
+    const consumed = await this.getConsumed(data.itemId);
+    return this.reserveForItem(tenantId, { ...data, quantity: roundQuantity(data.quantity - consumed) });
+  }
+
+  async releaseForItem(data: ItemContext): Promise<void> {
+    const reservations = await this.getActive(data.itemId);
+    if (reservations.length === 0) return;
+    await this.prisma.$transaction(async (tx) => {
+      for (const reservation of reservations) {
+        await this.closeReservation(tx, reservation, 'RELEASED', data);
+      }
+    });
+  }
+
+  /**
+   * Списание по резервам позиции (FIFO по резервам): всё удерживаемое
+   * или только quantity — для частичной выдачи. Себестоимость партий
+   * прибавляется к WorkOrderItem.costAmount. Возвращает себестоимость списанного.
+   */
+  async consumeForItem(data: ItemContext & { quantity?: number }): Promise<number> {
+    const reservations = await this.getActive(data.itemId);
+    const held = roundQuantity(reservations.reduce((s, r) => s + Number(r.quantity), 0));
+    let need = data.quantity === undefined ? held : data.quantity;
+    if (need > held) {
+      throw new BadRequestException(`Недостаточно зарезервировано для выдачи (в резерве: ${held})`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      let cost = 0;
+      for (const reservation of reservations) {
+        if (need <= 0) break;
+        const take = Math.min(need, Number(reservation.quantity));
+        const movement = await this.inventoryService.applyMovement(tx, {
+          partId: data.partId,
+          warehouseId: reservation.warehouseId,
+          type: 'CONSUMPTION',
+          quantity: take,
+          reference: data.reference,
+          referenceId: data.itemId,
+          userId: data.userId,
+        });
+        cost += Number(movement.costAmount ?? 0);
+        const quantity = roundQuantity(Number(reservation.quantity) - take);
+        await tx.stockReservation.update({
+          where: { id: reservation.id },
+          data: {
+            quantity,
+            consumedQty: { increment: take },
+            ...(quantity <= 0 ? { status: 'CONSUMED', closedAt: new Date() } : {}),
+          },
+        });
+        need = roundQuantity(need - take);
+      }
+
+      cost = Math.round(cost * 100) / 100;
+      if (cost > 0) {
+        await tx.workOrderItem.update({ where: { id: data.itemId }, data: { costAmount: { increment: cost } } });
+      }
+      return cost;
+    });
+  }
+
+  /** Удерживаемое и уже списанное по позициям — для потребности и листа подбора */
+  async getItemTotals(itemIds: string[]): Promise<Map<string, { held: Map<string, number>; consumed: number }>> {
+    const reservations = await this.prisma.stockReservation.findMany({
+      where: { workOrderItemId: { in: itemIds } },
+      select: { workOrderItemId: true, warehouseId: true, quantity: true, consumedQty: true, status: true },
+    });
+
+    const result = new Map<string, { held: Map<string, number>; consumed: number }>();
+    for (const r of reservations) {
+      const totals = result.get(r.workOrderItemId) ?? { held: new Map<string, number>(), consumed: 0 };
+      totals.consumed = roundQuantity(totals.consumed + Number(r.consumedQty));
+      if (r.status === 'ACTIVE') {
+        totals.held.set(r.warehouseId, roundQuantity((totals.held.get(r.warehouseId) ?? 0) + Number(r.quantity)));
+      }
+      result.set(r.workOrderItemId, totals);
+    }
+    return result;
+  }
+
+  // --- Helpers ---
+
+  private async findActive(tenantId: string, id: string) {
+    const reservation = await this.prisma.stockReservation.findFirst({
+      where: { id, part: { tenantId } },
+      include: { workOrderItem: { select: { workOrder: { select: { orderNumber: true } } } } },
+    });
+    if (!reservation) throw new NotFoundException('Резерв не найден');
+    if (reservation.status !== 'ACTIVE') throw new BadRequestException('Резерв уже закрыт');
+    return reservation;
+  }
+
+  private getActive(itemId: string) {
+    return this.prisma.stockReservation.findMany({
+      where: { workOrderItemId: itemId, status: 'ACTIVE' },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async getConsumed(itemId: string): Promise<number> {
+    const agg = await this.prisma.stockReservation.aggregate({
+      where: { workOrderItemId: itemId },
+      _sum: { consumedQty: true },
+    });
+    return Number(agg._sum.consumedQty ?? 0);
+  }
+
+  private closeReservation(
+    tx: any,
+    reservation: { id: string; partId: string; warehouseId: string; workOrderItemId: string; quantity: unknown },
+    status: 'RELEASED' | 'EXPIRED',
+    data: { reference: string; userId?: string; notes?: string },
+  ) {
+    return this.reduceReservation(tx, reservation, Number(reservation.quantity), status, data);
+  }
+
+  /** Снятие части резерва движением UNRESERVED; резерв до нуля закрывается со статусом status */
+  private async reduceReservation(
+    tx: any,
+    reservation: { id: string; partId: string; warehouseId: string; workOrderItemId: string; quantity: unknown },
+    quantity: number,
+    status: 'RELEASED' | 'EXPIRED',
+    data: { reference: string; userId?: string; notes?: string },
+  ) {
+    if (quantity > 0) {
+      await this.inventoryService.applyMovement(tx, {
+        partId: reservation.partId,
+        warehouseId: reservation.warehouseId,
+        type: 'UNRESERVED',
+        quantity,
+        reference: data.reference,
+        referenceId: reservation.workOrderItemId,
+        notes: data.notes,
+        userId: data.userId,
+      });
+    }
+    const left = roundQuantity(Number(reservation.quantity) - quantity);
+    await tx.stockReservation.update({
+      where: { id: reservation.id },
+      data: left > 0 ? { quantity: left } : { status, closedAt: new Date() },
+    });
+  }
+}
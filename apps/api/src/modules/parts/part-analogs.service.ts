@@ -0,0 +1,229 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { normalizeOemNumber, roundQuantity } from '@sto-crm/shared';
+
+type AnalogEntryInput = { brand?: string; oemNumber: string };
+
+const partSelect = {
+  id: true,
+  name: true,
+  sku: true,
+  brand: true,
+  manufacturer: true,
+  oemNumber: true,
+  oemKey: true,
+  unit: true,
+  sellPrice: true,
+  warehouseStock: { select: { quantity: true, reserved: true } },
+};
+
+@Injectable()
+export class PartAnalogsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===== Analog groups =====
+
+  async findGroups(tenantId: string, search?: string): Promise<any[]> {
+    const where: any = { tenantId };
+    if (search) {
+      const s = search.trim();
+      where.OR = [
+        { name: { contains: s, mode: 'insensitive' } },
+        { entries: { some: { oemKey: { contains: normalizeOemNumber(s) ?? s } } } },
+        { entries: { some: { brand: { contains: s, mode: 'insensitive' } } } },
+      ];
+    }
+
+    return this.prisma.partAnalogGroup.findMany({
+      where,
+      include: { entries: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findGroupById(tenantId: string, id: string): Promise<any> {
+    const group = await this.prisma.partAnalogGroup.findFirst({
+      where: { id, tenantId },
+      include: { entries: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!group) throw new NotFoundException('Группа аналогов не найдена');
+    return group;
+  }
+
+  /**
+   * Группа создаётся из OEM-номеров (с брендом или без) и/или из карточек запчастей —
+   * у запчасти берутся её OEM-номер и бренд. В группе должно быть минимум два номера.
+   */
+  async createGroup(
+    tenantId: string,
+    data: { name?: string; notes?: string; entries?: AnalogEntryInput[]; partIds?: string[] },
+  ): Promise<any> {
+    const entries = await this.resolveEntries(tenantId, data.entries, data.partIds);
+    if (entries.length < 2) {
+      throw new BadRequestException('В группе аналогов должно быть минимум два номера');
+    }
+
+    const group = await this.prisma.partAnalogGroup.create({
+      data: {
+        name: data.name,
+        notes: data.notes,
+        tenantId,
+        entries: { create: entries },
+      },
+    });
+    return this.findGroupById(tenantId, group.id);
+  }
+
+  async updateGroup(tenantId: string, id: string, data: { name?: string; notes?: string }): Promise<any> {
+    await this.findGroupById(tenantId, id);
+    await this.prisma.partAnalogGroup.update({ where: { id }, data });
+    return this.findGroupById(tenantId, id);
+  }
+
+  /** Добавление номеров в группу; уже имеющиеся пары «номер + бренд» пропускаются */
+  async addEntries(
+    tenantId: string,
+    id: string,
+    data: { entries?: AnalogEntryInput[]; partIds?: string[] },
+  ): Promise<any> {
+    const group = await this.findGroupById(tenantId, id);
+    const entries = (await this.resolveEntries(tenantId, data.entries, data.partIds)).filter(
+      (e) => !group.entries.some((g: any) => g.oemKey === e.oemKey && sameBrand(g.brand, e.brand)),
+    );
+    if (entries.length > 0) {
+      await this.prisma.partAnalog.createMany({
+        data: entries.map((e) => ({ ...e, groupId: id })),
+      });
+    }
+    return this.findGroupById(tenantId, id);
+  }
+
+  async removeEntry(tenantId: string, entryId: string): Promise<void> {
+    const entry = await this.prisma.partAnalog.findFirst({
+      where: { id: entryId, group: { tenantId } },
+    });
+    if (!entry) throw new NotFoundException('Номер в группе аналогов не найден');
+    await this.prisma.partAnalog.delete({ where: { id: entryId } });
+  }
+
+  async deleteGroup(tenantId: string, id: string): Promise<void> {
+    await this.findGroupById(tenantId, id);
+    await this.prisma.partAnalogGroup.delete({ where: { id } });
+  }
+
+  // ===== Analog lookup =====
+
+  /**
+   * Аналоги запчасти:
+   * - OEM — другие карточки с тем же OEM-номером (другой бренд, другой артикул);
+   * - GROUP — карточки, чей номер входит в группу аналогов вместе с номером запчасти.
+   * Номер группы с брендом совпадает только с запчастью этого бренда.
+   * Доступно = остаток − резерв по всем складам; сначала идут аналоги в наличии, затем по цене.
+   */
+  async getAnalogs(
+    tenantId: string,
+    partId: string,
+    params: { inStock?: boolean } = {},
+  ): Promise<{ part: any; analogs: any[] }> {
+    const part = await this.prisma.part.findFirst({
+      where: { id: partId, tenantId },
+      select: partSelect,
+    });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+
+    const result = { part: toAnalogPart(part), analogs: [] as any[] };
+    if (!part.oemKey) return result;
+
+    const ownEntries = await this.prisma.partAnalog.findMany({
+      where: { oemKey: part.oemKey, group: { tenantId } },
+      select: { groupId: true, brand: true },
+    });
+    const groupIds = [
+      ...new Set(ownEntries.filter((e) => matchesBrand(e.brand, part)).map((e) => e.groupId)),
+    ];
+    const groupEntries = groupIds.length
+      ? await this.prisma.partAnalog.findMany({
+          where: { groupId: { in: groupIds } },
+          select: { oemKey: true, brand: true },
+        })
+      : [];
+
+    const keys = [...new Set([part.oemKey, ...groupEntries.map((e) => e.oemKey)])];
+    const candidates = await this.prisma.part.findMany({
+      where: { tenantId, isActive: true, id: { not: part.id }, oemKey: { in: keys } },
+      select: partSelect,
+    });
+
+    for (const candidate of candidates) {
+      let matchedBy: 'OEM' | 'GROUP' | null = null;
+      if (candidate.oemKey === part.oemKey) {
+        matchedBy = 'OEM';
+      } else if (groupEntries.some((e) => e.oemKey === candidate.oemKey && matchesBrand(e.brand, candidate))) {
+        matchedBy = 'GROUP';
+      }
+      if (!matchedBy) continue;
+
+      const analog = { ...toAnalogPart(candidate), matchedBy };
+      if (params.inStock && analog.available <= 0) continue;
+      result.analogs.push(analog);
+    }
+
+    result.analogs.sort(
+      (a, b) => Number(b.available > 0) - Number(a.available > 0) || a.sellPrice - b.sellPrice,
+    );
+    return result;
+  }
+
+  // --- Helpers ---
+
+  private async resolveEntries(
+    tenantId: string,
+    entries: AnalogEntryInput[] = [],
+    partIds: string[] = [],
+  ): Promise<Array<{ brand: string | null; oemNumber: string; oemKey: string }>> {
+    const result: Array<{ brand: string | null; oemNumber: string; oemKey: string }> = [];
+    const push = (oemNumber: string, brand?: string | null) => {
+      const oemKey = normalizeOemNumber(oemNumber);
+      if (!oemKey) throw new BadRequestException(`Некорректный OEM-номер «${oemNumber}»`);
+      const normalizedBrand = brand?.trim() || null;
+      if (result.some((e) => e.oemKey === oemKey && sameBrand(e.brand, normalizedBrand))) return;
+      result.push({ brand: normalizedBrand, oemNumber: oemNumber.trim(), oemKey });
+    };
+
+    for (const entry of entries) push(entry.oemNumber, entry.brand);
+
+    if (partIds.length > 0) {
+      const parts = await this.prisma.part.findMany({
+        where: { id: { in: partIds }, tenantId },
+        select: { name: true, brand: true, manufacturer: true, oemNumber: true },
+      });
+      if (parts.length !== new Set(partIds).size) throw new BadRequestException('Запчасть не найдена');
+      for (const p of parts) {
+        if (!p.oemNumber) throw new BadRequestException(`У запчасти «${p.name}» не указан OEM-номер`);
+        push(p.oemNumber, p.brand ?? p.manufacturer);
+      }
+    }
+
+    return result;
+  }
+}
+
+function sameBrand(a: string | null, b: string | null): boolean {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase();
+}
+
+/** Номер группы без бренда подходит любой запчасти, с брендом — только запчасти этого бренда */
+function matchesBrand(entryBrand: string | null, part: { brand: string | null; manufacturer: string | null }): boolean {
+  if (!entryBrand) return true;
+  const brand = entryBrand.toLowerCase();
+  return part.brand?.toLowerCase() === brand || part.manufacturer?.toLowerCase() === brand;
+}
+
+function toAnalogPart(part: any) {
+  const { warehouseStock, ...rest } = part;
+  const available = warehouseStock.reduce(
+    (s: number, ws: { quantity: unknown; reserved: unknown }) => s + Number(ws.quantity) - Number(ws.reserved),
+    0,
+  );
+  return { ...rest, sellPrice: Number(part.sellPrice), available: roundQuantity(Math.max(0, available)) };
+}
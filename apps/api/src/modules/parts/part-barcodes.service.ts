@@ -0,0 +1,184 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { buildLabelsPdf, type Label } from '../../common/utils/labels-pdf.utils';
+import { normalizeBarcode, detectBarcodeFormat, eanCheckDigit } from '@sto-crm/shared';
+import { PartBarcode, Prisma } from '@prisma/client';
+
+// Свои штрихкоды — EAN-13 из диапазона 2xx для внутреннего использования магазина
+const INTERNAL_PREFIX = '2';
+
+const lookupSelect = {
+  id: true,
+  name: true,
+  sku: true,
+  brand: true,
+  manufacturer: true,
+  oemNumber: true,
+  unit: true,
+  sellPrice: true,
+  currentStock: true,
+  isActive: true,
+  barcodes: { select: { id: true, code: true, format: true, isManufacturer: true } },
+};
+
+@Injectable()
+export class PartBarcodesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findByPart(tenantId: string, partId: string): Promise<PartBarcode[]> {
+    await this.getPart(tenantId, partId);
+    return this.prisma.partBarcode.findMany({ where: { partId, tenantId }, orderBy: { createdAt: 'asc' } });
+  }
+
+  /** Привязать штрихкод (свой или производителя). EAN проверяется по контрольной цифре */
+  async add(
+    tenantId: string,
+    partId: string,
+    data: { code: string; isManufacturer?: boolean },
+  ): Promise<PartBarcode> {
+    await this.getPart(tenantId, partId);
+
+    const code = normalizeBarcode(data.code);
+    const format = detectBarcodeFormat(code);
+    if (/^(\d{8}|\d{13})$/.test(code) && format === 'CODE128') {
+      throw new BadRequestException(`Неверная контрольная цифра EAN в коде «${code}»`);
+    }
+    if (!format) throw new BadRequestException('Штрихкод может содержать только латиницу, цифры и знаки');
+
+    const existing = await this.prisma.partBarcode.findFirst({
+      where: { code, tenantId },
+      include: { part: { select: { id: true, name: true } } },
+    });
+    if (existing) {
+      if (existing.partId === partId) return existing;
+      throw new ConflictException(`Штрихкод «${code}» уже привязан к запчасти «${existing.part.name}»`);
+    }
+
+    return this.prisma.partBarcode.create({
+      data: { code, format, isManufacturer: data.isManufacturer ?? false, partId, tenantId },
+    });
+  }
+
+  /** Сгенерировать свой EAN-13 для печати этикеток */
+  async generate(tenantId: string, partId: string): Promise<PartBarcode> {
+    await this.getPart(tenantId, partId);
+    return this.createInternal(tenantId, partId);
+  }
+
+  async remove(tenantId: string, id: string): Promise<void> {
+    const barcode = await this.prisma.partBarcode.findFirst({ where: { id, tenantId } });
+    if (!barcode) throw new NotFoundException('Штрихкод не найден');
+    await this.prisma.partBarcode.delete({ where: { id } });
+  }
+
+  /**
+   * Поиск запчастей по отсканированному коду: сначала штрихкоды (свои и производителя),
+   * затем артикул, OEM-номер и код 1С. Возвращает не больше двух совпадений —
+   * этого достаточно, чтобы понять, однозначен ли код.
+   */
+  async findByCode(tenantId: string, rawCode: string): Promise<any[]> {
+    const code = normalizeBarcode(rawCode);
+    if (!code) return [];
+
+    const barcode = await this.prisma.partBarcode.findFirst({
+      where: { code, tenantId },
+      select: { part: { select: lookupSelect } },
+    });
+    if (barcode) return [barcode.part];
+
+    return this.prisma.part.findMany({
+      where: {
+        tenantId,
+        OR: [
+          { sku: { equals: rawCode.trim(), mode: 'insensitive' } },
+          { oemNumber: { equals: rawCode.trim(), mode: 'insensitive' } },
+          { code1C: { equals: rawCode.trim(), mode: 'insensitive' } },
+        ],
+      },
+      select: lookupSelect,
+      take: 2,
+    });
+  }
+
+  /** Однозначный поиск по коду для сканера (приёмка, инвентаризация, добавление в заказ-наряд) */
+  async lookup(tenantId: string, rawCode: string): Promise<any> {
+    const matches = await this.findByCode(tenantId, rawCode);
+    const code = rawCode.trim();
+    if (matches.length === 0) throw new NotFoundException(`Запчасть с кодом «${code}» не найдена`);
+    if (matches.length > 1) {
+      throw new ConflictException(`Код «${code}» подходит к нескольким запчастям — выберите запчасть вручную`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Лист этикеток PDF. На этикетку идёт свой штрихкод запчасти; если его нет —
+   * генерируется, чтобы этикетка сканировалась однозначно.
+   */
+  async buildLabels(tenantId: string, items: Array<{ partId: string; copies: number }>): Promise<Buffer> {
+    const lines = items.filter((i) => i.copies > 0);
+    if (lines.length === 0) throw new BadRequestException('Нет этикеток для печати');
+
+    const parts = await this.prisma.part.findMany({
+      where: { id: { in: [...new Set(lines.map((l) => l.partId))] }, tenantId },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        brand: true,
+        sellPrice: true,
+        barcodes: { where: { isManufacturer: false }, orderBy: { createdAt: 'asc' }, take: 1 },
+      },
+    });
+
+    const labels: Label[] = [];
+    for (const line of lines) {
+      const part = parts.find((p) => p.id === line.partId);
+      if (!part) throw new NotFoundException('Запчасть не найдена');
+      const barcode = part.barcodes[0] ?? (await this.createInternal(tenantId, part.id));
+      part.barcodes = [barcode];
+      const label: Label = {
+        title: part.name,
+        subtitle: [part.brand, part.sku].filter(Boolean).join(' / ') || null,
+        price: Number(part.sellPrice),
+        code: barcode.code,
+        format: barcode.format,
+      };
+      for (let i = 0; i < line.copies; i++) labels.push(label);
+    }
+
+    return buildLabelsPdf(labels);
+  }
+
+  // --- Helpers ---
+
+  private async getPart(tenantId: string, partId: string) {
+    const part = await this.prisma.part.findFirst({ where: { id: partId, tenantId }, select: { id: true } });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+    return part;
+  }
+
+  /**
+   * Следующий свободный внутренний EAN-13: 2 + 11 цифр порядкового номера + контрольная.
+   * Номер считается от всех кодов диапазона, включая добавленные вручную, а при
+   * одновременной генерации занятый код берётся заново.
+   */
+  private async createInternal(tenantId: string, partId: string): Promise<PartBarcode> {
+    for (let attempt = 0; ; attempt++) {
+      const last = await this.prisma.partBarcode.findFirst({
+        where: { tenantId, format: 'EAN13', code: { startsWith: INTERNAL_PREFIX } },
+        orderBy: { code: 'desc' },
+      });
+      const seq = last ? parseInt(last.code.slice(1, 12), 10) + 1 : 1;
+      const body = `${INTERNAL_PREFIX}${String(seq).padStart(11, '0')}`;
+      try {
+        return await this.prisma.partBarcode.create({
+          data: { code: `${body}${eanCheckDigit(body)}`, format: 'EAN13', partId, tenantId },
+        });
+      } catch (e) {
+        if (attempt < 4 && e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') continue;
+        throw e;
+      }
+    }
+  }
+}
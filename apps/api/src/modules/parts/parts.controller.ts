@@ -1,10 +1,14 @@
-import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, Res, StreamableFile } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
-import { IsString, IsOptional, IsNumber, IsBoolean } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsBoolean, IsArray, IsUUID, IsInt, Min, Max, ValidateNested, ArrayMinSize } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PartsService } from './parts.service';
-import { Roles, CurrentTenant } from '../../common/decorators';
+import { PartAnalogsService } from './part-analogs.service';
+import { PartBarcodesService } from './part-barcodes.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
 import { PaginationDto } from '../../common/dto/pagination.dto';
+import { PDF_CONTENT_TYPE } from '../../common/utils/labels-pdf.utils';
+import { Response } from 'express';
 
 class CreatePartDto {
   @IsString()
@@ -33,6 +37,12 @@ class CreatePartDto {
 
   @IsOptional() @IsString()
   unit?: string;
+
+  @IsOptional() @IsString()
+  purchaseUnit?: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0.001)
+  purchaseUnitFactor?: number;
 }
 
 class UpdatePartDto {
@@ -63,15 +73,84 @@ class UpdatePartDto {
   @IsOptional() @IsString()
   unit?: string;
 
+  @IsOptional() @IsString()
+  purchaseUnit?: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0.001)
+  purchaseUnitFactor?: number;
+
   @IsOptional() @IsBoolean()
   isActive?: boolean;
 }
 
+class AnalogEntryDto {
+  @IsOptional() @IsString()
+  brand?: string;
+
+  @IsString()
+  oemNumber!: string;
+}
+
+class AnalogEntriesDto {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AnalogEntryDto)
+  entries?: AnalogEntryDto[];
+
+  @IsOptional() @IsArray() @IsUUID(undefined, { each: true })
+  partIds?: string[];
+}
+
+class CreateAnalogGroupDto extends AnalogEntriesDto {
+  @IsOptional() @IsString()
+  name?: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class UpdateAnalogGroupDto {
+  @IsOptional() @IsString()
+  name?: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class AddBarcodeDto {
+  @IsString()
+  code!: string;
+
+  @IsOptional() @IsBoolean()
+  isManufacturer?: boolean;
+}
+
+class LabelLineDto {
+  @IsUUID()
+  partId!: string;
+
+  @Type(() => Number) @IsInt() @Min(1) @Max(500)
+  copies!: number;
+}
+
+class PrintLabelsDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LabelLineDto)
+  items!: LabelLineDto[];
+}
+
 @ApiTags('Запчасти')
 @ApiBearerAuth()
 @Controller('parts')
 export class PartsController {
-  constructor(private readonly partsService: PartsService) {}
+  constructor(
+    private readonly partsService: PartsService,
+    private readonly partAnalogsService: PartAnalogsService,
+    private readonly partBarcodesService: PartBarcodesService,
+  ) {}
 
   @Get()
   @Roles('parts:read')
@@ -92,6 +171,131 @@ export class PartsController {
     });
   }
 
+  // ===== Barcodes =====
+
+  @Get('lookup')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Запчасть по отсканированному коду (штрихкод, артикул, OEM, код 1С)' })
+  @ApiQuery({ name: 'code', required: true })
+  lookup(@CurrentTenant() tenantId: string, @Query('code') code: string) {
+    return this.partBarcodesService.lookup(tenantId, code ?? '');
+  }
+
+  @Post('labels')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Лист этикеток со штрихкодами (PDF)' })
+  async printLabels(
+    @CurrentTenant() tenantId: string,
+    @Body() dto: PrintLabelsDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const content = await this.partBarcodesService.buildLabels(tenantId, dto.items);
+    res.set({ 'Content-Type': PDF_CONTENT_TYPE, 'Content-Disposition': 'attachment; filename="labels.pdf"' });
+    return new StreamableFile(content);
+  }
+
+  @Delete('barcodes/:barcodeId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Отвязать штрихкод' })
+  removeBarcode(@CurrentTenant() tenantId: string, @Param('barcodeId') barcodeId: string) {
+    return this.partBarcodesService.remove(tenantId, barcodeId);
+  }
+
+  @Get(':id/barcodes')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Штрихкоды запчасти' })
+  findBarcodes(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.partBarcodesService.findByPart(tenantId, id);
+  }
+
+  @Post(':id/barcodes')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Привязать штрихкод (свой или производителя)' })
+  addBarcode(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: AddBarcodeDto) {
+    return this.partBarcodesService.add(tenantId, id, dto);
+  }
+
+  @Post(':id/barcodes/generate')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Сгенерировать свой штрихкод EAN-13' })
+  generateBarcode(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.partBarcodesService.generate(tenantId, id);
+  }
+
+  // ===== Analog groups =====
+
+  @Get('analog-groups')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Группы аналогов' })
+  @ApiQuery({ name: 'search', required: false })
+  findAnalogGroups(@CurrentTenant() tenantId: string, @Query('search') search?: string) {
+    return this.partAnalogsService.findGroups(tenantId, search);
+  }
+
+  @Post('analog-groups')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Создать группу аналогов из OEM-номеров и/или запчастей' })
+  createAnalogGroup(@CurrentTenant() tenantId: string, @Body() dto: CreateAnalogGroupDto) {
+    return this.partAnalogsService.createGroup(tenantId, dto);
+  }
+
+  @Delete('analog-groups/entries/:entryId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Убрать номер из группы аналогов' })
+  removeAnalogEntry(@CurrentTenant() tenantId: string, @Param('entryId') entryId: string) {
+    return this.partAnalogsService.removeEntry(tenantId, entryId);
+  }
+
+  @Get('analog-groups/:groupId')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Группа аналогов' })
+  findAnalogGroup(@CurrentTenant() tenantId: string, @Param('groupId') groupId: string) {
+    return this.partAnalogsService.findGroupById(tenantId, groupId);
+  }
+
+  @Patch('analog-groups/:groupId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Обновить группу аналогов' })
+  updateAnalogGroup(
+    @CurrentTenant() tenantId: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: UpdateAnalogGroupDto,
+  ) {
+    return this.partAnalogsService.updateGroup(tenantId, groupId, dto);
+  }
+
+  @Post('analog-groups/:groupId/entries')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Добавить номера в группу аналогов' })
+  addAnalogEntries(
+    @CurrentTenant() tenantId: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: AnalogEntriesDto,
+  ) {
+    return this.partAnalogsService.addEntries(tenantId, groupId, dto);
+  }
+
+  @Delete('analog-groups/:groupId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Удалить группу аналогов' })
+  deleteAnalogGroup(@CurrentTenant() tenantId: string, @Param('groupId') groupId: string) {
+    return this.partAnalogsService.deleteGroup(tenantId, groupId);
+  }
+
+  @Get(':id/analogs')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Аналоги запчасти (по OEM-номеру и группам аналогов)' })
+  @ApiQuery({ name: 'inStock', required: false, type: Boolean })
+  findAnalogs(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Query('inStock') inStock?: string,
+  ) {
+    return this.partAnalogsService.getAnalogs(tenantId, id, { inStock: inStock === 'true' });
+  }
+
+  // ===== Parts =====
+
   @Get(':id')
   @Roles('parts:read')
   @ApiOperation({ summary: 'Детали запчасти' })
@@ -109,8 +313,13 @@ export class PartsController {
   @Patch(':id')
   @Roles('parts:update')
   @ApiOperation({ summary: 'Обновить запчасть' })
-  update(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdatePartDto) {
-    return this.partsService.update(tenantId, id, dto);
+  update(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: UpdatePartDto,
+  ) {
+    return this.partsService.update(tenantId, id, dto, user.id);
   }
 
   @Delete(':id')
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { PartsController } from './parts.controller';
 import { PartsService } from './parts.service';
+import { PartAnalogsService } from './part-analogs.service';
+import { PartBarcodesService } from './part-barcodes.service';
 
 @Module({
   controllers: [PartsController],
-  providers: [PartsService],
-  exports: [PartsService],
+  providers: [PartsService, PartAnalogsService, PartBarcodesService],
+  exports: [PartsService, PartAnalogsService, PartBarcodesService],
 })
 export class PartsModule {}
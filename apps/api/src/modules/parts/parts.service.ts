@@ -2,6 +2,7 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
 import { Part } from '@prisma/client';
+import { normalizeOemNumber, normalizeBarcode } from '@sto-crm/shared';
 
 @Injectable()
 export class PartsService {
@@ -29,6 +30,7 @@ export class PartsService {
         { sku: { contains: search, mode: 'insensitive' } },
         { brand: { contains: search, mode: 'insensitive' } },
         { oemNumber: { contains: search, mode: 'insensitive' } },
+        { barcodes: { some: { code: normalizeBarcode(search) } } },
       ];
     }
 
@@ -48,6 +50,7 @@ export class PartsService {
   async findById(tenantId: string, id: string): Promise<Part> {
     const part = await this.prisma.part.findFirst({
       where: { id, tenantId },
+      include: { barcodes: { orderBy: { createdAt: 'asc' } } },
     });
     if (!part) throw new NotFoundException('Запчасть не найдена');
     return part;
@@ -65,6 +68,8 @@ export class PartsService {
       currentStock?: number;
       minStock?: number;
       unit?: string;
+      purchaseUnit?: string;
+      purchaseUnitFactor?: number;
     },
   ): Promise<Part> {
     return this.prisma.part.create({
@@ -73,11 +78,14 @@ export class PartsService {
         sku: data.sku,
         brand: data.brand,
         oemNumber: data.oemNumber,
+        oemKey: normalizeOemNumber(data.oemNumber),
         costPrice: data.costPrice,
         sellPrice: data.sellPrice,
         currentStock: data.currentStock ?? 0,
         minStock: data.minStock ?? 0,
         unit: data.unit ?? 'шт',
+        purchaseUnit: data.purchaseUnit,
+        purchaseUnitFactor: data.purchaseUnitFactor,
         tenantId,
       },
     });
@@ -96,13 +104,35 @@ export class PartsService {
       currentStock?: number;
       minStock?: number;
       unit?: string;
+      purchaseUnit?: string | null;
+      purchaseUnitFactor?: number | null;
       isActive?: boolean;
     },
+    userId?: string,
   ): Promise<Part> {
-    await this.findById(tenantId, id);
-    return this.prisma.part.update({
-      where: { id },
-      data,
+    const part = await this.findById(tenantId, id);
+    const costPrice = data.costPrice ?? Number(part.costPrice);
+    const sellPrice = data.sellPrice ?? Number(part.sellPrice);
+    const priceChanged = costPrice !== Number(part.costPrice) || sellPrice !== Number(part.sellPrice);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (priceChanged) {
+        await tx.partPriceHistory.create({
+          data: {
+            partId: id,
+            source: 'MANUAL',
+            prevCostPrice: part.costPrice,
+            costPrice,
+            prevSellPrice: part.sellPrice,
+            sellPrice,
+            userId,
+          },
+        });
+      }
+      return tx.part.update({
+        where: { id },
+        data: data.oemNumber === undefined ? data : { ...data, oemKey: normalizeOemNumber(data.oemNumber) },
+      });
     });
   }
 
@@ -0,0 +1,63 @@
+import { Controller, Get, Post, Delete, Param, Body } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsNumber, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentsService } from './payments.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+import { PaymentMethod } from '@prisma/client';
+
+// ===== DTOs =====
+
+class CreatePaymentDto {
+  @Type(() => Number) @IsNumber() @Min(0.01)
+  amount!: number;
+
+  @IsEnum(PaymentMethod)
+  method!: PaymentMethod;
+
+  @IsOptional() @IsString()
+  notes?: string;
+
+  @IsOptional() @IsString()
+  paidAt?: string;
+}
+
+// ===== Controller =====
+
+@ApiTags('Оплаты')
+@ApiBearerAuth()
+@Controller('work-orders/:id/payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Get()
+  @Roles('work-orders:read')
+  @ApiOperation({ summary: 'Оплаты заказ-наряда и остаток к оплате' })
+  findAll(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.paymentsService.findByWorkOrder(tenantId, id);
+  }
+
+  @Post()
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Принять оплату (предоплату)' })
+  create(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: CreatePaymentDto,
+  ) {
+    return this.paymentsService.create(tenantId, id, dto, user.id);
+  }
+
+  @Delete(':paymentId')
+  @Roles('finance:update')
+  @ApiOperation({ summary: 'Удалить оплату' })
+  remove(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Param('paymentId') paymentId: string,
+  ) {
+    return this.paymentsService.delete(tenantId, id, paymentId, user.id);
+  }
+}
@@ -0,0 +1,215 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { WorkOrdersService } from '../work-orders/work-orders.service';
+import { PAYABLE_WORK_ORDER_STATUSES, WORK_ORDER_PAYMENT_CATEGORY, ru } from '@sto-crm/shared';
+import { PaymentMethod, Prisma } from '@prisma/client';
+
+const paymentInclude = {
+  receivedBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+@Injectable()
+export class PaymentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workOrdersService: WorkOrdersService,
+  ) {}
+
+  async findByWorkOrder(tenantId: string, workOrderId: string) {
+    const workOrder = await this.getWorkOrder(tenantId, workOrderId);
+
+    const payments = await this.prisma.payment.findMany({
+      where: { tenantId, workOrderId },
+      include: paymentInclude,
+      orderBy: { paidAt: 'asc' },
+    });
+
+    const totalAmount = Number(workOrder.totalAmount);
+    const paidAmount = Number(workOrder.paidAmount);
+    return {
+      totalAmount,
+      paidAmount,
+      outstanding: Math.max(0, totalAmount - paidAmount),
+      overpaid: Math.max(0, paidAmount - totalAmount),
+      payments,
+    };
+  }
+
+  async create(
+    tenantId: string,
+    workOrderId: string,
+    data: {
+      amount: number;
+      method: PaymentMethod;
+      notes?: string;
+      paidAt?: string;
+    },
+    userId?: string,
+  ): Promise<any> {
+    const workOrder = await this.getWorkOrder(tenantId, workOrderId);
+
+    if (!PAYABLE_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+      throw new BadRequestException('Оплата принимается после согласования заказ-наряда');
+    }
+
+    const outstanding = Number(workOrder.totalAmount) - Number(workOrder.paidAmount);
+    if (data.amount > outstanding) {
+      throw new BadRequestException(
+        `Сумма превышает остаток к оплате (${outstanding.toFixed(2)} ₽)`,
+      );
+    }
+
+    if (data.method === 'BONUS') {
+      if (!Number.isInteger(data.amount)) {
+        throw new BadRequestException('Бонусами можно оплатить только целую сумму');
+      }
+      if (workOrder.client.bonusPoints < data.amount) {
+        throw new BadRequestException(
+          `Недостаточно бонусов (доступно: ${workOrder.client.bonusPoints})`,
+        );
+      }
+    }
+
+    const isPrepayment = workOrder.status !== 'INVOICED';
+    const paidAt = data.paidAt ? new Date(data.paidAt) : new Date();
+    const methodLabel = ru.paymentMethod[data.method];
+
+    const { payment, remaining } = await this.prisma.$transaction(async (tx) => {
+      // Остаток проверяем в том же UPDATE: параллельная оплата не проведёт переплату
+      const [balance] = await tx.$queryRaw<{ paidAmount: Prisma.Decimal; totalAmount: Prisma.Decimal }[]>`
+        UPDATE work_orders
+        SET "paidAmount" = "paidAmount" + ${data.amount}::numeric, "updatedAt" = NOW()
+        WHERE id = ${workOrderId} AND "paidAmount" + ${data.amount}::numeric <= "totalAmount"
+        RETURNING "paidAmount", "totalAmount"
+      `;
+      if (!balance) {
+        throw new BadRequestException('Сумма превышает остаток к оплате — обновите заказ-наряд');
+      }
+
+      // Бонусы — не деньги в кассе: списываем с клиента вместо прихода
+      let transactionId: string | undefined;
+      if (data.method === 'BONUS') {
+        const { count } = await tx.user.updateMany({
+          where: { id: workOrder.clientId, bonusPoints: { gte: data.amount } },
+          data: { bonusPoints: { decrement: data.amount } },
+        });
+        if (count === 0) throw new BadRequestException('Недостаточно бонусов');
+      } else {
+        const transaction = await tx.transaction.create({
+          data: {
+            type: 'INCOME',
+            amount: data.amount,
+            category: WORK_ORDER_PAYMENT_CATEGORY,
+            description: `${isPrepayment ? 'Предоплата' : 'Оплата'} ${workOrder.orderNumber} (${methodLabel})`,
+            date: paidAt,
+            workOrderId,
+            tenantId,
+          },
+        });
+        transactionId = transaction.id;
+      }
+
+      const created = await tx.payment.create({
+        data: {
+          amount: data.amount,
+          method: data.method,
+          isPrepayment,
+          notes: data.notes,
+          paidAt,
+          tenantId,
+          workOrderId,
+          receivedById: userId,
+          transactionId,
+        },
+        include: paymentInclude,
+      });
+
+      await tx.workOrderActivity.create({
+        data: {
+          workOrderId,
+          type: 'PAYMENT',
+          description: `${isPrepayment ? 'Предоплата' : 'Оплата'}: ${data.amount.toFixed(2)} ₽ (${methodLabel})`,
+          userId: userId || null,
+          metadata: { paymentId: created.id, method: data.method, amount: data.amount },
+        },
+      });
+
+      return { payment: created, remaining: Number(balance.totalAmount) - Number(balance.paidAmount) };
+    });
+
+    // Остаток погашен по выставленному счёту — ЗН оплачен
+    if (workOrder.status === 'INVOICED' && remaining <= 0) {
+      await this.workOrdersService.updateStatus(tenantId, workOrderId, 'PAID', userId);
+    }
+
+    return payment;
+  }
+
+  async delete(
+    tenantId: string,
+    workOrderId: string,
+    paymentId: string,
+    userId?: string,
+  ): Promise<void> {
+    const workOrder = await this.getWorkOrder(tenantId, workOrderId);
+
+    if (workOrder.status === 'PAID' || workOrder.status === 'CLOSED') {
+      throw new BadRequestException('Нельзя удалить оплату у оплаченного заказ-наряда');
+    }
+
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, workOrderId, tenantId },
+    });
+    if (!payment) throw new NotFoundException('Оплата не найдена');
+
+    const amount = Number(payment.amount);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.payment.delete({ where: { id: paymentId } });
+
+      if (payment.transactionId) {
+        await tx.transaction.delete({ where: { id: payment.transactionId } });
+      }
+      if (payment.method === 'BONUS') {
+        await tx.user.update({
+          where: { id: workOrder.clientId },
+          data: { bonusPoints: { increment: amount } },
+        });
+      }
+
+      await tx.workOrder.update({
+        where: { id: workOrderId },
+        data: { paidAmount: { decrement: amount } },
+      });
+
+      await tx.workOrderActivity.create({
+        data: {
+          workOrderId,
+          type: 'PAYMENT',
+          description: `Удалена оплата: ${amount.toFixed(2)} ₽ (${ru.paymentMethod[payment.method]})`,
+          userId: userId || null,
+          metadata: { paymentId, method: payment.method, amount: -amount },
+        },
+      });
+    });
+  }
+
+  // --- Helpers ---
+
+  private async getWorkOrder(tenantId: string, workOrderId: string) {
+    const workOrder = await this.prisma.workOrder.findFirst({
+      where: { id: workOrderId, tenantId },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        totalAmount: true,
+        paidAmount: true,
+        clientId: true,
+        client: { select: { bonusPoints: true } },
+      },
+    });
+    if (!workOrder) throw new NotFoundException('Заказ-наряд не найден');
+    return workOrder;
+  }
+}
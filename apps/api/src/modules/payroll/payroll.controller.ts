@@ -0,0 +1,139 @@
+import { Controller, Get, Put, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsArray, IsUUID, Min, Max, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PayrollService } from './payroll.service';
+import { Roles, CurrentTenant } from '../../common/decorators';
+
+// ===== DTOs =====
+
+class RepairTypeRateDto {
+  @IsUUID()
+  repairTypeId!: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0) @Max(100)
+  laborPercent?: number;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  normHourRate?: number;
+}
+
+class UpsertPayrollSchemeDto {
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  fixedSalary?: number;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0) @Max(100)
+  laborPercent?: number;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  normHourRate?: number;
+
+  @IsOptional() @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RepairTypeRateDto)
+  repairTypeRates?: RepairTypeRateDto[];
+}
+
+class BonusTierDto {
+  @Type(() => Number) @IsNumber() @Min(0)
+  minMargin!: number;
+
+  @Type(() => Number) @IsNumber() @Min(0) @Max(1)
+  rate!: number;
+}
+
+class UpdateBonusTiersDto {
+  /** null — вернуть ступени по умолчанию */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BonusTierDto)
+  tiers?: BonusTierDto[] | null;
+}
+
+// ===== Controller =====
+
+@ApiTags('Зарплата')
+@ApiBearerAuth()
+@Controller('payroll')
+export class PayrollController {
+  constructor(private readonly payrollService: PayrollService) {}
+
+  // --- Schemes ---
+
+  @Get('schemes')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Схемы оплаты сотрудников' })
+  findSchemes(@CurrentTenant() tenantId: string) {
+    return this.payrollService.findSchemes(tenantId);
+  }
+
+  @Get('repair-types')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Виды ремонта для ставок схемы оплаты' })
+  findRepairTypes(@CurrentTenant() tenantId: string) {
+    return this.payrollService.findRepairTypes(tenantId);
+  }
+
+  @Put('schemes/:userId')
+  @Roles('finance:update')
+  @ApiOperation({ summary: 'Задать схему оплаты сотрудника' })
+  upsertScheme(
+    @CurrentTenant() tenantId: string,
+    @Param('userId') userId: string,
+    @Body() dto: UpsertPayrollSchemeDto,
+  ) {
+    return this.payrollService.upsertScheme(tenantId, userId, dto);
+  }
+
+  @Delete('schemes/:userId')
+  @Roles('finance:update')
+  @ApiOperation({ summary: 'Удалить схему оплаты сотрудника' })
+  deleteScheme(@CurrentTenant() tenantId: string, @Param('userId') userId: string) {
+    return this.payrollService.deleteScheme(tenantId, userId);
+  }
+
+  // --- Receptionist bonus ---
+
+  @Get('bonus-tiers')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Ступени бонуса приёмщика от маржи' })
+  getBonusTiers(@CurrentTenant() tenantId: string) {
+    return this.payrollService.getBonusTiers(tenantId);
+  }
+
+  @Put('bonus-tiers')
+  @Roles('finance:update')
+  @ApiOperation({ summary: 'Задать ступени бонуса приёмщика' })
+  updateBonusTiers(@CurrentTenant() tenantId: string, @Body() dto: UpdateBonusTiersDto) {
+    return this.payrollService.updateBonusTiers(tenantId, dto.tiers ?? null);
+  }
+
+  // --- Calculation ---
+
+  @Get('calculation')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Расчёт зарплаты за период по закрытым заказ-нарядам' })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: true, description: 'ISO date, включительно' })
+  calculate(@CurrentTenant() tenantId: string, @Query() query: { from: string; to: string }) {
+    return this.payrollService.calculate(tenantId, query);
+  }
+
+  @Get('payslips/:userId')
+  @Roles('finance:read')
+  @ApiOperation({ summary: 'Расчётный листок сотрудника с разбивкой по заказ-нарядам' })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: true, description: 'ISO date, включительно' })
+  getPayslip(
+    @CurrentTenant() tenantId: string,
+    @Param('userId') userId: string,
+    @Query() query: { from: string; to: string },
+  ) {
+    return this.payrollService.getPayslip(tenantId, userId, query);
+  }
+}
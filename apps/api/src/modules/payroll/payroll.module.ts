@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PayrollController } from './payroll.controller';
+import { PayrollService } from './payroll.service';
+import { ShiftsModule } from '../shifts/shifts.module';
+
+@Module({
+  imports: [ShiftsModule],
+  controllers: [PayrollController],
+  providers: [PayrollService],
+  exports: [PayrollService],
+})
+export class PayrollModule {}
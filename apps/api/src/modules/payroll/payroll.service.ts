@@ -0,0 +1,461 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { ShiftsService, type WorkTime } from '../shifts/shifts.service';
+import { Prisma } from '@prisma/client';
+import {
+  STAFF_ROLES,
+  DEFAULT_RECEPTIONIST_BONUS_TIERS,
+  calculateReceptionistSalary,
+  type ReceptionistBonusTier,
+  addDaysToKey,
+  zonedDateTime,
+} from '@sto-crm/shared';
+
+type RateInput = { repairTypeId: string; laborPercent?: number; normHourRate?: number };
+
+type Rates = { laborPercent: number; normHourRate: number };
+
+const schemeInclude = {
+  user: { select: { id: true, firstName: true, lastName: true, role: true, isActive: true } },
+  repairTypeRates: {
+    include: { repairType: { select: { id: true, name: true, isPaid: true } } },
+  },
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Доля месяцев в периоде для оклада: по каждому затронутому месяцу —
+ * дни периода в нём / дней в месяце. Полный календарный месяц = 1.
+ * Считается по дням «ГГГГ-ММ-ДД» периода, без привязки к поясу сервера.
+ */
+function monthFraction(fromKey: string, toKey: string): number {
+  let fraction = 0;
+  for (let day = fromKey; day <= toKey; day = addDaysToKey(day, 1)) {
+    const [y, m] = day.split('-').map(Number);
+    fraction += 1 / new Date(Date.UTC(y, m, 0)).getUTCDate();
+  }
+  return Math.round(fraction * 10000) / 10000;
+}
+
+@Injectable()
+export class PayrollService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shiftsService: ShiftsService,
+  ) {}
+
+  // ===== Schemes =====
+
+  async findSchemes(tenantId: string): Promise<any[]> {
+    return this.prisma.payrollScheme.findMany({
+      where: { tenantId },
+      include: schemeInclude,
+      orderBy: { user: { lastName: 'asc' } },
+    });
+  }
+
+  async findRepairTypes(tenantId: string): Promise<any[]> {
+    return this.prisma.repairType.findMany({
+      where: { tenantId },
+      select: { id: true, name: true, isPaid: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /** Схема сотрудника создаётся или заменяется целиком вместе со ставками по видам ремонта */
+  async upsertScheme(
+    tenantId: string,
+    userId: string,
+    data: {
+      fixedSalary?: number;
+      laborPercent?: number;
+      normHourRate?: number;
+      notes?: string;
+      repairTypeRates?: RateInput[];
+    },
+  ): Promise<any> {
+    const user = await this.prisma.user.findFirst({ where: { id: userId, tenantId } });
+    if (!user) throw new NotFoundException('Сотрудник не найден');
+    if (!STAFF_ROLES.includes(user.role)) throw new BadRequestException('Схема оплаты назначается только сотрудникам');
+
+    const rates = data.repairTypeRates ?? [];
+    if (rates.length > 0) {
+      const found = await this.prisma.repairType.count({
+        where: { tenantId, id: { in: rates.map((r) => r.repairTypeId) } },
+      });
+      if (found !== new Set(rates.map((r) => r.repairTypeId)).size) {
+        throw new BadRequestException('Вид ремонта не найден');
+      }
+    }
+
+    const fields = {
+      fixedSalary: data.fixedSalary ?? 0,
+      laborPercent: data.laborPercent ?? 0,
+      normHourRate: data.normHourRate ?? 0,
+      notes: data.notes,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      const scheme = await tx.payrollScheme.upsert({
+        where: { userId },
+        create: { ...fields, userId, tenantId },
+        update: fields,
+      });
+      await tx.payrollRepairTypeRate.deleteMany({ where: { schemeId: scheme.id } });
+      if (rates.length > 0) {
+        await tx.payrollRepairTypeRate.createMany({
+          data: rates.map((r) => ({
+            schemeId: scheme.id,
+            repairTypeId: r.repairTypeId,
+            laborPercent: r.laborPercent ?? 0,
+            normHourRate: r.normHourRate ?? 0,
+          })),
+        });
+      }
+      return tx.payrollScheme.findUniqueOrThrow({ where: { id: scheme.id }, include: schemeInclude });
+    });
+  }
+
+  async deleteScheme(tenantId: string, userId: string): Promise<void> {
+    const scheme = await this.prisma.payrollScheme.findFirst({ where: { userId, tenantId } });
+    if (!scheme) throw new NotFoundException('Схема оплаты не найдена');
+    await this.prisma.payrollScheme.delete({ where: { id: scheme.id } });
+  }
+
+  // ===== Receptionist bonus tiers =====
+
+  /** Ступени бонуса приёмщика из Tenant.settings.receptionistBonusTiers, иначе — по умолчанию */
+  async getBonusTiers(tenantId: string): Promise<{ tiers: ReceptionistBonusTier[]; isDefault: boolean }> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    const settings = (tenant?.settings ?? {}) as Record<string, any>;
+    const tiers = settings.receptionistBonusTiers;
+    if (!Array.isArray(tiers)) return { tiers: DEFAULT_RECEPTIONIST_BONUS_TIERS, isDefault: true };
+    return { tiers, isDefault: false };
+  }
+
+  /** Пустой список ступеней отключает бонус; null возвращает ступени по умолчанию */
+  async updateBonusTiers(
+    tenantId: string,
+    tiers: ReceptionistBonusTier[] | null,
+  ): Promise<{ tiers: ReceptionistBonusTier[]; isDefault: boolean }> {
+    if (tiers) {
+      const thresholds = tiers.map((t) => t.minMargin);
+      if (new Set(thresholds).size !== thresholds.length) {
+        throw new BadRequestException('Пороги маржи ступеней не должны повторяться');
+      }
+    }
+
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    const { receptionistBonusTiers: _, ...settings } = (tenant?.settings ?? {}) as Record<string, any>;
+    const sorted = tiers ? [...tiers].sort((a, b) => a.minMargin - b.minMargin) : null;
+
+    await this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { settings: (sorted ? { ...settings, receptionistBonusTiers: sorted } : settings) as Prisma.InputJsonObject },
+    });
+    return this.getBonusTiers(tenantId);
+  }
+
+  // ===== Calculation =====
+
+  /** Сводная ведомость за период по всем сотрудникам со схемой оплаты */
+  async calculate(tenantId: string, params: { from: string; to: string }): Promise<any> {
+    const period = this.parsePeriod(params, await this.shiftsService.getTimeZone(tenantId));
+    const schemes = await this.prisma.payrollScheme.findMany({
+      where: { tenantId },
+      include: schemeInclude,
+      orderBy: { user: { lastName: 'asc' } },
+    });
+    const lines = await this.getLaborLines(tenantId, period);
+    const advisorOrders = await this.getAdvisorOrders(tenantId, period);
+    const { tiers } = await this.getBonusTiers(tenantId);
+    const workTime = await this.shiftsService.getWorkTime(
+      tenantId,
+      period.from,
+      period.toExclusive,
+      schemes.map((s) => s.userId),
+    );
+
+    const employees = schemes.map((scheme) => {
+      const slip = this.buildPayslip(scheme, lines, period, workTime.get(scheme.userId));
+      const advisor = scheme.user.role === 'RECEPTIONIST'
+        ? this.buildAdvisorBonus(scheme.userId, advisorOrders, tiers)
+        : null;
+      return {
+        user: scheme.user,
+        fixed: slip.fixed,
+        workTime: slip.workTime,
+        normHours: slip.normHours,
+        laborBase: slip.laborBase,
+        piecework: slip.piecework,
+        margin: advisor?.margin ?? 0,
+        bonusRate: advisor?.rate ?? 0,
+        bonus: advisor?.bonus ?? 0,
+        total: roundMoney(slip.total + (advisor?.bonus ?? 0)),
+        workOrders: slip.workOrders.length,
+        advisedWorkOrders: advisor?.workOrders.length ?? 0,
+      };
+    });
+
+    return {
+      from: period.from,
+      to: period.to,
+      employees,
+      total: roundMoney(employees.reduce((s, e) => s + e.total, 0)),
+    };
+  }
+
+  /**
+   * Расчётный листок сотрудника: оклад и сдельная часть с разбивкой по заказ-нарядам,
+   * у приёмщика — бонус от маржи заказ-нарядов, которые он вёл
+   */
+  async getPayslip(tenantId: string, userId: string, params: { from: string; to: string }): Promise<any> {
+    const period = this.parsePeriod(params, await this.shiftsService.getTimeZone(tenantId));
+    const scheme = await this.prisma.payrollScheme.findFirst({
+      where: { userId, tenantId },
+      include: schemeInclude,
+    });
+    if (!scheme) throw new NotFoundException('Схема оплаты сотрудника не задана');
+
+    const lines = await this.getLaborLines(tenantId, period, userId);
+    const workTime = await this.shiftsService.getWorkTime(tenantId, period.from, period.toExclusive, [userId]);
+    const slip = this.buildPayslip(scheme, lines, period, workTime.get(userId));
+    let advisor: ReturnType<PayrollService['buildAdvisorBonus']> | null = null;
+    if (scheme.user.role === 'RECEPTIONIST') {
+      const { tiers } = await this.getBonusTiers(tenantId);
+      advisor = this.buildAdvisorBonus(userId, await this.getAdvisorOrders(tenantId, period, userId), tiers);
+    }
+
+    return {
+      user: scheme.user,
+      from: period.from,
+      to: period.to,
+      scheme: {
+        fixedSalary: Number(scheme.fixedSalary),
+        laborPercent: Number(scheme.laborPercent),
+        normHourRate: Number(scheme.normHourRate),
+      },
+      ...slip,
+      advisor,
+      total: roundMoney(slip.total + (advisor?.bonus ?? 0)),
+    };
+  }
+
+  // --- Helpers ---
+
+  /** Период — даты включительно: to = конец дня */
+  /** Период по дням «ГГГГ-ММ-ДД» в часовом поясе автосервиса */
+  private parsePeriod(params: { from: string; to: string }, timeZone: string) {
+    if (!/^\d{4}-\d{2}-\d{2}/.test(params.from ?? '') || !/^\d{4}-\d{2}-\d{2}/.test(params.to ?? '')) {
+      throw new BadRequestException('Некорректный период');
+    }
+    const fromKey = params.from.slice(0, 10);
+    const toKey = params.to.slice(0, 10);
+    const from = zonedDateTime(fromKey, 0, timeZone);
+    const to = zonedDateTime(toKey, 0, timeZone);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new BadRequestException('Некорректный период');
+    }
+    const toExclusive = zonedDateTime(addDaysToKey(toKey, 1), 0, timeZone);
+    if (from >= toExclusive) throw new BadRequestException('Начало периода должно быть раньше конца');
+    return { from, to, toExclusive, fromKey, toKey };
+  }
+
+  /**
+   * Работы закрытых заказ-нарядов, завершённых в периоде, с долями исполнителей.
+   * Работа без назначенных исполнителей целиком засчитывается механику заказ-наряда.
+   * Несогласованные рекомендации не оплачиваются.
+   */
+  private async getLaborLines(
+    tenantId: string,
+    period: { from: Date; toExclusive: Date },
+    userId?: string,
+  ) {
+    const items = await this.prisma.workOrderItem.findMany({
+      where: {
+        type: 'LABOR',
+        OR: [{ recommended: false }, { approvedByClient: true }],
+        workOrder: {
+          tenantId,
+          status: 'CLOSED',
+          completedAt: { gte: period.from, lt: period.toExclusive },
+        },
+      },
+      select: {
+        id: true,
+        description: true,
+        quantity: true,
+        totalPrice: true,
+        normHours: true,
+        mechanics: { select: { mechanicId: true, contributionPercent: true } },
+        workOrder: {
+          select: {
+            id: true,
+            orderNumber: true,
+            completedAt: true,
+            mechanicId: true,
+            repairType: { select: { id: true, name: true, isPaid: true } },
+          },
+        },
+      },
+      orderBy: { workOrder: { completedAt: 'asc' } },
+    });
+
+    return items.flatMap((item) => {
+      const shares = item.mechanics.length
+        ? item.mechanics
+        : item.workOrder.mechanicId
+          ? [{ mechanicId: item.workOrder.mechanicId, contributionPercent: 100 }]
+          : [];
+      return shares
+        .filter((s) => !userId || s.mechanicId === userId)
+        .map((s) => ({
+          mechanicId: s.mechanicId,
+          contributionPercent: s.contributionPercent,
+          item,
+        }));
+    });
+  }
+
+  /**
+   * Маржа закрытых заказ-нарядов приёмщика за период: выручка минус фактическая
+   * себестоимость списанных запчастей и минус возвраты денег клиенту
+   */
+  private async getAdvisorOrders(
+    tenantId: string,
+    period: { from: Date; toExclusive: Date },
+    advisorId?: string,
+  ) {
+    const orders = await this.prisma.workOrder.findMany({
+      where: {
+        tenantId,
+        status: 'CLOSED',
+        completedAt: { gte: period.from, lt: period.toExclusive },
+        advisorId: advisorId ?? { not: null },
+      },
+      select: {
+        id: true,
+        orderNumber: true,
+        completedAt: true,
+        advisorId: true,
+        totalAmount: true,
+        partsCost: true,
+        returns: { select: { refundAmount: true } },
+      },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    return orders.map((wo) => {
+      const revenue = Number(wo.totalAmount);
+      const partsCost = Number(wo.partsCost);
+      const refunds = roundMoney(wo.returns.reduce((s, r) => s + Number(r.refundAmount), 0));
+      return {
+        workOrderId: wo.id,
+        orderNumber: wo.orderNumber,
+        completedAt: wo.completedAt,
+        advisorId: wo.advisorId,
+        revenue,
+        partsCost,
+        refunds,
+        margin: roundMoney(revenue - partsCost - refunds),
+      };
+    });
+  }
+
+  private buildAdvisorBonus(
+    userId: string,
+    orders: Awaited<ReturnType<PayrollService['getAdvisorOrders']>>,
+    tiers: ReceptionistBonusTier[],
+  ) {
+    const workOrders = orders
+      .filter((o) => o.advisorId === userId)
+      .map(({ advisorId: _, ...order }) => order);
+    const margin = roundMoney(workOrders.reduce((s, o) => s + o.margin, 0));
+    const { bonus, rate } = calculateReceptionistSalary(0, margin, tiers);
+    return { margin, rate, bonus, workOrders };
+  }
+
+  private buildPayslip(
+    scheme: {
+      userId: string;
+      fixedSalary: unknown;
+      laborPercent: unknown;
+      normHourRate: unknown;
+      repairTypeRates: Array<{ repairTypeId: string; laborPercent: unknown; normHourRate: unknown }>;
+    },
+    lines: Awaited<ReturnType<PayrollService['getLaborLines']>>,
+    period: { fromKey: string; toKey: string },
+    workTime?: WorkTime,
+  ) {
+    const baseRates: Rates = {
+      laborPercent: Number(scheme.laborPercent),
+      normHourRate: Number(scheme.normHourRate),
+    };
+    const ratesFor = (repairTypeId?: string): Rates => {
+      const override = scheme.repairTypeRates.find((r) => r.repairTypeId === repairTypeId);
+      return override
+        ? { laborPercent: Number(override.laborPercent), normHourRate: Number(override.normHourRate) }
+        : baseRates;
+    };
+
+    const byWorkOrder = new Map<string, any>();
+    for (const line of lines.filter((l) => l.mechanicId === scheme.userId)) {
+      const { item } = line;
+      const wo = item.workOrder;
+      const rates = ratesFor(wo.repairType?.id);
+      const share = line.contributionPercent / 100;
+      const laborBase = roundMoney(Number(item.totalPrice) * share);
+      const normHours = Math.round(Number(item.normHours ?? 0) * share * 100) / 100;
+      const amount = roundMoney((laborBase * rates.laborPercent) / 100 + normHours * rates.normHourRate);
+
+      const entry = byWorkOrder.get(wo.id) ?? {
+        workOrderId: wo.id,
+        orderNumber: wo.orderNumber,
+        completedAt: wo.completedAt,
+        repairType: wo.repairType,
+        laborPercent: rates.laborPercent,
+        normHourRate: rates.normHourRate,
+        items: [],
+        normHours: 0,
+        laborBase: 0,
+        amount: 0,
+      };
+      entry.items.push({
+        id: item.id,
+        description: item.description,
+        totalPrice: Number(item.totalPrice),
+        contributionPercent: line.contributionPercent,
+        laborBase,
+        normHours,
+        amount,
+      });
+      entry.normHours = Math.round((entry.normHours + normHours) * 100) / 100;
+      entry.laborBase = roundMoney(entry.laborBase + laborBase);
+      entry.amount = roundMoney(entry.amount + amount);
+      byWorkOrder.set(wo.id, entry);
+    }
+
+    const workOrders = [...byWorkOrder.values()];
+    // По графику смен оклад уменьшается пропорционально пропущенным рабочим дням (отпуск, больничный)
+    const attendanceFraction = workTime?.hasSchedule && workTime.scheduledDays > 0
+      ? (workTime.scheduledDays - workTime.absentDays) / workTime.scheduledDays
+      : 1;
+    const fixed = roundMoney(
+      Number(scheme.fixedSalary) * monthFraction(period.fromKey, period.toKey) * attendanceFraction,
+    );
+    const piecework = roundMoney(workOrders.reduce((s, w) => s + w.amount, 0));
+
+    return {
+      fixed,
+      workTime: workTime ?? null,
+      normHours: Math.round(workOrders.reduce((s, w) => s + w.normHours, 0) * 100) / 100,
+      laborBase: roundMoney(workOrders.reduce((s, w) => s + w.laborBase, 0)),
+      piecework,
+      total: roundMoney(fixed + piecework),
+      workOrders,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsInt, IsBoolean, IsArray, Min, Max, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PricingService } from './pricing.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+
+// ===== DTOs =====
+
+class MarkupRuleFieldsDto {
+  @IsOptional() @Type(() => Number) @IsInt()
+  priority?: number;
+
+  @IsOptional() @IsString()
+  brand?: string | null;
+
+  @IsOptional() @IsString()
+  manufacturer?: string | null;
+
+  @IsOptional() @IsString()
+  supplierId?: string | null;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  minCost?: number | null;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  maxCost?: number | null;
+
+  @IsOptional() @IsString()
+  clientGroup?: string | null;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0.01)
+  roundTo?: number | null;
+
+  @IsOptional() @IsBoolean()
+  isActive?: boolean;
+}
+
+class CreateMarkupRuleDto extends MarkupRuleFieldsDto {
+  @IsString()
+  name!: string;
+
+  @Type(() => Number) @IsNumber() @Min(-100) @Max(10000)
+  markupPercent!: number;
+}
+
+class UpdateMarkupRuleDto extends MarkupRuleFieldsDto {
+  @IsOptional() @IsString()
+  name?: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(-100) @Max(10000)
+  markupPercent?: number;
+}
+
+class DraftMarkupRuleDto extends UpdateMarkupRuleDto {
+  @IsOptional() @IsString()
+  id?: string;
+}
+
+class PreviewDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DraftMarkupRuleDto)
+  rule?: DraftMarkupRuleDto;
+}
+
+class ApplyDto {
+  @IsOptional() @IsArray() @IsString({ each: true })
+  partIds?: string[];
+}
+
+// ===== Controller =====
+
+@ApiTags('Наценки')
+@ApiBearerAuth()
+@Controller('pricing')
+export class PricingController {
+  constructor(private readonly pricingService: PricingService) {}
+
+  @Get('rules')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Правила наценки' })
+  findAllRules(@CurrentTenant() tenantId: string) {
+    return this.pricingService.findAllRules(tenantId);
+  }
+
+  @Post('rules')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Создать правило наценки' })
+  createRule(@CurrentTenant() tenantId: string, @Body() dto: CreateMarkupRuleDto) {
+    return this.pricingService.createRule(tenantId, dto);
+  }
+
+  @Patch('rules/:id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Обновить правило наценки' })
+  updateRule(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateMarkupRuleDto) {
+    return this.pricingService.updateRule(tenantId, id, dto);
+  }
+
+  @Delete('rules/:id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Удалить правило наценки' })
+  deleteRule(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.pricingService.deleteRule(tenantId, id);
+  }
+
+  @Post('preview')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Предпросмотр пересчёта цен (можно с черновиком правила)' })
+  preview(@CurrentTenant() tenantId: string, @Body() dto: PreviewDto) {
+    return this.pricingService.preview(tenantId, dto.rule);
+  }
+
+  @Post('apply')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Пересчитать цены продажи по правилам' })
+  apply(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: ApplyDto,
+  ) {
+    return this.pricingService.apply(tenantId, { ...dto, userId: user.id });
+  }
+
+  @Get('parts/:partId/price')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Цена запчасти для клиента (с учётом группы клиента)' })
+  @ApiQuery({ name: 'clientId', required: false })
+  getPartPrice(
+    @CurrentTenant() tenantId: string,
+    @Param('partId') partId: string,
+    @Query('clientId') clientId?: string,
+  ) {
+    return this.pricingService.getPartPrice(tenantId, partId, clientId);
+  }
+
+  @Get('parts/:partId/history')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'История цен запчасти' })
+  getPriceHistory(@CurrentTenant() tenantId: string, @Param('partId') partId: string) {
+    return this.pricingService.getPriceHistory(tenantId, partId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PricingController } from './pricing.controller';
+import { PricingService } from './pricing.service';
+
+@Module({
+  controllers: [PricingController],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
@@ -0,0 +1,386 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { MarkupRule } from '@prisma/client';
+
+type RuleData = {
+  name?: string;
+  priority?: number;
+  brand?: string | null;
+  manufacturer?: string | null;
+  supplierId?: string | null;
+  minCost?: number | null;
+  maxCost?: number | null;
+  clientGroup?: string | null;
+  markupPercent?: number;
+  roundTo?: number | null;
+  isActive?: boolean;
+};
+
+type PricingPart = {
+  brand: string | null;
+  manufacturer: string | null;
+  costPrice: number;
+};
+
+type PartPrice = {
+  sellPrice: number;
+  basePrice: number;
+  clientGroup: string | null;
+  rule: { id: string; name: string } | null;
+};
+
+type PriceChange = {
+  partId: string;
+  name: string;
+  sku: string | null;
+  brand: string | null;
+  costPrice: number;
+  currentPrice: number;
+  newPrice: number;
+  ruleId: string;
+  ruleName: string;
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sameText(a: string | null, b: string | null): boolean {
+  return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+}
+
+/** Число заданных условий — при равном приоритете побеждает более конкретное правило */
+function specificity(rule: MarkupRule): number {
+  return [rule.brand, rule.manufacturer, rule.supplierId, rule.minCost, rule.maxCost].filter((v) => v !== null).length;
+}
+
+/**
+ * Подбор правила и расчёт цены. Пустое условие правила подходит к любому значению,
+ * диапазон себестоимости — [minCost; maxCost). Без clientGroup считаются только
+ * базовые правила (без группы), с группой — только правила этой группы.
+ */
+export function calculateMarkupPrice(
+  rules: MarkupRule[],
+  part: PricingPart,
+  context: { supplierId?: string | null; clientGroup?: string | null } = {},
+): { price: number; rule: MarkupRule } | null {
+  const matching = rules.filter((r) => {
+    if (!r.isActive) return false;
+    if (context.clientGroup ? !sameText(r.clientGroup, context.clientGroup) : r.clientGroup !== null) return false;
+    if (r.brand !== null && !sameText(r.brand, part.brand)) return false;
+    if (r.manufacturer !== null && !sameText(r.manufacturer, part.manufacturer)) return false;
+    if (r.supplierId !== null && r.supplierId !== context.supplierId) return false;
+    if (r.minCost !== null && part.costPrice < Number(r.minCost)) return false;
+    if (r.maxCost !== null && part.costPrice >= Number(r.maxCost)) return false;
+    return true;
+  });
+  if (matching.length === 0) return null;
+
+  matching.sort(
+    (a, b) => b.priority - a.priority || specificity(b) - specificity(a) || a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  const rule = matching[0];
+
+  let price = part.costPrice * (1 + Number(rule.markupPercent) / 100);
+  const roundTo = Number(rule.roundTo ?? 0);
+  if (roundTo > 0) price = Math.ceil(roundMoney(price / roundTo)) * roundTo;
+  return { price: roundMoney(price), rule };
+}
+
+@Injectable()
+export class PricingService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===== Markup rules =====
+
+  async findAllRules(tenantId: string): Promise<any[]> {
+    return this.prisma.markupRule.findMany({
+      where: { tenantId },
+      include: { supplier: { select: { id: true, name: true } } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findRuleById(tenantId: string, id: string): Promise<MarkupRule> {
+    const rule = await this.prisma.markupRule.findFirst({ where: { id, tenantId } });
+    if (!rule) throw new NotFoundException('Правило наценки не найдено');
+    return rule;
+  }
+
+  async createRule(tenantId: string, data: RuleData & { name: string; markupPercent: number }): Promise<any> {
+    await this.validateRule(tenantId, data);
+    return this.prisma.markupRule.create({
+      data: { ...data, tenantId },
+    });
+  }
+
+  async updateRule(tenantId: string, id: string, data: RuleData): Promise<any> {
+    const rule = await this.findRuleById(tenantId, id);
+    await this.validateRule(tenantId, {
+      ...data,
+      minCost: data.minCost !== undefined ? data.minCost : rule.minCost && Number(rule.minCost),
+      maxCost: data.maxCost !== undefined ? data.maxCost : rule.maxCost && Number(rule.maxCost),
+    });
+    return this.prisma.markupRule.update({ where: { id }, data });
+  }
+
+  async deleteRule(tenantId: string, id: string): Promise<void> {
+    await this.findRuleById(tenantId, id);
+    await this.prisma.markupRule.delete({ where: { id } });
+  }
+
+  // ===== Recalculation =====
+
+  /**
+   * Предпросмотр: какие базовые цены изменятся при пересчёте по правилам.
+   * Можно передать черновик правила (с id — вместо существующего, без id — как новое),
+   * чтобы увидеть эффект до сохранения.
+   */
+  async preview(
+    tenantId: string,
+    draft?: RuleData & { id?: string },
+  ): Promise<{ count: number; items: PriceChange[] }> {
+    let rules = await this.prisma.markupRule.findMany({ where: { tenantId, isActive: true } });
+    if (draft) {
+      const base = draft.id ? await this.findRuleById(tenantId, draft.id) : null;
+      await this.validateRule(tenantId, draft);
+      const rule = {
+        id: draft.id ?? 'draft',
+        name: 'Черновик',
+        priority: 0,
+        brand: null,
+        manufacturer: null,
+        supplierId: null,
+        minCost: null,
+        maxCost: null,
+        clientGroup: null,
+        markupPercent: 0,
+        roundTo: null,
+        isActive: true,
+        createdAt: new Date(),
+        ...base,
+        ...draft,
+      } as unknown as MarkupRule;
+      rules = [...rules.filter((r) => r.id !== rule.id), rule];
+    }
+
+    const items = await this.computeChanges(tenantId, rules);
+    return { count: items.length, items };
+  }
+
+  /** Пересчёт базовых цен по правилам (всех изменившихся или выбранных запчастей) с записью в историю */
+  async apply(
+    tenantId: string,
+    data: { partIds?: string[]; userId?: string },
+  ): Promise<{ count: number }> {
+    const rules = await this.prisma.markupRule.findMany({ where: { tenantId, isActive: true } });
+    let changes = await this.computeChanges(tenantId, rules);
+    if (data.partIds) {
+      const ids = new Set(data.partIds);
+      changes = changes.filter((c) => ids.has(c.partId));
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const c of changes) {
+        await tx.part.update({ where: { id: c.partId }, data: { sellPrice: c.newPrice } });
+        await tx.partPriceHistory.create({
+          data: {
+            partId: c.partId,
+            source: 'MARKUP_RULES',
+            prevCostPrice: c.costPrice,
+            costPrice: c.costPrice,
+            prevSellPrice: c.currentPrice,
+            sellPrice: c.newPrice,
+            ruleId: c.ruleId,
+            userId: data.userId,
+          },
+        });
+      }
+    });
+
+    return { count: changes.length };
+  }
+
+  /**
+   * Новая себестоимость при приходе: обновляет Part.costPrice и, если подходит базовое
+   * правило наценки, пересчитывает цену продажи. Вызывается внутри транзакции движения.
+   */
+  async applyReceiptCost(
+    tx: any,
+    data: { partId: string; unitCost: number; supplierId?: string; reference?: string; userId?: string },
+  ): Promise<void> {
+    const part = await tx.part.findUnique({
+      where: { id: data.partId },
+      select: { tenantId: true, brand: true, manufacturer: true, costPrice: true, sellPrice: true },
+    });
+    const costPrice = roundMoney(data.unitCost);
+    if (!part || costPrice === Number(part.costPrice)) return;
+
+    const rules = await tx.markupRule.findMany({ where: { tenantId: part.tenantId, isActive: true } });
+    const calculated = calculateMarkupPrice(
+      rules,
+      { brand: part.brand, manufacturer: part.manufacturer, costPrice },
+      { supplierId: data.supplierId },
+    );
+    const sellPrice = calculated ? calculated.price : Number(part.sellPrice);
+
+    await tx.part.update({ where: { id: data.partId }, data: { costPrice, sellPrice } });
+    await tx.partPriceHistory.create({
+      data: {
+        partId: data.partId,
+        source: 'RECEIPT',
+        prevCostPrice: part.costPrice,
+        costPrice,
+        prevSellPrice: part.sellPrice,
+        sellPrice,
+        ruleId: calculated?.rule.id,
+        reference: data.reference,
+        userId: data.userId,
+      },
+    });
+  }
+
+  // ===== Prices =====
+
+  /**
+   * Цена запчасти для клиента: если у клиента есть группа и к запчасти подходит
+   * правило этой группы — цена по правилу, иначе базовая Part.sellPrice.
+   */
+  async getPartPrice(tenantId: string, partId: string, clientId?: string): Promise<PartPrice> {
+    const price = (await this.getPartPrices(tenantId, [partId], clientId)).get(partId);
+    if (!price) throw new NotFoundException('Запчасть не найдена');
+    return price;
+  }
+
+  /** То же для нескольких запчастей сразу — одним набором запросов; ненайденные пропускаются */
+  async getPartPrices(tenantId: string, partIds: string[], clientId?: string): Promise<Map<string, PartPrice>> {
+    const [parts, client] = await Promise.all([
+      this.prisma.part.findMany({
+        where: { id: { in: partIds }, tenantId },
+        select: { id: true, brand: true, manufacturer: true, costPrice: true, sellPrice: true },
+      }),
+      clientId
+        ? this.prisma.user.findFirst({ where: { id: clientId, tenantId }, select: { clientGroup: true } })
+        : null,
+    ]);
+    const clientGroup = client?.clientGroup ?? null;
+    const base = (basePrice: number): PartPrice => ({ sellPrice: basePrice, basePrice, clientGroup, rule: null });
+    if (!clientGroup) return new Map(parts.map((p) => [p.id, base(Number(p.sellPrice))]));
+
+    const rules = await this.prisma.markupRule.findMany({ where: { tenantId, isActive: true, clientGroup: { not: null } } });
+    const suppliers = rules.some((r) => r.supplierId)
+      ? await this.getLastSuppliers(tenantId, parts.map((p) => p.id))
+      : new Map<string, string>();
+
+    return new Map(
+      parts.map((part) => {
+        const basePrice = Number(part.sellPrice);
+        const calculated = calculateMarkupPrice(
+          rules,
+          { brand: part.brand, manufacturer: part.manufacturer, costPrice: Number(part.costPrice) },
+          { supplierId: suppliers.get(part.id), clientGroup },
+        );
+        if (!calculated) return [part.id, base(basePrice)];
+        return [
+          part.id,
+          {
+            sellPrice: calculated.price,
+            basePrice,
+            clientGroup,
+            rule: { id: calculated.rule.id, name: calculated.rule.name },
+          },
+        ];
+      }),
+    );
+  }
+
+  async getPriceHistory(tenantId: string, partId: string): Promise<any[]> {
+    const part = await this.prisma.part.findFirst({ where: { id: partId, tenantId }, select: { id: true } });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+
+    return this.prisma.partPriceHistory.findMany({
+      where: { partId },
+      include: { rule: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // --- Helpers ---
+
+  private async computeChanges(tenantId: string, rules: MarkupRule[]): Promise<PriceChange[]> {
+    const baseRules = rules.filter((r) => r.clientGroup === null);
+    if (baseRules.length === 0) return [];
+
+    const [parts, suppliers] = await Promise.all([
+      this.prisma.part.findMany({
+        where: { tenantId, isActive: true, costPrice: { gt: 0 } },
+        select: { id: true, name: true, sku: true, brand: true, manufacturer: true, costPrice: true, sellPrice: true },
+        orderBy: { name: 'asc' },
+      }),
+      baseRules.some((r) => r.supplierId) ? this.getLastSuppliers(tenantId) : Promise.resolve(new Map<string, string>()),
+    ]);
+
+    const changes: PriceChange[] = [];
+    for (const part of parts) {
+      const costPrice = Number(part.costPrice);
+      const calculated = calculateMarkupPrice(
+        baseRules,
+        { brand: part.brand, manufacturer: part.manufacturer, costPrice },
+        { supplierId: suppliers.get(part.id) },
+      );
+      if (!calculated || calculated.price === Number(part.sellPrice)) continue;
+      changes.push({
+        partId: part.id,
+        name: part.name,
+        sku: part.sku,
+        brand: part.manufacturer || part.brand,
+        costPrice,
+        currentPrice: Number(part.sellPrice),
+        newPrice: calculated.price,
+        ruleId: calculated.rule.id,
+        ruleName: calculated.rule.name,
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Поставщик последней приёмки по запчастям — по времени прихода на склад, а не правки
+   * заказа. partIds ограничивает выборку нужными запчастями.
+   */
+  private async getLastSuppliers(tenantId: string, partIds?: string[]): Promise<Map<string, string>> {
+    const receipts = await this.prisma.stockMovement.findMany({
+      where: {
+        type: 'PURCHASE',
+        referenceId: { not: null },
+        part: { tenantId },
+        ...(partIds && { partId: { in: partIds } }),
+      },
+      select: { partId: true, referenceId: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    // Приход по заказу поставщику ссылается на заказ; ручные приходы поставщика не знают
+    const orders = await this.prisma.purchaseOrder.findMany({
+      where: { tenantId, id: { in: [...new Set(receipts.map((r) => r.referenceId!))] } },
+      select: { id: true, supplierId: true },
+    });
+    const supplierByOrder = new Map(orders.map((o) => [o.id, o.supplierId]));
+
+    const suppliers = new Map<string, string>();
+    for (const receipt of receipts) {
+      const supplierId = supplierByOrder.get(receipt.referenceId!);
+      if (supplierId && !suppliers.has(receipt.partId)) suppliers.set(receipt.partId, supplierId);
+    }
+    return suppliers;
+  }
+
+  private async validateRule(tenantId: string, data: RuleData) {
+    if (data.minCost != null && data.maxCost != null && data.minCost >= data.maxCost) {
+      throw new BadRequestException('Нижняя граница себестоимости должна быть меньше верхней');
+    }
+    if (data.supplierId) {
+      const supplier = await this.prisma.supplier.findFirst({ where: { id: data.supplierId, tenantId } });
+      if (!supplier) throw new BadRequestException('Поставщик не найден');
+    }
+  }
+}
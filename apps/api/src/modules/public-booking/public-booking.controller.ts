@@ -0,0 +1,90 @@
+import { Controller, Get, Post, Param, Body, Query, Ip, Headers, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsUUID, IsArray, MaxLength } from 'class-validator';
+import { PublicBookingService } from './public-booking.service';
+import { Public, RateLimit } from '../../common/decorators';
+import { RateLimitGuard } from '../../common/guards';
+
+// ===== DTOs =====
+
+class WebsiteBookingDto {
+  @IsString() @MaxLength(100)
+  firstName!: string;
+
+  @IsOptional() @IsString() @MaxLength(100)
+  lastName?: string;
+
+  @IsString() @MaxLength(30)
+  phone!: string;
+
+  @IsString() @MaxLength(100)
+  vehicleMake!: string;
+
+  @IsString() @MaxLength(100)
+  vehicleModel!: string;
+
+  @IsOptional() @IsString() @MaxLength(20)
+  licensePlate?: string;
+
+  @IsOptional() @IsArray() @IsUUID('all', { each: true })
+  serviceIds?: string[];
+
+  @IsString()
+  scheduledStart!: string;
+
+  @IsOptional() @IsString() @MaxLength(1000)
+  notes?: string;
+
+  @IsOptional() @IsString() @MaxLength(100)
+  utmSource?: string;
+
+  @IsOptional() @IsString() @MaxLength(100)
+  utmMedium?: string;
+
+  @IsOptional() @IsString() @MaxLength(100)
+  utmCampaign?: string;
+
+  @IsOptional() @IsString()
+  captchaToken?: string;
+}
+
+// ===== Controller =====
+
+@ApiTags('Запись с сайта')
+@Public()
+@UseGuards(RateLimitGuard)
+@Controller('public/booking')
+export class PublicBookingController {
+  constructor(private readonly publicBookingService: PublicBookingService) {}
+
+  @Get(':slug')
+  @RateLimit({ limit: 60, windowMs: 60_000 })
+  @ApiOperation({ summary: 'Автосервис и услуги для виджета записи' })
+  getWidget(@Param('slug') slug: string) {
+    return this.publicBookingService.getWidget(slug);
+  }
+
+  @Get(':slug/slots')
+  @RateLimit({ limit: 60, windowMs: 60_000 })
+  @ApiOperation({ summary: 'Свободные слоты на день' })
+  @ApiQuery({ name: 'date', required: true, description: 'ГГГГ-ММ-ДД' })
+  @ApiQuery({ name: 'serviceIds', required: false, description: 'ID услуг через запятую' })
+  findSlots(@Param('slug') slug: string, @Query() query: { date: string; serviceIds?: string }) {
+    return this.publicBookingService.findSlots(slug, {
+      date: query.date,
+      serviceIds: query.serviceIds ? query.serviceIds.split(',').filter(Boolean) : undefined,
+    });
+  }
+
+  @Post(':slug')
+  @RateLimit({ limit: 5, windowMs: 10 * 60_000 })
+  @ApiOperation({ summary: 'Записаться с сайта без регистрации' })
+  book(
+    @Param('slug') slug: string,
+    @Body() dto: WebsiteBookingDto,
+    @Ip() ip: string,
+    @Headers('x-real-ip') realIp?: string,
+  ) {
+    return this.publicBookingService.book(slug, dto, realIp || ip);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PublicBookingController } from './public-booking.controller';
+import { PublicBookingService } from './public-booking.service';
+import { UsersModule } from '../users/users.module';
+import { VehiclesModule } from '../vehicles/vehicles.module';
+import { AppointmentsModule } from '../appointments/appointments.module';
+
+@Module({
+  imports: [UsersModule, VehiclesModule, AppointmentsModule],
+  controllers: [PublicBookingController],
+  providers: [PublicBookingService],
+})
+export class PublicBookingModule {}
@@ -0,0 +1,216 @@
+import { Injectable, NotFoundException, BadRequestException, ServiceUnavailableException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../database/prisma.service';
+import { UsersService } from '../users/users.service';
+import { VehiclesService } from '../vehicles/vehicles.service';
+import { AppointmentsService } from '../appointments/appointments.service';
+import { AppointmentSlotsService } from '../appointments/appointment-slots.service';
+
+const LAT_TO_CYR: Record<string, string> = { A: 'А', B: 'В', E: 'Е', K: 'К', M: 'М', H: 'Н', O: 'О', P: 'Р', C: 'С', T: 'Т', Y: 'У', X: 'Х' };
+const CYR_TO_LAT: Record<string, string> = Object.fromEntries(Object.entries(LAT_TO_CYR).map(([l, c]) => [c, l]));
+
+const SMARTCAPTCHA_VALIDATE_URL = 'https://smartcaptcha.yandexcloud.net/validate';
+
+type WebsiteBookingData = {
+  firstName: string;
+  lastName?: string;
+  phone: string;
+  vehicleMake: string;
+  vehicleModel: string;
+  licensePlate?: string;
+  serviceIds?: string[];
+  scheduledStart: string;
+  notes?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  captchaToken?: string;
+};
+
+/** «8 (900) 123-45-67» → «+79001234567»; остальное — без пробелов и скобок */
+function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 11 && (digits.startsWith('8') || digits.startsWith('7'))) return `+7${digits.slice(1)}`;
+  if (digits.length === 10) return `+7${digits}`;
+  return value.trim().startsWith('+') ? `+${digits}` : digits;
+}
+
+/** Госномер в латинице и кириллице — в базе встречаются оба написания */
+function plateVariants(value: string): string[] {
+  const plate = value.replace(/\s/g, '').toUpperCase();
+  const cyrPlate = plate.replace(/[A-Z]/g, (ch) => LAT_TO_CYR[ch] || ch);
+  const latPlate = plate.replace(/[А-Я]/g, (ch) => CYR_TO_LAT[ch] || ch);
+  return [...new Set([plate, cyrPlate, latPlate])];
+}
+
+/** Рекламный канал из UTM-меток: «yandex / cpc / spring-sale» */
+function toAdChannel(data: Pick<WebsiteBookingData, 'utmSource' | 'utmMedium' | 'utmCampaign'>): string | undefined {
+  const parts = [data.utmSource, data.utmMedium, data.utmCampaign].map((v) => v?.trim()).filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : undefined;
+}
+
+@Injectable()
+export class PublicBookingService {
+  private readonly logger = new Logger(PublicBookingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+    private readonly vehiclesService: VehiclesService,
+    private readonly appointmentsService: AppointmentsService,
+    private readonly slotsService: AppointmentSlotsService,
+  ) {}
+
+  /** Данные для виджета: название автосервиса и услуги, доступные для записи */
+  async getWidget(slug: string) {
+    const tenant = await this.getTenant(slug);
+    const services = await this.prisma.service.findMany({
+      where: { tenantId: tenant.id, isActive: true, serviceUsage: { in: ['PLANNING', 'BOTH'] } },
+      select: { id: true, name: true, price: true, estimatedMinutes: true },
+      orderBy: { name: 'asc' },
+    });
+    return {
+      name: tenant.name,
+      services,
+      captchaRequired: !!this.configService.get<string>('BOOKING_CAPTCHA_SECRET'),
+    };
+  }
+
+  /** Свободные слоты на один день */
+  async findSlots(slug: string, params: { date: string; serviceIds?: string[] }) {
+    const tenant = await this.getTenant(slug);
+    if (!params.date) throw new BadRequestException('Укажите дату');
+    const { durationMinutes, slots } = await this.slotsService.findSlots(tenant.id, {
+      from: params.date,
+      to: params.date,
+      serviceIds: params.serviceIds,
+    });
+    // Посты наружу не показываем
+    return { durationMinutes, slots: slots.map((s) => ({ start: s.start, end: s.end })) };
+  }
+
+  /**
+   * Запись с сайта без регистрации. Клиент ищется по телефону (как в AI-разборе),
+   * новый заводится с техническим email; машина — среди его машин по госномеру
+   * или марке/модели, иначе заводится новая. Дальше — как онлайн-запись из кабинета.
+   */
+  async book(slug: string, data: WebsiteBookingData, ip?: string) {
+    const tenant = await this.getTenant(slug);
+    await this.verifyCaptcha(data.captchaToken, ip);
+
+    const phone = normalizePhone(data.phone);
+    if (phone.replace(/\D/g, '').length < 10) throw new BadRequestException('Некорректный номер телефона');
+    const notes: string[] = [];
+
+    let client = await this.prisma.user.findFirst({
+      where: { tenantId: tenant.id, phone: { in: [...new Set([phone, data.phone.trim()])] } },
+      select: { id: true, role: true },
+    });
+    // Не раскрываем анонимному посетителю, чей это номер
+    if (client && client.role !== 'CLIENT') {
+      throw new BadRequestException('Не удалось оформить запись онлайн — позвоните нам');
+    }
+    if (!client) {
+      client = await this.usersService.create(tenant.id, {
+        email: `${phone}@client.local`,
+        password: Math.random().toString(36).slice(2, 14),
+        role: 'CLIENT',
+        firstName: data.firstName.trim(),
+        lastName: data.lastName?.trim() || '',
+        phone,
+      });
+    }
+
+    const vehicleId = await this.resolveVehicle(tenant.id, client.id, data, notes);
+    if (data.notes?.trim()) notes.push(data.notes.trim());
+
+    const appointment = await this.appointmentsService.createSelfBooking(
+      tenant.id,
+      client.id,
+      {
+        vehicleId,
+        serviceIds: data.serviceIds ?? [],
+        scheduledStart: data.scheduledStart,
+        notes: notes.length > 0 ? notes.join('\n') : undefined,
+      },
+      { source: 'website', adChannel: toAdChannel(data) },
+    );
+
+    return { id: appointment.id, scheduledStart: appointment.scheduledStart, scheduledEnd: appointment.scheduledEnd };
+  }
+
+  // --- Helpers ---
+
+  private async getTenant(slug: string) {
+    const tenant = await this.prisma.tenant.findUnique({ where: { slug }, select: { id: true, name: true, isActive: true } });
+    if (!tenant || !tenant.isActive) throw new NotFoundException('Автосервис не найден');
+    return tenant;
+  }
+
+  private async resolveVehicle(tenantId: string, clientId: string, data: WebsiteBookingData, notes: string[]): Promise<string> {
+    let plate: string | undefined;
+
+    if (data.licensePlate?.trim()) {
+      const plates = plateVariants(data.licensePlate);
+      const byPlate = await this.prisma.vehicle.findFirst({
+        where: { tenantId, licensePlate: { in: plates } },
+        select: { id: true, clientId: true },
+      });
+      if (byPlate?.clientId === clientId) return byPlate.id;
+      if (byPlate) {
+        // Номер числится за другим клиентом — не перепривязываем, решает приёмщик
+        notes.push(`Госномер ${plates[0]} указан на сайте, но числится за другим клиентом`);
+      } else {
+        plate = plates[0];
+      }
+    }
+
+    // Машина клиента той же марки и модели без номера. Существующие карточки с сайта не меняем —
+    // номер уходит приёмщику в комментарий записи
+    const byModel = await this.prisma.vehicle.findFirst({
+      where: {
+        tenantId,
+        clientId,
+        make: { equals: data.vehicleMake.trim(), mode: 'insensitive' },
+        model: { equals: data.vehicleModel.trim(), mode: 'insensitive' },
+        ...(plate && { licensePlate: null }),
+      },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    });
+    if (byModel) {
+      if (plate) notes.push(`Госномер с сайта: ${plate} — в карточке автомобиля не указан`);
+      return byModel.id;
+    }
+
+    const vehicle = await this.vehiclesService.create(tenantId, {
+      make: data.vehicleMake.trim(),
+      model: data.vehicleModel.trim(),
+      licensePlate: plate,
+      clientId,
+    });
+    return vehicle.id;
+  }
+
+  /** Яндекс SmartCaptcha — включается переменной BOOKING_CAPTCHA_SECRET; без ответа сервиса запись не принимается */
+  private async verifyCaptcha(token: string | undefined, ip?: string): Promise<void> {
+    const secret = this.configService.get<string>('BOOKING_CAPTCHA_SECRET');
+    if (!secret) return;
+    if (!token) throw new BadRequestException('Подтвердите, что вы не робот');
+
+    let result: { status?: string };
+    try {
+      const params = new URLSearchParams({ secret, token, ...(ip && { ip }) });
+      const res = await fetch(`${SMARTCAPTCHA_VALIDATE_URL}?${params}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      result = (await res.json()) as { status?: string };
+    } catch (err) {
+      this.logger.warn(`Проверка капчи не удалась: ${err instanceof Error ? err.message : err}`);
+      throw new ServiceUnavailableException('Не удалось проверить «я не робот» — попробуйте ещё раз через минуту');
+    }
+    if (result.status !== 'ok') {
+      throw new BadRequestException('Проверка «я не робот» не пройдена — попробуйте ещё раз');
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, Res, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsArray, IsObject, Min, ValidateNested, ArrayMinSize } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReplenishmentService } from './replenishment.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { PDF_CONTENT_TYPE } from '../../common/utils/labels-pdf.utils';
+import { PurchaseOrderStatus } from '@prisma/client';
+import { Response } from 'express';
+
+// ===== DTOs =====
+
+class PurchaseOrderItemDto {
+  @IsString()
+  partId!: string;
+
+  @Type(() => Number) @IsNumber() @Min(0.001)
+  quantity!: number;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  unitCost?: number;
+}
+
+class CreatePurchaseOrderDto {
+  @IsString()
+  supplierId!: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items!: PurchaseOrderItemDto[];
+}
+
+class UpdatePurchaseOrderDto {
+  @IsOptional() @IsString()
+  supplierId?: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items?: PurchaseOrderItemDto[];
+}
+
+class ReceiveLineDto {
+  @IsString()
+  itemId!: string;
+
+  @Type(() => Number) @IsNumber() @Min(0)
+  quantity!: number;
+
+  @IsOptional() @IsString()
+  locationId?: string;
+}
+
+class ReceivePurchaseOrderDto {
+  @IsString()
+  warehouseId!: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveLineDto)
+  items!: ReceiveLineDto[];
+}
+
+class CreateReplenishmentDraftsDto {
+  @IsString()
+  warehouseId!: string;
+
+  @IsOptional() @IsArray() @IsString({ each: true })
+  partIds?: string[];
+
+  // Поставщик, выбранный вручную из предложений: partId → supplierId
+  @IsOptional() @IsObject()
+  suppliers?: Record<string, string>;
+}
+
+class ConfirmPurchaseOrdersDto {
+  @IsArray() @ArrayMinSize(1) @IsString({ each: true })
+  ids!: string[];
+}
+
+// ===== Controller =====
+
+@ApiTags('Заказы поставщикам')
+@ApiBearerAuth()
+@Controller('purchase-orders')
+export class PurchaseOrdersController {
+  constructor(
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+    private readonly replenishmentService: ReplenishmentService,
+  ) {}
+
+  @Get()
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Список заказов поставщикам' })
+  @ApiQuery({ name: 'status', required: false, enum: PurchaseOrderStatus })
+  @ApiQuery({ name: 'supplierId', required: false })
+  @ApiQuery({ name: 'search', required: false })
+  findAll(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PaginationDto & { status?: PurchaseOrderStatus; supplierId?: string; search?: string },
+  ) {
+    return this.purchaseOrdersService.findAll(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 20,
+      sort: query.sort ?? 'createdAt',
+      order: query.order ?? 'desc',
+      status: query.status,
+      supplierId: query.supplierId,
+      search: query.search,
+    });
+  }
+
+  // --- Replenishment ---
+
+  @Get('replenishment')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Потребность в пополнении склада по поставщикам' })
+  @ApiQuery({ name: 'warehouseId', required: true })
+  getReplenishment(@CurrentTenant() tenantId: string, @Query('warehouseId') warehouseId: string) {
+    return this.replenishmentService.getSuggestions(tenantId, warehouseId);
+  }
+
+  @Post('replenishment')
+  @Roles('parts:create')
+  @ApiOperation({ summary: 'Сформировать черновики заказов из потребности' })
+  createReplenishmentDrafts(@CurrentTenant() tenantId: string, @Body() dto: CreateReplenishmentDraftsDto) {
+    return this.replenishmentService.createDrafts(tenantId, dto);
+  }
+
+  @Post('confirm')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Отправить поставщикам несколько черновиков' })
+  confirmMany(@CurrentTenant() tenantId: string, @Body() dto: ConfirmPurchaseOrdersDto) {
+    return this.purchaseOrdersService.markOrderedMany(tenantId, dto.ids);
+  }
+
+  // --- Purchase orders ---
+
+  @Get(':id')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Заказ поставщику' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.purchaseOrdersService.findById(tenantId, id);
+  }
+
+  @Get(':id/labels')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Этикетки со штрихкодами на принятый товар (PDF)' })
+  async labels(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const content = await this.purchaseOrdersService.buildLabels(tenantId, id);
+    res.set({ 'Content-Type': PDF_CONTENT_TYPE, 'Content-Disposition': `attachment; filename="labels-${id}.pdf"` });
+    return new StreamableFile(content);
+  }
+
+  @Post()
+  @Roles('parts:create')
+  @ApiOperation({ summary: 'Создать заказ поставщику (черновик)' })
+  create(@CurrentTenant() tenantId: string, @Body() dto: CreatePurchaseOrderDto) {
+    return this.purchaseOrdersService.create(tenantId, dto);
+  }
+
+  @Patch(':id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Обновить черновик заказа' })
+  update(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdatePurchaseOrderDto,
+  ) {
+    return this.purchaseOrdersService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('parts:delete')
+  @ApiOperation({ summary: 'Удалить черновик заказа' })
+  remove(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.purchaseOrdersService.delete(tenantId, id);
+  }
+
+  @Post(':id/order')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Отправить заказ поставщику' })
+  markOrdered(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.purchaseOrdersService.markOrdered(tenantId, id);
+  }
+
+  @Post(':id/cancel')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Отменить заказ' })
+  cancel(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.purchaseOrdersService.cancel(tenantId, id);
+  }
+
+  @Post(':id/receive')
+  @Roles('parts:create')
+  @ApiOperation({ summary: 'Приёмка по заказу (построчно)' })
+  receive(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: ReceivePurchaseOrderDto,
+  ) {
+    return this.purchaseOrdersService.receive(tenantId, id, { ...dto, userId: user.id });
+  }
+}
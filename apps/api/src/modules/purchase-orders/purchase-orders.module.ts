@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReplenishmentService } from './replenishment.service';
+import { InventoryModule } from '../inventory/inventory.module';
+import { PartsModule } from '../parts/parts.module';
+
+@Module({
+  imports: [InventoryModule, PartsModule],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService, ReplenishmentService],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
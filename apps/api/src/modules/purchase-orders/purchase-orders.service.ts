@@ -0,0 +1,400 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { PartBarcodesService } from '../parts/part-barcodes.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import { roundQuantity, toStockUnits } from '@sto-crm/shared';
+import { Prisma, PurchaseOrderStatus } from '@prisma/client';
+
+function parsePONumber(number: string): number {
+  const match = number.match(/PO-(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function formatPONumber(seq: number): string {
+  return `PO-${String(seq).padStart(5, '0')}`;
+}
+
+const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true, inn: true, phone: true, leadTimeDays: true } },
+  items: {
+    include: {
+      part: {
+        select: {
+          id: true, name: true, sku: true, brand: true, manufacturer: true,
+          unit: true, purchaseUnit: true, purchaseUnitFactor: true,
+        },
+      },
+    },
+  },
+  returns: {
+    select: { id: true, number: true, creditAmount: true, settledAt: true, createdAt: true },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+type PurchaseOrderItemInput = { partId: string; quantity: number; unitCost?: number };
+type PricedItem = { partId: string; quantity: number; unitCost: number };
+
+@Injectable()
+export class PurchaseOrdersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+    private readonly partBarcodesService: PartBarcodesService,
+  ) {}
+
+  async findAll(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      sort: string;
+      order: 'asc' | 'desc';
+      status?: PurchaseOrderStatus;
+      supplierId?: string;
+      search?: string;
+    },
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit, sort, order, status, supplierId, search } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = { tenantId };
+    if (status) where.status = status;
+    if (supplierId) where.supplierId = supplierId;
+    if (search) {
+      const s = search.trim();
+      where.OR = [
+        { number: { contains: s, mode: 'insensitive' } },
+        { supplier: { name: { contains: s, mode: 'insensitive' } } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.purchaseOrder.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sort]: order },
+        include: {
+          supplier: { select: { id: true, name: true } },
+          _count: { select: { items: true } },
+        },
+      }),
+      this.prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return paginate(data, total, page, limit);
+  }
+
+  async findById(tenantId: string, id: string): Promise<any> {
+    const po = await this.prisma.purchaseOrder.findFirst({
+      where: { id, tenantId },
+      include: purchaseOrderInclude,
+    });
+    if (!po) throw new NotFoundException('Заказ поставщику не найден');
+    return po;
+  }
+
+  async create(
+    tenantId: string,
+    data: { supplierId: string; notes?: string; items: PurchaseOrderItemInput[] },
+  ): Promise<any> {
+    await this.assertSupplier(tenantId, data.supplierId);
+    const items = await this.priceItems(tenantId, data.supplierId, data.items);
+
+    return this.prisma.$transaction(async (tx) => {
+      const last = await tx.purchaseOrder.findFirst({
+        where: { tenantId },
+        orderBy: { createdAt: 'desc' },
+        select: { number: true },
+      });
+      const nextSeq = (last ? parsePONumber(last.number) : 0) + 1;
+
+      return tx.purchaseOrder.create({
+        data: {
+          number: formatPONumber(nextSeq),
+          supplierId: data.supplierId,
+          notes: data.notes,
+          status: 'DRAFT',
+          totalCost: this.sumItems(items),
+          tenantId,
+          items: { create: items.map((i) => this.buildItem(i)) },
+        },
+        include: purchaseOrderInclude,
+      });
+    });
+  }
+
+  /** Редактирование доступно только в черновике; items заменяются целиком */
+  async update(
+    tenantId: string,
+    id: string,
+    data: { supplierId?: string; notes?: string; items?: PurchaseOrderItemInput[] },
+  ): Promise<any> {
+    const po = await this.findById(tenantId, id);
+    if (po.status !== 'DRAFT') {
+      throw new BadRequestException('Изменять можно только черновик заказа');
+    }
+    if (data.supplierId) await this.assertSupplier(tenantId, data.supplierId);
+    const items = data.items
+      ? await this.priceItems(tenantId, data.supplierId ?? po.supplierId, data.items)
+      : undefined;
+
+    return this.prisma.$transaction(async (tx) => {
+      if (items) {
+        await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: id } });
+      }
+      return tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          supplierId: data.supplierId,
+          notes: data.notes,
+          ...(items
+            ? {
+                totalCost: this.sumItems(items),
+                items: { create: items.map((i) => this.buildItem(i)) },
+              }
+            : {}),
+        },
+        include: purchaseOrderInclude,
+      });
+    });
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    const po = await this.findById(tenantId, id);
+    if (po.status !== 'DRAFT') {
+      throw new BadRequestException('Удалить можно только черновик заказа');
+    }
+    await this.prisma.purchaseOrder.delete({ where: { id } });
+  }
+
+  async markOrdered(tenantId: string, id: string): Promise<any> {
+    const po = await this.findById(tenantId, id);
+    if (po.status !== 'DRAFT') {
+      throw new BadRequestException('Отправить поставщику можно только черновик');
+    }
+    if (po.items.length === 0) {
+      throw new BadRequestException('В заказе нет позиций');
+    }
+
+    return this.prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: 'ORDERED', orderedAt: new Date() },
+      include: purchaseOrderInclude,
+    });
+  }
+
+  /** Подтверждение нескольких черновиков разом (например, после автозаказа) */
+  async markOrderedMany(tenantId: string, ids: string[]): Promise<{ count: number }> {
+    const drafts = await this.prisma.purchaseOrder.findMany({
+      where: { id: { in: ids }, tenantId },
+      select: { id: true, number: true, status: true, _count: { select: { items: true } } },
+    });
+    if (drafts.length !== ids.length) throw new NotFoundException('Заказ поставщику не найден');
+
+    for (const po of drafts) {
+      if (po.status !== 'DRAFT') {
+        throw new BadRequestException(`${po.number}: отправить поставщику можно только черновик`);
+      }
+      if (po._count.items === 0) {
+        throw new BadRequestException(`${po.number}: в заказе нет позиций`);
+      }
+    }
+
+    return this.prisma.purchaseOrder.updateMany({
+      where: { id: { in: ids }, tenantId, status: 'DRAFT' },
+      data: { status: 'ORDERED', orderedAt: new Date() },
+    });
+  }
+
+  async cancel(tenantId: string, id: string): Promise<any> {
+    const po = await this.findById(tenantId, id);
+    if (po.status !== 'DRAFT' && po.status !== 'ORDERED') {
+      throw new BadRequestException('Нельзя отменить заказ, по которому уже была приёмка');
+    }
+
+    return this.prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: 'CANCELLED' },
+      include: purchaseOrderInclude,
+    });
+  }
+
+  /**
+   * Построчная приёмка: по каждой строке создаётся движение PURCHASE на выбранный склад,
+   * статус заказа пересчитывается по фактически принятым количествам.
+   */
+  async receive(
+    tenantId: string,
+    id: string,
+    data: {
+      warehouseId: string;
+      items: Array<{ itemId: string; quantity: number; locationId?: string }>;
+      userId?: string;
+    },
+  ): Promise<any> {
+    const po = await this.findById(tenantId, id);
+    if (po.status !== 'ORDERED' && po.status !== 'PARTIALLY_RECEIVED') {
+      throw new BadRequestException('Принимать можно только заказанный товар');
+    }
+
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: data.warehouseId, tenantId },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
+
+    const lines = data.items.filter((i) => i.quantity > 0);
+    if (lines.length === 0) {
+      throw new BadRequestException('Укажите количество к приёмке');
+    }
+
+    // Одна позиция может прийти несколькими строками (на разные места хранения) — лимит по сумме
+    const totals = new Map<string, number>();
+    for (const line of lines) {
+      totals.set(line.itemId, roundQuantity((totals.get(line.itemId) ?? 0) + line.quantity));
+    }
+    for (const [itemId, quantity] of totals) {
+      const item = po.items.find((i: any) => i.id === itemId);
+      if (!item) throw new BadRequestException('Позиция заказа не найдена');
+      const remaining = roundQuantity(Number(item.quantity) - Number(item.received));
+      if (quantity > remaining) {
+        throw new BadRequestException(
+          `${item.part.name}: принимается больше, чем осталось по заказу (осталось: ${remaining})`,
+        );
+      }
+    }
+
+    const locationIds = [...new Set(lines.map((l) => l.locationId).filter((l): l is string => !!l))];
+    if (locationIds.length > 0) {
+      const count = await this.prisma.storageLocation.count({
+        where: { id: { in: locationIds }, warehouseId: data.warehouseId },
+      });
+      if (count !== locationIds.length) {
+        throw new BadRequestException('Место хранения не найдено на этом складе');
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      for (const line of lines) {
+        const item = po.items.find((i: any) => i.id === line.itemId);
+        // Строки заказа — в единицах закупки, склад и партии — в единицах хранения
+        const factor = Number(item.part.purchaseUnitFactor || 1);
+        await this.inventoryService.applyMovement(tx, {
+          partId: item.partId,
+          warehouseId: data.warehouseId,
+          type: 'PURCHASE',
+          quantity: toStockUnits(line.quantity, factor),
+          unitCost: Number(item.unitCost) / factor,
+          supplierId: po.supplierId,
+          reference: po.number,
+          referenceId: po.id,
+          userId: data.userId,
+          locationId: line.locationId,
+        });
+      }
+
+      for (const [itemId, quantity] of totals) {
+        const updated = await tx.purchaseOrderItem.update({
+          where: { id: itemId },
+          data: { received: { increment: quantity } },
+          select: { quantity: true, received: true, part: { select: { name: true } } },
+        });
+        // Параллельная приёмка того же заказа — откатываем всю транзакцию
+        if (Number(updated.received) > Number(updated.quantity)) {
+          throw new BadRequestException(`${updated.part.name}: принимается больше, чем осталось по заказу`);
+        }
+      }
+
+      return this.syncStatus(id, tx);
+    });
+  }
+
+  /**
+   * Этикетки на принятый товар: по одной на каждую принятую единицу закупки
+   * (упаковку), дробный остаток округляется вверх.
+   */
+  async buildLabels(tenantId: string, id: string): Promise<Buffer> {
+    const po = await this.findById(tenantId, id);
+    const items = po.items
+      .filter((i: any) => Number(i.received) > 0)
+      .map((i: any) => ({ partId: i.partId, copies: Math.ceil(Number(i.received)) }));
+    if (items.length === 0) throw new BadRequestException('По заказу ещё ничего не принято');
+    return this.partBarcodesService.buildLabels(tenantId, items);
+  }
+
+  // --- Helpers ---
+
+  private async syncStatus(id: string, db: any = this.prisma): Promise<any> {
+    const items: { quantity: Prisma.Decimal; received: Prisma.Decimal }[] = await db.purchaseOrderItem.findMany({
+      where: { purchaseOrderId: id },
+      select: { quantity: true, received: true },
+    });
+
+    const fullyReceived = items.every((i) => Number(i.received) >= Number(i.quantity));
+    const anyReceived = items.some((i) => Number(i.received) > 0);
+    const status: PurchaseOrderStatus = fullyReceived
+      ? 'RECEIVED'
+      : anyReceived
+        ? 'PARTIALLY_RECEIVED'
+        : 'ORDERED';
+
+    return db.purchaseOrder.update({
+      where: { id },
+      data: { status, receivedAt: fullyReceived ? new Date() : null },
+      include: purchaseOrderInclude,
+    });
+  }
+
+  private buildItem(item: PricedItem) {
+    return {
+      partId: item.partId,
+      quantity: item.quantity,
+      unitCost: item.unitCost,
+      totalCost: Math.round(item.quantity * item.unitCost * 100) / 100,
+    };
+  }
+
+  private sumItems(items: PricedItem[]): number {
+    return items.reduce((s, i) => s + Math.round(i.quantity * i.unitCost * 100) / 100, 0);
+  }
+
+  /** Цена закупки не указана — берём из прайса поставщика, затем из Part.costPrice */
+  private async priceItems(
+    tenantId: string,
+    supplierId: string,
+    items: PurchaseOrderItemInput[],
+  ): Promise<PricedItem[]> {
+    const partIds = [...new Set(items.map((i) => i.partId))];
+    const parts = await this.prisma.part.findMany({
+      where: { id: { in: partIds }, tenantId },
+      select: {
+        id: true,
+        costPrice: true,
+        purchaseUnitFactor: true,
+        supplierPrices: { where: { supplierId }, select: { price: true } },
+      },
+    });
+    if (parts.length !== partIds.length) throw new BadRequestException('Запчасть не найдена');
+
+    return items.map((i) => {
+      const part = parts.find((p) => p.id === i.partId)!;
+      // costPrice — за единицу хранения, в заказе нужна цена за единицу закупки
+      const unitCost = i.unitCost
+        ?? (part.supplierPrices[0]
+          ? Number(part.supplierPrices[0].price)
+          : Number(part.costPrice) * Number(part.purchaseUnitFactor || 1));
+      return { partId: i.partId, quantity: i.quantity, unitCost };
+    });
+  }
+
+  private async assertSupplier(tenantId: string, supplierId: string) {
+    const supplier = await this.prisma.supplier.findFirst({
+      where: { id: supplierId, tenantId },
+      select: { isActive: true },
+    });
+    if (!supplier) throw new BadRequestException('Поставщик не найден');
+    if (!supplier.isActive) throw new BadRequestException('Поставщик неактивен');
+  }
+}
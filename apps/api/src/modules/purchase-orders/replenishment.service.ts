@@ -0,0 +1,271 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReservationsService } from '../inventory/reservations.service';
+import { roundQuantity, toPurchaseUnits } from '@sto-crm/shared';
+import { WorkOrderStatus } from '@prisma/client';
+
+/** ЗН, запчасти по которым ещё не списаны со склада (списание — при COMPLETED) */
+const OPEN_WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+  'NEW', 'DIAGNOSED', 'APPROVED', 'IN_PROGRESS', 'PAUSED',
+];
+
+export interface ReorderSuggestion {
+  partId: string;
+  partName: string;
+  sku: string | null;
+  unit: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+  minStock: number;
+  openDemand: number;
+  onOrder: number;
+  /** Нехватка в единицах хранения */
+  shortage: number;
+  /** К заказу — в целых единицах закупки */
+  suggestedQty: number;
+  purchaseUnit: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  unitCost: number;
+}
+
+@Injectable()
+export class ReplenishmentService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+    private readonly reservationsService: ReservationsService,
+  ) {}
+
+  /**
+   * Потребность в пополнении склада:
+   * к заказу = minStock + незарезервированная потребность открытых ЗН − свободный остаток − уже заказано.
+   * Незарезервированная потребность ЗН общая по тенанту и относится к пополняемому складу;
+   * «уже заказано» — невыполненные строки черновиков и активных заказов поставщикам.
+   */
+  async getSuggestions(tenantId: string, warehouseId: string): Promise<{
+    warehouse: { id: string; name: string };
+    groups: Array<{
+      supplierId: string | null;
+      supplierName: string | null;
+      totalCost: number;
+      items: ReorderSuggestion[];
+    }>;
+  }> {
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true, name: true },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
+
+    const demand = await this.getOpenDemand(tenantId);
+    const onOrder = await this.getOnOrder(tenantId);
+
+    const parts = await this.prisma.part.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        OR: [{ minStock: { gt: 0 } }, { id: { in: [...demand.keys()] } }],
+      },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        unit: true,
+        minStock: true,
+        costPrice: true,
+        purchaseUnit: true,
+        purchaseUnitFactor: true,
+        warehouseStock: { where: { warehouseId }, select: { quantity: true, reserved: true } },
+        supplierPrices: {
+          where: { supplier: { isActive: true } },
+          select: { price: true, supplier: { select: { id: true, name: true } } },
+          orderBy: { price: 'asc' },
+          take: 1,
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const part of parts) {
+      const stock = part.warehouseStock[0];
+      const quantity = Number(stock?.quantity ?? 0);
+      const reserved = Number(stock?.reserved ?? 0);
+      const available = roundQuantity(quantity - reserved);
+      const minStock = Number(part.minStock);
+      const openDemand = roundQuantity(demand.get(part.id) ?? 0);
+      const ordered = roundQuantity(onOrder.get(part.id) ?? 0);
+
+      const shortage = roundQuantity(minStock + openDemand - available - ordered);
+      if (shortage <= 0) continue;
+
+      const factor = Number(part.purchaseUnitFactor || 1);
+      const suggestedQty = Math.ceil(toPurchaseUnits(shortage, factor));
+      const offer = part.supplierPrices[0];
+      suggestions.push({
+        partId: part.id,
+        partName: part.name,
+        sku: part.sku,
+        unit: part.unit,
+        quantity,
+        reserved,
+        available,
+        minStock,
+        openDemand,
+        onOrder: ordered,
+        shortage,
+        suggestedQty,
+        purchaseUnit: part.purchaseUnit || part.unit,
+        supplierId: offer?.supplier.id ?? null,
+        supplierName: offer?.supplier.name ?? null,
+        unitCost: offer ? Number(offer.price) : Number(part.costPrice) * factor,
+      });
+    }
+
+    const groups = new Map<string, {
+      supplierId: string | null;
+      supplierName: string | null;
+      totalCost: number;
+      items: ReorderSuggestion[];
+    }>();
+    for (const s of suggestions) {
+      const key = s.supplierId ?? '';
+      const group = groups.get(key) ?? {
+        supplierId: s.supplierId,
+        supplierName: s.supplierName,
+        totalCost: 0,
+        items: [],
+      };
+      group.items.push(s);
+      group.totalCost += s.suggestedQty * s.unitCost;
+      groups.set(key, group);
+    }
+
+    return { warehouse, groups: [...groups.values()] };
+  }
+
+  /**
+   * Черновики заказов по поставщикам из текущей потребности. По умолчанию запчасть идёт
+   * к самому дешёвому поставщику; suppliers переназначает её на выбранного из предложений.
+   * Запчасти без поставщика пропускаются.
+   */
+  async createDrafts(
+    tenantId: string,
+    data: { warehouseId: string; partIds?: string[]; suppliers?: Record<string, string> },
+  ): Promise<{ created: any[]; skipped: ReorderSuggestion[] }> {
+    const { warehouse, groups } = await this.getSuggestions(tenantId, data.warehouseId);
+    const selected = data.partIds ? new Set(data.partIds) : null;
+    const chosen = await this.getChosenOffers(tenantId, data.suppliers ?? {});
+
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    const skipped: ReorderSuggestion[] = [];
+    for (const group of groups) {
+      for (const item of group.items) {
+        if (selected && !selected.has(item.partId)) continue;
+        const offer = chosen.get(item.partId);
+        const line = offer
+          ? { ...item, supplierId: offer.supplierId, supplierName: offer.supplierName, unitCost: offer.price }
+          : item;
+        if (!line.supplierId) {
+          skipped.push(line);
+          continue;
+        }
+        bySupplier.set(line.supplierId, [...(bySupplier.get(line.supplierId) ?? []), line]);
+      }
+    }
+
+    const created = [];
+    for (const [supplierId, items] of bySupplier) {
+      const po = await this.purchaseOrdersService.create(tenantId, {
+        supplierId,
+        notes: `Автозаказ: пополнение склада «${warehouse.name}»`,
+        items: items.map((i) => ({ partId: i.partId, quantity: i.suggestedQty, unitCost: i.unitCost })),
+      });
+      created.push(po);
+    }
+
+    return { created, skipped };
+  }
+
+  // --- Helpers ---
+
+  /** Цены выбранных поставщиков по запчастям; поставщик должен быть в прайсе запчасти */
+  private async getChosenOffers(
+    tenantId: string,
+    suppliers: Record<string, string>,
+  ): Promise<Map<string, { supplierId: string; supplierName: string; price: number }>> {
+    const pairs = Object.entries(suppliers);
+    if (pairs.length === 0) return new Map();
+    if (pairs.some(([, supplierId]) => typeof supplierId !== 'string')) {
+      throw new BadRequestException('Некорректный выбор поставщиков');
+    }
+
+    const prices = await this.prisma.supplierPart.findMany({
+      where: {
+        supplier: { tenantId, isActive: true },
+        OR: pairs.map(([partId, supplierId]) => ({ partId, supplierId })),
+      },
+      select: { partId: true, price: true, supplier: { select: { id: true, name: true } } },
+    });
+    const chosen = new Map(
+      prices.map((p) => [p.partId, { supplierId: p.supplier.id, supplierName: p.supplier.name, price: Number(p.price) }]),
+    );
+    if (chosen.size < pairs.length) {
+      throw new BadRequestException('Выбранный поставщик не поставляет запчасть — обновите предложения');
+    }
+    return chosen;
+  }
+
+  /** Количество по PART-позициям открытых ЗН, не покрытое ни резервом, ни выдачей со склада */
+  private async getOpenDemand(tenantId: string): Promise<Map<string, number>> {
+    const items = await this.prisma.workOrderItem.findMany({
+      where: {
+        type: 'PART',
+        partId: { not: null },
+        workOrder: { tenantId, status: { in: OPEN_WORK_ORDER_STATUSES } },
+        OR: [{ recommended: false }, { approvedByClient: true }],
+      },
+      select: { id: true, partId: true, quantity: true },
+    });
+    if (items.length === 0) return new Map();
+
+    const totals = await this.reservationsService.getItemTotals(items.map((i) => i.id));
+
+    const result = new Map<string, number>();
+    for (const item of items) {
+      const itemTotals = totals.get(item.id);
+      const held = [...(itemTotals?.held.values() ?? [])].reduce((sum, qty) => sum + qty, 0);
+      const shortfall = Number(item.quantity) - held - (itemTotals?.consumed ?? 0);
+      if (shortfall <= 0) continue;
+      result.set(item.partId!, (result.get(item.partId!) ?? 0) + shortfall);
+    }
+    return result;
+  }
+
+  /** Заказано, но ещё не принято, в единицах хранения (включая черновики, чтобы не дублировать автозаказ) */
+  private async getOnOrder(tenantId: string): Promise<Map<string, number>> {
+    const items = await this.prisma.purchaseOrderItem.findMany({
+      where: {
+        purchaseOrder: { tenantId, status: { in: ['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED'] } },
+      },
+      select: {
+        partId: true,
+        quantity: true,
+        received: true,
+        part: { select: { purchaseUnitFactor: true } },
+      },
+    });
+
+    const result = new Map<string, number>();
+    for (const item of items) {
+      const rest = Number(item.quantity) - Number(item.received);
+      if (rest <= 0) continue;
+      const restInStockUnits = rest * Number(item.part.purchaseUnitFactor || 1);
+      result.set(item.partId, (result.get(item.partId) ?? 0) + restInStockUnits);
+    }
+    return result;
+  }
+}
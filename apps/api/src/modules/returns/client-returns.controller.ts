@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Param, Body } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { IsString, IsOptional, IsEnum, IsNumber, IsArray, Min, ValidateNested, ArrayMinSize } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReturnsService } from './returns.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+import { PaymentMethod } from '@prisma/client';
+
+// ===== DTOs =====
+
+class ClientReturnLineDto {
+  @IsString()
+  itemId!: string;
+
+  @Type(() => Number) @IsNumber() @Min(0.01)
+  quantity!: number;
+}
+
+class CreateClientReturnDto {
+  @IsString()
+  warehouseId!: string;
+
+  @IsEnum(PaymentMethod)
+  refundMethod!: PaymentMethod;
+
+  @IsOptional() @IsString()
+  reason?: string;
+
+  @IsArray() @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ClientReturnLineDto)
+  items!: ClientReturnLineDto[];
+}
+
+// ===== Controller =====
+
+@ApiTags('Возвраты')
+@ApiBearerAuth()
+@Controller('work-orders/:id/returns')
+export class ClientReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Get()
+  @Roles('work-orders:read')
+  @ApiOperation({ summary: 'Возвраты запчастей по заказ-наряду' })
+  findAll(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.returnsService.findClientReturns(tenantId, id);
+  }
+
+  @Post()
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Оформить возврат запчастей от клиента' })
+  create(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: CreateClientReturnDto,
+  ) {
+    return this.returnsService.createClientReturn(tenantId, id, dto, user.id);
+  }
+}
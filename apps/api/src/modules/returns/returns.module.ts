@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ClientReturnsController } from './client-returns.controller';
+import { SupplierReturnsController } from './supplier-returns.controller';
+import { ReturnsService } from './returns.service';
+import { InventoryModule } from '../inventory/inventory.module';
+
+@Module({
+  imports: [InventoryModule],
+  controllers: [ClientReturnsController, SupplierReturnsController],
+  providers: [ReturnsService],
+  exports: [ReturnsService],
+})
+export class ReturnsModule {}
@@ -0,0 +1,504 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import {
+  CLIENT_REFUND_CATEGORY,
+  SUPPLIER_REFUND_CATEGORY,
+  roundQuantity,
+  toStockUnits,
+  ru,
+} from '@sto-crm/shared';
+import { PaymentMethod, Prisma } from '@prisma/client';
+
+function parseReturnNumber(number: string): number {
+  const match = number.match(/-(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function formatReturnNumber(prefix: 'CR' | 'SR', seq: number): string {
+  return `${prefix}-${String(seq).padStart(5, '0')}`;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Возвраты клиентов принимаются только по оплаченным заказ-нарядам */
+const RETURNABLE_WORK_ORDER_STATUSES = ['PAID', 'CLOSED'];
+
+const clientReturnInclude = {
+  warehouse: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  items: {
+    include: {
+      workOrderItem: {
+        select: {
+          id: true,
+          description: true,
+          part: { select: { id: true, name: true, sku: true, unit: true } },
+        },
+      },
+    },
+  },
+};
+
+const supplierReturnInclude = {
+  supplier: { select: { id: true, name: true, inn: true } },
+  purchaseOrder: { select: { id: true, number: true } },
+  warehouse: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  items: {
+    include: {
+      purchaseOrderItem: {
+        select: {
+          id: true,
+          part: { select: { id: true, name: true, sku: true, unit: true, purchaseUnit: true } },
+        },
+      },
+    },
+  },
+};
+
+type ReturnLineInput = { itemId: string; quantity: number };
+
+/** Повторы одной позиции в запросе складываются — лимит проверяется по сумме */
+function mergeLines(items: ReturnLineInput[]): ReturnLineInput[] {
+  const merged = new Map<string, number>();
+  for (const line of items) {
+    if (line.quantity > 0) merged.set(line.itemId, roundQuantity((merged.get(line.itemId) ?? 0) + line.quantity));
+  }
+  return [...merged].map(([itemId, quantity]) => ({ itemId, quantity }));
+}
+
+@Injectable()
+export class ReturnsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  // ===== Client returns =====
+
+  async findClientReturns(tenantId: string, workOrderId: string): Promise<any[]> {
+    await this.getWorkOrder(tenantId, workOrderId);
+    return this.prisma.clientReturn.findMany({
+      where: { tenantId, workOrderId },
+      include: clientReturnInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Возврат неиспользованных запчастей по оплаченному ЗН: запчасти приходуются на склад
+   * движением RETURN по себестоимости списания, клиенту возвращаются деньги (расход в кассе).
+   * Суммы заказ-наряда не меняются; себестоимость вернувшегося вычитается из partsCost.
+   */
+  async createClientReturn(
+    tenantId: string,
+    workOrderId: string,
+    data: {
+      warehouseId: string;
+      refundMethod: PaymentMethod;
+      reason?: string;
+      items: ReturnLineInput[];
+    },
+    userId?: string,
+  ): Promise<any> {
+    const workOrder = await this.getWorkOrder(tenantId, workOrderId);
+    if (!RETURNABLE_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+      throw new BadRequestException('Возврат от клиента оформляется только по оплаченному заказ-наряду');
+    }
+    if (data.refundMethod === 'BONUS') {
+      throw new BadRequestException('Возврат бонусами не поддерживается');
+    }
+    await this.assertWarehouse(tenantId, data.warehouseId);
+
+    const lines = mergeLines(data.items);
+    if (lines.length === 0) throw new BadRequestException('Укажите количество к возврату');
+
+    const methodLabel = ru.paymentMethod[data.refundMethod];
+
+    return this.prisma.$transaction(async (tx) => {
+      // Строка ЗН блокируется: параллельный возврат ждёт и видит уже проведённые возвраты
+      const [locked] = await tx.$queryRaw<{ paidAmount: Prisma.Decimal }[]>`
+        SELECT "paidAmount" FROM work_orders WHERE id = ${workOrderId} FOR UPDATE
+      `;
+
+      const items = await tx.workOrderItem.findMany({
+        where: {
+          id: { in: lines.map((l) => l.itemId) },
+          workOrderId,
+          type: 'PART',
+          partId: { not: null },
+          // Рекомендации, которые клиент не одобрил, ему не отпускались
+          OR: [{ recommended: false }, { approvedByClient: true }],
+        },
+        select: {
+          id: true,
+          description: true,
+          partId: true,
+          quantity: true,
+          totalPrice: true,
+          costAmount: true,
+          reservations: { select: { consumedQty: true } },
+        },
+      });
+      const returned = await this.getClientReturned(items.map((i) => i.id), tx);
+
+      const priced = lines.map((line) => {
+        const item = items.find((i) => i.id === line.itemId);
+        if (!item) throw new BadRequestException('Позиция-запчасть заказ-наряда не найдена');
+        // Вернуть можно только то, что действительно списано со склада
+        const consumed = item.reservations.reduce((sum, r) => sum + Number(r.consumedQty), 0);
+        const remaining = roundQuantity(consumed - (returned.get(item.id) ?? 0));
+        if (remaining <= 0) {
+          throw new BadRequestException(`${item.description}: запчасть не списывалась со склада или уже возвращена`);
+        }
+        if (line.quantity > remaining) {
+          throw new BadRequestException(
+            `${item.description}: возвращается больше, чем осталось у клиента (осталось: ${remaining})`,
+          );
+        }
+        // Цена и себестоимость единицы — по тому, что ещё не вернули
+        const unitPrice = Number(item.totalPrice) / Number(item.quantity);
+        const unitCost = Number(item.costAmount ?? 0) / remaining;
+        return {
+          item,
+          quantity: line.quantity,
+          unitPrice: roundMoney(unitPrice),
+          amount: roundMoney(line.quantity * unitPrice),
+          unitCost,
+          costAmount: roundMoney(line.quantity * unitCost),
+        };
+      });
+
+      const refundAmount = roundMoney(priced.reduce((s, l) => s + l.amount, 0));
+      const refunded = await tx.clientReturn.aggregate({
+        where: { tenantId, workOrderId },
+        _sum: { refundAmount: true },
+      });
+      const refundable = roundMoney(Number(locked.paidAmount) - Number(refunded._sum.refundAmount ?? 0));
+      if (refundAmount > refundable) {
+        throw new BadRequestException(`Сумма возврата превышает оплаченное (доступно: ${refundable.toFixed(2)} ₽)`);
+      }
+      const costAmount = roundMoney(priced.reduce((s, l) => s + l.costAmount, 0));
+
+      const number = await this.nextNumber(tx.clientReturn, tenantId, 'CR');
+
+      const transaction = await tx.transaction.create({
+        data: {
+          type: 'EXPENSE',
+          amount: refundAmount,
+          category: CLIENT_REFUND_CATEGORY,
+          description: `Возврат ${number} по ${workOrder.orderNumber} (${methodLabel})`,
+          workOrderId,
+          tenantId,
+        },
+      });
+
+      const clientReturn = await tx.clientReturn.create({
+        data: {
+          number,
+          reason: data.reason,
+          refundAmount,
+          refundMethod: data.refundMethod,
+          costAmount,
+          tenantId,
+          workOrderId,
+          warehouseId: data.warehouseId,
+          createdById: userId,
+          transactionId: transaction.id,
+          items: {
+            create: priced.map((l) => ({
+              workOrderItemId: l.item.id,
+              quantity: l.quantity,
+              unitPrice: l.unitPrice,
+              amount: l.amount,
+              costAmount: l.costAmount,
+            })),
+          },
+        },
+        include: clientReturnInclude,
+      });
+
+      for (const line of priced) {
+        await this.inventoryService.applyMovement(tx, {
+          partId: line.item.partId!,
+          warehouseId: data.warehouseId,
+          type: 'RETURN',
+          quantity: line.quantity,
+          unitCost: line.unitCost,
+          reference: `WO:${workOrder.orderNumber}`,
+          referenceId: line.item.id,
+          notes: `Возврат от клиента ${number}`,
+          userId,
+        });
+        if (line.costAmount > 0) {
+          await tx.workOrderItem.update({
+            where: { id: line.item.id },
+            data: { costAmount: { decrement: line.costAmount } },
+          });
+        }
+      }
+
+      if (costAmount > 0) {
+        await tx.workOrder.update({
+          where: { id: workOrderId },
+          data: { partsCost: { decrement: costAmount } },
+        });
+      }
+
+      await tx.workOrderActivity.create({
+        data: {
+          workOrderId,
+          type: 'RETURN',
+          description: `Возврат ${number}: ${priced.map((l) => `${l.item.description} × ${l.quantity}`).join(', ')} — ${refundAmount.toFixed(2)} ₽ (${methodLabel})`,
+          userId: userId || null,
+          metadata: { returnId: clientReturn.id, refundAmount, method: data.refundMethod },
+        },
+      });
+
+      return clientReturn;
+    });
+  }
+
+  // ===== Supplier returns =====
+
+  async findSupplierReturns(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      supplierId?: string;
+      purchaseOrderId?: string;
+      unsettled?: boolean;
+    },
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit, supplierId, purchaseOrderId, unsettled } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = { tenantId };
+    if (supplierId) where.supplierId = supplierId;
+    if (purchaseOrderId) where.purchaseOrderId = purchaseOrderId;
+    if (unsettled) where.settledAt = null;
+
+    const [data, total] = await Promise.all([
+      this.prisma.supplierReturn.findMany({
+        where,
+        skip,
+        take: limit,
+        include: supplierReturnInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.supplierReturn.count({ where }),
+    ]);
+
+    return paginate(data, total, page, limit);
+  }
+
+  async findSupplierReturnById(tenantId: string, id: string): Promise<any> {
+    const supplierReturn = await this.prisma.supplierReturn.findFirst({
+      where: { id, tenantId },
+      include: supplierReturnInclude,
+    });
+    if (!supplierReturn) throw new NotFoundException('Возврат поставщику не найден');
+    return supplierReturn;
+  }
+
+  /**
+   * Возврат поставщику по принятому заказу: строки — в единицах закупки, не больше принятого
+   * за вычетом прошлых возвратов. Со склада списываются в первую очередь партии этого заказа,
+   * сумма возврата по ценам заказа становится кредитом поставщика.
+   */
+  async createSupplierReturn(
+    tenantId: string,
+    data: {
+      purchaseOrderId: string;
+      warehouseId: string;
+      reason?: string;
+      items: ReturnLineInput[];
+      userId?: string;
+    },
+  ): Promise<any> {
+    const po = await this.prisma.purchaseOrder.findFirst({
+      where: { id: data.purchaseOrderId, tenantId },
+      include: {
+        items: { include: { part: { select: { id: true, name: true, purchaseUnitFactor: true } } } },
+      },
+    });
+    if (!po) throw new NotFoundException('Заказ поставщику не найден');
+    if (po.status !== 'RECEIVED' && po.status !== 'PARTIALLY_RECEIVED') {
+      throw new BadRequestException('Вернуть можно только принятый товар');
+    }
+    await this.assertWarehouse(tenantId, data.warehouseId);
+
+    const lines = mergeLines(data.items);
+    if (lines.length === 0) throw new BadRequestException('Укажите количество к возврату');
+
+    const returned = await this.getSupplierReturned(po.items.map((i) => i.id));
+    const stock = await this.prisma.warehouseStock.findMany({
+      where: { warehouseId: data.warehouseId, partId: { in: po.items.map((i) => i.partId) } },
+      select: { partId: true, quantity: true, reserved: true },
+    });
+
+    const priced = lines.map((line) => {
+      const item = po.items.find((i) => i.id === line.itemId);
+      if (!item) throw new BadRequestException('Позиция заказа не найдена');
+      const remaining = roundQuantity(Number(item.received) - (returned.get(item.id) ?? 0));
+      if (line.quantity > remaining) {
+        throw new BadRequestException(
+          `${item.part.name}: возвращается больше, чем принято по заказу (доступно к возврату: ${remaining})`,
+        );
+      }
+      // Строки заказа — в единицах закупки, склад — в единицах хранения
+      const factor = Number(item.part.purchaseUnitFactor || 1);
+      const stockQty = toStockUnits(line.quantity, factor);
+      return {
+        item,
+        quantity: line.quantity,
+        stockQty,
+        unitCost: Number(item.unitCost),
+        amount: roundMoney(line.quantity * Number(item.unitCost)),
+      };
+    });
+
+    // Одна запчасть может стоять в заказе несколькими строками — свободный остаток делится между ними
+    const byPart = new Map<string, { name: string; quantity: number }>();
+    for (const line of priced) {
+      const entry = byPart.get(line.item.partId) ?? { name: line.item.part.name, quantity: 0 };
+      byPart.set(line.item.partId, { ...entry, quantity: roundQuantity(entry.quantity + line.stockQty) });
+    }
+    for (const [partId, { name, quantity }] of byPart) {
+      const ws = stock.find((s) => s.partId === partId);
+      const available = roundQuantity(Number(ws?.quantity ?? 0) - Number(ws?.reserved ?? 0));
+      if (quantity > available) {
+        throw new BadRequestException(`${name}: на складе недостаточно свободного остатка (${available})`);
+      }
+    }
+
+    const creditAmount = roundMoney(priced.reduce((s, l) => s + l.amount, 0));
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      const number = await this.nextNumber(tx.supplierReturn, tenantId, 'SR');
+
+      const supplierReturn = await tx.supplierReturn.create({
+        data: {
+          number,
+          reason: data.reason,
+          creditAmount,
+          tenantId,
+          supplierId: po.supplierId,
+          purchaseOrderId: po.id,
+          warehouseId: data.warehouseId,
+          createdById: data.userId,
+          items: {
+            create: priced.map((l) => ({
+              purchaseOrderItemId: l.item.id,
+              quantity: l.quantity,
+              unitCost: l.unitCost,
+              amount: l.amount,
+            })),
+          },
+        },
+      });
+
+      for (const line of priced) {
+        await this.inventoryService.applyMovement(tx, {
+          partId: line.item.partId,
+          warehouseId: data.warehouseId,
+          type: 'RETURN_TO_SUPPLIER',
+          quantity: line.stockQty,
+          reference: po.number,
+          referenceId: po.id,
+          lotReferenceId: po.id,
+          notes: `Возврат поставщику ${number}`,
+          userId: data.userId,
+        });
+      }
+
+      return supplierReturn;
+    });
+
+    return this.findSupplierReturnById(tenantId, created.id);
+  }
+
+  /** Поставщик вернул деньги по кредиту — приход в кассе */
+  async settleSupplierReturn(tenantId: string, id: string, data: { date?: string }): Promise<any> {
+    const supplierReturn = await this.findSupplierReturnById(tenantId, id);
+    if (supplierReturn.settledAt) throw new BadRequestException('Кредит по возврату уже погашен');
+
+    const settledAt = data.date ? new Date(data.date) : new Date();
+    await this.prisma.$transaction(async (tx) => {
+      // Помечаем кредит погашенным до прихода: повторный запрос не проведёт деньги дважды
+      const { count } = await tx.supplierReturn.updateMany({
+        where: { id, tenantId, settledAt: null },
+        data: { settledAt },
+      });
+      if (count === 0) throw new BadRequestException('Кредит по возврату уже погашен');
+
+      const transaction = await tx.transaction.create({
+        data: {
+          type: 'INCOME',
+          amount: supplierReturn.creditAmount,
+          category: SUPPLIER_REFUND_CATEGORY,
+          description: `Возврат ${supplierReturn.number} от ${supplierReturn.supplier.name} (${supplierReturn.purchaseOrder.number})`,
+          date: settledAt,
+          tenantId,
+        },
+      });
+      await tx.supplierReturn.update({
+        where: { id },
+        data: { transactionId: transaction.id },
+      });
+    });
+
+    return this.findSupplierReturnById(tenantId, id);
+  }
+
+  // --- Helpers ---
+
+  private async getWorkOrder(tenantId: string, workOrderId: string) {
+    const workOrder = await this.prisma.workOrder.findFirst({
+      where: { id: workOrderId, tenantId },
+      select: { id: true, orderNumber: true, status: true, paidAmount: true },
+    });
+    if (!workOrder) throw new NotFoundException('Заказ-наряд не найден');
+    return workOrder;
+  }
+
+  private async assertWarehouse(tenantId: string, warehouseId: string) {
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
+  }
+
+  private async getClientReturned(itemIds: string[], db: any = this.prisma): Promise<Map<string, number>> {
+    const rows: { workOrderItemId: string; _sum: { quantity: Prisma.Decimal | null } }[] = await db.clientReturnItem.groupBy({
+      by: ['workOrderItemId'],
+      where: { workOrderItemId: { in: itemIds } },
+      _sum: { quantity: true },
+    });
+    return new Map(rows.map((r) => [r.workOrderItemId, Number(r._sum.quantity ?? 0)]));
+  }
+
+  private async getSupplierReturned(itemIds: string[]): Promise<Map<string, number>> {
+    const rows = await this.prisma.supplierReturnItem.groupBy({
+      by: ['purchaseOrderItemId'],
+      where: { purchaseOrderItemId: { in: itemIds } },
+      _sum: { quantity: true },
+    });
+    return new Map(rows.map((r) => [r.purchaseOrderItemId, Number(r._sum.quantity ?? 0)]));
+  }
+
+  private async nextNumber(delegate: any, tenantId: string, prefix: 'CR' | 'SR'): Promise<string> {
+    const last = await delegate.findFirst({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+      select: { number: true },
+    });
+    return formatReturnNumber(prefix, (last ? parseReturnNumber(last.number) : 0) + 1);
+  }
+}
@@ -0,0 +1,94 @@
+import { Controller, Get, Post, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsArray, Min, ValidateNested, ArrayMinSize } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReturnsService } from './returns.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+
+// ===== DTOs =====
+
+class SupplierReturnLineDto {
+  @IsString()
+  itemId!: string;
+
+  @Type(() => Number) @IsNumber() @Min(0.001)
+  quantity!: number;
+}
+
+class CreateSupplierReturnDto {
+  @IsString()
+  purchaseOrderId!: string;
+
+  @IsString()
+  warehouseId!: string;
+
+  @IsOptional() @IsString()
+  reason?: string;
+
+  @IsArray() @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => SupplierReturnLineDto)
+  items!: SupplierReturnLineDto[];
+}
+
+class SettleSupplierReturnDto {
+  @IsOptional() @IsString()
+  date?: string;
+}
+
+// ===== Controller =====
+
+@ApiTags('Возвраты')
+@ApiBearerAuth()
+@Controller('supplier-returns')
+export class SupplierReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Get()
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Возвраты поставщикам' })
+  @ApiQuery({ name: 'supplierId', required: false })
+  @ApiQuery({ name: 'purchaseOrderId', required: false })
+  @ApiQuery({ name: 'unsettled', required: false, type: Boolean })
+  findAll(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { page?: string; limit?: string; supplierId?: string; purchaseOrderId?: string; unsettled?: string },
+  ) {
+    return this.returnsService.findSupplierReturns(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 20,
+      supplierId: query.supplierId,
+      purchaseOrderId: query.purchaseOrderId,
+      unsettled: query.unsettled === 'true',
+    });
+  }
+
+  @Get(':id')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Возврат поставщику' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.returnsService.findSupplierReturnById(tenantId, id);
+  }
+
+  @Post()
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Оформить возврат поставщику по заказу' })
+  create(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateSupplierReturnDto,
+  ) {
+    return this.returnsService.createSupplierReturn(tenantId, { ...dto, userId: user.id });
+  }
+
+  @Post(':id/settle')
+  @Roles('finance:create')
+  @ApiOperation({ summary: 'Погасить кредит: поставщик вернул деньги' })
+  settle(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Body() dto: SettleSupplierReturnDto,
+  ) {
+    return this.returnsService.settleSupplierReturn(tenantId, id, dto);
+  }
+}
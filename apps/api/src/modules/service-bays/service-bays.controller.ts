@@ -0,0 +1,78 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsInt, IsBoolean, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ServiceBaysService } from './service-bays.service';
+import { Roles, CurrentTenant } from '../../common/decorators';
+
+// ===== DTOs =====
+
+class CreateServiceBayDto {
+  @IsString()
+  name!: string;
+
+  @IsOptional() @IsString()
+  type?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  sortOrder?: number;
+}
+
+class UpdateServiceBayDto {
+  @IsOptional() @IsString()
+  name?: string;
+
+  @IsOptional() @IsString()
+  type?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  sortOrder?: number;
+
+  @IsOptional() @IsBoolean()
+  isActive?: boolean;
+}
+
+// ===== Controller =====
+
+@ApiTags('Посты')
+@ApiBearerAuth()
+@Controller('service-bays')
+export class ServiceBaysController {
+  constructor(private readonly serviceBaysService: ServiceBaysService) {}
+
+  @Get()
+  @Roles('services:read')
+  @ApiOperation({ summary: 'Рабочие посты и машины на них' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  findAll(@CurrentTenant() tenantId: string, @Query('includeInactive') includeInactive?: string) {
+    return this.serviceBaysService.findAll(tenantId, { includeInactive: includeInactive === 'true' });
+  }
+
+  @Get(':id')
+  @Roles('services:read')
+  @ApiOperation({ summary: 'Детали поста' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.serviceBaysService.findById(tenantId, id);
+  }
+
+  @Post()
+  @Roles('services:create')
+  @ApiOperation({ summary: 'Создать пост' })
+  create(@CurrentTenant() tenantId: string, @Body() dto: CreateServiceBayDto) {
+    return this.serviceBaysService.create(tenantId, dto);
+  }
+
+  @Patch(':id')
+  @Roles('services:update')
+  @ApiOperation({ summary: 'Обновить пост' })
+  update(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateServiceBayDto) {
+    return this.serviceBaysService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('services:delete')
+  @ApiOperation({ summary: 'Удалить пост' })
+  remove(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.serviceBaysService.delete(tenantId, id);
+  }
+}
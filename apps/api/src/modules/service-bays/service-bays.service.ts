@@ -0,0 +1,107 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { AppointmentStatus, WorkOrderStatus } from '@prisma/client';
+
+type ServiceBayData = {
+  name?: string;
+  type?: string;
+  sortOrder?: number;
+  isActive?: boolean;
+};
+
+/** Записи, которые держат пост за собой на своё время */
+export const BAY_BOOKING_APPOINTMENT_STATUSES: AppointmentStatus[] = ['PENDING', 'ESTIMATING', 'CONFIRMED', 'IN_PROGRESS'];
+
+/** Пока работы идут или стоят на паузе, машина занимает пост */
+export const BAY_OCCUPYING_WORK_ORDER_STATUSES: WorkOrderStatus[] = ['IN_PROGRESS', 'PAUSED'];
+
+@Injectable()
+export class ServiceBaysService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Посты с заказ-нарядами, которые стоят на них прямо сейчас */
+  async findAll(tenantId: string, params: { includeInactive?: boolean } = {}): Promise<any[]> {
+    return this.prisma.serviceBay.findMany({
+      where: { tenantId, ...(!params.includeInactive && { isActive: true }) },
+      include: {
+        workOrders: {
+          where: { status: { in: BAY_OCCUPYING_WORK_ORDER_STATUSES } },
+          select: {
+            id: true,
+            orderNumber: true,
+            status: true,
+            vehicle: { select: { make: true, model: true, licensePlate: true } },
+          },
+        },
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findById(tenantId: string, id: string): Promise<any> {
+    const bay = await this.prisma.serviceBay.findFirst({
+      where: { id, tenantId },
+      include: { _count: { select: { appointments: true, workOrders: true } } },
+    });
+    if (!bay) throw new NotFoundException('Пост не найден');
+    return bay;
+  }
+
+  async create(tenantId: string, data: ServiceBayData & { name: string }): Promise<any> {
+    await this.assertUniqueName(tenantId, data.name);
+    return this.prisma.serviceBay.create({
+      data: { ...data, tenantId },
+    });
+  }
+
+  async update(tenantId: string, id: string, data: ServiceBayData): Promise<any> {
+    const bay = await this.findById(tenantId, id);
+    if (data.name && data.name !== bay.name) {
+      await this.assertUniqueName(tenantId, data.name);
+    }
+    return this.prisma.serviceBay.update({ where: { id }, data });
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    const bay = await this.findById(tenantId, id);
+    if (bay._count.appointments > 0 || bay._count.workOrders > 0) {
+      throw new BadRequestException('На посту есть записи или заказ-наряды — деактивируйте его вместо удаления');
+    }
+    await this.prisma.serviceBay.delete({ where: { id } });
+  }
+
+  // ===== Conflicts =====
+
+  /** На посту может одновременно идти работа только по одному заказ-наряду */
+  async assertBayFreeForWorkOrder(tenantId: string, serviceBayId: string, workOrderId: string): Promise<void> {
+    const bay = await this.getActiveBay(tenantId, serviceBayId);
+
+    const occupant = await this.prisma.workOrder.findFirst({
+      where: {
+        tenantId,
+        serviceBayId,
+        status: { in: BAY_OCCUPYING_WORK_ORDER_STATUSES },
+        id: { not: workOrderId },
+      },
+      select: { orderNumber: true },
+    });
+    if (occupant) {
+      throw new ConflictException(`На посту «${bay.name}» уже идёт работа по ${occupant.orderNumber}`);
+    }
+  }
+
+  /** Пост для новой записи или заказ-наряда: существует и не деактивирован */
+  async getActiveBay(tenantId: string, id: string) {
+    const bay = await this.prisma.serviceBay.findFirst({ where: { id, tenantId } });
+    if (!bay) throw new NotFoundException('Пост не найден');
+    if (!bay.isActive) throw new BadRequestException(`Пост «${bay.name}» деактивирован`);
+    return bay;
+  }
+
+  // --- Helpers ---
+
+  private async assertUniqueName(tenantId: string, name: string) {
+    const existing = await this.prisma.serviceBay.findFirst({ where: { tenantId, name } });
+    if (existing) throw new ConflictException('Пост с таким названием уже существует');
+  }
+}
@@ -0,0 +1,176 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsArray,
+  IsUUID,
+  IsDateString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AbsenceType, ShiftPattern } from '@prisma/client';
+import { ShiftsService } from './shifts.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+
+// ===== DTOs =====
+
+class UpsertShiftScheduleDto {
+  @IsOptional() @IsEnum(ShiftPattern)
+  pattern?: ShiftPattern;
+
+  @IsOptional() @IsArray() @Type(() => Number) @IsInt({ each: true }) @Min(1, { each: true }) @Max(7, { each: true })
+  weekDays?: number[];
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(1) @Max(14)
+  cycleWorkDays?: number;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(1) @Max(14)
+  cycleRestDays?: number;
+
+  @IsOptional() @IsDateString()
+  cycleStart?: string;
+
+  @IsOptional() @IsString()
+  startTime?: string;
+
+  @IsOptional() @IsString()
+  endTime?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0) @Max(480)
+  breakMinutes?: number;
+}
+
+class CreateAbsenceDto {
+  @IsUUID()
+  userId!: string;
+
+  @IsEnum(AbsenceType)
+  type!: AbsenceType;
+
+  @IsDateString()
+  dateFrom!: string;
+
+  @IsDateString()
+  dateTo!: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+// ===== Controller =====
+
+@ApiTags('Смены')
+@ApiBearerAuth()
+@Controller('shifts')
+export class ShiftsController {
+  constructor(private readonly shiftsService: ShiftsService) {}
+
+  // --- Schedules ---
+
+  @Get('schedules')
+  @Roles('shifts:read')
+  @ApiOperation({ summary: 'Графики смен сотрудников' })
+  findSchedules(@CurrentTenant() tenantId: string) {
+    return this.shiftsService.findSchedules(tenantId);
+  }
+
+  @Put('schedules/:userId')
+  @Roles('shifts:update')
+  @ApiOperation({ summary: 'Задать график смен сотрудника' })
+  upsertSchedule(
+    @CurrentTenant() tenantId: string,
+    @Param('userId') userId: string,
+    @Body() dto: UpsertShiftScheduleDto,
+  ) {
+    return this.shiftsService.upsertSchedule(tenantId, userId, dto);
+  }
+
+  @Delete('schedules/:userId')
+  @Roles('shifts:update')
+  @ApiOperation({ summary: 'Удалить график смен сотрудника' })
+  deleteSchedule(@CurrentTenant() tenantId: string, @Param('userId') userId: string) {
+    return this.shiftsService.deleteSchedule(tenantId, userId);
+  }
+
+  @Get('roster')
+  @Roles('shifts:read')
+  @ApiOperation({ summary: 'Табель: смены, отсутствия и отметки по дням' })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: true, description: 'ISO date, включительно' })
+  getRoster(@CurrentTenant() tenantId: string, @Query() query: { from: string; to: string }) {
+    return this.shiftsService.getRoster(tenantId, query);
+  }
+
+  // --- Absences ---
+
+  @Get('absences')
+  @Roles('shifts:read')
+  @ApiOperation({ summary: 'Отсутствия сотрудников' })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiQuery({ name: 'userId', required: false })
+  findAbsences(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from?: string; to?: string; userId?: string },
+  ) {
+    return this.shiftsService.findAbsences(tenantId, query);
+  }
+
+  @Post('absences')
+  @Roles('shifts:update')
+  @ApiOperation({ summary: 'Внести отпуск, больничный или отгул' })
+  createAbsence(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateAbsenceDto,
+  ) {
+    return this.shiftsService.createAbsence(tenantId, dto, user.id);
+  }
+
+  @Delete('absences/:id')
+  @Roles('shifts:update')
+  @ApiOperation({ summary: 'Удалить отсутствие' })
+  deleteAbsence(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.shiftsService.deleteAbsence(tenantId, id);
+  }
+
+  // --- Attendance ---
+
+  @Get('attendance')
+  @Roles('shifts:read')
+  @ApiOperation({ summary: 'Отметки прихода и ухода' })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: true, description: 'ISO date, включительно' })
+  @ApiQuery({ name: 'userId', required: false })
+  findAttendance(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from: string; to: string; userId?: string },
+  ) {
+    return this.shiftsService.findAttendance(tenantId, query);
+  }
+
+  @Get('clock')
+  @Roles('shifts:clock')
+  @ApiOperation({ summary: 'Отмечен ли мой приход' })
+  getClockStatus(@CurrentTenant() tenantId: string, @CurrentUser() user: CurrentUserData) {
+    return this.shiftsService.getClockStatus(tenantId, user.id);
+  }
+
+  @Post('clock-in')
+  @Roles('shifts:clock')
+  @ApiOperation({ summary: 'Отметить приход' })
+  clockIn(@CurrentTenant() tenantId: string, @CurrentUser() user: CurrentUserData) {
+    return this.shiftsService.clockIn(tenantId, user.id);
+  }
+
+  @Post('clock-out')
+  @Roles('shifts:clock')
+  @ApiOperation({ summary: 'Отметить уход' })
+  clockOut(@CurrentTenant() tenantId: string, @CurrentUser() user: CurrentUserData) {
+    return this.shiftsService.clockOut(tenantId, user.id);
+  }
+}
@@ -0,0 +1,455 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  STAFF_ROLES,
+  addDaysToKey,
+  isScheduledWorkday,
+  shiftBounds,
+  shiftHours,
+  tenantTimeZone,
+  tenantWorkSchedule,
+  toDateKey,
+  zonedDateKey,
+  zonedDateTime,
+  type WorkSchedule,
+} from '@sto-crm/shared';
+import { AbsenceType, Prisma, ShiftPattern, UserRole } from '@prisma/client';
+
+type ScheduleInput = {
+  pattern?: ShiftPattern;
+  weekDays?: number[];
+  cycleWorkDays?: number;
+  cycleRestDays?: number;
+  cycleStart?: string | null;
+  startTime?: string;
+  endTime?: string;
+  breakMinutes?: number;
+};
+
+/** Рабочее время сотрудника за период — для расчёта зарплаты и загрузки */
+export type WorkTime = {
+  hasSchedule: boolean;
+  /** Рабочих дней и часов по графику */
+  scheduledDays: number;
+  scheduledHours: number;
+  /** Рабочих дней по графику, пропущенных из-за отсутствий */
+  absentDays: number;
+  /** По графику за вычетом отсутствий */
+  plannedHours: number;
+  /** По отметкам прихода/ухода */
+  attendedHours: number;
+};
+
+const userSelect = { id: true, firstName: true, lastName: true, role: true };
+
+const DAY_MS = 86_400_000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Даты «ГГГГ-ММ-ДД» без времени хранятся в @db.Date как UTC-полночь */
+function parseDateOnly(value: string): Date {
+  const date = new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime())) throw new BadRequestException('Некорректная дата');
+  return date;
+}
+
+/** Дни «ГГГГ-ММ-ДД» в поясе автосервиса, начинающиеся в периоде [from, toExclusive) */
+function eachDay(from: Date, toExclusive: Date, timeZone: string): string[] {
+  const days: string[] = [];
+  for (
+    let day = zonedDateKey(from, timeZone);
+    zonedDateTime(day, 0, timeZone) < toExclusive;
+    day = addDaysToKey(day, 1)
+  ) {
+    days.push(day);
+  }
+  return days;
+}
+
+@Injectable()
+export class ShiftsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===== Schedules =====
+
+  async findSchedules(tenantId: string): Promise<any[]> {
+    return this.prisma.shiftSchedule.findMany({
+      where: { tenantId },
+      include: { user: { select: userSelect } },
+      orderBy: { user: { lastName: 'asc' } },
+    });
+  }
+
+  async upsertSchedule(tenantId: string, userId: string, data: ScheduleInput): Promise<any> {
+    await this.getStaff(tenantId, userId);
+
+    const pattern = data.pattern ?? 'WEEKLY';
+    const weekDays = [...new Set(data.weekDays ?? [])].sort();
+    if (weekDays.some((d) => d < 1 || d > 7)) throw new BadRequestException('Дни недели — от 1 до 7');
+    if (pattern === 'WEEKLY' && weekDays.length === 0) {
+      throw new BadRequestException('Выберите рабочие дни недели');
+    }
+    if (pattern === 'CYCLE' && !data.cycleStart) {
+      throw new BadRequestException('Укажите первый рабочий день цикла');
+    }
+    for (const time of [data.startTime, data.endTime]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new BadRequestException('Время смены — в формате ЧЧ:ММ');
+      }
+    }
+
+    const fields = {
+      pattern,
+      weekDays: pattern === 'WEEKLY' ? weekDays : [],
+      cycleWorkDays: data.cycleWorkDays ?? 2,
+      cycleRestDays: data.cycleRestDays ?? 2,
+      cycleStart: pattern === 'CYCLE' && data.cycleStart ? parseDateOnly(data.cycleStart) : null,
+      startTime: data.startTime ?? '09:00',
+      endTime: data.endTime ?? '18:00',
+      breakMinutes: data.breakMinutes ?? 60,
+    };
+    if (shiftHours(fields) <= 0) throw new BadRequestException('Перерыв не может быть дольше смены');
+
+    return this.prisma.shiftSchedule.upsert({
+      where: { userId },
+      create: { ...fields, userId, tenantId },
+      update: fields,
+      include: { user: { select: userSelect } },
+    });
+  }
+
+  async deleteSchedule(tenantId: string, userId: string): Promise<void> {
+    const schedule = await this.prisma.shiftSchedule.findFirst({ where: { userId, tenantId } });
+    if (!schedule) throw new NotFoundException('График не найден');
+    await this.prisma.shiftSchedule.delete({ where: { id: schedule.id } });
+  }
+
+  // ===== Absences =====
+
+  async findAbsences(tenantId: string, params: { from?: string; to?: string; userId?: string }): Promise<any[]> {
+    const where: Prisma.AbsenceWhereInput = { tenantId };
+    if (params.userId) where.userId = params.userId;
+    if (params.to) where.dateFrom = { lte: parseDateOnly(params.to) };
+    if (params.from) where.dateTo = { gte: parseDateOnly(params.from) };
+
+    return this.prisma.absence.findMany({
+      where,
+      include: {
+        user: { select: userSelect },
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { dateFrom: 'desc' },
+    });
+  }
+
+  async createAbsence(
+    tenantId: string,
+    data: { userId: string; type: AbsenceType; dateFrom: string; dateTo: string; notes?: string },
+    createdById?: string,
+  ): Promise<any> {
+    await this.getStaff(tenantId, data.userId);
+    const dateFrom = parseDateOnly(data.dateFrom);
+    const dateTo = parseDateOnly(data.dateTo);
+    if (dateTo < dateFrom) throw new BadRequestException('Дата окончания раньше даты начала');
+
+    const overlap = await this.prisma.absence.findFirst({
+      where: { tenantId, userId: data.userId, dateFrom: { lte: dateTo }, dateTo: { gte: dateFrom } },
+    });
+    if (overlap) throw new ConflictException('Отсутствие пересекается с уже внесённым');
+
+    return this.prisma.absence.create({
+      data: {
+        type: data.type,
+        dateFrom,
+        dateTo,
+        notes: data.notes,
+        userId: data.userId,
+        createdById,
+        tenantId,
+      },
+      include: { user: { select: userSelect } },
+    });
+  }
+
+  async deleteAbsence(tenantId: string, id: string): Promise<void> {
+    const absence = await this.prisma.absence.findFirst({ where: { id, tenantId } });
+    if (!absence) throw new NotFoundException('Отсутствие не найдено');
+    await this.prisma.absence.delete({ where: { id } });
+  }
+
+  // ===== Attendance =====
+
+  async getClockStatus(tenantId: string, userId: string): Promise<any> {
+    const open = await this.prisma.attendance.findFirst({ where: { tenantId, userId, clockOut: null } });
+    return { clockedIn: Boolean(open), attendance: open };
+  }
+
+  async clockIn(tenantId: string, userId: string): Promise<any> {
+    const open = await this.prisma.attendance.findFirst({ where: { tenantId, userId, clockOut: null } });
+    if (open) throw new ConflictException('Приход уже отмечен');
+
+    try {
+      return await this.prisma.attendance.create({ data: { userId, tenantId } });
+    } catch (e) {
+      // Двойное нажатие отсекает частичный уникальный индекс открытых отметок
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+        throw new ConflictException('Приход уже отмечен');
+      }
+      throw e;
+    }
+  }
+
+  async clockOut(tenantId: string, userId: string): Promise<any> {
+    const open = await this.prisma.attendance.findFirst({ where: { tenantId, userId, clockOut: null } });
+    if (!open) throw new BadRequestException('Приход не отмечен');
+    return this.prisma.attendance.update({ where: { id: open.id }, data: { clockOut: new Date() } });
+  }
+
+  async findAttendance(tenantId: string, params: { from: string; to: string; userId?: string }): Promise<any[]> {
+    const { from, toExclusive } = this.parsePeriod(params, await this.getTimeZone(tenantId));
+    return this.prisma.attendance.findMany({
+      where: {
+        tenantId,
+        clockIn: { gte: from, lt: toExclusive },
+        ...(params.userId && { userId: params.userId }),
+      },
+      include: { user: { select: userSelect } },
+      orderBy: { clockIn: 'desc' },
+    });
+  }
+
+  // ===== Roster =====
+
+  /**
+   * Табель на период: по каждому сотруднику с графиком — рабочий день или выходной,
+   * время смены, отсутствие и отработанные по отметкам часы
+   */
+  async getRoster(tenantId: string, params: { from: string; to: string }): Promise<any> {
+    const timeZone = await this.getTimeZone(tenantId);
+    const { from, to, toExclusive } = this.parsePeriod(params, timeZone);
+    if (toExclusive.getTime() - from.getTime() > 62 * DAY_MS) {
+      throw new BadRequestException('Табель строится не больше чем на 2 месяца');
+    }
+
+    const [schedules, absences, attendances] = await Promise.all([
+      this.prisma.shiftSchedule.findMany({
+        where: { tenantId, user: { isActive: true } },
+        include: { user: { select: userSelect } },
+        orderBy: { user: { lastName: 'asc' } },
+      }),
+      this.findOverlappingAbsences(tenantId, from, toExclusive, timeZone),
+      this.prisma.attendance.findMany({ where: { tenantId, clockIn: { gte: from, lt: toExclusive } } }),
+    ]);
+    const days = eachDay(from, toExclusive, timeZone);
+
+    return {
+      from,
+      to,
+      days,
+      employees: schedules.map((schedule) => ({
+        user: schedule.user,
+        schedule,
+        days: days.map((key) => {
+          const absence = absences.find(
+            (a) => a.userId === schedule.userId && toDateKey(a.dateFrom, true) <= key && key <= toDateKey(a.dateTo, true),
+          );
+          const isWorkday = isScheduledWorkday(schedule, key);
+          const bounds = isWorkday ? shiftBounds(schedule, key, timeZone) : null;
+          const attended = attendances
+            .filter((a) => a.userId === schedule.userId && zonedDateKey(a.clockIn, timeZone) === key)
+            .reduce((s, a) => s + ((a.clockOut ?? new Date()).getTime() - a.clockIn.getTime()) / 3_600_000, 0);
+          return {
+            date: key,
+            isWorkday,
+            absence: absence ? { id: absence.id, type: absence.type } : null,
+            start: bounds?.start ?? null,
+            end: bounds?.end ?? null,
+            hours: isWorkday && !absence ? shiftHours(schedule) : 0,
+            attendedHours: roundHours(attended),
+          };
+        }),
+      })),
+    };
+  }
+
+  // ===== Consumers: payroll, reports, appointment planning =====
+
+  /** Рабочее время сотрудников за период [from, toExclusive) по графикам, отсутствиям и отметкам */
+  async getWorkTime(tenantId: string, from: Date, toExclusive: Date, userIds?: string[]): Promise<Map<string, WorkTime>> {
+    const userFilter = userIds ? { userId: { in: userIds } } : {};
+    const timeZone = await this.getTimeZone(tenantId);
+    const [schedules, absences, attendances] = await Promise.all([
+      this.prisma.shiftSchedule.findMany({ where: { tenantId, ...userFilter } }),
+      this.findOverlappingAbsences(tenantId, from, toExclusive, timeZone, userIds),
+      this.prisma.attendance.findMany({
+        where: { tenantId, clockIn: { gte: from, lt: toExclusive }, ...userFilter },
+      }),
+    ]);
+    const days = eachDay(from, toExclusive, timeZone);
+    const result = new Map<string, WorkTime>();
+    const entry = (userId: string) => {
+      const value = result.get(userId) ?? {
+        hasSchedule: false,
+        scheduledDays: 0,
+        scheduledHours: 0,
+        absentDays: 0,
+        plannedHours: 0,
+        attendedHours: 0,
+      };
+      result.set(userId, value);
+      return value;
+    };
+
+    for (const schedule of schedules) {
+      const time = entry(schedule.userId);
+      const hours = shiftHours(schedule);
+      time.hasSchedule = true;
+      for (const key of days.filter((d) => isScheduledWorkday(schedule, d))) {
+        const absent = absences.some(
+          (a) => a.userId === schedule.userId && toDateKey(a.dateFrom, true) <= key && key <= toDateKey(a.dateTo, true),
+        );
+        time.scheduledDays += 1;
+        time.scheduledHours += hours;
+        if (absent) time.absentDays += 1;
+        else time.plannedHours += hours;
+      }
+    }
+    for (const attendance of attendances) {
+      const end = attendance.clockOut ?? new Date();
+      entry(attendance.userId).attendedHours += (end.getTime() - attendance.clockIn.getTime()) / 3_600_000;
+    }
+    for (const time of result.values()) {
+      time.scheduledHours = roundHours(time.scheduledHours);
+      time.plannedHours = roundHours(time.plannedHours);
+      time.attendedHours = roundHours(time.attendedHours);
+    }
+    return result;
+  }
+
+  /**
+   * Смены сотрудников, пересекающиеся с периодом [from, toExclusive), без дней отсутствий.
+   * Учитываются смены, начавшиеся накануне и переходящие через полночь.
+   */
+  async getShiftWindows(
+    tenantId: string,
+    from: Date,
+    toExclusive: Date,
+    role?: UserRole,
+  ): Promise<Array<{ user: any; start: Date; end: Date }>> {
+    const schedules = await this.prisma.shiftSchedule.findMany({
+      where: { tenantId, user: { isActive: true, ...(role && { role }) } },
+      include: { user: { select: userSelect } },
+    });
+    const timeZone = await this.getTimeZone(tenantId);
+    const firstDay = zonedDateTime(addDaysToKey(zonedDateKey(from, timeZone), -1), 0, timeZone);
+    const absences = await this.findOverlappingAbsences(
+      tenantId,
+      firstDay,
+      toExclusive,
+      timeZone,
+      schedules.map((s) => s.userId),
+    );
+
+    const windows: Array<{ user: any; start: Date; end: Date }> = [];
+    for (const schedule of schedules) {
+      for (const key of eachDay(firstDay, toExclusive, timeZone)) {
+        if (!isScheduledWorkday(schedule, key)) continue;
+        const bounds = shiftBounds(schedule, key, timeZone);
+        if (bounds.end <= from || bounds.start >= toExclusive) continue;
+        const absent = absences.some(
+          (a) => a.userId === schedule.userId && toDateKey(a.dateFrom, true) <= key && key <= toDateKey(a.dateTo, true),
+        );
+        if (!absent) windows.push({ user: schedule.user, ...bounds });
+      }
+    }
+    return windows;
+  }
+
+  /** Сотрудники, чья смена целиком покрывает интервал и кто не отсутствует в этот день */
+  async getStaffOnShift(tenantId: string, start: Date, end: Date, role?: UserRole): Promise<any[]> {
+    const windows = await this.getShiftWindows(tenantId, start, end, role);
+    const users = new Map<string, any>();
+    for (const window of windows) {
+      if (window.start <= start && window.end >= end) users.set(window.user.id, window.user);
+    }
+    return [...users.values()];
+  }
+
+  /** Часовой пояс автосервиса — по нему считаются дни графиков и время смен */
+  async getTimeZone(tenantId: string): Promise<string> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    return tenantTimeZone(tenant?.settings);
+  }
+
+  /** Режим работы автосервиса — по нему строятся слоты записи и оплачиваемые часы механиков без графика */
+  async getWorkSchedule(tenantId: string): Promise<WorkSchedule> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } });
+    return tenantWorkSchedule(tenant?.settings);
+  }
+
+  /** Заведены ли графики у механиков — без них проверки по сменам не действуют */
+  async hasMechanicSchedules(tenantId: string): Promise<boolean> {
+    const configured = await this.prisma.shiftSchedule.count({
+      where: { tenantId, user: { role: 'MECHANIC', isActive: true } },
+    });
+    return configured > 0;
+  }
+
+  /**
+   * Запись на время, когда нет ни одного механика на смене, запрещена.
+   * Пока графики механиков не заведены, проверка не действует.
+   */
+  async assertMechanicsOnShift(tenantId: string, start: Date, end: Date): Promise<void> {
+    if (!(await this.hasMechanicSchedules(tenantId))) return;
+
+    const onShift = await this.getStaffOnShift(tenantId, start, end, 'MECHANIC');
+    if (onShift.length === 0) {
+      throw new BadRequestException('В это время нет механиков на смене — выберите другое время');
+    }
+  }
+
+  // --- Helpers ---
+
+  private async getStaff(tenantId: string, userId: string) {
+    const user = await this.prisma.user.findFirst({ where: { id: userId, tenantId } });
+    if (!user) throw new NotFoundException('Сотрудник не найден');
+    if (!STAFF_ROLES.includes(user.role)) throw new BadRequestException('График ведётся только для сотрудников');
+    return user;
+  }
+
+  private findOverlappingAbsences(
+    tenantId: string,
+    from: Date,
+    toExclusive: Date,
+    timeZone: string,
+    userIds?: string[],
+  ) {
+    return this.prisma.absence.findMany({
+      where: {
+        tenantId,
+        dateFrom: { lte: parseDateOnly(zonedDateKey(new Date(toExclusive.getTime() - 1), timeZone)) },
+        dateTo: { gte: parseDateOnly(zonedDateKey(from, timeZone)) },
+        ...(userIds && { userId: { in: userIds } }),
+      },
+    });
+  }
+
+  /** Период — даты «ГГГГ-ММ-ДД» включительно в поясе автосервиса: to = конец дня */
+  private parsePeriod(params: { from: string; to: string }, timeZone: string) {
+    if (!/^\d{4}-\d{2}-\d{2}/.test(params.from ?? '') || !/^\d{4}-\d{2}-\d{2}/.test(params.to ?? '')) {
+      throw new BadRequestException('Некорректный период');
+    }
+    const from = zonedDateTime(params.from, 0, timeZone);
+    const to = zonedDateTime(params.to, 0, timeZone);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new BadRequestException('Некорректный период');
+    }
+    const toExclusive = zonedDateTime(addDaysToKey(params.to, 1), 0, timeZone);
+    if (from >= toExclusive) throw new BadRequestException('Начало периода должно быть раньше конца');
+    return { from, to, toExclusive };
+  }
+}
@@ -0,0 +1,125 @@
+import { Controller, Get, Post, Put, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsArray, IsBoolean, Min, ValidateNested, ArrayMinSize, ValidateIf } from 'class-validator';
+import { Type } from 'class-transformer';
+import { StocktakesService } from './stocktakes.service';
+import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { StocktakeStatus } from '@prisma/client';
+
+// ===== DTOs =====
+
+class CreateStocktakeDto {
+  @IsString()
+  warehouseId!: string;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class CountLineDto {
+  @IsString()
+  partId!: string;
+
+  @ValidateIf((o) => o.countedQty !== null)
+  @Type(() => Number) @IsNumber() @Min(0)
+  countedQty!: number | null;
+}
+
+class SetCountsDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CountLineDto)
+  items!: CountLineDto[];
+}
+
+class ScanDto {
+  @IsString()
+  code!: string;
+
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0.001)
+  quantity?: number;
+}
+
+class ApproveStocktakeDto {
+  @IsOptional() @IsBoolean()
+  uncountedAsZero?: boolean;
+}
+
+// ===== Controller =====
+
+@ApiTags('Инвентаризация')
+@ApiBearerAuth()
+@Controller('stocktakes')
+export class StocktakesController {
+  constructor(private readonly stocktakesService: StocktakesService) {}
+
+  @Get()
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Список инвентаризаций' })
+  @ApiQuery({ name: 'status', required: false, enum: StocktakeStatus })
+  @ApiQuery({ name: 'warehouseId', required: false })
+  findAll(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PaginationDto & { status?: StocktakeStatus; warehouseId?: string },
+  ) {
+    return this.stocktakesService.findAll(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 20,
+      status: query.status,
+      warehouseId: query.warehouseId,
+    });
+  }
+
+  @Get(':id')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Инвентаризация с расхождениями' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.stocktakesService.findById(tenantId, id);
+  }
+
+  @Post()
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Начать инвентаризацию склада (снимок остатков)' })
+  create(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Body() dto: CreateStocktakeDto,
+  ) {
+    return this.stocktakesService.create(tenantId, { ...dto, userId: user.id });
+  }
+
+  @Put(':id/counts')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Ввести фактические количества' })
+  setCounts(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: SetCountsDto) {
+    return this.stocktakesService.setCounts(tenantId, id, dto.items);
+  }
+
+  @Post(':id/scan')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Пересчёт сканером (+1 или указанное количество)' })
+  scan(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: ScanDto) {
+    return this.stocktakesService.scan(tenantId, id, dto);
+  }
+
+  @Post(':id/approve')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Утвердить инвентаризацию и провести корректировки' })
+  approve(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Body() dto: ApproveStocktakeDto,
+  ) {
+    return this.stocktakesService.approve(tenantId, id, { ...dto, userId: user.id });
+  }
+
+  @Post(':id/cancel')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Отменить инвентаризацию' })
+  cancel(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.stocktakesService.cancel(tenantId, id);
+  }
+}
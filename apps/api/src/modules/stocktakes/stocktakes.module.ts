@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StocktakesController } from './stocktakes.controller';
+import { StocktakesService } from './stocktakes.service';
+import { InventoryModule } from '../inventory/inventory.module';
+import { PartsModule } from '../parts/parts.module';
+
+@Module({
+  imports: [InventoryModule, PartsModule],
+  controllers: [StocktakesController],
+  providers: [StocktakesService],
+  exports: [StocktakesService],
+})
+export class StocktakesModule {}
@@ -0,0 +1,355 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { PartBarcodesService } from '../parts/part-barcodes.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+import { roundQuantity } from '@sto-crm/shared';
+import { StocktakeStatus } from '@prisma/client';
+
+function parseStocktakeNumber(number: string): number {
+  const match = number.match(/INV-(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function formatStocktakeNumber(seq: number): string {
+  return `INV-${String(seq).padStart(5, '0')}`;
+}
+
+const stocktakeInclude = {
+  warehouse: { select: { id: true, name: true, code: true, address: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  approvedBy: { select: { id: true, firstName: true, lastName: true } },
+  items: {
+    include: {
+      part: { select: { id: true, name: true, sku: true, brand: true, oemNumber: true, unit: true } },
+    },
+    orderBy: { part: { name: 'asc' as const } },
+  },
+};
+
+@Injectable()
+export class StocktakesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+    private readonly partBarcodesService: PartBarcodesService,
+  ) {}
+
+  async findAll(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      status?: StocktakeStatus;
+      warehouseId?: string;
+    },
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit, status, warehouseId } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = { tenantId };
+    if (status) where.status = status;
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const [data, total] = await Promise.all([
+      this.prisma.stocktake.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          warehouse: { select: { id: true, name: true } },
+          _count: { select: { items: true } },
+        },
+      }),
+      this.prisma.stocktake.count({ where }),
+    ]);
+
+    return paginate(data, total, page, limit);
+  }
+
+  /** Документ инвентаризации с расхождениями по строкам и итогами в деньгах */
+  async findById(tenantId: string, id: string): Promise<any> {
+    const stocktake = await this.prisma.stocktake.findFirst({
+      where: { id, tenantId },
+      include: stocktakeInclude,
+    });
+    if (!stocktake) throw new NotFoundException('Инвентаризация не найдена');
+
+    const items = stocktake.items.map((i) => {
+      const expectedQty = Number(i.expectedQty);
+      const countedQty = i.countedQty === null ? null : Number(i.countedQty);
+      const unitCost = Number(i.unitCost);
+      const difference = countedQty === null ? null : roundQuantity(countedQty - expectedQty);
+      return {
+        id: i.id,
+        partId: i.partId,
+        part: i.part,
+        expectedQty,
+        countedQty,
+        unitCost,
+        difference,
+        differenceCost: difference === null ? null : Math.round(difference * unitCost * 100) / 100,
+      };
+    });
+
+    const counted = items.filter((i) => i.differenceCost !== null);
+    const surplusCost = counted.reduce((s, i) => s + Math.max(0, i.differenceCost!), 0);
+    const shortageCost = counted.reduce((s, i) => s + Math.min(0, i.differenceCost!), 0);
+
+    return {
+      ...stocktake,
+      items,
+      summary: {
+        itemsCount: items.length,
+        countedCount: counted.length,
+        discrepancyCount: counted.filter((i) => i.difference !== 0).length,
+        expectedCost: Math.round(items.reduce((s, i) => s + i.expectedQty * i.unitCost, 0) * 100) / 100,
+        surplusCost: Math.round(surplusCost * 100) / 100,
+        shortageCost: Math.round(shortageCost * 100) / 100,
+        netCost: Math.round((surplusCost + shortageCost) * 100) / 100,
+      },
+    };
+  }
+
+  /**
+   * Начало инвентаризации: фиксируется снимок учётных остатков склада
+   * и себестоимость каждой позиции. По складу может идти только одна инвентаризация.
+   */
+  async create(
+    tenantId: string,
+    data: { warehouseId: string; notes?: string; userId?: string },
+  ): Promise<any> {
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: data.warehouseId, tenantId },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
+    if (!warehouse.isActive) throw new BadRequestException('Склад неактивен');
+
+    const running = await this.prisma.stocktake.findFirst({
+      where: { tenantId, warehouseId: data.warehouseId, status: 'IN_PROGRESS' },
+      select: { number: true },
+    });
+    if (running) {
+      throw new ConflictException(`По складу уже идёт инвентаризация ${running.number}`);
+    }
+
+    const stock = await this.prisma.warehouseStock.findMany({
+      where: {
+        warehouseId: data.warehouseId,
+        part: { tenantId },
+        OR: [{ quantity: { not: 0 } }, { part: { isActive: true } }],
+      },
+      select: { partId: true, quantity: true, part: { select: { costPrice: true } } },
+    });
+
+    const stocktake = await this.prisma.$transaction(async (tx) => {
+      const last = await tx.stocktake.findFirst({
+        where: { tenantId },
+        orderBy: { createdAt: 'desc' },
+        select: { number: true },
+      });
+      const nextSeq = (last ? parseStocktakeNumber(last.number) : 0) + 1;
+
+      return tx.stocktake.create({
+        data: {
+          number: formatStocktakeNumber(nextSeq),
+          notes: data.notes,
+          warehouseId: data.warehouseId,
+          createdById: data.userId,
+          tenantId,
+          items: {
+            create: stock.map((s) => ({
+              partId: s.partId,
+              expectedQty: s.quantity,
+              unitCost: s.part.costPrice,
+            })),
+          },
+        },
+      });
+    });
+
+    return this.findById(tenantId, stocktake.id);
+  }
+
+  /**
+   * Ввод фактических количеств списком. Позиции, которых не было в снимке
+   * (нашлись при пересчёте), добавляются с текущим учётным остатком склада.
+   * countedQty = null сбрасывает пересчёт позиции.
+   */
+  async setCounts(
+    tenantId: string,
+    id: string,
+    items: Array<{ partId: string; countedQty: number | null }>,
+  ): Promise<any> {
+    const stocktake = await this.getInProgress(tenantId, id);
+
+    const partIds = [...new Set(items.map((i) => i.partId))];
+    const parts = await this.prisma.part.findMany({
+      where: { id: { in: partIds }, tenantId },
+      select: { id: true },
+    });
+    if (parts.length !== partIds.length) throw new BadRequestException('Запчасть не найдена');
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const item of items) {
+        const countedQty = item.countedQty === null ? null : roundQuantity(item.countedQty);
+        const existing = await tx.stocktakeItem.findUnique({
+          where: { stocktakeId_partId: { stocktakeId: id, partId: item.partId } },
+          select: { id: true },
+        });
+        if (existing) {
+          await tx.stocktakeItem.update({ where: { id: existing.id }, data: { countedQty } });
+        } else {
+          await tx.stocktakeItem.create({
+            data: { ...(await this.snapshotItem(tx, stocktake.warehouseId, item.partId)), stocktakeId: id, countedQty },
+          });
+        }
+      }
+    });
+
+    return this.findById(tenantId, id);
+  }
+
+  /**
+   * Пересчёт сканером: код ищется по штрихкодам (в т.ч. производителя), артикулу, OEM-номеру и коду 1С,
+   * к посчитанному количеству позиции прибавляется quantity.
+   */
+  async scan(
+    tenantId: string,
+    id: string,
+    data: { code: string; quantity?: number },
+  ): Promise<any> {
+    const stocktake = await this.getInProgress(tenantId, id);
+
+    const code = data.code.trim();
+    const matches = await this.partBarcodesService.findByCode(tenantId, code);
+    if (matches.length === 0) throw new NotFoundException(`Запчасть с кодом «${code}» не найдена`);
+    if (matches.length > 1) {
+      throw new ConflictException(`Код «${code}» подходит к нескольким запчастям — введите количество вручную`);
+    }
+    const partId = matches[0].id;
+    const quantity = data.quantity ?? 1;
+
+    const item = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.stocktakeItem.findUnique({
+        where: { stocktakeId_partId: { stocktakeId: id, partId } },
+      });
+      if (existing) {
+        return tx.stocktakeItem.update({
+          where: { id: existing.id },
+          data: { countedQty: roundQuantity(Number(existing.countedQty ?? 0) + quantity) },
+          include: stocktakeInclude.items.include,
+        });
+      }
+      return tx.stocktakeItem.create({
+        data: { ...(await this.snapshotItem(tx, stocktake.warehouseId, partId)), stocktakeId: id, countedQty: quantity },
+        include: stocktakeInclude.items.include,
+      });
+    });
+
+    return {
+      ...item,
+      expectedQty: Number(item.expectedQty),
+      countedQty: Number(item.countedQty),
+      unitCost: Number(item.unitCost),
+    };
+  }
+
+  /**
+   * Утверждение: по каждой позиции с расхождением проводится движение ADJUSTMENT
+   * на разницу «факт − снимок» со ссылкой на документ. Всё в одной транзакции.
+   * Непосчитанные позиции либо блокируют утверждение, либо считаются нулевыми.
+   */
+  async approve(
+    tenantId: string,
+    id: string,
+    data: { uncountedAsZero?: boolean; userId?: string },
+  ): Promise<any> {
+    const stocktake = await this.findById(tenantId, id);
+    if (stocktake.status !== 'IN_PROGRESS') {
+      throw new BadRequestException('Утвердить можно только инвентаризацию в работе');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Сначала занимаем документ: повторный запрос не проведёт корректировки второй раз
+      const { count } = await tx.stocktake.updateMany({
+        where: { id, tenantId, status: 'IN_PROGRESS' },
+        data: { status: 'APPROVED', approvedAt: new Date(), approvedById: data.userId },
+      });
+      if (count === 0) throw new BadRequestException('Утвердить можно только инвентаризацию в работе');
+
+      // Позиции перечитываются после блокировки — в них уже все пересчёты
+      const items = await tx.stocktakeItem.findMany({
+        where: { stocktakeId: id },
+        select: { partId: true, expectedQty: true, countedQty: true, unitCost: true },
+      });
+      const uncounted = items.filter((i) => i.countedQty === null);
+      if (uncounted.length > 0 && !data.uncountedAsZero) {
+        throw new BadRequestException(`Не посчитано позиций: ${uncounted.length}`);
+      }
+      if (uncounted.length > 0) {
+        await tx.stocktakeItem.updateMany({
+          where: { stocktakeId: id, countedQty: null },
+          data: { countedQty: 0 },
+        });
+      }
+
+      for (const item of items) {
+        const expectedQty = Number(item.expectedQty);
+        const countedQty = Number(item.countedQty ?? 0);
+        const difference = roundQuantity(countedQty - expectedQty);
+        if (difference === 0) continue;
+        await this.inventoryService.applyMovement(tx, {
+          partId: item.partId,
+          warehouseId: stocktake.warehouseId,
+          type: 'ADJUSTMENT',
+          quantity: difference,
+          reference: stocktake.number,
+          referenceId: stocktake.id,
+          notes: `Инвентаризация ${stocktake.number}: ${expectedQty} → ${countedQty}`,
+          userId: data.userId,
+          unitCost: Number(item.unitCost),
+        });
+      }
+    });
+
+    return this.findById(tenantId, id);
+  }
+
+  async cancel(tenantId: string, id: string): Promise<any> {
+    await this.getInProgress(tenantId, id);
+    const { count } = await this.prisma.stocktake.updateMany({
+      where: { id, tenantId, status: 'IN_PROGRESS' },
+      data: { status: 'CANCELLED' },
+    });
+    if (count === 0) throw new BadRequestException('Инвентаризация уже закрыта');
+    return this.findById(tenantId, id);
+  }
+
+  // --- Helpers ---
+
+  private async getInProgress(tenantId: string, id: string) {
+    const stocktake = await this.prisma.stocktake.findFirst({
+      where: { id, tenantId },
+      select: { id: true, status: true, warehouseId: true },
+    });
+    if (!stocktake) throw new NotFoundException('Инвентаризация не найдена');
+    if (stocktake.status !== 'IN_PROGRESS') {
+      throw new BadRequestException('Инвентаризация уже закрыта');
+    }
+    return stocktake;
+  }
+
+  /** Учётный остаток и себестоимость для позиции, добавленной после снимка */
+  private async snapshotItem(tx: any, warehouseId: string, partId: string) {
+    const [stock, part] = await Promise.all([
+      tx.warehouseStock.findUnique({
+        where: { partId_warehouseId: { partId, warehouseId } },
+        select: { quantity: true },
+      }),
+      tx.part.findUnique({ where: { id: partId }, select: { costPrice: true } }),
+    ]);
+    return { partId, expectedQty: stock?.quantity ?? 0, unitCost: part.costPrice };
+  }
+}
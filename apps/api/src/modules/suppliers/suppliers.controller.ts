@@ -0,0 +1,200 @@
+import { Controller, Get, Post, Patch, Put, Delete, Param, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsInt, IsBoolean, IsEmail, Min, Matches } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SuppliersService } from './suppliers.service';
+import { Roles, CurrentTenant } from '../../common/decorators';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+// ===== DTOs =====
+
+class CreateSupplierDto {
+  @IsString()
+  name!: string;
+
+  @IsOptional() @Matches(/^(\d{10}|\d{12})$/, { message: 'ИНН должен содержать 10 или 12 цифр' })
+  inn?: string;
+
+  @IsOptional() @Matches(/^\d{9}$/, { message: 'КПП должен содержать 9 цифр' })
+  kpp?: string;
+
+  @IsOptional() @IsString()
+  contactPerson?: string;
+
+  @IsOptional() @IsString()
+  phone?: string;
+
+  @IsOptional() @IsEmail()
+  email?: string;
+
+  @IsOptional() @IsString()
+  address?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  paymentTermsDays?: number;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  leadTimeDays?: number;
+
+  @IsOptional() @IsString()
+  notes?: string;
+}
+
+class UpdateSupplierDto {
+  @IsOptional() @IsString()
+  name?: string;
+
+  @IsOptional() @Matches(/^(\d{10}|\d{12})$/, { message: 'ИНН должен содержать 10 или 12 цифр' })
+  inn?: string;
+
+  @IsOptional() @Matches(/^\d{9}$/, { message: 'КПП должен содержать 9 цифр' })
+  kpp?: string;
+
+  @IsOptional() @IsString()
+  contactPerson?: string;
+
+  @IsOptional() @IsString()
+  phone?: string;
+
+  @IsOptional() @IsEmail()
+  email?: string;
+
+  @IsOptional() @IsString()
+  address?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  paymentTermsDays?: number;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  leadTimeDays?: number;
+
+  @IsOptional() @IsString()
+  notes?: string;
+
+  @IsOptional() @IsBoolean()
+  isActive?: boolean;
+}
+
+class SetPriceDto {
+  @Type(() => Number) @IsNumber() @Min(0)
+  price!: number;
+
+  @IsOptional() @IsString()
+  supplierSku?: string;
+
+  @IsOptional() @Type(() => Number) @IsInt() @Min(0)
+  leadTimeDays?: number;
+}
+
+// ===== Controller =====
+
+@ApiTags('Поставщики')
+@ApiBearerAuth()
+@Controller('suppliers')
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  @Get()
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Список поставщиков' })
+  @ApiQuery({ name: 'search', required: false })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  findAll(
+    @CurrentTenant() tenantId: string,
+    @Query() query: PaginationDto & { search?: string; isActive?: string },
+  ) {
+    return this.suppliersService.findAll(tenantId, {
+      page: Number(query.page) || 1,
+      limit: Number(query.limit) || 20,
+      sort: query.sort ?? 'name',
+      order: query.order ?? 'asc',
+      search: query.search,
+      isActive: query.isActive !== undefined ? query.isActive === 'true' : undefined,
+    });
+  }
+
+  @Get('offers')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Предложения поставщиков по запчасти (самый дешёвый / быстрый)' })
+  @ApiQuery({ name: 'partId', required: true })
+  getOffers(@CurrentTenant() tenantId: string, @Query('partId') partId: string) {
+    return this.suppliersService.getOffers(tenantId, partId);
+  }
+
+  @Get('purchases-report')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Закупки по поставщикам за период' })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  getPurchasesReport(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from?: string; to?: string },
+  ) {
+    return this.suppliersService.getPurchasesReport(tenantId, query);
+  }
+
+  @Get(':id')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Поставщик' })
+  findOne(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.suppliersService.findById(tenantId, id);
+  }
+
+  @Post()
+  @Roles('parts:create')
+  @ApiOperation({ summary: 'Создать поставщика' })
+  create(@CurrentTenant() tenantId: string, @Body() dto: CreateSupplierDto) {
+    return this.suppliersService.create(tenantId, dto);
+  }
+
+  @Patch(':id')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Обновить поставщика' })
+  update(@CurrentTenant() tenantId: string, @Param('id') id: string, @Body() dto: UpdateSupplierDto) {
+    return this.suppliersService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('parts:delete')
+  @ApiOperation({ summary: 'Удалить поставщика' })
+  remove(@CurrentTenant() tenantId: string, @Param('id') id: string) {
+    return this.suppliersService.delete(tenantId, id);
+  }
+
+  // --- Price list ---
+
+  @Get(':id/prices')
+  @Roles('parts:read')
+  @ApiOperation({ summary: 'Прайс-лист поставщика' })
+  @ApiQuery({ name: 'search', required: false })
+  getPrices(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Query('search') search?: string,
+  ) {
+    return this.suppliersService.getPrices(tenantId, id, search);
+  }
+
+  @Put(':id/prices/:partId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Установить цену запчасти у поставщика' })
+  setPrice(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Param('partId') partId: string,
+    @Body() dto: SetPriceDto,
+  ) {
+    return this.suppliersService.setPrice(tenantId, id, partId, dto);
+  }
+
+  @Delete(':id/prices/:partId')
+  @Roles('parts:update')
+  @ApiOperation({ summary: 'Убрать запчасть из прайса поставщика' })
+  removePrice(
+    @CurrentTenant() tenantId: string,
+    @Param('id') id: string,
+    @Param('partId') partId: string,
+  ) {
+    return this.suppliersService.removePrice(tenantId, id, partId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SuppliersController } from './suppliers.controller';
+import { SuppliersService } from './suppliers.service';
+
+@Module({
+  controllers: [SuppliersController],
+  providers: [SuppliersService],
+  exports: [SuppliersService],
+})
+export class SuppliersModule {}
@@ -0,0 +1,257 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
+
+type SupplierData = {
+  name?: string;
+  inn?: string;
+  kpp?: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  paymentTermsDays?: number;
+  leadTimeDays?: number;
+  notes?: string;
+  isActive?: boolean;
+};
+
+@Injectable()
+export class SuppliersService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ===== Suppliers =====
+
+  async findAll(
+    tenantId: string,
+    params: {
+      page: number;
+      limit: number;
+      sort: string;
+      order: 'asc' | 'desc';
+      search?: string;
+      isActive?: boolean;
+    },
+  ): Promise<PaginatedResponse<any>> {
+    const { page, limit, sort, order, search, isActive } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = { tenantId };
+    if (isActive !== undefined) where.isActive = isActive;
+    if (search) {
+      const s = search.trim();
+      where.OR = [
+        { name: { contains: s, mode: 'insensitive' } },
+        { inn: { contains: s } },
+        { contactPerson: { contains: s, mode: 'insensitive' } },
+        { phone: { contains: s } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.supplier.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { [sort]: order },
+        include: { _count: { select: { prices: true, purchaseOrders: true } } },
+      }),
+      this.prisma.supplier.count({ where }),
+    ]);
+
+    return paginate(data, total, page, limit);
+  }
+
+  async findById(tenantId: string, id: string): Promise<any> {
+    const supplier = await this.prisma.supplier.findFirst({
+      where: { id, tenantId },
+      include: { _count: { select: { prices: true, purchaseOrders: true } } },
+    });
+    if (!supplier) throw new NotFoundException('Поставщик не найден');
+
+    // Кредит поставщика: сумма возвратов, деньги за которые ещё не вернули
+    const credit = await this.prisma.supplierReturn.aggregate({
+      where: { supplierId: id, tenantId, settledAt: null },
+      _sum: { creditAmount: true },
+    });
+    return { ...supplier, creditBalance: Number(credit._sum.creditAmount ?? 0) };
+  }
+
+  async create(tenantId: string, data: SupplierData & { name: string }): Promise<any> {
+    await this.assertUniqueName(tenantId, data.name);
+    return this.prisma.supplier.create({
+      data: { ...data, tenantId },
+    });
+  }
+
+  async update(tenantId: string, id: string, data: SupplierData): Promise<any> {
+    const supplier = await this.findById(tenantId, id);
+    if (data.name && data.name !== supplier.name) {
+      await this.assertUniqueName(tenantId, data.name);
+    }
+    return this.prisma.supplier.update({ where: { id }, data });
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    const supplier = await this.findById(tenantId, id);
+    if (supplier._count.purchaseOrders > 0) {
+      throw new BadRequestException('У поставщика есть заказы — деактивируйте его вместо удаления');
+    }
+    await this.prisma.supplier.delete({ where: { id } });
+  }
+
+  // ===== Price list =====
+
+  async getPrices(tenantId: string, supplierId: string, search?: string): Promise<any[]> {
+    await this.findById(tenantId, supplierId);
+
+    const where: any = { supplierId };
+    if (search) {
+      const s = search.trim();
+      where.OR = [
+        { supplierSku: { contains: s, mode: 'insensitive' } },
+        { part: { name: { contains: s, mode: 'insensitive' } } },
+        { part: { sku: { contains: s, mode: 'insensitive' } } },
+        { part: { oemNumber: { contains: s, mode: 'insensitive' } } },
+      ];
+    }
+
+    return this.prisma.supplierPart.findMany({
+      where,
+      include: {
+        part: { select: { id: true, name: true, sku: true, brand: true, oemNumber: true, unit: true, costPrice: true } },
+      },
+      orderBy: { part: { name: 'asc' } },
+    });
+  }
+
+  async setPrice(
+    tenantId: string,
+    supplierId: string,
+    partId: string,
+    data: { price: number; supplierSku?: string; leadTimeDays?: number },
+  ): Promise<any> {
+    await this.findById(tenantId, supplierId);
+    const part = await this.prisma.part.findFirst({ where: { id: partId, tenantId } });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+
+    return this.prisma.supplierPart.upsert({
+      where: { supplierId_partId: { supplierId, partId } },
+      create: { ...data, supplierId, partId },
+      update: data,
+    });
+  }
+
+  async removePrice(tenantId: string, supplierId: string, partId: string): Promise<void> {
+    await this.findById(tenantId, supplierId);
+    await this.prisma.supplierPart.deleteMany({ where: { supplierId, partId } });
+  }
+
+  // ===== Suggestions & reports =====
+
+  /**
+   * Предложения поставщиков по запчасти: цена из прайса и срок поставки
+   * (из прайса, иначе общий срок поставщика). Помечает самого дешёвого и самого быстрого.
+   */
+  async getOffers(tenantId: string, partId: string): Promise<{
+    part: { id: string; name: string; costPrice: number };
+    offers: any[];
+    cheapestSupplierId: string | null;
+    fastestSupplierId: string | null;
+  }> {
+    const part = await this.prisma.part.findFirst({
+      where: { id: partId, tenantId },
+      select: { id: true, name: true, costPrice: true },
+    });
+    if (!part) throw new NotFoundException('Запчасть не найдена');
+
+    const prices = await this.prisma.supplierPart.findMany({
+      where: { partId, supplier: { tenantId, isActive: true } },
+      include: {
+        supplier: { select: { id: true, name: true, leadTimeDays: true, paymentTermsDays: true } },
+      },
+    });
+
+    const offers = prices
+      .map((p) => ({
+        supplierId: p.supplierId,
+        supplierName: p.supplier.name,
+        supplierSku: p.supplierSku,
+        price: Number(p.price),
+        leadTimeDays: p.leadTimeDays ?? p.supplier.leadTimeDays,
+        paymentTermsDays: p.supplier.paymentTermsDays,
+        updatedAt: p.updatedAt,
+      }))
+      .sort((a, b) => a.price - b.price);
+
+    const cheapest = offers[0] ?? null;
+    const fastest = offers
+      .filter((o) => o.leadTimeDays != null)
+      .sort((a, b) => a.leadTimeDays! - b.leadTimeDays! || a.price - b.price)[0] ?? null;
+
+    return {
+      part: { id: part.id, name: part.name, costPrice: Number(part.costPrice) },
+      offers,
+      cheapestSupplierId: cheapest?.supplierId ?? null,
+      fastestSupplierId: fastest?.supplierId ?? null,
+    };
+  }
+
+  /** Закупки за период в разрезе поставщиков (черновики и отменённые не учитываются) */
+  async getPurchasesReport(
+    tenantId: string,
+    params: { from?: string; to?: string },
+  ): Promise<Array<{
+    supplierId: string;
+    supplierName: string;
+    ordersCount: number;
+    orderedAmount: number;
+    receivedAmount: number;
+  }>> {
+    const where: any = { tenantId, status: { notIn: ['DRAFT', 'CANCELLED'] } };
+    if (params.from || params.to) {
+      where.orderedAt = {};
+      if (params.from) where.orderedAt.gte = new Date(params.from);
+      if (params.to) where.orderedAt.lte = new Date(params.to);
+    }
+
+    const orders = await this.prisma.purchaseOrder.findMany({
+      where,
+      select: {
+        totalCost: true,
+        supplier: { select: { id: true, name: true } },
+        items: { select: { received: true, unitCost: true } },
+      },
+    });
+
+    const bySupplier = new Map<string, {
+      supplierId: string;
+      supplierName: string;
+      ordersCount: number;
+      orderedAmount: number;
+      receivedAmount: number;
+    }>();
+    for (const o of orders) {
+      const row = bySupplier.get(o.supplier.id) ?? {
+        supplierId: o.supplier.id,
+        supplierName: o.supplier.name,
+        ordersCount: 0,
+        orderedAmount: 0,
+        receivedAmount: 0,
+      };
+      row.ordersCount += 1;
+      row.orderedAmount += Number(o.totalCost);
+      row.receivedAmount += o.items.reduce((s, i) => s + Number(i.received) * Number(i.unitCost), 0);
+      bySupplier.set(o.supplier.id, row);
+    }
+
+    return [...bySupplier.values()].sort((a, b) => b.orderedAmount - a.orderedAmount);
+  }
+
+  // --- Helpers ---
+
+  private async assertUniqueName(tenantId: string, name: string) {
+    const existing = await this.prisma.supplier.findFirst({ where: { tenantId, name } });
+    if (existing) throw new ConflictException('Поставщик с таким названием уже существует');
+  }
+}
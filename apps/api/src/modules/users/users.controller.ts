@@ -1,6 +1,7 @@
 import { Controller, Get, Post, Patch, Delete, Param, Body, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEmail, IsEnum, IsBoolean, MinLength } from 'class-validator';
+import { IsString, IsOptional, IsEmail, IsEnum, IsBoolean, IsInt, Min, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
 import { UsersService } from './users.service';
 import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
 import { PaginationDto } from '../../common/dto/pagination.dto';
@@ -66,6 +67,16 @@ class UpdateUserDto {
   @IsString()
   phone?: string;
 
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  bonusPoints?: number;
+
+  @IsOptional()
+  @IsString()
+  clientGroup?: string | null;
+
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
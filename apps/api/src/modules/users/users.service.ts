@@ -15,6 +15,8 @@ const userSelect = {
   middleName: true,
   dateOfBirth: true,
   phone: true,
+  bonusPoints: true,
+  clientGroup: true,
   isActive: true,
   tenantId: true,
   createdAt: true,
@@ -133,6 +135,8 @@ export class UsersService {
       middleName?: string;
       dateOfBirth?: string;
       phone?: string;
+      bonusPoints?: number;
+      clientGroup?: string | null;
       isActive?: boolean;
     },
   ): Promise<UserWithoutPassword> {
@@ -0,0 +1,236 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { ShiftsService } from '../shifts/shifts.service';
+import { WorkOrderStatus } from '@prisma/client';
+import { addDaysToKey, weekdayOfKey, workScheduleHours, zonedDateTime, type WorkSchedule } from '@sto-crm/shared';
+
+/** Работы считаются выполненными с момента завершения ЗН */
+const DONE_WORK_ORDER_STATUSES: WorkOrderStatus[] = ['COMPLETED', 'INVOICED', 'PAID', 'CLOSED'];
+
+/** Выброс — ЗН, где факт отличается от нормы больше чем вдвое в любую сторону */
+const OUTLIER_RATIO = 2;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+type Totals = { normHours: number; actualHours: number };
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Выработка, %: норма / факт. null — факта нет */
+function efficiency(normHours: number, actualHours: number): number | null {
+  return actualHours > 0 ? Math.round((normHours / actualHours) * 1000) / 10 : null;
+}
+
+@Injectable()
+export class LaborEfficiencyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shiftsService: ShiftsService,
+  ) {}
+
+  /**
+   * Контроль нормо-часов за период по завершённым заказ-нарядам: норма работ против
+   * фактически залогированного времени — по механикам, по услугам и список выбросов.
+   *
+   * Логи таймеров привязаны к работе и идут в факт своей услуги; логи, введённые
+   * на весь ЗН без привязки, делятся между работами пропорционально их нормо-часам.
+   */
+  async getReport(
+    tenantId: string,
+    params: { from: string; to: string; repairTypeId?: string },
+  ): Promise<any> {
+    if (!DATE_KEY_PATTERN.test(params.from ?? '') || !DATE_KEY_PATTERN.test(params.to ?? '')) {
+      throw new BadRequestException('Некорректный период');
+    }
+    // Дни периода — в часовом поясе автосервиса
+    const timeZone = await this.shiftsService.getTimeZone(tenantId);
+    const fromKey = params.from.slice(0, 10);
+    const toKey = params.to.slice(0, 10);
+    const from = zonedDateTime(fromKey, 0, timeZone);
+    const to = zonedDateTime(toKey, 0, timeZone);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new BadRequestException('Некорректный период');
+    }
+    const toExclusive = zonedDateTime(addDaysToKey(toKey, 1), 0, timeZone);
+    if (from >= toExclusive) throw new BadRequestException('Начало периода должно быть раньше конца');
+
+    const workOrders = await this.prisma.workOrder.findMany({
+      where: {
+        tenantId,
+        status: { in: DONE_WORK_ORDER_STATUSES },
+        completedAt: { gte: from, lt: toExclusive },
+        ...(params.repairTypeId && { repairTypeId: params.repairTypeId }),
+      },
+      select: {
+        id: true,
+        orderNumber: true,
+        completedAt: true,
+        mechanicId: true,
+        repairType: { select: { id: true, name: true } },
+        items: {
+          where: { type: 'LABOR', OR: [{ recommended: false }, { approvedByClient: true }] },
+          select: {
+            id: true,
+            description: true,
+            normHours: true,
+            service: { select: { id: true, name: true } },
+            mechanics: { select: { mechanicId: true, contributionPercent: true } },
+          },
+        },
+        workLogs: { select: { mechanicId: true, hoursWorked: true, workOrderItemId: true } },
+      },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    const byMechanic = new Map<string, Totals & { workOrders: Set<string> }>();
+    const byService = new Map<string, Totals & { serviceId: string | null; name: string; items: number }>();
+    const outliers: any[] = [];
+    const mechanicTotals = (id: string) => {
+      const entry = byMechanic.get(id) ?? { normHours: 0, actualHours: 0, workOrders: new Set<string>() };
+      byMechanic.set(id, entry);
+      return entry;
+    };
+
+    for (const wo of workOrders) {
+      const itemNorms = wo.items.map((item) => Number(item.normHours ?? 0));
+      const woNorm = itemNorms.reduce((s, h) => s + h, 0);
+      const woActual = wo.workLogs.reduce((s, l) => s + Number(l.hoursWorked), 0);
+      const itemIds = new Set(wo.items.map((item) => item.id));
+      const unlinkedActual = wo.workLogs
+        .filter((l) => !l.workOrderItemId || !itemIds.has(l.workOrderItemId))
+        .reduce((s, l) => s + Number(l.hoursWorked), 0);
+
+      // Норма — по долям исполнителей; работа без исполнителей засчитывается механику ЗН
+      wo.items.forEach((item, i) => {
+        const shares = item.mechanics.length
+          ? item.mechanics
+          : wo.mechanicId
+            ? [{ mechanicId: wo.mechanicId, contributionPercent: 100 }]
+            : [];
+        for (const share of shares) {
+          const entry = mechanicTotals(share.mechanicId);
+          entry.normHours += (itemNorms[i] * share.contributionPercent) / 100;
+          entry.workOrders.add(wo.id);
+        }
+
+        const key = item.service?.id ?? `text:${item.description.trim().toLowerCase()}`;
+        const service = byService.get(key) ?? {
+          serviceId: item.service?.id ?? null,
+          name: item.service?.name ?? item.description.trim(),
+          normHours: 0,
+          actualHours: 0,
+          items: 0,
+        };
+        const actualShare = woNorm > 0 ? itemNorms[i] / woNorm : 1 / wo.items.length;
+        const linkedActual = wo.workLogs
+          .filter((l) => l.workOrderItemId === item.id)
+          .reduce((s, l) => s + Number(l.hoursWorked), 0);
+        service.normHours += itemNorms[i];
+        service.actualHours += linkedActual + unlinkedActual * actualShare;
+        service.items += 1;
+        byService.set(key, service);
+      });
+
+      for (const log of wo.workLogs) {
+        const entry = mechanicTotals(log.mechanicId);
+        entry.actualHours += Number(log.hoursWorked);
+        entry.workOrders.add(wo.id);
+      }
+
+      const ratio = woNorm > 0 ? woActual / woNorm : null;
+      if ((woActual > 0 || woNorm > 0) && (ratio === null || ratio > OUTLIER_RATIO || ratio < 1 / OUTLIER_RATIO)) {
+        outliers.push({
+          workOrderId: wo.id,
+          orderNumber: wo.orderNumber,
+          completedAt: wo.completedAt,
+          repairType: wo.repairType,
+          mechanicIds: [...new Set([...wo.workLogs.map((l) => l.mechanicId), ...(wo.mechanicId ? [wo.mechanicId] : [])])],
+          normHours: roundHours(woNorm),
+          actualHours: roundHours(woActual),
+          efficiency: efficiency(woNorm, woActual),
+          reason: woNorm === 0 ? 'NO_NORM' : woActual === 0 ? 'NO_LOGS' : ratio! > 1 ? 'SLOW' : 'FAST',
+        });
+      }
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        tenantId,
+        OR: [{ id: { in: [...byMechanic.keys()] } }, { role: 'MECHANIC', isActive: true }],
+      },
+      select: { id: true, firstName: true, lastName: true, role: true },
+      orderBy: { lastName: 'asc' },
+    });
+    const defaultPaidHours = this.getPaidShiftHours(await this.shiftsService.getWorkSchedule(tenantId), fromKey, toKey);
+    const workTime = await this.shiftsService.getWorkTime(tenantId, from, toExclusive, users.map((u) => u.id));
+
+    const mechanics = users.map((user) => {
+      const entry = byMechanic.get(user.id) ?? { normHours: 0, actualHours: 0, workOrders: new Set<string>() };
+      // Отмеченный приход/уход точнее графика; без графика — режим работы автосервиса
+      const time = workTime.get(user.id);
+      const paidHours = time?.attendedHours
+        ? time.attendedHours
+        : time?.hasSchedule
+          ? time.plannedHours
+          : defaultPaidHours;
+      return {
+        user,
+        workOrders: entry.workOrders.size,
+        normHours: roundHours(entry.normHours),
+        actualHours: roundHours(entry.actualHours),
+        efficiency: efficiency(entry.normHours, entry.actualHours),
+        paidHours,
+        // Загрузка — доля оплачиваемого времени смены, занятая работой по ЗН
+        utilisation: paidHours > 0 ? Math.round((entry.actualHours / paidHours) * 1000) / 10 : null,
+      };
+    });
+
+    const services = [...byService.values()]
+      .map((s) => ({
+        serviceId: s.serviceId,
+        name: s.name,
+        items: s.items,
+        normHours: roundHours(s.normHours),
+        actualHours: roundHours(s.actualHours),
+        efficiency: efficiency(s.normHours, s.actualHours),
+      }))
+      // Сначала услуги, где факт сильнее всего превышает норму, — кандидаты на пересмотр цены
+      .sort((a, b) => (a.efficiency ?? Infinity) - (b.efficiency ?? Infinity));
+
+    const userNames = new Map(users.map((u) => [u.id, `${u.lastName} ${u.firstName}`]));
+    const totalNorm = workOrders.reduce((s, wo) => s + wo.items.reduce((n, i) => n + Number(i.normHours ?? 0), 0), 0);
+    const totalActual = workOrders.reduce((s, wo) => s + wo.workLogs.reduce((n, l) => n + Number(l.hoursWorked), 0), 0);
+
+    return {
+      from,
+      to,
+      repairTypeId: params.repairTypeId ?? null,
+      totals: {
+        workOrders: workOrders.length,
+        normHours: roundHours(totalNorm),
+        actualHours: roundHours(totalActual),
+        efficiency: efficiency(totalNorm, totalActual),
+      },
+      mechanics,
+      services,
+      outliers: outliers
+        .map(({ mechanicIds, ...o }) => ({
+          ...o,
+          mechanics: mechanicIds.map((id: string) => ({ id, name: userNames.get(id) ?? '—' })),
+        }))
+        .sort((a, b) => Math.abs(b.actualHours - b.normHours) - Math.abs(a.actualHours - a.normHours)),
+    };
+  }
+
+  /** Оплачиваемые часы смены за дни периода «ГГГГ-ММ-ДД» (включительно) по режиму работы автосервиса */
+  private getPaidShiftHours(schedule: WorkSchedule, fromKey: string, toKey: string): number {
+    const hoursPerDay = workScheduleHours(schedule);
+    let hours = 0;
+    for (let day = fromKey; day <= toKey; day = addDaysToKey(day, 1)) {
+      if (schedule.workDays.includes(weekdayOfKey(day))) hours += hoursPerDay;
+    }
+    return roundHours(hours);
+  }
+}
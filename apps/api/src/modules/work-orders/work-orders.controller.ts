@@ -21,6 +21,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { WorkOrdersService } from './work-orders.service';
+import { LaborEfficiencyService } from './labor-efficiency.service';
 import { Roles, CurrentTenant, CurrentUser, type CurrentUserData } from '../../common/decorators';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { WorkOrderStatus, WorkOrderItemType } from '@prisma/client';
@@ -40,6 +41,9 @@ class CreateWorkOrderDto {
   @IsOptional() @IsUUID()
   mechanicId?: string;
 
+  @IsOptional() @IsUUID()
+  serviceBayId?: string;
+
   @IsOptional() @IsUUID()
   repairTypeId?: string;
 
@@ -63,6 +67,10 @@ class UpdateWorkOrderDto {
   @IsOptional() @IsUUID()
   advisorId?: string;
 
+  /** null — снять с поста */
+  @IsOptional() @IsUUID()
+  serviceBayId?: string | null;
+
   @IsOptional() @IsUUID()
   repairTypeId?: string;
 
@@ -96,8 +104,9 @@ class CreateItemDto {
   @Type(() => Number) @IsNumber() @Min(0.01)
   quantity!: number;
 
-  @Type(() => Number) @IsNumber() @Min(0)
-  unitPrice!: number;
+  // Без цены запчасть считается по наценке для группы клиента, работа — по прайсу услуги
+  @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
+  unitPrice?: number;
 
   @IsOptional() @Type(() => Number) @IsNumber() @Min(0)
   normHours?: number;
@@ -108,6 +117,9 @@ class CreateItemDto {
   @IsOptional() @IsUUID()
   partId?: string;
 
+  @IsOptional() @IsUUID()
+  warehouseId?: string;
+
   @IsOptional() @IsBoolean()
   recommended?: boolean;
 
@@ -130,6 +142,14 @@ class UpdateItemDto {
 
   @IsOptional() @IsBoolean()
   approvedByClient?: boolean;
+
+  @IsOptional() @IsUUID()
+  warehouseId?: string;
+}
+
+class IssueItemDto {
+  @Type(() => Number) @IsNumber() @Min(0.001)
+  quantity!: number;
 }
 
 class AddItemMechanicDto {
@@ -151,13 +171,19 @@ class CreateWorkLogDto {
 
   @IsOptional() @IsString()
   logDate?: string;
+
+  @IsOptional() @IsUUID()
+  workOrderItemId?: string;
 }
 
 @ApiTags('Заказ-наряды')
 @ApiBearerAuth()
 @Controller('work-orders')
 export class WorkOrdersController {
-  constructor(private readonly workOrdersService: WorkOrdersService) {}
+  constructor(
+    private readonly workOrdersService: WorkOrdersService,
+    private readonly laborEfficiencyService: LaborEfficiencyService,
+  ) {}
 
   @Get()
   @Roles('work-orders:read')
@@ -208,6 +234,26 @@ export class WorkOrdersController {
     });
   }
 
+  @Get('reports/labor-efficiency')
+  @Roles('reports:read')
+  @ApiOperation({ summary: 'Контроль нормо-часов: норма против факта по механикам и услугам' })
+  @ApiQuery({ name: 'from', required: true, description: 'ISO date' })
+  @ApiQuery({ name: 'to', required: true, description: 'ISO date, включительно' })
+  @ApiQuery({ name: 'repairTypeId', required: false })
+  getLaborEfficiency(
+    @CurrentTenant() tenantId: string,
+    @Query() query: { from: string; to: string; repairTypeId?: string },
+  ) {
+    return this.laborEfficiencyService.getReport(tenantId, query);
+  }
+
+  @Get('timers/my')
+  @Roles('work-orders:read')
+  @ApiOperation({ summary: 'Мои активные таймеры работ' })
+  getMyTimers(@CurrentTenant() tenantId: string, @CurrentUser() user: CurrentUserData) {
+    return this.workOrdersService.findMyTimers(tenantId, user.id);
+  }
+
   @Get(':id')
   @Roles('work-orders:read')
   @ApiOperation({ summary: 'Детали заказ-наряда' })
@@ -307,6 +353,19 @@ export class WorkOrdersController {
     return this.workOrdersService.deleteItem(tenantId, id, itemId, user.id);
   }
 
+  @Post(':id/items/:itemId/issue')
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Выдать запчасть со склада (частичное списание резерва)' })
+  issueItem(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @Body() dto: IssueItemDto,
+  ) {
+    return this.workOrdersService.issueItem(tenantId, id, itemId, dto.quantity, user.id);
+  }
+
   // --- Item Mechanics ---
 
   @Post(':id/items/:itemId/mechanics')
@@ -359,4 +418,42 @@ export class WorkOrdersController {
   ) {
     return this.workOrdersService.addWorkLog(tenantId, id, user.id, dto);
   }
+
+  // --- Work Timers ---
+
+  @Post(':id/items/:itemId/timer/start')
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Запустить или продолжить таймер по работе' })
+  startTimer(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+  ) {
+    return this.workOrdersService.startTimer(tenantId, id, itemId, user.id);
+  }
+
+  @Post(':id/items/:itemId/timer/pause')
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Поставить таймер по работе на паузу' })
+  pauseTimer(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+  ) {
+    return this.workOrdersService.pauseTimer(tenantId, id, itemId, user.id);
+  }
+
+  @Post(':id/items/:itemId/timer/stop')
+  @Roles('work-orders:update')
+  @ApiOperation({ summary: 'Остановить таймер и записать лог работы' })
+  stopTimer(
+    @CurrentTenant() tenantId: string,
+    @CurrentUser() user: CurrentUserData,
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+  ) {
+    return this.workOrdersService.stopTimer(tenantId, id, itemId, user.id);
+  }
 }
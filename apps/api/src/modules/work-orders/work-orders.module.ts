@@ -1,12 +1,16 @@
 import { Module } from '@nestjs/common';
 import { WorkOrdersController } from './work-orders.controller';
 import { WorkOrdersService } from './work-orders.service';
+import { LaborEfficiencyService } from './labor-efficiency.service';
 import { InventoryModule } from '../inventory/inventory.module';
+import { ShiftsModule } from '../shifts/shifts.module';
+import { ServiceBaysModule } from '../service-bays/service-bays.module';
+import { PricingModule } from '../pricing/pricing.module';
 
 @Module({
-  imports: [InventoryModule],
+  imports: [InventoryModule, ShiftsModule, ServiceBaysModule, PricingModule],
   controllers: [WorkOrdersController],
-  providers: [WorkOrdersService],
+  providers: [WorkOrdersService, LaborEfficiencyService],
   exports: [WorkOrdersService],
 })
 export class WorkOrdersModule {}
@@ -2,11 +2,15 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
-import { InventoryService } from '../inventory/inventory.service';
+import { ReservationsService } from '../inventory/reservations.service';
+import { ServiceBaysService, BAY_OCCUPYING_WORK_ORDER_STATUSES } from '../service-bays/service-bays.service';
+import { PricingService } from '../pricing/pricing.service';
 import { paginate, type PaginatedResponse } from '../../common/dto/pagination.dto';
-import { WorkOrderStatus } from '@prisma/client';
+import { roundQuantity } from '@sto-crm/shared';
+import { Prisma, WorkOrderStatus } from '@prisma/client';
 
 function parseWONumber(orderNumber: string): number {
   const match = orderNumber.match(/WO-(\d+)/);
@@ -43,11 +47,15 @@ const WORK_ORDER_TRANSITIONS: Record<string, string[]> = {
   CANCELLED: [],
 };
 
+/** Статусы, в которых механик может засекать время по работам */
+const TIMER_WORK_ORDER_STATUSES = ['APPROVED', 'IN_PROGRESS', 'PAUSED'];
+
 const workOrderInclude = {
   client: { select: { id: true, firstName: true, lastName: true, middleName: true, phone: true, email: true } },
   advisor: { select: { id: true, firstName: true, lastName: true } },
   mechanic: { select: { id: true, firstName: true, lastName: true } },
   vehicle: { select: { id: true, make: true, model: true, licensePlate: true, year: true, vin: true, mileage: true } },
+  serviceBay: { select: { id: true, name: true } },
   items: {
     orderBy: { createdAt: 'asc' as const },
     include: {
@@ -77,18 +85,38 @@ const workOrderInclude = {
     },
     orderBy: { logDate: 'desc' as const },
   },
+  workTimers: {
+    include: {
+      mechanic: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { startedAt: 'asc' as const },
+  },
   activities: {
     include: {
       user: { select: { id: true, firstName: true, lastName: true } },
     },
     orderBy: { createdAt: 'desc' as const },
   },
+  payments: {
+    include: {
+      receivedBy: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { paidAt: 'asc' as const },
+  },
+  returns: {
+    include: {
+      warehouse: { select: { id: true, name: true } },
+      items: { select: { id: true, workOrderItemId: true, quantity: true, amount: true } },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
 };
 
 const workOrderListInclude = {
   client: { select: { id: true, firstName: true, lastName: true, middleName: true, phone: true } },
   mechanic: { select: { id: true, firstName: true, lastName: true } },
   vehicle: { select: { id: true, make: true, model: true, licensePlate: true, mileage: true } },
+  serviceBay: { select: { id: true, name: true } },
   _count: { select: { items: true } },
 };
 
@@ -96,7 +124,9 @@ const workOrderListInclude = {
 export class WorkOrdersService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly inventoryService: InventoryService,
+    private readonly reservationsService: ReservationsService,
+    private readonly serviceBaysService: ServiceBaysService,
+    private readonly pricingService: PricingService,
   ) {}
 
   async findAll(
@@ -215,6 +245,7 @@ export class WorkOrdersService {
       vehicleId: string;
       advisorId?: string;
       mechanicId?: string;
+      serviceBayId?: string;
       repairTypeId?: string;
       appointmentId?: string;
       clientComplaints?: string;
@@ -242,6 +273,7 @@ export class WorkOrdersService {
           vehicleId: data.vehicleId,
           advisorId: data.advisorId,
           mechanicId: data.mechanicId,
+          serviceBayId: data.serviceBayId,
           repairTypeId: data.repairTypeId,
           appointmentId: data.appointmentId,
           clientComplaints: data.clientComplaints,
@@ -301,6 +333,8 @@ export class WorkOrdersService {
           clientId: appointment.clientId,
           vehicleId: appointment.vehicleId,
           advisorId: appointment.advisorId,
+          // Машина встаёт на пост из записи; занятость проверяется при начале работ
+          serviceBayId: appointment.serviceBayId,
           appointmentId: appointment.id,
           clientComplaints: appointment.notes,
           totalLabor: 0,
@@ -315,14 +349,18 @@ export class WorkOrdersService {
       let totalParts = 0;
 
       for (const item of plannedItems) {
-        const totalPrice = (item.unitPrice || 0) * (item.quantity || 1);
+        // Запчасть без цены в плане (запись через API) считается по группе клиента, как при добавлении в наряд
+        const unitPrice = item.type === 'PART' && item.partId && item.unitPrice == null
+          ? await this.resolveUnitPrice(tenantId, appointment.clientId, item)
+          : item.unitPrice || 0;
+        const totalPrice = unitPrice * (item.quantity || 1);
         await tx.workOrderItem.create({
           data: {
             workOrderId: wo.id,
             type: item.type === 'PART' ? 'PART' : 'LABOR',
             description: item.description || '',
             quantity: item.quantity || 1,
-            unitPrice: item.unitPrice || 0,
+            unitPrice,
             totalPrice,
             normHours: item.normHours ?? null,
             serviceId: item.serviceId ?? null,
@@ -383,6 +421,7 @@ export class WorkOrdersService {
     data: {
       mechanicId?: string;
       advisorId?: string;
+      serviceBayId?: string | null;
       repairTypeId?: string;
       clientComplaints?: string;
       diagnosticNotes?: string;
@@ -392,6 +431,13 @@ export class WorkOrdersService {
     userId?: string,
   ): Promise<any> {
     const old = await this.findById(tenantId, id);
+    if (
+      data.serviceBayId &&
+      data.serviceBayId !== old.serviceBayId &&
+      BAY_OCCUPYING_WORK_ORDER_STATUSES.includes(old.status)
+    ) {
+      await this.serviceBaysService.assertBayFreeForWorkOrder(tenantId, data.serviceBayId, id);
+    }
     const updatePayload: any = { ...data };
     if (data.reminderAt) updatePayload.reminderAt = new Date(data.reminderAt);
     const result = await this.prisma.workOrder.update({
@@ -440,6 +486,13 @@ export class WorkOrdersService {
         to: data.advisorId,
       });
     }
+    if (data.serviceBayId !== undefined && data.serviceBayId !== old.serviceBayId) {
+      await this.logActivity(id, 'UPDATED', `Пост: ${result.serviceBay?.name ?? 'Не назначен'}`, userId, {
+        field: 'serviceBayId',
+        from: old.serviceBayId,
+        to: data.serviceBayId,
+      });
+    }
     if (data.diagnosticNotes !== undefined && data.diagnosticNotes !== old.diagnosticNotes) {
       await this.logActivity(id, 'UPDATED', 'Обновлены заметки диагностики', userId);
     }
@@ -477,19 +530,60 @@ export class WorkOrdersService {
       );
     }
 
+    // Начать работы можно, только если пост не занят другой машиной
+    if (newStatus === 'IN_PROGRESS' && workOrder.serviceBayId) {
+      await this.serviceBaysService.assertBayFreeForWorkOrder(tenantId, workOrder.serviceBayId, id);
+    }
+
     // Требуем завершения всех логов работ перед переводом в COMPLETED
     if (newStatus === 'COMPLETED') {
       const laborItems = (workOrder.items || []).filter(
         (i: any) => i.type === 'LABOR' && (!i.recommended || i.approvedByClient === true),
       );
-      const workLogsCount = (workOrder.workLogs || []).length;
-      if (workLogsCount < laborItems.length) {
+      // Логи таймеров привязаны к работе; логи без привязки засчитываются по количеству.
+      // Оставшиеся таймеры при завершении закрываются логами — считаем их работы отмеченными
+      const loggedItemIds = new Set(
+        [...(workOrder.workLogs || []), ...(workOrder.workTimers || [])].map((l: any) => l.workOrderItemId).filter(Boolean),
+      );
+      const unlinkedLogsCount = (workOrder.workLogs || []).filter((l: any) => !l.workOrderItemId).length;
+      const unloggedCount = laborItems.filter((i: any) => !loggedItemIds.has(i.id)).length;
+      if (unloggedCount > unlinkedLogsCount) {
         throw new BadRequestException(
           'Отметьте все работы как выполненные в Логах работ перед переводом в "Готов"',
         );
       }
     }
 
+    // Запчасти списываются при завершении — истёкший или снятый резерв ставим заново,
+    // а если на складе не хватает, не даём закрыть заказ-наряд с несписанной деталью
+    if (newStatus === 'COMPLETED') {
+      const shortages: string[] = [];
+      for (const item of workOrder.items || []) {
+        if (item.type !== 'PART' || !item.partId || (item.recommended && item.approvedByClient !== true)) continue;
+        const missing = await this.reservationsService.reserveOutstanding(tenantId, {
+          itemId: item.id,
+          partId: item.partId,
+          quantity: Number(item.quantity),
+          reference: `WO:${workOrder.orderNumber}`,
+          userId,
+        });
+        if (missing > 0) shortages.push(`${item.description} — не хватает ${missing}`);
+      }
+      if (shortages.length > 0) {
+        throw new BadRequestException(
+          `Недостаточно запчастей на складе для списания: ${shortages.join('; ')}. Оприходуйте их или измените количество`,
+        );
+      }
+    }
+
+    // Оплачен — только когда остаток к оплате погашен платежами
+    const outstanding = Number(workOrder.totalAmount) - Number(workOrder.paidAmount);
+    if (newStatus === 'PAID' && outstanding > 0) {
+      throw new BadRequestException(
+        `Остаток к оплате ${outstanding.toFixed(2)} ₽ — внесите оплату`,
+      );
+    }
+
     const oldStatus = workOrder.status;
     const updateData: any = { status: newStatus };
     if (newStatus === 'DIAGNOSED') {
@@ -497,6 +591,16 @@ export class WorkOrdersService {
     } else if (oldStatus === 'DIAGNOSED') {
       updateData.reminderAt = null;
     }
+    if (newStatus === 'COMPLETED') updateData.completedAt = new Date();
+    if (newStatus === 'PAID') updateData.paidAt = new Date();
+    // Пауза заказ-наряда останавливает отсчёт всех идущих таймеров, отмена — сбрасывает их
+    if (newStatus === 'PAUSED') {
+      await this.pauseRunningTimers(id);
+    } else if (newStatus === 'COMPLETED') {
+      await this.closeTimers(workOrder, userId);
+    } else if (newStatus === 'CANCELLED') {
+      await this.prisma.workTimer.deleteMany({ where: { workOrderId: id } });
+    }
     const result = await this.prisma.workOrder.update({
       where: { id },
       data: updateData,
@@ -508,14 +612,23 @@ export class WorkOrdersService {
       for (const item of (workOrder.items || [])) {
         if (item.type === 'PART' && item.partId) {
           if (!item.recommended || item.approvedByClient === true) {
-            await this.consumePartStock(tenantId, workOrder.orderNumber, item.id, item.partId, userId);
+            await this.consumePartStock(workOrder.orderNumber, item.id, item.partId, userId);
           }
         }
       }
+      // Себестоимость — по всем списаниям позиций, включая частичные выдачи до завершения
+      const cost = await this.prisma.workOrderItem.aggregate({
+        where: { workOrderId: id, type: 'PART' },
+        _sum: { costAmount: true },
+      });
+      await this.prisma.workOrder.update({
+        where: { id },
+        data: { partsCost: cost._sum.costAmount ?? 0 },
+      });
     } else if (newStatus === 'CANCELLED') {
       for (const item of (workOrder.items || [])) {
         if (item.type === 'PART' && item.partId) {
-          await this.unreservePartStock(tenantId, workOrder.orderNumber, item.id, item.partId, userId);
+          await this.unreservePartStock(workOrder.orderNumber, item.id, item.partId, userId);
         }
       }
     }
@@ -527,6 +640,11 @@ export class WorkOrdersService {
       to: newStatus,
     });
 
+    // Счёт полностью покрыт предоплатой — сразу в "Оплачен"
+    if (newStatus === 'INVOICED' && outstanding <= 0) {
+      return this.updateStatus(tenantId, id, 'PAID', userId);
+    }
+
     return this.findById(tenantId, id);
   }
 
@@ -560,18 +678,21 @@ export class WorkOrdersService {
       type: 'LABOR' | 'PART';
       description: string;
       quantity: number;
-      unitPrice: number;
+      unitPrice?: number;
       normHours?: number;
       serviceId?: string;
       partId?: string;
+      warehouseId?: string;
       recommended?: boolean;
       mechanicId?: string;
     },
     userId?: string,
   ): Promise<any> {
-    await this.findById(tenantId, workOrderId);
+    const wo = await this.findById(tenantId, workOrderId);
+    if (data.warehouseId) await this.assertWarehouse(tenantId, data.warehouseId);
 
-    const totalPrice = data.quantity * data.unitPrice;
+    const unitPrice = await this.resolveUnitPrice(tenantId, wo.clientId, data);
+    const totalPrice = data.quantity * unitPrice;
 
     const item = await this.prisma.workOrderItem.create({
       data: {
@@ -579,11 +700,12 @@ export class WorkOrdersService {
         type: data.type,
         description: data.description,
         quantity: data.quantity,
-        unitPrice: data.unitPrice,
+        unitPrice,
         totalPrice,
         normHours: data.normHours,
         serviceId: data.serviceId,
         partId: data.partId,
+        warehouseId: data.type === 'PART' ? data.warehouseId : undefined,
         recommended: data.recommended ?? false,
       },
       include: {
@@ -608,13 +730,7 @@ export class WorkOrdersService {
 
     // Reserve stock for non-recommended PART items
     if (data.type === 'PART' && data.partId && !data.recommended) {
-      const wo = await this.prisma.workOrder.findUnique({
-        where: { id: workOrderId },
-        select: { orderNumber: true },
-      });
-      if (wo) {
-        await this.reservePartStock(tenantId, wo.orderNumber, item.id, data.partId, data.quantity, userId);
-      }
+      await this.reservePartStock(tenantId, wo.orderNumber, item.id, data.partId, data.quantity, userId, data.warehouseId);
     }
 
     await this.recalcTotals(workOrderId);
@@ -645,6 +761,7 @@ export class WorkOrdersService {
       unitPrice?: number;
       normHours?: number;
       approvedByClient?: boolean;
+      warehouseId?: string;
     },
     userId?: string,
   ): Promise<any> {
@@ -654,6 +771,9 @@ export class WorkOrdersService {
       where: { id: itemId, workOrderId },
     });
     if (!existing) throw new NotFoundException('Позиция не найдена');
+    if (data.warehouseId && existing.type !== 'PART') {
+      throw new BadRequestException('Склад указывается только для запчастей');
+    }
 
     const quantity = data.quantity ?? Number(existing.quantity);
     const unitPrice = data.unitPrice ?? Number(existing.unitPrice);
@@ -692,19 +812,29 @@ export class WorkOrdersService {
 
     // Adjust stock reservation for PART items
     if (existing.type === 'PART' && existing.partId) {
+      const isActive = !existing.recommended || existing.approvedByClient === true;
+      const reservation = { itemId, partId: existing.partId, reference: `WO:${wo.orderNumber}`, userId };
       if (data.approvedByClient === true && existing.recommended && existing.approvedByClient !== true) {
         // Recommended part approved → reserve stock
         const qty = data.quantity ?? Number(existing.quantity);
-        await this.reservePartStock(tenantId, wo.orderNumber, itemId, existing.partId, qty, userId);
+        await this.reservePartStock(tenantId, wo.orderNumber, itemId, existing.partId, qty, userId, data.warehouseId ?? existing.warehouseId);
       } else if (data.approvedByClient === false && existing.recommended) {
         // Recommended part rejected → unreserve stock
-        await this.unreservePartStock(tenantId, wo.orderNumber, itemId, existing.partId, userId);
+        await this.unreservePartStock(wo.orderNumber, itemId, existing.partId, userId);
+      } else if (data.warehouseId && data.warehouseId !== existing.warehouseId) {
+        // Source warehouse changed → reserve again from the new warehouse
+        await this.assertWarehouse(tenantId, data.warehouseId);
+        if (isActive) {
+          await this.reservationsService.changeItemWarehouse(tenantId, {
+            ...reservation,
+            quantity: data.quantity ?? Number(existing.quantity),
+            warehouseId: data.warehouseId,
+          });
+        }
       } else if (data.quantity !== undefined && data.quantity !== Number(existing.quantity)) {
-        // Quantity changed on active item → re-reserve
-        const isActive = !existing.recommended || existing.approvedByClient === true;
+        // Quantity changed on active item → reserve the difference or release the excess
         if (isActive) {
-          await this.unreservePartStock(tenantId, wo.orderNumber, itemId, existing.partId, userId);
-          await this.reservePartStock(tenantId, wo.orderNumber, itemId, existing.partId, data.quantity, userId);
+          await this.reservationsService.adjustForItem(tenantId, { ...reservation, quantity: data.quantity });
         }
       }
     }
@@ -744,7 +874,7 @@ export class WorkOrdersService {
 
     // Unreserve stock for PART items
     if (existing.type === 'PART' && existing.partId) {
-      await this.unreservePartStock(tenantId, workOrder.orderNumber, itemId, existing.partId, userId);
+      await this.unreservePartStock(workOrder.orderNumber, itemId, existing.partId, userId);
     }
 
     await this.prisma.workOrderItem.delete({ where: { id: itemId } });
@@ -754,6 +884,36 @@ export class WorkOrdersService {
     await this.logActivity(workOrderId, 'ITEM_DELETED', `Удалена ${typeLabel}: ${existing.description}`, userId);
   }
 
+  /** Выдача запчасти механику до завершения заказ-наряда — частичное списание из резерва */
+  async issueItem(
+    tenantId: string,
+    workOrderId: string,
+    itemId: string,
+    quantity: number,
+    userId?: string,
+  ): Promise<{ quantity: number; cost: number }> {
+    const workOrder = await this.findById(tenantId, workOrderId);
+    if (!['APPROVED', 'IN_PROGRESS', 'PAUSED'].includes(workOrder.status)) {
+      throw new BadRequestException('Выдавать запчасти можно только по заказ-наряду в работе');
+    }
+
+    const existing = await this.prisma.workOrderItem.findFirst({
+      where: { id: itemId, workOrderId, type: 'PART', partId: { not: null } },
+    });
+    if (!existing) throw new NotFoundException('Позиция не найдена');
+
+    const cost = await this.reservationsService.consumeForItem({
+      itemId,
+      partId: existing.partId!,
+      quantity,
+      reference: `WO:${workOrder.orderNumber}`,
+      userId,
+    });
+
+    await this.logActivity(workOrderId, 'ITEM_UPDATED', `Выдано со склада: ${existing.description} — ${quantity}`, userId);
+    return { quantity, cost };
+  }
+
   // --- Item Mechanics ---
 
   async addItemMechanic(
@@ -904,13 +1064,18 @@ export class WorkOrdersService {
       description: string;
       hoursWorked: number;
       logDate?: string;
+      workOrderItemId?: string;
     },
   ): Promise<any> {
-    await this.findById(tenantId, workOrderId);
+    const workOrder = await this.findById(tenantId, workOrderId);
+    if (data.workOrderItemId && !workOrder.items.some((i: any) => i.id === data.workOrderItemId)) {
+      throw new NotFoundException('Позиция не найдена');
+    }
 
     const log = await this.prisma.workLog.create({
       data: {
         workOrderId,
+        workOrderItemId: data.workOrderItemId,
         mechanicId,
         description: data.description,
         hoursWorked: data.hoursWorked,
@@ -926,6 +1091,199 @@ export class WorkOrdersService {
     return log;
   }
 
+  // --- Work Timers ---
+
+  /** Активные таймеры механика по всем заказ-нарядам */
+  async findMyTimers(tenantId: string, mechanicId: string): Promise<any[]> {
+    return this.prisma.workTimer.findMany({
+      where: { mechanicId, workOrder: { tenantId } },
+      include: {
+        workOrder: { select: { id: true, orderNumber: true, status: true } },
+        workOrderItem: { select: { id: true, description: true, normHours: true } },
+      },
+      orderBy: { startedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Запуск или продолжение таймера по работе. У механика может идти только один таймер;
+   * согласованный или стоящий на паузе заказ-наряд переводится «В работу».
+   */
+  async startTimer(tenantId: string, workOrderId: string, itemId: string, mechanicId: string): Promise<any> {
+    const workOrder = await this.findById(tenantId, workOrderId);
+    if (!TIMER_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+      throw new BadRequestException('Таймер доступен только для согласованного заказ-наряда в работе');
+    }
+    const item = this.getTimerItem(workOrder, itemId);
+
+    const running = await this.prisma.workTimer.findFirst({
+      where: { mechanicId, status: 'RUNNING' },
+      include: {
+        workOrder: { select: { orderNumber: true } },
+        workOrderItem: { select: { description: true } },
+      },
+    });
+    if (running?.workOrderItemId === itemId) return workOrder;
+    if (running) {
+      throw new ConflictException(
+        `Уже идёт таймер по работе «${running.workOrderItem.description}» в ${running.workOrder.orderNumber} — поставьте его на паузу`,
+      );
+    }
+
+    const paused = workOrder.workTimers.find(
+      (t: any) => t.workOrderItemId === itemId && t.mechanicId === mechanicId,
+    );
+    let timer;
+    try {
+      timer = await this.prisma.workTimer.upsert({
+        where: { workOrderItemId_mechanicId: { workOrderItemId: itemId, mechanicId } },
+        create: { workOrderId, workOrderItemId: itemId, mechanicId, segmentStartedAt: new Date() },
+        update: { status: 'RUNNING', segmentStartedAt: new Date() },
+      });
+    } catch (e) {
+      // Параллельный запуск второго таймера отсекает частичный уникальный индекс
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+        throw new ConflictException('У вас уже идёт другой таймер — поставьте его на паузу');
+      }
+      throw e;
+    }
+
+    // Статус меняем только после того, как таймер точно запущен; не вышло — возвращаем таймер как был
+    if (workOrder.status !== 'IN_PROGRESS') {
+      try {
+        await this.updateStatus(tenantId, workOrderId, 'IN_PROGRESS', mechanicId);
+      } catch (e) {
+        await (paused
+          ? this.prisma.workTimer.update({ where: { id: timer.id }, data: { status: 'PAUSED', segmentStartedAt: null } })
+          : this.prisma.workTimer.delete({ where: { id: timer.id } }));
+        throw e;
+      }
+    }
+
+    await this.logActivity(workOrderId, 'TIMER', `Таймер запущен: «${item.description}»`, mechanicId);
+    return this.findById(tenantId, workOrderId);
+  }
+
+  async pauseTimer(tenantId: string, workOrderId: string, itemId: string, mechanicId: string): Promise<any> {
+    const workOrder = await this.findById(tenantId, workOrderId);
+    const item = this.getTimerItem(workOrder, itemId);
+    const timer = workOrder.workTimers.find(
+      (t: any) => t.workOrderItemId === itemId && t.mechanicId === mechanicId,
+    );
+    if (!timer || timer.status !== 'RUNNING') throw new BadRequestException('Таймер не запущен');
+
+    await this.prisma.workTimer.update({
+      where: { id: timer.id },
+      data: { status: 'PAUSED', segmentStartedAt: null, elapsedSeconds: this.timerSeconds(timer) },
+    });
+    await this.logActivity(workOrderId, 'TIMER', `Таймер на паузе: «${item.description}»`, mechanicId);
+
+    await this.syncPausedStatus(tenantId, workOrderId, mechanicId);
+    return this.findById(tenantId, workOrderId);
+  }
+
+  /** Остановка таймера: засечённое время записывается логом работы по этой позиции */
+  async stopTimer(tenantId: string, workOrderId: string, itemId: string, mechanicId: string): Promise<any> {
+    const workOrder = await this.findById(tenantId, workOrderId);
+    const item = this.getTimerItem(workOrder, itemId);
+    const timer = workOrder.workTimers.find(
+      (t: any) => t.workOrderItemId === itemId && t.mechanicId === mechanicId,
+    );
+    if (!timer) throw new NotFoundException('Таймер не найден');
+
+    const hoursWorked = Math.max(0.01, Math.round((this.timerSeconds(timer) / 3600) * 100) / 100);
+    await this.prisma.$transaction(async (tx) => {
+      // Повторное нажатие «Стоп» не должно записать часы второй раз
+      const { count } = await tx.workTimer.deleteMany({ where: { id: timer.id } });
+      if (count === 0) throw new ConflictException('Таймер уже остановлен — обновите заказ-наряд');
+      await tx.workLog.create({
+        data: {
+          workOrderId,
+          workOrderItemId: itemId,
+          mechanicId,
+          description: item.description,
+          hoursWorked,
+        },
+      });
+    });
+    await this.logActivity(
+      workOrderId,
+      'WORK_LOG',
+      `Таймер остановлен: «${item.description}» — ${hoursWorked} ч.`,
+      mechanicId,
+    );
+
+    await this.syncPausedStatus(tenantId, workOrderId, mechanicId);
+    return this.findById(tenantId, workOrderId);
+  }
+
+  private getTimerItem(workOrder: any, itemId: string) {
+    const item = workOrder.items.find(
+      (i: any) => i.id === itemId && i.type === 'LABOR' && (!i.recommended || i.approvedByClient === true),
+    );
+    if (!item) throw new NotFoundException('Работа не найдена');
+    return item;
+  }
+
+  /** Всего засечено секунд, включая текущий отрезок */
+  private timerSeconds(timer: { elapsedSeconds: number; segmentStartedAt: Date | null }): number {
+    const current = timer.segmentStartedAt
+      ? Math.floor((Date.now() - timer.segmentStartedAt.getTime()) / 1000)
+      : 0;
+    return timer.elapsedSeconds + current;
+  }
+
+  private async pauseRunningTimers(workOrderId: string): Promise<void> {
+    const running = await this.prisma.workTimer.findMany({ where: { workOrderId, status: 'RUNNING' } });
+    for (const timer of running) {
+      await this.prisma.workTimer.update({
+        where: { id: timer.id },
+        data: { status: 'PAUSED', segmentStartedAt: null, elapsedSeconds: this.timerSeconds(timer) },
+      });
+    }
+  }
+
+  /**
+   * Таймеры, которые механики не остановили сами, при завершении заказ-наряда
+   * записываются логами работ на своих механиков
+   */
+  private async closeTimers(workOrder: any, userId?: string): Promise<void> {
+    for (const timer of workOrder.workTimers || []) {
+      const item = workOrder.items.find((i: any) => i.id === timer.workOrderItemId);
+      const hoursWorked = Math.max(0.01, Math.round((this.timerSeconds(timer) / 3600) * 100) / 100);
+      await this.prisma.$transaction([
+        this.prisma.workTimer.delete({ where: { id: timer.id } }),
+        this.prisma.workLog.create({
+          data: {
+            workOrderId: workOrder.id,
+            workOrderItemId: timer.workOrderItemId,
+            mechanicId: timer.mechanicId,
+            description: item?.description ?? 'Работа по таймеру',
+            hoursWorked,
+          },
+        }),
+      ]);
+      await this.logActivity(
+        workOrder.id,
+        'WORK_LOG',
+        `Таймер закрыт при завершении: «${item?.description ?? ''}» — ${hoursWorked} ч.`,
+        userId,
+        { mechanicId: timer.mechanicId },
+      );
+    }
+  }
+
+  /** Заказ-наряд «на паузе», когда по нему не идёт ни одного таймера, но есть приостановленные */
+  private async syncPausedStatus(tenantId: string, workOrderId: string, userId: string): Promise<void> {
+    const timers = await this.prisma.workTimer.findMany({ where: { workOrderId }, select: { status: true } });
+    if (timers.length === 0 || timers.some((t) => t.status === 'RUNNING')) return;
+
+    const workOrder = await this.prisma.workOrder.findFirst({ where: { id: workOrderId, tenantId } });
+    if (workOrder?.status === 'IN_PROGRESS') {
+      await this.updateStatus(tenantId, workOrderId, 'PAUSED', userId);
+    }
+  }
+
   // --- Activity logging ---
 
   private async logActivity(
@@ -948,107 +1306,71 @@ export class WorkOrdersService {
 
   // --- Inventory integration ---
 
-  private async reservePartStock(
+  private reservePartStock(
     tenantId: string,
     orderNumber: string,
     itemId: string,
     partId: string,
     quantity: number,
     userId?: string,
-  ): Promise<void> {
-    const warehouseStocks = await this.prisma.warehouseStock.findMany({
-      where: { partId },
-      include: { warehouse: { select: { id: true, tenantId: true } } },
-      orderBy: { quantity: 'desc' },
+    warehouseId?: string | null,
+  ): Promise<number> {
+    return this.reservationsService.reserveForItem(tenantId, {
+      itemId,
+      partId,
+      quantity,
+      warehouseId,
+      reference: `WO:${orderNumber}`,
+      userId,
     });
-
-    let remaining = quantity;
-    for (const ws of warehouseStocks) {
-      if (remaining <= 0) break;
-      if (ws.warehouse.tenantId !== tenantId) continue;
-      const available = ws.quantity - ws.reserved;
-      if (available <= 0) continue;
-      const toReserve = Math.min(remaining, available);
-      await this.inventoryService.addMovement(tenantId, {
-        partId,
-        warehouseId: ws.warehouseId,
-        type: 'RESERVED',
-        quantity: toReserve,
-        reference: `WO:${orderNumber}`,
-        referenceId: itemId,
-        userId,
-      });
-      remaining -= toReserve;
-    }
   }
 
-  private async unreservePartStock(
-    tenantId: string,
+  private unreservePartStock(
     orderNumber: string,
     itemId: string,
     partId: string,
     userId?: string,
   ): Promise<void> {
-    const reservations = await this.getItemReservations(itemId);
-    for (const [warehouseId, qty] of reservations) {
-      await this.inventoryService.addMovement(tenantId, {
-        partId,
-        warehouseId,
-        type: 'UNRESERVED',
-        quantity: qty,
-        reference: `WO:${orderNumber}`,
-        referenceId: itemId,
-        userId,
-      });
-    }
+    return this.reservationsService.releaseForItem({ itemId, partId, reference: `WO:${orderNumber}`, userId });
   }
 
-  private async consumePartStock(
-    tenantId: string,
+  /** Списание резерва позиции; себестоимость по партиям (FIFO) прибавляется к позиции */
+  private consumePartStock(
     orderNumber: string,
     itemId: string,
     partId: string,
     userId?: string,
-  ): Promise<void> {
-    const reservations = await this.getItemReservations(itemId);
-    for (const [warehouseId, qty] of reservations) {
-      await this.inventoryService.addMovement(tenantId, {
-        partId,
-        warehouseId,
-        type: 'CONSUMPTION',
-        quantity: qty,
-        reference: `WO:${orderNumber}`,
-        referenceId: itemId,
-        userId,
-      });
-    }
+  ): Promise<number> {
+    return this.reservationsService.consumeForItem({ itemId, partId, reference: `WO:${orderNumber}`, userId });
   }
 
-  private async getItemReservations(itemId: string): Promise<Map<string, number>> {
-    const movements = await this.prisma.stockMovement.findMany({
-      where: {
-        referenceId: itemId,
-        type: { in: ['RESERVED', 'UNRESERVED', 'CONSUMPTION'] },
-      },
-      select: { warehouseId: true, type: true, quantity: true },
-    });
-
-    const result = new Map<string, number>();
-    for (const m of movements) {
-      if (!m.warehouseId) continue;
-      const current = result.get(m.warehouseId) || 0;
-      if (m.type === 'RESERVED') {
-        result.set(m.warehouseId, current + m.quantity);
-      } else {
-        result.set(m.warehouseId, current - m.quantity);
-      }
+  /** Цена позиции, если её не передали: запчасть — по наценке для группы клиента, работа — по прайсу услуги */
+  private async resolveUnitPrice(
+    tenantId: string,
+    clientId: string,
+    item: { type: string; unitPrice?: number; partId?: string; serviceId?: string },
+  ): Promise<number> {
+    if (item.unitPrice != null) return item.unitPrice;
+    if (item.type === 'PART' && item.partId) {
+      const price = await this.pricingService.getPartPrice(tenantId, item.partId, clientId);
+      return price.sellPrice;
     }
-
-    for (const [key, val] of result) {
-      if (val <= 0) result.delete(key);
+    if (item.type === 'LABOR' && item.serviceId) {
+      const service = await this.prisma.service.findFirst({
+        where: { id: item.serviceId, tenantId },
+        select: { price: true },
+      });
+      if (service) return Number(service.price);
     }
+    throw new BadRequestException('Укажите цену позиции');
+  }
 
-    return result;
+  private async assertWarehouse(tenantId: string, warehouseId: string) {
+    const warehouse = await this.prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId, isActive: true },
+      select: { id: true },
+    });
+    if (!warehouse) throw new BadRequestException('Склад не найден');
   }
 
   // --- Private helpers ---
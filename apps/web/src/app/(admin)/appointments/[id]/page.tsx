@@ -27,6 +27,9 @@ interface AppointmentDetail {
   vehicleId: string;
   client: { id: string; firstName: string; lastName: string; phone: string | null; email: string | null };
   advisor: { id: string; firstName: string; lastName: string } | null;
+  serviceBay: { id: string; name: string } | null;
+  overbookedAt: string | null;
+  overbookedBy: { id: string; firstName: string; lastName: string } | null;
   vehicle: { id: string; make: string; model: string; licensePlate: string | null; year: number | null; mileage: number | null };
 }
 
@@ -193,6 +196,26 @@ export default function AppointmentDetailPage() {
           {(statusMutation.error as any)?.message || 'Ошибка смены статуса'}
         </div>
       )}
+      {updateMutation.isError && (
+        <div className="mt-2 flex items-center justify-between gap-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          <span>{(updateMutation.error as any)?.message || 'Ошибка сохранения'}</span>
+          {(updateMutation.error as any)?.details?.overbooking && updateMutation.variables && (
+            <button
+              onClick={() => updateMutation.mutate({ ...updateMutation.variables, forceOverbook: true })}
+              className="whitespace-nowrap rounded bg-red-600 px-2 py-1 text-xs font-medium text-white hover:bg-red-700"
+            >
+              Сохранить сверх лимита
+            </button>
+          )}
+        </div>
+      )}
+      {apt.overbookedAt && (
+        <div className="mt-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          Записано сверх лимита загрузки
+          {apt.overbookedBy && ` — ${apt.overbookedBy.firstName} ${apt.overbookedBy.lastName}`}
+          , {formatDate(apt.overbookedAt)}
+        </div>
+      )}
 
       {/* Info Grid */}
       <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
@@ -246,6 +269,13 @@ export default function AppointmentDetailPage() {
               fetchUrl="/users?limit=100&sort=firstName&order=asc&role=RECEPTIONIST"
               onAssign={(userId) => updateMutation.mutate({ advisorId: userId || null })}
             />
+            <AssignField
+              label="Пост"
+              currentValue={apt.serviceBay?.name ?? null}
+              fetchUrl="/service-bays"
+              fieldType="bay"
+              onAssign={(bayId) => updateMutation.mutate({ serviceBayId: bayId || null })}
+            />
             {apt.source && (
               <div className="flex justify-between">
                 <span className="text-gray-500">Источник</span>
@@ -539,19 +569,23 @@ function AssignField({
   label,
   currentValue,
   fetchUrl,
+  fieldType = 'user',
   onAssign,
 }: {
   label: string;
   currentValue: string | null;
   fetchUrl: string;
+  fieldType?: 'user' | 'bay';
   onAssign: (id: string) => void;
 }) {
   const [editing, setEditing] = useState(false);
-  const { data } = useQuery<{ data: any[] }>({
+  const { data } = useQuery<{ data: any[] } | any[]>({
     queryKey: ['assign-field', fetchUrl],
     queryFn: () => apiFetch(fetchUrl),
     enabled: editing,
   });
+  // Списки пользователей приходят постранично, посты — массивом
+  const options = Array.isArray(data) ? data : data?.data;
 
   if (editing) {
     return (
@@ -568,9 +602,9 @@ function AssignField({
           onBlur={() => setEditing(false)}
         >
           <option value="">Не назначен</option>
-          {data?.data?.map((item: any) => (
+          {options?.map((item: any) => (
             <option key={item.id} value={item.id}>
-              {item.firstName} {item.lastName}
+              {fieldType === 'bay' ? item.name : `${item.firstName} ${item.lastName}`}
             </option>
           ))}
         </select>
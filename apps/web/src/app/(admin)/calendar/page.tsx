@@ -14,9 +14,24 @@ interface AppointmentData {
   notes: string | null;
   client: { id: string; firstName: string; lastName: string; phone: string | null };
   advisor: { id: string; firstName: string; lastName: string } | null;
+  serviceBay: { id: string; name: string } | null;
+  overbookedAt: string | null;
+  overbookedBy: { id: string; firstName: string; lastName: string } | null;
   vehicle: { id: string; make: string; model: string; licensePlate: string | null; year: number | null };
 }
 
+interface CapacityRules {
+  maxPerHour: number | null;
+  maxPerAdvisor: number | null;
+  maxPerBay: number | null;
+}
+
+interface ServiceBay {
+  id: string;
+  name: string;
+  workOrders: Array<{ id: string; orderNumber: string; vehicle: { make: string; model: string } }>;
+}
+
 const STATUS_LABELS: Record<string, string> = {
   PENDING: 'Ожидает',
   CONFIRMED: 'Подтверждена',
@@ -55,6 +70,9 @@ const APPOINTMENT_TRANSITIONS: Record<string, string[]> = {
   NO_SHOW: [],
 };
 
+/** Статусы, которые создают загрузку — как на сервере */
+const LOAD_STATUSES = ['PENDING', 'ESTIMATING', 'CONFIRMED', 'IN_PROGRESS'];
+
 const HOURS_START = 6;
 const HOURS_END = 20;
 const HOUR_HEIGHT = 60; // px per hour
@@ -105,21 +123,51 @@ function isSameDay(a: Date, b: Date): boolean {
   return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
 }
 
+/** Часы колонки, где одновременных записей больше лимита */
+function getOverbookedHours(columnAppointments: AppointmentData[], hours: number[], limit: number | null): number[] {
+  if (limit == null) return [];
+  const active = columnAppointments.filter((a) => LOAD_STATUSES.includes(a.status));
+  return hours.filter((h) => {
+    const inHour = active.filter((a) => {
+      const start = new Date(a.scheduledStart);
+      const end = new Date(a.scheduledEnd);
+      const startH = start.getHours() + start.getMinutes() / 60;
+      const endH = end.getHours() + end.getMinutes() / 60;
+      return startH < h + 1 && endH > h;
+    });
+    return inHour.length > limit;
+  });
+}
+
 export default function CalendarPage() {
   const queryClient = useQueryClient();
   const router = useRouter();
+  const [view, setView] = useState<'week' | 'bays'>('week');
   const [weekStart, setWeekStart] = useState(() => getMonday(new Date()));
+  const [bayDay, setBayDay] = useState(() => new Date(new Date().setHours(0, 0, 0, 0)));
   const [selectedAppointment, setSelectedAppointment] = useState<AppointmentData | null>(null);
+  const [showCapacity, setShowCapacity] = useState(false);
 
-  const weekEnd = useMemo(() => addDays(weekStart, 7), [weekStart]);
-  const from = formatDateISO(weekStart) + 'T00:00:00Z';
-  const to = formatDateISO(weekEnd) + 'T00:00:00Z';
+  const rangeStart = view === 'week' ? weekStart : bayDay;
+  const rangeEnd = useMemo(() => addDays(rangeStart, view === 'week' ? 7 : 1), [rangeStart, view]);
+  const from = formatDateISO(rangeStart) + 'T00:00:00Z';
+  const to = formatDateISO(rangeEnd) + 'T00:00:00Z';
 
   const { data: appointments, isLoading } = useQuery<AppointmentData[]>({
     queryKey: ['calendar-appointments', from, to],
     queryFn: () => apiFetch(`/appointments/calendar?from=${from}&to=${to}`),
   });
 
+  const { data: bays } = useQuery<ServiceBay[]>({
+    queryKey: ['service-bays'],
+    queryFn: () => apiFetch('/service-bays'),
+  });
+
+  const { data: capacity } = useQuery<{ rules: CapacityRules; isDefault: boolean }>({
+    queryKey: ['appointment-capacity'],
+    queryFn: () => apiFetch('/appointments/capacity'),
+  });
+
   const days = useMemo(() => {
     return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
   }, [weekStart]);
@@ -130,16 +178,37 @@ export default function CalendarPage() {
 
   const today = new Date();
 
+  // Колонки режима «По постам»: активные посты + записи без поста, если такие есть в этот день
+  const bayColumns = useMemo(() => {
+    const dayAppointments = (appointments ?? []).filter((a) => isSameDay(new Date(a.scheduledStart), bayDay));
+    const columns: { key: string; bay: ServiceBay | null; appointments: AppointmentData[] }[] = (bays ?? []).map((bay) => ({
+      key: bay.id,
+      bay,
+      appointments: dayAppointments.filter((a) => a.serviceBay?.id === bay.id),
+    }));
+    const bayIds = new Set(columns.map((c) => c.key));
+    const unassigned = dayAppointments.filter((a) => !a.serviceBay || !bayIds.has(a.serviceBay.id));
+    if (unassigned.length > 0 || columns.length === 0) {
+      columns.push({ key: 'none', bay: null, appointments: unassigned });
+    }
+    return columns;
+  }, [appointments, bays, bayDay]);
+
+  const bayGridColumns = `60px repeat(${bayColumns.length}, minmax(140px, 1fr))`;
+
   function goToday() {
     setWeekStart(getMonday(new Date()));
+    setBayDay(new Date(new Date().setHours(0, 0, 0, 0)));
   }
 
   function goPrev() {
-    setWeekStart((w) => addDays(w, -7));
+    if (view === 'week') setWeekStart((w) => addDays(w, -7));
+    else setBayDay((d) => addDays(d, -1));
   }
 
   function goNext() {
-    setWeekStart((w) => addDays(w, 7));
+    if (view === 'week') setWeekStart((w) => addDays(w, 7));
+    else setBayDay((d) => addDays(d, 1));
   }
 
   function getAppointmentsForDay(day: Date) {
@@ -208,17 +277,138 @@ export default function CalendarPage() {
     return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
   }
 
+  function renderTimeLabels() {
+    return (
+      <div className="border-r border-gray-200">
+        {hours.map((h) => (
+          <div
+            key={h}
+            className="flex items-start justify-end border-b border-gray-100 pr-2 text-xs text-gray-400"
+            style={{ height: `${HOUR_HEIGHT}px` }}
+          >
+            <span className="-mt-2">{String(h).padStart(2, '0')}:00</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  function renderTimeColumn(
+    key: string | number,
+    columnAppointments: AppointmentData[],
+    isToday: boolean,
+    limit: number | null,
+  ) {
+    return (
+      <div
+        key={key}
+        className={`relative border-r border-gray-200 last:border-r-0 ${isToday ? 'bg-primary-50/30' : ''}`}
+        style={{ height: `${(HOURS_END - HOURS_START) * HOUR_HEIGHT}px` }}
+      >
+        {/* Hour lines */}
+        {hours.map((h) => (
+          <div
+            key={h}
+            className="absolute left-0 right-0 border-b border-gray-100"
+            style={{ top: `${(h - HOURS_START) * HOUR_HEIGHT}px`, height: `${HOUR_HEIGHT}px` }}
+          />
+        ))}
+
+        {/* Overbooked hours */}
+        {getOverbookedHours(columnAppointments, hours, limit).map((h) => (
+          <div
+            key={`over-${h}`}
+            className="absolute left-0 right-0 bg-red-100/70"
+            style={{ top: `${(h - HOURS_START) * HOUR_HEIGHT}px`, height: `${HOUR_HEIGHT}px` }}
+            title={`Перебронирование: больше ${limit} записей`}
+          />
+        ))}
+
+        {/* Now indicator */}
+        {isToday && (() => {
+          const now = new Date();
+          const nowHour = now.getHours() + now.getMinutes() / 60;
+          if (nowHour >= HOURS_START && nowHour <= HOURS_END) {
+            const top = (nowHour - HOURS_START) * HOUR_HEIGHT;
+            return (
+              <div
+                className="absolute left-0 right-0 z-10 border-t-2 border-red-500"
+                style={{ top: `${top}px` }}
+              >
+                <div className="absolute -left-1 -top-1.5 h-3 w-3 rounded-full bg-red-500" />
+              </div>
+            );
+          }
+          return null;
+        })()}
+
+        {/* Appointment blocks */}
+        {renderBlocks(columnAppointments)}
+      </div>
+    );
+  }
+
+  function renderBlocks(columnAppointments: AppointmentData[]) {
+    return layoutAppointments(columnAppointments).map(({ appt, col, totalCols }) => {
+      const style = getBlockStyle(appt, col, totalCols);
+      if (!style) return null;
+      const colors = STATUS_BLOCK[appt.status] || 'bg-gray-100 border-gray-300 text-gray-700';
+      return (
+        <div
+          key={appt.id}
+          className={`absolute z-20 cursor-pointer overflow-hidden rounded border-l-4 px-1.5 py-0.5 text-xs shadow-sm transition-opacity hover:opacity-90 ${colors} ${
+            appt.overbookedAt ? 'ring-2 ring-red-400' : ''
+          }`}
+          style={style}
+          onClick={() => setSelectedAppointment(appt)}
+          title={`${appt.client.firstName} ${appt.client.lastName} — ${appt.vehicle.make} ${appt.vehicle.model}`}
+        >
+          <div className="truncate font-medium">
+            {appt.overbookedAt && <span className="text-red-600" title="Записано сверх лимита">⚠ </span>}
+            {formatTime(appt.scheduledStart)}–{formatTime(appt.scheduledEnd)}
+          </div>
+          <div className="truncate">
+            {appt.client.firstName} {appt.client.lastName}
+          </div>
+          <div className="truncate text-[10px] opacity-75">
+            {appt.vehicle.make} {appt.vehicle.model}
+            {view === 'week' && appt.serviceBay && ` · ${appt.serviceBay.name}`}
+          </div>
+        </div>
+      );
+    });
+  }
+
   return (
     <div>
       {/* Header */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Календарь записей</h1>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCapacity(true)}
+            className="mr-2 rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Лимиты загрузки
+          </button>
+          <div className="mr-2 flex rounded-lg border border-gray-300 p-0.5">
+            {([['week', 'Неделя'], ['bays', 'По постам']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium ${
+                  view === key ? 'bg-primary-50 text-primary-700' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           <button
             onClick={goPrev}
             className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
           >
-            &larr; Пред. неделя
+            &larr; {view === 'week' ? 'Пред. неделя' : 'Пред. день'}
           </button>
           <button
             onClick={goToday}
@@ -230,15 +420,54 @@ export default function CalendarPage() {
             onClick={goNext}
             className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
           >
-            След. неделя &rarr;
+            {view === 'week' ? 'След. неделя' : 'След. день'} &rarr;
           </button>
         </div>
       </div>
 
-      <p className="mt-2 text-lg font-medium text-gray-600">{formatWeekRange(weekStart)}</p>
+      <p className="mt-2 text-lg font-medium text-gray-600">
+        {view === 'week'
+          ? formatWeekRange(weekStart)
+          : `${DAY_NAMES[(bayDay.getDay() + 6) % 7]}, ${bayDay.getDate()} ${MONTH_NAMES[bayDay.getMonth()]} ${bayDay.getFullYear()}`}
+      </p>
 
       {isLoading ? (
         <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : view === 'bays' ? (
+        <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          {/* Bay headers */}
+          <div className="grid border-b border-gray-200" style={{ gridTemplateColumns: bayGridColumns }}>
+            <div className="border-r border-gray-200" />
+            {bayColumns.map((col) => {
+              const occupant = col.bay?.workOrders[0];
+              return (
+                <div key={col.key} className="border-r border-gray-200 px-2 py-3 text-center text-sm last:border-r-0">
+                  <div className={`font-medium ${col.bay ? 'text-gray-700' : 'text-gray-400'}`}>
+                    {col.bay ? col.bay.name : 'Без поста'}
+                  </div>
+                  {occupant ? (
+                    <button
+                      onClick={() => router.push(`/work-orders/${occupant.id}`)}
+                      className="mt-1 truncate text-xs text-green-700 hover:underline"
+                    >
+                      {occupant.orderNumber} · {occupant.vehicle.make} {occupant.vehicle.model}
+                    </button>
+                  ) : col.bay ? (
+                    <div className="mt-1 text-xs text-gray-400">Свободен</div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Time grid */}
+          <div className="grid" style={{ gridTemplateColumns: bayGridColumns }}>
+            {renderTimeLabels()}
+            {bayColumns.map((col) =>
+              renderTimeColumn(col.key, col.appointments, isSameDay(bayDay, today), col.bay ? capacity?.rules.maxPerBay ?? null : null),
+            )}
+          </div>
+        </div>
       ) : (
         <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200 bg-white">
           {/* Day headers */}
@@ -263,91 +492,32 @@ export default function CalendarPage() {
           {/* Time grid */}
           <div className="grid grid-cols-[60px_repeat(7,1fr)]">
             {/* Time labels column */}
-            <div className="border-r border-gray-200">
-              {hours.map((h) => (
-                <div
-                  key={h}
-                  className="flex items-start justify-end border-b border-gray-100 pr-2 text-xs text-gray-400"
-                  style={{ height: `${HOUR_HEIGHT}px` }}
-                >
-                  <span className="-mt-2">{String(h).padStart(2, '0')}:00</span>
-                </div>
-              ))}
-            </div>
+            {renderTimeLabels()}
 
             {/* Day columns */}
-            {days.map((day, dayIdx) => {
-              const dayAppointments = getAppointmentsForDay(day);
-              const isToday = isSameDay(day, today);
-              return (
-                <div
-                  key={dayIdx}
-                  className={`relative border-r border-gray-200 last:border-r-0 ${isToday ? 'bg-primary-50/30' : ''}`}
-                  style={{ height: `${(HOURS_END - HOURS_START) * HOUR_HEIGHT}px` }}
-                >
-                  {/* Hour lines */}
-                  {hours.map((h) => (
-                    <div
-                      key={h}
-                      className="absolute left-0 right-0 border-b border-gray-100"
-                      style={{ top: `${(h - HOURS_START) * HOUR_HEIGHT}px`, height: `${HOUR_HEIGHT}px` }}
-                    />
-                  ))}
-
-                  {/* Now indicator */}
-                  {isToday && (() => {
-                    const now = new Date();
-                    const nowHour = now.getHours() + now.getMinutes() / 60;
-                    if (nowHour >= HOURS_START && nowHour <= HOURS_END) {
-                      const top = (nowHour - HOURS_START) * HOUR_HEIGHT;
-                      return (
-                        <div
-                          className="absolute left-0 right-0 z-10 border-t-2 border-red-500"
-                          style={{ top: `${top}px` }}
-                        >
-                          <div className="absolute -left-1 -top-1.5 h-3 w-3 rounded-full bg-red-500" />
-                        </div>
-                      );
-                    }
-                    return null;
-                  })()}
-
-                  {/* Appointment blocks */}
-                  {layoutAppointments(dayAppointments).map(({ appt, col, totalCols }) => {
-                    const style = getBlockStyle(appt, col, totalCols);
-                    if (!style) return null;
-                    const colors = STATUS_BLOCK[appt.status] || 'bg-gray-100 border-gray-300 text-gray-700';
-                    return (
-                      <div
-                        key={appt.id}
-                        className={`absolute z-20 cursor-pointer overflow-hidden rounded border-l-4 px-1.5 py-0.5 text-xs shadow-sm transition-opacity hover:opacity-90 ${colors}`}
-                        style={style}
-                        onClick={() => setSelectedAppointment(appt)}
-                        title={`${appt.client.firstName} ${appt.client.lastName} — ${appt.vehicle.make} ${appt.vehicle.model}`}
-                      >
-                        <div className="truncate font-medium">
-                          {formatTime(appt.scheduledStart)}–{formatTime(appt.scheduledEnd)}
-                        </div>
-                        <div className="truncate">
-                          {appt.client.firstName} {appt.client.lastName}
-                        </div>
-                        <div className="truncate text-[10px] opacity-75">
-                          {appt.vehicle.make} {appt.vehicle.model}
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              );
-            })}
+            {days.map((day, dayIdx) =>
+              renderTimeColumn(dayIdx, getAppointmentsForDay(day), isSameDay(day, today), capacity?.rules.maxPerHour ?? null),
+            )}
           </div>
         </div>
       )}
 
+      {showCapacity && capacity && (
+        <CapacityRulesModal
+          current={capacity}
+          onClose={() => setShowCapacity(false)}
+          onSaved={() => {
+            queryClient.invalidateQueries({ queryKey: ['appointment-capacity'] });
+            setShowCapacity(false);
+          }}
+        />
+      )}
+
       {/* Appointment Detail Modal */}
       {selectedAppointment && (
         <AppointmentDetailModal
           appointment={selectedAppointment}
+          bays={bays ?? []}
           onClose={() => setSelectedAppointment(null)}
           onStatusChange={() => {
             queryClient.invalidateQueries({ queryKey: ['calendar-appointments'] });
@@ -363,16 +533,19 @@ export default function CalendarPage() {
 
 function AppointmentDetailModal({
   appointment,
+  bays,
   onClose,
   onStatusChange,
   onCreateWorkOrder,
 }: {
   appointment: AppointmentData;
+  bays: ServiceBay[];
   onClose: () => void;
   onStatusChange: () => void;
   onCreateWorkOrder: (woId: string) => void;
 }) {
   const [error, setError] = useState('');
+  const [canOverbook, setCanOverbook] = useState(false);
 
   const statusMutation = useMutation({
     mutationFn: ({ id, status }: { id: string; status: string }) =>
@@ -387,6 +560,23 @@ function AppointmentDetailModal({
     },
   });
 
+  const bayMutation = useMutation({
+    mutationFn: ({ serviceBayId, forceOverbook }: { serviceBayId: string | null; forceOverbook?: boolean }) =>
+      apiFetch(`/appointments/${appointment.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ serviceBayId, forceOverbook }),
+      }),
+    onSuccess: () => {
+      setError('');
+      onStatusChange();
+      onClose();
+    },
+    onError: (err: any) => {
+      setError(err.message || 'Ошибка назначения поста');
+      setCanOverbook(!!err.details?.overbooking);
+    },
+  });
+
   const createWOMutation = useMutation({
     mutationFn: (appointmentId: string) =>
       apiFetch(`/work-orders/from-appointment/${appointmentId}`, { method: 'POST' }),
@@ -450,6 +640,29 @@ function AppointmentDetailModal({
             )}
           </div>
 
+          <div className="flex items-center">
+            <span className="text-sm text-gray-500">Пост:</span>
+            <select
+              value={appointment.serviceBay?.id ?? ''}
+              onChange={(e) => bayMutation.mutate({ serviceBayId: e.target.value || null })}
+              disabled={bayMutation.isPending || ['COMPLETED', 'CANCELLED', 'NO_SHOW'].includes(appointment.status)}
+              className="ml-2 rounded-lg border border-gray-300 px-2 py-1 text-sm focus:border-primary-500 focus:outline-none disabled:bg-gray-50"
+            >
+              <option value="">Без поста</option>
+              {bays.map((bay) => (
+                <option key={bay.id} value={bay.id}>{bay.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {appointment.overbookedAt && (
+            <p className="rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">
+              Записано сверх лимита загрузки
+              {appointment.overbookedBy && ` — ${appointment.overbookedBy.firstName} ${appointment.overbookedBy.lastName}`}
+              , {formatDateTime(appointment.overbookedAt)}
+            </p>
+          )}
+
           {appointment.advisor && (
             <div>
               <span className="text-sm text-gray-500">Приёмщик:</span>
@@ -468,6 +681,15 @@ function AppointmentDetailModal({
         </div>
 
         {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        {canOverbook && bayMutation.variables && (
+          <button
+            onClick={() => bayMutation.mutate({ ...bayMutation.variables!, forceOverbook: true })}
+            disabled={bayMutation.isPending}
+            className="mt-2 rounded-lg border border-red-300 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Назначить сверх лимита
+          </button>
+        )}
 
         <div className="mt-6 flex flex-wrap gap-2">
           {transitions.map((status) => (
@@ -495,3 +717,98 @@ function AppointmentDetailModal({
     </div>
   );
 }
+
+function CapacityRulesModal({
+  current,
+  onClose,
+  onSaved,
+}: {
+  current: { rules: CapacityRules; isDefault: boolean };
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState({
+    maxPerHour: current.rules.maxPerHour?.toString() ?? '',
+    maxPerAdvisor: current.rules.maxPerAdvisor?.toString() ?? '',
+    maxPerBay: current.rules.maxPerBay?.toString() ?? '',
+  });
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: Record<string, any>) =>
+      apiFetch('/appointments/capacity', { method: 'PUT', body: JSON.stringify(body) }),
+    onSuccess: onSaved,
+    onError: (err: any) => setError(err.message || 'Ошибка сохранения'),
+  });
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    saveMutation.mutate({
+      maxPerHour: form.maxPerHour ? Number(form.maxPerHour) : null,
+      maxPerAdvisor: form.maxPerAdvisor ? Number(form.maxPerAdvisor) : null,
+      maxPerBay: form.maxPerBay ? Number(form.maxPerBay) : null,
+    });
+  }
+
+  const fields: Array<{ key: keyof typeof form; label: string }> = [
+    { key: 'maxPerHour', label: 'Записей в один час' },
+    { key: 'maxPerAdvisor', label: 'Одновременных записей у приёмщика' },
+    { key: 'maxPerBay', label: 'Одновременных записей на посту' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Лимиты загрузки</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Пустое поле — без ограничения. Записать сверх лимита можно только явным подтверждением.
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+          {fields.map((f) => (
+            <div key={f.key} className="flex items-center justify-between gap-3">
+              <label className="text-sm text-gray-700">{f.label}</label>
+              <input
+                type="number"
+                min={1}
+                value={form[f.key]}
+                onChange={(e) => setForm({ ...form, [f.key]: e.target.value })}
+                className="w-24 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none"
+              />
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-between pt-2">
+            <button
+              type="button"
+              onClick={() => saveMutation.mutate({ reset: true })}
+              disabled={current.isDefault || saveMutation.isPending}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              По умолчанию
+            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Отмена
+              </button>
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                {saveMutation.isPending ? 'Сохранение...' : 'Сохранить'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
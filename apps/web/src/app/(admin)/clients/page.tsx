@@ -14,6 +14,7 @@ interface ClientData {
   middleName: string | null;
   dateOfBirth: string | null;
   phone: string | null;
+  clientGroup: string | null;
   isActive: boolean;
   createdAt: string;
 }
@@ -496,6 +497,7 @@ function ClientModal({
   const [middleName, setMiddleName] = useState(client?.middleName || '');
   const [dateOfBirth, setDateOfBirth] = useState(client?.dateOfBirth ? client.dateOfBirth.slice(0, 10) : '');
   const [phone, setPhone] = useState(client?.phone || '');
+  const [clientGroup, setClientGroup] = useState(client?.clientGroup || '');
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
 
@@ -523,6 +525,7 @@ function ClientModal({
             middleName: middleName || undefined,
             dateOfBirth: dateOfBirth || undefined,
             phone: phone || undefined,
+            clientGroup: clientGroup || null,
           }),
         });
       } else {
@@ -632,6 +635,20 @@ function ClientModal({
             </div>
           </div>
 
+          {isEdit && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Группа клиента</label>
+              <input
+                type="text"
+                value={clientGroup}
+                onChange={(e) => setClientGroup(e.target.value)}
+                placeholder="Опт, Корпоративный..."
+                className={inputCls}
+              />
+              <p className="mt-1 text-[11px] text-gray-400">Для цен запчастей по правилам наценки группы</p>
+            </div>
+          )}
+
           {/* Vehicle — only for new client */}
           {!isEdit && (
             <div className="space-y-3 rounded-lg border border-dashed border-gray-300 bg-gray-50 p-3">
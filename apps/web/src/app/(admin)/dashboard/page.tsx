@@ -72,6 +72,13 @@ interface FunnelData {
   };
 }
 
+interface AppointmentSlot {
+  start: string;
+  end: string;
+  serviceBayId: string | null;
+  serviceBayName: string | null;
+}
+
 // --- Constants ---
 
 const STATUS_LABELS: Record<string, string> = {
@@ -150,6 +157,24 @@ function sanitizePlate(val: string): string {
   return latin.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
 }
 
+/** Цена запчасти для группы клиента — та же, что API подставит в наряд. Пока не загружена — undefined. */
+function useClientPartPrice(
+  part: { id: string; sellPrice: string | number } | null,
+  clientId: string | undefined,
+): number | undefined {
+  const { data } = useQuery<number>({
+    queryKey: ['client-part-price', part?.id, clientId],
+    queryFn: () =>
+      apiFetch<{ sellPrice: number }>(`/pricing/parts/${part!.id}/price?clientId=${clientId}`)
+        .then((p) => p.sellPrice)
+        .catch(() => Number(part!.sellPrice)),
+    enabled: !!part && !!clientId,
+    staleTime: 30_000,
+  });
+  if (!part) return undefined;
+  return clientId ? data : Number(part.sellPrice);
+}
+
 // --- Page ---
 
 export default function DashboardPage() {
@@ -585,12 +610,20 @@ function CreateAppointmentModal({
   const [newColor, setNewColor] = useState('');
   const [newMileage, setNewMileage] = useState('');
 
+  // Time: 'now' — клиент уже приехал, 'slot' — запись на свободное время
+  const [timeMode, setTimeMode] = useState<'now' | 'slot'>('now');
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [slotDate, setSlotDate] = useState(() => new Date().toLocaleDateString('sv-SE'));
+  const [slot, setSlot] = useState<AppointmentSlot | null>(null);
+
   // Appointment fields
   const [notes, setNotes] = useState('');
   const [source, setSource] = useState('');
   const [advisorId, setAdvisorId] = useState(user?.id || '');
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
+  // Запись упёрлась в лимит загрузки — клиент и авто уже созданы, повторяем только запись
+  const [overbookPayload, setOverbookPayload] = useState<Record<string, any> | null>(null);
 
   // Sync advisorId when user loads
   useEffect(() => {
@@ -651,9 +684,32 @@ function CreateAppointmentModal({
     enabled: !!clientId && !isNewClient,
   });
 
+  const { data: plannableServices } = useQuery<{ data: { id: string; name: string; estimatedMinutes: number; serviceUsage: string }[] }>({
+    queryKey: ['services-for-appt'],
+    queryFn: () => apiFetch('/services?limit=100&isActive=true&sort=name&order=asc'),
+    enabled: timeMode === 'slot',
+  });
+
+  const { data: slotsData, isFetching: slotsLoading } = useQuery<{ durationMinutes: number; slots: AppointmentSlot[] }>({
+    queryKey: ['appointment-slots', slotDate, serviceIds, vehicleId],
+    queryFn: () =>
+      apiFetch(
+        `/appointments/slots?from=${slotDate}&to=${slotDate}${serviceIds.length ? `&serviceIds=${serviceIds.join(',')}` : ''}${vehicleId ? `&vehicleId=${vehicleId}` : ''}`,
+      ),
+    enabled: timeMode === 'slot' && !!slotDate,
+  });
+
+  useEffect(() => {
+    setSlot(null);
+  }, [slotDate, serviceIds, vehicleId]);
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError('');
+    if (timeMode === 'slot' && !slot) {
+      setError('Выберите время записи');
+      return;
+    }
     setSaving(true);
 
     try {
@@ -721,21 +777,42 @@ function CreateAppointmentModal({
         return;
       }
 
-      // 3. Create appointment — start = now, end = +1 hour
+      // 3. Create appointment — on the chosen slot, or start = now, end = +1 hour
       const now = new Date();
-      const scheduledStart = now.toISOString();
-      const scheduledEnd = new Date(now.getTime() + 60 * 60 * 1000).toISOString();
+      const scheduledStart = slot ? slot.start : now.toISOString();
+      const scheduledEnd = slot ? slot.end : new Date(now.getTime() + 60 * 60 * 1000).toISOString();
+      const payload = {
+        clientId: finalClientId,
+        vehicleId: finalVehicleId,
+        scheduledStart,
+        scheduledEnd,
+        serviceBayId: slot?.serviceBayId || undefined,
+        advisorId: advisorId || undefined,
+        notes: notes || undefined,
+        source: source || undefined,
+      };
+      try {
+        await apiFetch('/appointments', { method: 'POST', body: JSON.stringify(payload) });
+      } catch (err: any) {
+        if (err.details?.overbooking) setOverbookPayload(payload);
+        throw err;
+      }
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка создания записи');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleForceOverbook() {
+    if (!overbookPayload) return;
+    setError('');
+    setSaving(true);
+    try {
       await apiFetch('/appointments', {
         method: 'POST',
-        body: JSON.stringify({
-          clientId: finalClientId,
-          vehicleId: finalVehicleId,
-          scheduledStart,
-          scheduledEnd,
-          advisorId: advisorId || undefined,
-          notes: notes || undefined,
-          source: source || undefined,
-        }),
+        body: JSON.stringify({ ...overbookPayload, forceOverbook: true }),
       });
       onSuccess();
     } catch (err: any) {
@@ -988,12 +1065,85 @@ function CreateAppointmentModal({
             </div>
           )}
 
-          {/* --- Дата и время приёма (автоматически) --- */}
+          {/* --- Дата и время приёма --- */}
           <div>
-            <label className="block text-sm font-medium text-gray-700">Дата и время приёма</label>
-            <p className="mt-1 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
-              {new Date().toLocaleString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
-            </p>
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700">Дата и время приёма</label>
+              <button
+                type="button"
+                onClick={() => { setTimeMode(timeMode === 'now' ? 'slot' : 'now'); setSlot(null); }}
+                className="text-xs font-medium text-primary-600 hover:text-primary-700"
+              >
+                {timeMode === 'now' ? 'Записать на время' : 'Приём сейчас'}
+              </button>
+            </div>
+            {timeMode === 'now' ? (
+              <p className="mt-1 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
+                {new Date().toLocaleString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </p>
+            ) : (
+              <div className="mt-2 space-y-2 rounded-lg border border-dashed border-gray-300 bg-gray-50 p-3">
+                <div>
+                  <label className="block text-xs text-gray-500">Услуги (для расчёта длительности)</label>
+                  <div className="mt-1 max-h-32 space-y-1 overflow-y-auto rounded-lg border border-gray-200 bg-white p-2">
+                    {plannableServices?.data
+                      ?.filter((svc) => svc.serviceUsage !== 'PRODUCTION')
+                      .map((svc) => (
+                        <label key={svc.id} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={serviceIds.includes(svc.id)}
+                            onChange={(e) =>
+                              setServiceIds(e.target.checked ? [...serviceIds, svc.id] : serviceIds.filter((id) => id !== svc.id))
+                            }
+                          />
+                          <span className="flex-1">{svc.name}</span>
+                          <span className="text-xs text-gray-400">{svc.estimatedMinutes} мин</span>
+                        </label>
+                      ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500">Дата</label>
+                  <input
+                    type="date"
+                    value={slotDate}
+                    min={new Date().toLocaleDateString('sv-SE')}
+                    onChange={(e) => setSlotDate(e.target.value)}
+                    className={inputCls}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500">
+                    Свободное время{slotsData ? ` · ${slotsData.durationMinutes} мин` : ''}
+                  </label>
+                  {slotsLoading ? (
+                    <p className="mt-1 text-sm text-gray-400">Подбор слотов...</p>
+                  ) : !slotsData?.slots.length ? (
+                    <p className="mt-1 text-sm text-gray-400">Нет свободного времени на эту дату</p>
+                  ) : (
+                    <div className="mt-1 flex flex-wrap gap-1.5">
+                      {slotsData.slots.map((s) => (
+                        <button
+                          key={s.start}
+                          type="button"
+                          onClick={() => setSlot(s)}
+                          title={s.serviceBayName ? `Пост: ${s.serviceBayName}` : undefined}
+                          className={`rounded border px-2 py-1 text-xs font-medium ${
+                            slot?.start === s.start
+                              ? 'border-primary-600 bg-primary-600 text-white'
+                              : 'border-gray-300 bg-white text-gray-700 hover:border-primary-400'
+                          }`}
+                        >
+                          {new Date(s.start).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {slot?.serviceBayName && <p className="mt-1 text-xs text-gray-500">Пост: {slot.serviceBayName}</p>}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* --- Source --- */}
@@ -1043,13 +1193,24 @@ function CreateAppointmentModal({
             >
               Отмена
             </button>
-            <button
-              type="submit"
-              disabled={saving}
-              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
-            >
-              {saving ? 'Сохранение...' : 'Записать'}
-            </button>
+            {overbookPayload ? (
+              <button
+                type="button"
+                onClick={handleForceOverbook}
+                disabled={saving}
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {saving ? 'Сохранение...' : 'Записать сверх лимита'}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                {saving ? 'Сохранение...' : 'Записать'}
+              </button>
+            )}
           </div>
         </form>
       </div>
@@ -1138,6 +1299,7 @@ function AppointmentDetailModal({
   const [selectedService, setSelectedService] = useState<{ id: string; name: string; price: string | number; normHours: string | number | null } | null>(null);
   const [selectedPart, setSelectedPart] = useState<{ id: string; name: string; sellPrice: string | number; brand: string | null } | null>(null);
   const [partQty, setPartQty] = useState('1');
+  const plannedPartPrice = useClientPartPrice(selectedPart, appointment?.client.id);
 
   // Load stock info for planned parts
   const partIds = plannedItems.filter((i) => i.type === 'PART' && i.partId).map((i) => i.partId!);
@@ -1146,10 +1308,10 @@ function AppointmentDetailModal({
     queryFn: async () => {
       if (partIds.length === 0) return {};
       const results = await Promise.all(
-        partIds.map((pid) => apiFetch<{ currentStock: number }>(`/parts/${pid}`).catch(() => null)),
+        partIds.map((pid) => apiFetch<{ currentStock: string | number }>(`/parts/${pid}`).catch(() => null)),
       );
       const map: Record<string, number> = {};
-      partIds.forEach((pid, i) => { if (results[i]) map[pid] = results[i]!.currentStock ?? 0; });
+      partIds.forEach((pid, i) => { if (results[i]) map[pid] = Number(results[i]!.currentStock ?? 0); });
       return map;
     },
     enabled: partIds.length > 0,
@@ -1232,12 +1394,12 @@ function AppointmentDetailModal({
   }
 
   function handleAddPlannedPart() {
-    if (!selectedPart) return;
+    if (!selectedPart || plannedPartPrice === undefined) return;
     setPlannedItems([...plannedItems, {
       type: 'PART',
       description: selectedPart.name,
       quantity: Number(partQty) || 1,
-      unitPrice: Number(selectedPart.sellPrice),
+      unitPrice: plannedPartPrice,
       partId: selectedPart.id,
       brand: selectedPart.brand,
     }]);
@@ -1696,13 +1858,13 @@ function AppointmentDetailModal({
                               />
                               {selectedPart && (
                                 <div className="rounded bg-white px-3 py-2 text-xs text-gray-600">
-                                  {selectedPart.name} — {formatMoney(selectedPart.sellPrice)}
+                                  {selectedPart.name} — {plannedPartPrice === undefined ? '...' : formatMoney(plannedPartPrice)}
                                 </div>
                               )}
                               <input type="number" min={1} value={partQty} onChange={(e) => setPartQty(e.target.value)} placeholder="Кол-во" className={inputCls} />
                               <div className="flex gap-2">
                                 <button type="button" onClick={() => { setShowAddPlanned(false); setSelectedPart(null); setPartQty('1'); }} className="flex-1 rounded border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50">Отмена</button>
-                                <button type="button" onClick={handleAddPlannedPart} disabled={!selectedPart} className="flex-1 rounded bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 disabled:opacity-50">Добавить</button>
+                                <button type="button" onClick={handleAddPlannedPart} disabled={!selectedPart || plannedPartPrice === undefined} className="flex-1 rounded bg-primary-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-primary-700 disabled:opacity-50">Добавить</button>
                               </div>
                             </div>
                           ) : (
@@ -2148,6 +2310,13 @@ function WorkOrderDetailModal({
   const [selectedService, setSelectedService] = useState<{ id: string; name: string; price: string | number; normHours: string | number | null } | null>(null);
   const [selectedPart, setSelectedPart] = useState<{ id: string; name: string; sellPrice: string | number; brand: string | null } | null>(null);
   const [partQty, setPartQty] = useState('1');
+  const [partWarehouseId, setPartWarehouseId] = useState('');
+  const partPrice = useClientPartPrice(selectedPart, wo?.client?.id);
+
+  const { data: warehouses } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
 
   if (wo && !initialized) {
     setComplaints(wo.clientComplaints || '');
@@ -2339,18 +2508,20 @@ function WorkOrderDetailModal({
     setSaving(true);
     setError('');
     try {
+      // Цену для группы клиента подставляет API — та же, что показана в превью
       await apiFetch(`/work-orders/${workOrderId}/items`, {
         method: 'POST',
         body: JSON.stringify({
           type: 'PART',
           description: selectedPart.name,
           quantity: Number(partQty) || 1,
-          unitPrice: Number(selectedPart.sellPrice),
           partId: selectedPart.id,
+          warehouseId: partWarehouseId || undefined,
         }),
       });
       setSelectedPart(null);
       setPartQty('1');
+      setPartWarehouseId('');
       setShowAddItem(false);
       queryClient.invalidateQueries({ queryKey: ['work-order-detail', workOrderId] });
     } catch (err: any) {
@@ -2555,8 +2726,12 @@ function WorkOrderDetailModal({
                     setSelectedService={setSelectedService}
                     selectedPart={selectedPart}
                     setSelectedPart={setSelectedPart}
+                    partPrice={partPrice}
                     partQty={partQty}
                     setPartQty={setPartQty}
+                    partWarehouseId={partWarehouseId}
+                    setPartWarehouseId={setPartWarehouseId}
+                    warehouses={warehouses || []}
                     saving={saving}
                     onAddLabor={handleAddLabor}
                     onAddPart={handleAddPart}
@@ -3200,8 +3375,12 @@ function ItemsSection({
   setSelectedService,
   selectedPart,
   setSelectedPart,
+  partPrice,
   partQty,
   setPartQty,
+  partWarehouseId,
+  setPartWarehouseId,
+  warehouses,
   saving,
   onAddLabor,
   onAddPart,
@@ -3226,8 +3405,12 @@ function ItemsSection({
   setSelectedService: (v: { id: string; name: string; price: string | number; normHours: string | number | null } | null) => void;
   selectedPart: { id: string; name: string; sellPrice: string | number; brand: string | null } | null;
   setSelectedPart: (v: { id: string; name: string; sellPrice: string | number; brand: string | null } | null) => void;
+  partPrice: number | undefined;
   partQty: string;
   setPartQty: (v: string) => void;
+  partWarehouseId: string;
+  setPartWarehouseId: (v: string) => void;
+  warehouses: { id: string; name: string }[];
   saving: boolean;
   onAddLabor: () => void;
   onAddPart: () => void;
@@ -3419,22 +3602,38 @@ function ItemsSection({
                           placeholder="Кол-во"
                           className={inputCls}
                         />
+                        {warehouses.length > 1 && (
+                          <select
+                            value={partWarehouseId}
+                            onChange={(e) => setPartWarehouseId(e.target.value)}
+                            className={inputCls}
+                          >
+                            <option value="">Склад: автоматически</option>
+                            {warehouses.map((wh) => (
+                              <option key={wh.id} value={wh.id}>{wh.name}</option>
+                            ))}
+                          </select>
+                        )}
                         {selectedPart && (() => {
-                          const total = Number(selectedPart.sellPrice) * (Number(partQty) || 1);
+                          const unitPrice = partPrice ?? Number(selectedPart.sellPrice);
+                          const total = unitPrice * (Number(partQty) || 1);
                           return (
                             <div className="rounded bg-white px-3 py-2 text-xs text-gray-600 space-y-0.5">
                               <div className="flex justify-between"><span>Выбрано:</span><span className="font-medium text-gray-900 truncate ml-2">{selectedPart.name}</span></div>
-                              <div className="flex justify-between"><span>Цена:</span><span className="font-medium">{formatMoney(selectedPart.sellPrice)}</span></div>
+                              <div className="flex justify-between"><span>Цена:</span><span className="font-medium">{partPrice === undefined ? '...' : formatMoney(partPrice)}</span></div>
                               <div className="flex justify-between"><span>Кол-во:</span><span className="font-medium">{Number(partQty) || 1}</span></div>
                               <div className="flex justify-between"><span>Всего:</span><span className="font-semibold text-gray-900">{formatMoney(total)}</span></div>
                               <div className="flex justify-between"><span>в т.ч. НДС:</span><span>{formatVat(total)}</span></div>
                             </div>
                           );
                         })()}
+                        {selectedPart && (
+                          <PartAnalogsHint partId={selectedPart.id} onSelect={(p) => setSelectedPart(p)} />
+                        )}
                         <div className="flex gap-2">
                           <button
                             type="button"
-                            onClick={() => { setShowAddItem(false); setSelectedPart(null); setPartQty('1'); }}
+                            onClick={() => { setShowAddItem(false); setSelectedPart(null); setPartQty('1'); setPartWarehouseId(''); }}
                             className="flex-1 rounded border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
                           >
                             Отмена
@@ -3699,7 +3898,26 @@ function SearchablePartSelect({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const { data } = useQuery<{ data: { id: string; name: string; sellPrice: string | number; brand: string | null; manufacturer: string | null; sku: string | null; currentStock: number }[] }>({
+  const [scanError, setScanError] = useState('');
+
+  // Сканер штрихкодов вводит код и Enter — ищем запчасть по коду и сразу выбираем
+  async function handleScan() {
+    const code = search.trim();
+    if (!code) return;
+    setScanError('');
+    try {
+      const p = await apiFetch<{ id: string; name: string; sellPrice: string | number; brand: string | null; manufacturer: string | null }>(
+        `/parts/lookup?code=${encodeURIComponent(code)}`,
+      );
+      onSelect({ ...p, brand: p.manufacturer || p.brand });
+      setSearch('');
+      setShowDropdown(false);
+    } catch (err: any) {
+      setScanError(err.message || 'Запчасть не найдена');
+    }
+  }
+
+  const { data } = useQuery<{ data: { id: string; name: string; sellPrice: string | number; brand: string | null; manufacturer: string | null; sku: string | null; currentStock: string | number }[] }>({
     queryKey: ['parts-search', debouncedSearch],
     queryFn: () => apiFetch(`/parts?limit=20&sort=name&order=asc&search=${encodeURIComponent(debouncedSearch)}`),
     enabled: debouncedSearch.length >= 2,
@@ -3710,11 +3928,13 @@ function SearchablePartSelect({
       <input
         type="text"
         value={search}
-        onChange={(e) => { setSearch(e.target.value); setShowDropdown(true); }}
+        onChange={(e) => { setSearch(e.target.value); setShowDropdown(true); setScanError(''); }}
         onFocus={() => { if (search.length >= 2) setShowDropdown(true); }}
-        placeholder="Введите название или артикул (мин. 2 символа)..."
+        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleScan(); } }}
+        placeholder="Название, артикул или штрихкод (мин. 2 символа)..."
         className={inputClassName}
       />
+      {scanError && <p className="mt-1 text-xs text-red-600">{scanError}</p>}
       {showDropdown && data?.data && data.data.length > 0 && (
         <div className="absolute z-50 mt-1 max-h-72 w-full overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg">
           <div className="sticky top-0 grid grid-cols-[1fr_minmax(80px,auto)_auto_auto_auto] gap-2 border-b border-gray-100 bg-gray-50 px-3 py-1.5 text-[11px] font-medium uppercase tracking-wide text-gray-400">
@@ -3734,7 +3954,7 @@ function SearchablePartSelect({
               <span className="text-sm text-gray-900 truncate">{p.name}</span>
               <span className="text-xs text-gray-500 truncate">{p.manufacturer || p.brand || '—'}</span>
               <span className="w-28 truncate text-right text-xs text-gray-400">{p.sku || '—'}</span>
-              <span className={`w-16 text-center text-xs font-medium ${p.currentStock > 0 ? 'text-green-600' : 'text-red-500'}`}>{p.currentStock ?? 0}</span>
+              <span className={`w-16 text-center text-xs font-medium ${Number(p.currentStock) > 0 ? 'text-green-600' : 'text-red-500'}`}>{Number(p.currentStock ?? 0)}</span>
               <span className="w-24 text-right text-xs text-gray-500 whitespace-nowrap">{formatMoney(p.sellPrice)}</span>
             </button>
           ))}
@@ -3749,6 +3969,54 @@ function SearchablePartSelect({
   );
 }
 
+interface PartAnalogsResponse {
+  part: { id: string; name: string; available: number };
+  analogs: { id: string; name: string; brand: string | null; manufacturer: string | null; sku: string | null; oemNumber: string | null; sellPrice: number; available: number; matchedBy: 'OEM' | 'GROUP' }[];
+}
+
+/** Если выбранной запчасти нет в наличии — предлагает аналоги со склада */
+function PartAnalogsHint({
+  partId,
+  onSelect,
+}: {
+  partId: string;
+  onSelect: (part: { id: string; name: string; sellPrice: string | number; brand: string | null }) => void;
+}) {
+  const { data } = useQuery<PartAnalogsResponse>({
+    queryKey: ['part-analogs', partId],
+    queryFn: () => apiFetch(`/parts/${partId}/analogs?inStock=true`),
+  });
+
+  if (!data || data.part.available > 0) return null;
+
+  return (
+    <div className="rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs">
+      <p className="font-medium text-amber-800">
+        Нет в наличии{data.analogs.length > 0 ? ' — есть аналоги на складе:' : ', аналогов на складе нет'}
+      </p>
+      {data.analogs.length > 0 && (
+        <div className="mt-1.5 space-y-1">
+          {data.analogs.map((a) => (
+            <button
+              key={a.id}
+              type="button"
+              onClick={() => onSelect({ id: a.id, name: a.name, sellPrice: a.sellPrice, brand: a.manufacturer || a.brand })}
+              className="grid w-full grid-cols-[1fr_auto_auto] gap-2 rounded bg-white px-2 py-1.5 text-left hover:bg-primary-50"
+            >
+              <span className="truncate text-gray-900">
+                {a.name}
+                <span className="ml-1 text-gray-400">{a.manufacturer || a.brand || ''} {a.sku || a.oemNumber || ''}</span>
+              </span>
+              <span className="font-medium text-green-600">{a.available}</span>
+              <span className="w-20 text-right text-gray-500 whitespace-nowrap">{formatMoney(a.sellPrice)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // --- AI Work Order Modal ---
 
 type AiModalStep = 'input' | 'parsing' | 'preview' | 'creating' | 'done';
@@ -3894,6 +4162,7 @@ function AiWorkOrderModal({ onClose, onSuccess }: { onClose: () => void; onSucce
           complaint: editComplaints,
           currentServices: preview.suggestedServices.map((s) => ({ serviceId: s.serviceId, name: s.name })),
           currentParts: preview.suggestedParts.map((p) => ({ partId: p.partId, name: p.name })),
+          clientId: preview.client.existingId || undefined,
         }),
       });
       setPreview({
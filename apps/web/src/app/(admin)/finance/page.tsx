@@ -1,10 +1,502 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+// ===== Types =====
+
+type TransactionType = 'INCOME' | 'EXPENSE';
+
+interface Transaction {
+  id: string;
+  type: TransactionType;
+  amount: string;
+  category: string | null;
+  description: string | null;
+  date: string;
+  workOrderId: string | null;
+  workOrder: { id: string; orderNumber: string; status: string } | null;
+}
+
+interface TransactionsResponse {
+  data: Transaction[];
+  meta: { total: number; page: number; limit: number; totalPages: number };
+  summary: { income: number; expense: number; net: number };
+}
+
+interface BalanceDay {
+  date: string;
+  income: number;
+  expense: number;
+  balance: number;
+}
+
+interface BalanceResponse {
+  openingBalance: number;
+  income: number;
+  expense: number;
+  closingBalance: number;
+  days: BalanceDay[];
+}
+
+type Categories = Record<TransactionType, string[]>;
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  INCOME: 'Приход',
+  EXPENSE: 'Расход',
+};
+
+function formatPrice(price: string | number): string {
+  return Number(price).toLocaleString('ru-RU', { style: 'currency', currency: 'RUB', maximumFractionDigits: 0 });
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function toDateInput(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function monthStart(): string {
+  const now = new Date();
+  return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+}
+
+// ===== Main Page =====
+
 export default function FinancePage() {
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<'transactions' | 'balance'>('transactions');
+  const [from, setFrom] = useState(monthStart());
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [type, setType] = useState<'' | TransactionType>('');
+  const [category, setCategory] = useState('');
+  const [page, setPage] = useState(1);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<Transaction | null>(null);
+
+  // "to" включает весь выбранный день
+  const range = `from=${from}&to=${to}T23:59:59.999Z`;
+
+  const { data: categories } = useQuery<Categories>({
+    queryKey: ['finance-categories'],
+    queryFn: () => apiFetch('/finance/categories'),
+  });
+
+  const { data, isLoading } = useQuery<TransactionsResponse>({
+    queryKey: ['transactions', page, from, to, type, category],
+    queryFn: () =>
+      apiFetch(
+        `/finance/transactions?page=${page}&limit=20&${range}${type ? `&type=${type}` : ''}${category ? `&category=${encodeURIComponent(category)}` : ''}`,
+      ),
+  });
+
+  const { data: balance } = useQuery<BalanceResponse>({
+    queryKey: ['finance-balance', from, to],
+    queryFn: () => apiFetch(`/finance/balance?${range}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/finance/transactions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => invalidate(),
+  });
+
+  function invalidate() {
+    queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['finance-balance'] });
+    queryClient.invalidateQueries({ queryKey: ['finance-categories'] });
+  }
+
+  function handleDelete(t: Transaction) {
+    if (confirm(`Удалить операцию на ${formatPrice(t.amount)}?`)) {
+      deleteMutation.mutate(t.id);
+    }
+  }
+
+  const allCategories = categories
+    ? type ? categories[type] : [...categories.INCOME, ...categories.EXPENSE]
+    : [];
+
   return (
     <div>
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Финансы</h1>
+        <button
+          onClick={() => { setEditing(null); setShowModal(true); }}
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+        >
+          Добавить операцию
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <span className="text-gray-400">—</span>
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => { setTo(e.target.value); setPage(1); }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <select
+          value={type}
+          onChange={(e) => { setType(e.target.value as any); setCategory(''); setPage(1); }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          <option value="">Все операции</option>
+          <option value="INCOME">Приход</option>
+          <option value="EXPENSE">Расход</option>
+        </select>
+        <select
+          value={category}
+          onChange={(e) => { setCategory(e.target.value); setPage(1); }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          <option value="">Все категории</option>
+          {allCategories.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+      </div>
+
+      {balance && (
+        <div className="mt-4 grid grid-cols-2 gap-4 lg:grid-cols-4">
+          <SummaryCard label="Остаток на начало" value={balance.openingBalance} />
+          <SummaryCard label="Приход" value={balance.income} className="text-green-700" />
+          <SummaryCard label="Расход" value={balance.expense} className="text-red-600" />
+          <SummaryCard label="Остаток на конец" value={balance.closingBalance} />
+        </div>
+      )}
+
+      <div className="mt-6 flex gap-1 border-b border-gray-200">
+        {(['transactions', 'balance'] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+              tab === t
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {t === 'transactions' ? 'Операции' : 'Движение по дням'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'balance' ? (
+        <BalanceTable balance={balance} />
+      ) : isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : !data?.data.length ? (
+        <div className="mt-8 text-center text-gray-500">Операций за период нет</div>
+      ) : (
+        <>
+          <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Дата</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Тип</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Категория</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Описание</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Заказ-наряд</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Сумма</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {data.data.map((t) => (
+                  <tr key={t.id} className="hover:bg-gray-50">
+                    <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{formatDate(t.date)}</td>
+                    <td className="whitespace-nowrap px-4 py-3">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                          t.type === 'INCOME' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {TYPE_LABELS[t.type]}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{t.category || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{t.description || '—'}</td>
+                    <td className="whitespace-nowrap px-4 py-3 text-sm">
+                      {t.workOrder ? (
+                        <a href={`/work-orders/${t.workOrder.id}`} className="text-primary-600 hover:text-primary-800">
+                          {t.workOrder.orderNumber}
+                        </a>
+                      ) : '—'}
+                    </td>
+                    <td
+                      className={`whitespace-nowrap px-4 py-3 text-right text-sm font-medium ${
+                        t.type === 'INCOME' ? 'text-green-700' : 'text-red-600'
+                      }`}
+                    >
+                      {t.type === 'INCOME' ? '+' : '−'}{formatPrice(t.amount)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                      <button
+                        onClick={() => { setEditing(t); setShowModal(true); }}
+                        className="text-primary-600 hover:text-primary-800"
+                      >
+                        Изменить
+                      </button>
+                      <button onClick={() => handleDelete(t)} className="ml-3 text-red-600 hover:text-red-800">
+                        Удалить
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={5} className="px-4 py-3 text-sm font-medium text-gray-700">
+                    Итого по фильтру: приход {formatPrice(data.summary.income)}, расход {formatPrice(data.summary.expense)}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm font-bold text-gray-900">
+                    {formatPrice(data.summary.net)}
+                  </td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {data.meta.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Всего: {data.meta.total}. Страница {data.meta.page} из {data.meta.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Назад
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(data.meta.totalPages, p + 1))}
+                  disabled={page === data.meta.totalPages}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Вперёд
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {showModal && (
+        <TransactionModal
+          transaction={editing}
+          categories={categories}
+          onClose={() => setShowModal(false)}
+          onSuccess={() => {
+            setShowModal(false);
+            invalidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, className }: { label: string; value: number; className?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <p className="text-xs font-medium uppercase text-gray-500">{label}</p>
+      <p className={`mt-1 text-xl font-bold ${className || 'text-gray-900'}`}>{formatPrice(value)}</p>
+    </div>
+  );
+}
+
+// ===== Balance by day =====
+
+function BalanceTable({ balance }: { balance?: BalanceResponse }) {
+  if (!balance) return <div className="mt-8 text-center text-gray-500">Загрузка...</div>;
+  if (!balance.days.length) return <div className="mt-8 text-center text-gray-500">Операций за период нет</div>;
+
+  return (
+    <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Дата</th>
+            <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Приход</th>
+            <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Расход</th>
+            <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Остаток</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {balance.days.map((d) => (
+            <tr key={d.date} className="hover:bg-gray-50">
+              <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{formatDate(d.date)}</td>
+              <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-green-700">
+                {d.income > 0 ? formatPrice(d.income) : '—'}
+              </td>
+              <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-red-600">
+                {d.expense > 0 ? formatPrice(d.expense) : '—'}
+              </td>
+              <td className={`whitespace-nowrap px-4 py-3 text-right text-sm font-medium ${d.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatPrice(d.balance)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ===== Modal =====
+
+function TransactionModal({
+  transaction,
+  categories,
+  onClose,
+  onSuccess,
+}: {
+  transaction: Transaction | null;
+  categories?: Categories;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [type, setType] = useState<TransactionType>(transaction?.type || 'EXPENSE');
+  const [amount, setAmount] = useState(transaction ? String(transaction.amount) : '');
+  const [category, setCategory] = useState(transaction?.category || '');
+  const [description, setDescription] = useState(transaction?.description || '');
+  const [date, setDate] = useState(transaction ? transaction.date.slice(0, 10) : toDateInput(new Date()));
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    const body = {
+      type,
+      amount: Number(amount),
+      category: category || undefined,
+      description: description || undefined,
+      date,
+    };
+
+    try {
+      if (transaction) {
+        await apiFetch(`/finance/transactions/${transaction.id}`, { method: 'PATCH', body: JSON.stringify(body) });
+      } else {
+        await apiFetch('/finance/transactions', { method: 'POST', body: JSON.stringify(body) });
+      }
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">
+          {transaction ? 'Редактировать операцию' : 'Новая операция'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Тип *</label>
+              <select
+                value={type}
+                onChange={(e) => { setType(e.target.value as TransactionType); setCategory(''); }}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              >
+                <option value="INCOME">Приход</option>
+                <option value="EXPENSE">Расход</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Сумма (руб.) *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Категория</label>
+              <input
+                list="transaction-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="Выберите или введите"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              />
+              <datalist id="transaction-categories">
+                {(categories?.[type] || []).map((c) => (
+                  <option key={c} value={c} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Дата *</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Описание</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Сохранение...' : transaction ? 'Сохранить' : 'Создать'}
+            </button>
+          </div>
+        </form>
       </div>
-      <p className="mt-4 text-gray-600">Финансовые отчёты будут здесь.</p>
     </div>
   );
 }
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiFetch } from '@/lib/api';
+import { apiFetch, apiDownload } from '@/lib/api';
+import Link from 'next/link';
 
 // ===== Types =====
 
@@ -47,13 +48,255 @@ interface Part {
   oemNumber: string | null;
   costPrice: string;
   sellPrice: string;
-  currentStock: number;
-  minStock: number;
+  currentStock: string | number;
+  minStock: string | number;
+  unit: string;
+  purchaseUnit: string | null;
+  purchaseUnitFactor: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface ReorderSuggestion {
+  partId: string;
+  partName: string;
+  sku: string | null;
   unit: string;
+  available: number;
+  minStock: number;
+  openDemand: number;
+  onOrder: number;
+  suggestedQty: number;
+  purchaseUnit: string;
+  unitCost: number;
+}
+
+interface ReplenishmentResponse {
+  warehouse: { id: string; name: string };
+  groups: Array<{
+    supplierId: string | null;
+    supplierName: string | null;
+    totalCost: number;
+    items: ReorderSuggestion[];
+  }>;
+}
+
+interface SupplierOffer {
+  supplierId: string;
+  supplierName: string;
+  supplierSku: string | null;
+  price: number;
+  leadTimeDays: number | null;
+}
+
+interface SupplierOffersResponse {
+  offers: SupplierOffer[];
+  cheapestSupplierId: string | null;
+  fastestSupplierId: string | null;
+}
+
+interface PurchaseOrderDraft {
+  id: string;
+  number: string;
+  totalCost: string;
+  notes: string | null;
+  createdAt: string;
+  supplier: { id: string; name: string };
+  _count: { items: number };
+}
+
+interface StorageLocation {
+  id: string;
+  code: string;
+  zone: string | null;
+  rack: string | null;
+  shelf: string | null;
+  isActive: boolean;
+  partsCount: number;
+  totalQuantity: number;
+}
+
+interface LocationStockEntry {
+  id: string;
+  quantity: number;
+  part: { id: string; name: string; sku: string | null; unit: string };
+}
+
+interface PartPlacement {
+  warehouseId: string;
+  warehouseName: string;
+  quantity: number;
+  locations: Array<{ id: string; code: string; quantity: number }>;
+  unplaced: number;
+}
+
+interface StocktakeListItem {
+  id: string;
+  number: string;
+  status: 'IN_PROGRESS' | 'APPROVED' | 'CANCELLED';
+  notes: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+  warehouse: { id: string; name: string };
+  _count: { items: number };
+}
+
+const STOCKTAKE_STATUS_LABELS: Record<StocktakeListItem['status'], string> = {
+  IN_PROGRESS: 'В работе',
+  APPROVED: 'Утверждена',
+  CANCELLED: 'Отменена',
+};
+
+const STOCKTAKE_STATUS_COLORS: Record<StocktakeListItem['status'], string> = {
+  IN_PROGRESS: 'bg-amber-100 text-amber-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+interface MarkupRule {
+  id: string;
+  name: string;
+  priority: number;
+  brand: string | null;
+  manufacturer: string | null;
+  minCost: string | null;
+  maxCost: string | null;
+  clientGroup: string | null;
+  markupPercent: string;
+  roundTo: string | null;
   isActive: boolean;
+  supplierId: string | null;
+  supplier: { id: string; name: string } | null;
+}
+
+interface PriceChange {
+  partId: string;
+  name: string;
+  sku: string | null;
+  brand: string | null;
+  costPrice: number;
+  currentPrice: number;
+  newPrice: number;
+  ruleId: string;
+  ruleName: string;
+}
+
+interface PriceHistoryEntry {
+  id: string;
+  source: 'MANUAL' | 'RECEIPT' | 'MARKUP_RULES';
+  prevCostPrice: string;
+  costPrice: string;
+  prevSellPrice: string;
+  sellPrice: string;
+  reference: string | null;
+  createdAt: string;
+  rule: { id: string; name: string } | null;
+}
+
+const PRICE_SOURCE_LABELS: Record<PriceHistoryEntry['source'], string> = {
+  MANUAL: 'Вручную',
+  RECEIPT: 'Приход',
+  MARKUP_RULES: 'Правила наценки',
+};
+
+interface StockReservation {
+  id: string;
+  quantity: string;
+  consumedQty: string;
+  status: 'ACTIVE' | 'CONSUMED' | 'RELEASED' | 'EXPIRED';
+  expiresAt: string | null;
   createdAt: string;
+  part: { id: string; name: string; sku: string | null; unit: string };
+  warehouse: { id: string; name: string };
+  workOrderItem: {
+    id: string;
+    description: string;
+    workOrder: {
+      id: string;
+      orderNumber: string;
+      status: string;
+      client: { id: string; firstName: string; lastName: string } | null;
+      vehicle: { make: string; model: string; licensePlate: string | null } | null;
+      mechanic: { id: string; firstName: string; lastName: string } | null;
+    };
+  };
+}
+
+type InventoryReport = 'valuation' | 'dead-stock' | 'turnover' | 'abc-xyz';
+
+const REPORT_LABELS: Record<InventoryReport, string> = {
+  valuation: 'Оценка склада',
+  'dead-stock': 'Неликвид',
+  turnover: 'Оборачиваемость',
+  'abc-xyz': 'ABC/XYZ',
+};
+
+interface ValuationReport {
+  date: string;
+  totals: { quantity: number; costValue: number; sellValue: number };
+  warehouses: Array<{ warehouseId: string; warehouseName: string; quantity: number; costValue: number; sellValue: number }>;
+}
+
+interface DeadStockReport {
+  days: number;
+  totals: { positions: number; costValue: number; sellValue: number };
+  items: Array<{
+    warehouseId: string;
+    warehouseName: string;
+    partId: string;
+    name: string;
+    sku: string | null;
+    unit: string;
+    quantity: number;
+    costValue: number;
+    lastMovementAt: string | null;
+    daysIdle: number | null;
+  }>;
+}
+
+interface TurnoverReport {
+  periodDays: number;
+  totals: { averageValue: number; consumedCost: number; turnover: number | null; daysOfStock: number | null };
+  items: Array<{
+    partId: string;
+    name: string;
+    sku: string | null;
+    averageValue: number;
+    consumedCost: number;
+    turnover: number | null;
+    daysOfStock: number | null;
+  }>;
+}
+
+interface AbcXyzReport {
+  months: string[];
+  totals: { revenue: number; parts: number };
+  matrix: Record<string, number>;
+  items: Array<{
+    partId: string;
+    name: string;
+    sku: string | null;
+    revenue: number;
+    share: number;
+    quantity: number;
+    cv: number | null;
+    group: string;
+  }>;
+}
+
+interface PartBarcode {
+  id: string;
+  code: string;
+  format: 'EAN13' | 'EAN8' | 'CODE128';
+  isManufacturer: boolean;
 }
 
+const BARCODE_FORMAT_LABELS: Record<PartBarcode['format'], string> = {
+  EAN13: 'EAN-13',
+  EAN8: 'EAN-8',
+  CODE128: 'Code 128',
+};
+
 interface PaginatedResponse<T> {
   data: T[];
   meta: { total: number; page: number; limit: number; totalPages: number };
@@ -66,7 +309,7 @@ function formatPrice(price: string | number): string {
 // ===== Main Page =====
 
 export default function InventoryPage() {
-  const [tab, setTab] = useState<'stock' | 'parts'>('stock');
+  const [tab, setTab] = useState<'stock' | 'parts' | 'locations' | 'replenishment' | 'stocktakes' | 'pricing' | 'reports'>('stock');
 
   return (
     <div>
@@ -95,171 +338,1797 @@ export default function InventoryPage() {
         >
           Каталог запчастей
         </button>
+        <button
+          onClick={() => setTab('locations')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'locations'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Места хранения
+        </button>
+        <button
+          onClick={() => setTab('replenishment')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'replenishment'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Пополнение
+        </button>
+        <button
+          onClick={() => setTab('stocktakes')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'stocktakes'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Инвентаризация
+        </button>
+        <button
+          onClick={() => setTab('pricing')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'pricing'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Наценки
+        </button>
+        <button
+          onClick={() => setTab('reports')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'reports'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Отчёты
+        </button>
+      </div>
+
+      <div className="mt-4">
+        {tab === 'stock' && <StockTab />}
+        {tab === 'parts' && <PartsTab />}
+        {tab === 'locations' && <LocationsTab />}
+        {tab === 'replenishment' && <ReplenishmentTab />}
+        {tab === 'stocktakes' && <StocktakesTab />}
+        {tab === 'pricing' && <PricingTab />}
+        {tab === 'reports' && <ReportsTab />}
+      </div>
+    </div>
+  );
+}
+
+// ===== Stock Tab =====
+
+function StockTab() {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reservationsPart, setReservationsPart] = useState<StockItem | null>(null);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
+
+  const { data, isLoading } = useQuery<PaginatedResponse<StockItem>>({
+    queryKey: ['stock-summary', page, search, warehouseId],
+    queryFn: () =>
+      apiFetch(
+        `/inventory/stock/summary?page=${page}&limit=50${search ? `&search=${encodeURIComponent(search)}` : ''}${warehouseId ? `&warehouseId=${warehouseId}` : ''}`,
+      ),
+  });
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          placeholder="Поиск по названию, артикулу, бренду, штрихкоду..."
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          className="w-full max-w-sm rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        {warehouses && warehouses.length > 0 && (
+          <select
+            value={warehouseId}
+            onChange={(e) => { setWarehouseId(e.target.value); setPage(1); }}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            <option value="">Все склады</option>
+            {warehouses.map((wh) => (
+              <option key={wh.id} value={wh.id}>{wh.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : !data?.data.length ? (
+        <div className="mt-8 text-center text-gray-500">Нет данных об остатках</div>
+      ) : (
+        <>
+          <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Название</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Артикул</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Производитель</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Остаток</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Резерв</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Свободно</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Ед.</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Цена</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {data.data.map((item) => (
+                  <>
+                    <tr
+                      key={item.id}
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                        {item.brand && (
+                          <div className="text-xs text-gray-500">{item.brand}</div>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                        {item.sku || '—'}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                        {item.manufacturer || '—'}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right font-medium">
+                        <span className={item.totalQuantity <= item.minStock ? 'text-red-600' : 'text-gray-900'}>
+                          {item.totalQuantity}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right text-orange-600">
+                        {item.totalReserved > 0 ? (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setReservationsPart(item); }}
+                            className="underline decoration-dotted hover:text-orange-800"
+                            title="Кто держит резерв"
+                          >
+                            {item.totalReserved}
+                          </button>
+                        ) : '—'}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right font-medium text-green-700">
+                        {item.available}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                        {item.unit}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right text-gray-900 font-medium">
+                        {formatPrice(item.sellPrice)}
+                      </td>
+                    </tr>
+                    {expandedId === item.id && item.warehouses.length > 0 && (
+                      <tr key={`${item.id}-detail`}>
+                        <td colSpan={8} className="bg-gray-50 px-8 py-2">
+                          <div className="text-xs text-gray-500 mb-1 font-medium">Разбивка по складам:</div>
+                          <div className="flex flex-wrap gap-4">
+                            {item.warehouses.map((wh) => (
+                              <div key={wh.warehouseId} className="flex items-center gap-2 text-sm">
+                                <span className="text-gray-600">{wh.warehouseName}:</span>
+                                <span className="font-medium">{wh.quantity}</span>
+                                {wh.reserved > 0 && (
+                                  <span className="text-orange-600 text-xs">(резерв: {wh.reserved})</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {data.meta.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                Всего: {data.meta.total}. Страница {data.meta.page} из {data.meta.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Назад
+                </button>
+                <button
+                  onClick={() => setPage((p) => Math.min(data.meta.totalPages, p + 1))}
+                  disabled={page === data.meta.totalPages}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Вперёд
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {reservationsPart && (
+        <ReservationsModal
+          part={reservationsPart}
+          warehouses={warehouses ?? []}
+          onClose={() => setReservationsPart(null)}
+        />
+      )}
+    </>
+  );
+}
+
+function ReservationsModal({ part, warehouses, onClose }: { part: StockItem; warehouses: Warehouse[]; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [transferId, setTransferId] = useState<string | null>(null);
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useQuery<PaginatedResponse<StockReservation>>({
+    queryKey: ['reservations', part.id],
+    queryFn: () => apiFetch(`/inventory/reservations?partId=${part.id}&limit=100`),
+  });
+
+  const onSuccess = () => {
+    setError('');
+    setTransferId(null);
+    queryClient.invalidateQueries({ queryKey: ['reservations', part.id] });
+    queryClient.invalidateQueries({ queryKey: ['stock-summary'] });
+  };
+  const onError = (err: Error) => setError(err.message);
+
+  const releaseMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/inventory/reservations/${id}/release`, { method: 'POST' }),
+    onSuccess,
+    onError,
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiFetch(`/inventory/reservations/${id}/transfer`, {
+        method: 'POST',
+        body: JSON.stringify({ toWarehouseId }),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  const expiryMutation = useMutation({
+    mutationFn: ({ id, expiresAt }: { id: string; expiresAt: string | null }) =>
+      apiFetch(`/inventory/reservations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ expiresAt }),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-4xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Резервы</h2>
+        <p className="text-sm text-gray-500">{part.name}{part.sku ? ` · ${part.sku}` : ''}</p>
+        {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+        <div className="mt-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Загрузка...</p>
+          ) : !data?.data.length ? (
+            <p className="text-sm text-gray-500">Активных резервов нет</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Заказ-наряд</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Клиент</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Склад</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Кол-во</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">До</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {data.data.map((r) => {
+                    const wo = r.workOrderItem.workOrder;
+                    return (
+                      <tr key={r.id}>
+                        <td className="whitespace-nowrap px-3 py-2">
+                          <Link href={`/work-orders/${wo.id}`} className="font-medium text-primary-600 hover:underline">
+                            {wo.orderNumber}
+                          </Link>
+                          {wo.vehicle && (
+                            <div className="text-xs text-gray-400">
+                              {wo.vehicle.make} {wo.vehicle.model} {wo.vehicle.licensePlate ?? ''}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {wo.client ? `${wo.client.lastName} ${wo.client.firstName}` : '—'}
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-2 text-gray-600">{r.warehouse.name}</td>
+                        <td className="whitespace-nowrap px-3 py-2 text-right font-medium text-gray-900">
+                          {Number(r.quantity)} {r.part.unit}
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-2">
+                          <input
+                            type="date"
+                            value={r.expiresAt ? r.expiresAt.slice(0, 10) : ''}
+                            onChange={(e) =>
+                              expiryMutation.mutate({
+                                id: r.id,
+                                expiresAt: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null,
+                              })
+                            }
+                            className="rounded border border-gray-300 px-2 py-1 text-xs"
+                          />
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-2 text-right">
+                          {transferId === r.id ? (
+                            <div className="flex items-center justify-end gap-2">
+                              <select
+                                value={toWarehouseId}
+                                onChange={(e) => setToWarehouseId(e.target.value)}
+                                className="rounded border border-gray-300 px-2 py-1 text-xs"
+                              >
+                                <option value="">Склад...</option>
+                                {warehouses
+                                  .filter((wh) => wh.id !== r.warehouse.id)
+                                  .map((wh) => (
+                                    <option key={wh.id} value={wh.id}>{wh.name}</option>
+                                  ))}
+                              </select>
+                              <button
+                                onClick={() => transferMutation.mutate(r.id)}
+                                disabled={!toWarehouseId || transferMutation.isPending}
+                                className="text-xs font-medium text-primary-600 hover:underline disabled:opacity-50"
+                              >
+                                OK
+                              </button>
+                              <button onClick={() => setTransferId(null)} className="text-xs text-gray-500 hover:underline">
+                                Отмена
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center justify-end gap-3">
+                              <button
+                                onClick={() => { setTransferId(r.id); setToWarehouseId(''); }}
+                                className="text-xs text-primary-600 hover:underline"
+                              >
+                                Перенести
+                              </button>
+                              <button
+                                onClick={() => {
+                                  if (confirm(`Снять резерв по ${wo.orderNumber}?`)) releaseMutation.mutate(r.id);
+                                }}
+                                disabled={releaseMutation.isPending}
+                                className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                              >
+                                Снять
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button type="button" onClick={onClose}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">Закрыть</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ===== Replenishment Tab =====
+
+function ReplenishmentTab() {
+  const queryClient = useQueryClient();
+  const [warehouseId, setWarehouseId] = useState('');
+  const [error, setError] = useState('');
+  const [skipped, setSkipped] = useState<ReorderSuggestion[]>([]);
+  // Поставщик, выбранный из предложений вместо самого дешёвого по прайсу
+  const [chosen, setChosen] = useState<Record<string, SupplierOffer>>({});
+  const [offersPartId, setOffersPartId] = useState<string | null>(null);
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
+
+  const activeWarehouseId = warehouseId || warehouses?.[0]?.id || '';
+
+  const { data: suggestions, isLoading } = useQuery<ReplenishmentResponse>({
+    queryKey: ['replenishment', activeWarehouseId],
+    queryFn: () => apiFetch(`/purchase-orders/replenishment?warehouseId=${activeWarehouseId}`),
+    enabled: !!activeWarehouseId,
+  });
+
+  const { data: drafts } = useQuery<PaginatedResponse<PurchaseOrderDraft>>({
+    queryKey: ['purchase-orders', 'DRAFT'],
+    queryFn: () => apiFetch('/purchase-orders?status=DRAFT&limit=100'),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['replenishment'] });
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      apiFetch<{ created: unknown[]; skipped: ReorderSuggestion[] }>('/purchase-orders/replenishment', {
+        method: 'POST',
+        body: JSON.stringify({
+          warehouseId: activeWarehouseId,
+          suppliers: Object.fromEntries(Object.entries(chosen).map(([partId, offer]) => [partId, offer.supplierId])),
+        }),
+      }),
+    onSuccess: (res) => {
+      setError('');
+      setSkipped(res.skipped);
+      setChosen({});
+      setOffersPartId(null);
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка формирования заказов'),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (ids: string[]) =>
+      apiFetch('/purchase-orders/confirm', { method: 'POST', body: JSON.stringify({ ids }) }),
+    onSuccess: () => {
+      setError('');
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка подтверждения заказов'),
+  });
+
+  const groups = suggestions?.groups ?? [];
+  const draftList = drafts?.data ?? [];
+
+  function chooseOffer(partId: string, defaultSupplierId: string | null, offer: SupplierOffer) {
+    setChosen((prev) => {
+      const next = { ...prev };
+      if (offer.supplierId === defaultSupplierId) delete next[partId];
+      else next[partId] = offer;
+      return next;
+    });
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        {warehouses && warehouses.length > 0 && (
+          <select
+            value={activeWarehouseId}
+            onChange={(e) => setWarehouseId(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            {warehouses.map((wh) => (
+              <option key={wh.id} value={wh.id}>{wh.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => generateMutation.mutate()}
+          disabled={!groups.some((g) => g.supplierId || g.items.some((i) => chosen[i.partId])) || generateMutation.isPending}
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          Сформировать черновики
+        </button>
+      </div>
+
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+      {skipped.length > 0 && (
+        <div className="mt-3 rounded-lg bg-amber-50 p-3 text-sm text-amber-700">
+          Без поставщика (не заказаны): {skipped.map((s) => s.partName).join(', ')}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : groups.length === 0 ? (
+        <div className="mt-8 text-center text-gray-500">Пополнение не требуется</div>
+      ) : (
+        <div className="mt-4 space-y-4">
+          {groups.map((group) => (
+            <div key={group.supplierId ?? 'none'} className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+              <div className="flex items-center justify-between bg-gray-50 px-4 py-2">
+                <span className={`text-sm font-semibold ${group.supplierId ? 'text-gray-900' : 'text-amber-600'}`}>
+                  {group.supplierName ?? 'Поставщик не назначен'}
+                </span>
+                <span className="text-sm text-gray-600">
+                  {formatPrice(group.items.reduce((sum, i) => sum + i.suggestedQty * (chosen[i.partId]?.price ?? i.unitCost), 0))}
+                </span>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium uppercase text-gray-500">Запчасть</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Свободно</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Мин.</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Нужно в ЗН</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">В заказе</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Заказать</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Цена</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium uppercase text-gray-500">Поставщик</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {group.items.map((item) => (
+                    <Fragment key={item.partId}>
+                      <tr>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.partName}
+                          {item.sku && <span className="ml-2 text-xs text-gray-500">{item.sku}</span>}
+                        </td>
+                        <td className="px-4 py-2 text-right text-sm text-gray-600">{item.available}</td>
+                        <td className="px-4 py-2 text-right text-sm text-gray-600">{item.minStock}</td>
+                        <td className="px-4 py-2 text-right text-sm text-gray-600">{item.openDemand || '—'}</td>
+                        <td className="px-4 py-2 text-right text-sm text-gray-600">{item.onOrder || '—'}</td>
+                        <td className="px-4 py-2 text-right text-sm font-medium text-gray-900">{item.suggestedQty} {item.purchaseUnit}</td>
+                        <td className="px-4 py-2 text-right text-sm text-gray-600">{formatPrice(chosen[item.partId]?.price ?? item.unitCost)}</td>
+                        <td className="px-4 py-2 text-right text-sm">
+                          <button
+                            type="button"
+                            onClick={() => setOffersPartId(offersPartId === item.partId ? null : item.partId)}
+                            className="text-xs text-primary-600 hover:underline"
+                          >
+                            {chosen[item.partId] ? chosen[item.partId].supplierName : 'Сравнить'}
+                          </button>
+                        </td>
+                      </tr>
+                      {offersPartId === item.partId && (
+                        <SupplierOffersRow
+                          partId={item.partId}
+                          selectedSupplierId={chosen[item.partId]?.supplierId ?? group.supplierId}
+                          onSelect={(offer) => chooseOffer(item.partId, group.supplierId, offer)}
+                        />
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-8 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Черновики заказов поставщикам</h2>
+        {draftList.length > 0 && (
+          <button
+            onClick={() => {
+              if (confirm(`Отправить поставщикам ${draftList.length} заказ(ов)?`)) {
+                confirmMutation.mutate(draftList.map((d) => d.id));
+              }
+            }}
+            disabled={confirmMutation.isPending}
+            className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            Подтвердить все
+          </button>
+        )}
+      </div>
+      {draftList.length === 0 ? (
+        <div className="mt-4 text-center text-sm text-gray-500">Черновиков нет</div>
+      ) : (
+        <div className="mt-3 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Номер</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Поставщик</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Комментарий</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Позиций</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Сумма</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {draftList.map((po) => (
+                <tr key={po.id}>
+                  <td className="whitespace-nowrap px-4 py-3 text-sm font-medium text-gray-900">{po.number}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{po.supplier.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{po.notes || '—'}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{po._count.items}</td>
+                  <td className="px-4 py-3 text-right text-sm font-medium text-gray-900">{formatPrice(po.totalCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Предложения поставщиков по запчасти: цена и срок, отметки самого дешёвого и самого быстрого */
+function SupplierOffersRow({
+  partId,
+  selectedSupplierId,
+  onSelect,
+}: {
+  partId: string;
+  selectedSupplierId: string | null;
+  onSelect: (offer: SupplierOffer) => void;
+}) {
+  const { data, isLoading } = useQuery<SupplierOffersResponse>({
+    queryKey: ['supplier-offers', partId],
+    queryFn: () => apiFetch(`/suppliers/offers?partId=${partId}`),
+  });
+
+  return (
+    <tr>
+      <td colSpan={8} className="bg-gray-50 px-4 py-2">
+        {isLoading ? (
+          <div className="text-xs text-gray-500">Загрузка...</div>
+        ) : !data?.offers.length ? (
+          <div className="text-xs text-gray-500">Нет прайсов поставщиков по этой запчасти</div>
+        ) : (
+          <table className="min-w-full">
+            <tbody>
+              {data.offers.map((offer) => (
+                <tr key={offer.supplierId}>
+                  <td className="py-1 text-sm text-gray-900">
+                    {offer.supplierName}
+                    {offer.supplierSku && <span className="ml-2 text-xs text-gray-500">{offer.supplierSku}</span>}
+                    {offer.supplierId === data.cheapestSupplierId && (
+                      <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">дешевле всех</span>
+                    )}
+                    {offer.supplierId === data.fastestSupplierId && (
+                      <span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">быстрее всех</span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right text-sm text-gray-600">{formatPrice(offer.price)}</td>
+                  <td className="py-1 text-right text-sm text-gray-600">
+                    {offer.leadTimeDays != null ? `${offer.leadTimeDays} дн.` : 'срок не указан'}
+                  </td>
+                  <td className="py-1 text-right">
+                    {offer.supplierId === selectedSupplierId ? (
+                      <span className="text-xs text-gray-500">В заказе</span>
+                    ) : (
+                      <button type="button" onClick={() => onSelect(offer)} className="text-xs text-primary-600 hover:underline">
+                        Выбрать
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ===== Locations Tab =====
+
+function LocationsTab() {
+  const queryClient = useQueryClient();
+  const [warehouseId, setWarehouseId] = useState('');
+  const [zone, setZone] = useState('');
+  const [rack, setRack] = useState('');
+  const [shelf, setShelf] = useState('');
+  const [code, setCode] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [moving, setMoving] = useState<MovePreset | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
+
+  const activeWarehouseId = warehouseId || warehouses?.[0]?.id || '';
+
+  const { data: locations, isLoading } = useQuery<StorageLocation[]>({
+    queryKey: ['locations', activeWarehouseId],
+    queryFn: () => apiFetch(`/inventory/warehouses/${activeWarehouseId}/locations`),
+    enabled: !!activeWarehouseId,
+  });
+
+  const { data: locationStock } = useQuery<LocationStockEntry[]>({
+    queryKey: ['location-stock', expandedId],
+    queryFn: () => apiFetch(`/inventory/locations/${expandedId}/stock`),
+    enabled: !!expandedId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['locations'] });
+    queryClient.invalidateQueries({ queryKey: ['location-stock'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiFetch(`/inventory/warehouses/${activeWarehouseId}/locations`, {
+        method: 'POST',
+        body: JSON.stringify({
+          code: code || undefined,
+          zone: zone || undefined,
+          rack: rack || undefined,
+          shelf: shelf || undefined,
+        }),
+      }),
+    onSuccess: () => {
+      setError('');
+      setCode('');
+      setShelf('');
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка создания места'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/inventory/locations/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      setError('');
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка удаления места'),
+  });
+
+  const inputClass = 'w-24 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3">
+        {warehouses && warehouses.length > 0 && (
+          <select
+            value={activeWarehouseId}
+            onChange={(e) => { setWarehouseId(e.target.value); setExpandedId(null); }}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            {warehouses.map((wh) => (
+              <option key={wh.id} value={wh.id}>{wh.name}</option>
+            ))}
+          </select>
+        )}
+        <form
+          onSubmit={(e) => { e.preventDefault(); createMutation.mutate(); }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <input type="text" value={zone} onChange={(e) => setZone(e.target.value)} placeholder="Зона" className={inputClass} />
+          <input type="text" value={rack} onChange={(e) => setRack(e.target.value)} placeholder="Стеллаж" className={inputClass} />
+          <input type="text" value={shelf} onChange={(e) => setShelf(e.target.value)} placeholder="Полка" className={inputClass} />
+          <input type="text" value={code} onChange={(e) => setCode(e.target.value)} placeholder="Код (авто)" className={inputClass} />
+          <button
+            type="submit"
+            disabled={!activeWarehouseId || (!code && !zone && !rack && !shelf) || createMutation.isPending}
+            className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Добавить место
+          </button>
+        </form>
+        <button
+          onClick={() => setMoving({})}
+          disabled={!locations?.length}
+          className="ml-auto rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Разместить товар
+        </button>
+      </div>
+
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : !locations?.length ? (
+        <div className="mt-8 text-center text-gray-500">Места хранения не заданы</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Код</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Зона</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Стеллаж</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Полка</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Позиций</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Количество</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {locations.map((loc) => (
+                <>
+                  <tr
+                    key={loc.id}
+                    className={`cursor-pointer hover:bg-gray-50 ${loc.isActive ? '' : 'opacity-50'}`}
+                    onClick={() => setExpandedId(expandedId === loc.id ? null : loc.id)}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{loc.code}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{loc.zone || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{loc.rack || '—'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{loc.shelf || '—'}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{loc.partsCount}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-900">{loc.totalQuantity}</td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      {loc.partsCount === 0 && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (confirm(`Удалить место ${loc.code}?`)) deleteMutation.mutate(loc.id);
+                          }}
+                          className="text-red-500 hover:text-red-700"
+                        >
+                          Удалить
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === loc.id && (
+                    <tr key={`${loc.id}-stock`}>
+                      <td colSpan={7} className="bg-gray-50 px-8 py-3">
+                        {!locationStock?.length ? (
+                          <p className="text-sm text-gray-500">Место пустое</p>
+                        ) : (
+                          <table className="min-w-full">
+                            <tbody>
+                              {locationStock.map((entry) => (
+                                <tr key={entry.id}>
+                                  <td className="py-1 text-sm text-gray-900">
+                                    {entry.part.name}
+                                    {entry.part.sku && <span className="ml-2 text-xs text-gray-500">{entry.part.sku}</span>}
+                                  </td>
+                                  <td className="py-1 text-right text-sm text-gray-700">{entry.quantity} {entry.part.unit}</td>
+                                  <td className="py-1 text-right text-sm">
+                                    <button
+                                      onClick={() => setMoving({ partId: entry.part.id, partName: entry.part.name, fromLocationId: loc.id })}
+                                      className="text-primary-600 hover:underline"
+                                    >
+                                      Переместить
+                                    </button>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {moving && locations && (
+        <MoveModal
+          warehouseId={activeWarehouseId}
+          locations={locations}
+          preset={moving}
+          onClose={() => setMoving(null)}
+          onSuccess={() => { setMoving(null); invalidate(); }}
+        />
+      )}
+    </>
+  );
+}
+
+interface MovePreset {
+  partId?: string;
+  partName?: string;
+  fromLocationId?: string;
+}
+
+function MoveModal({
+  warehouseId,
+  locations,
+  preset,
+  onClose,
+  onSuccess,
+}: {
+  warehouseId: string;
+  locations: StorageLocation[];
+  preset: MovePreset;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [search, setSearch] = useState('');
+  const [partId, setPartId] = useState(preset.partId ?? '');
+  const [partName, setPartName] = useState(preset.partName ?? '');
+  const [fromLocationId, setFromLocationId] = useState(preset.fromLocationId ?? '');
+  const [toLocationId, setToLocationId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const { data: found } = useQuery<PaginatedResponse<{ partId: string; quantity: number; part: { name: string; sku: string | null } }>>({
+    queryKey: ['stock-search', warehouseId, search],
+    queryFn: () => apiFetch(`/inventory/stock?warehouseId=${warehouseId}&limit=10&search=${encodeURIComponent(search)}`),
+    enabled: !partId && search.length >= 2,
+  });
+
+  const { data: placement } = useQuery<PartPlacement[]>({
+    queryKey: ['placement', partId],
+    queryFn: () => apiFetch(`/inventory/parts/${partId}/placement`),
+    enabled: !!partId,
+  });
+
+  const here = placement?.find((p) => p.warehouseId === warehouseId);
+  const available = fromLocationId
+    ? here?.locations.find((l) => l.id === fromLocationId)?.quantity ?? 0
+    : here?.unplaced ?? 0;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await apiFetch('/inventory/move', {
+        method: 'POST',
+        body: JSON.stringify({
+          partId,
+          warehouseId,
+          fromLocationId: fromLocationId || undefined,
+          toLocationId: toLocationId || undefined,
+          quantity: Number(quantity),
+        }),
+      });
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка перемещения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const selectClass = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Перемещение по местам хранения</h2>
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Запчасть *</label>
+            {partId ? (
+              <div className="mt-1 flex items-center justify-between rounded-lg bg-gray-50 px-3 py-2 text-sm">
+                <span className="text-gray-900">{partName}</span>
+                {!preset.partId && (
+                  <button type="button" onClick={() => { setPartId(''); setPartName(''); }} className="text-gray-400 hover:text-gray-600">
+                    ✕
+                  </button>
+                )}
+              </div>
+            ) : (
+              <>
+                <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Поиск по названию, артикулу..."
+                  className={selectClass} />
+                {found?.data.length ? (
+                  <div className="mt-1 max-h-48 overflow-y-auto rounded-lg border border-gray-200">
+                    {found.data.map((row) => (
+                      <button
+                        key={row.partId}
+                        type="button"
+                        onClick={() => { setPartId(row.partId); setPartName(row.part.name); }}
+                        className="flex w-full justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                      >
+                        <span>{row.part.name}{row.part.sku && <span className="ml-2 text-xs text-gray-500">{row.part.sku}</span>}</span>
+                        <span className="text-gray-500">{row.quantity}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Откуда</label>
+              <select value={fromLocationId} onChange={(e) => setFromLocationId(e.target.value)} className={selectClass}>
+                <option value="">Не размещено</option>
+                {locations.map((l) => <option key={l.id} value={l.id}>{l.code}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Куда</label>
+              <select value={toLocationId} onChange={(e) => setToLocationId(e.target.value)} className={selectClass}>
+                <option value="">Не размещено</option>
+                {locations.filter((l) => l.isActive).map((l) => <option key={l.id} value={l.id}>{l.code}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Количество{partId && <span className="ml-1 font-normal text-gray-500">(доступно: {available})</span>}
+            </label>
+            <input type="number" step="0.001" min="0.001" value={quantity} onChange={(e) => setQuantity(e.target.value)} required
+              className={selectClass} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <button type="button" onClick={onClose} className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !partId || fromLocationId === toLocationId}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Перемещение...' : 'Переместить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ===== Stocktakes Tab =====
+
+function StocktakesTab() {
+  const queryClient = useQueryClient();
+  const [warehouseId, setWarehouseId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
+
+  const activeWarehouses = (warehouses ?? []).filter((wh) => wh.isActive);
+  const activeWarehouseId = warehouseId || activeWarehouses[0]?.id || '';
+
+  const { data, isLoading } = useQuery<PaginatedResponse<StocktakeListItem>>({
+    queryKey: ['stocktakes'],
+    queryFn: () => apiFetch('/stocktakes?limit=50'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiFetch('/stocktakes', { method: 'POST', body: JSON.stringify({ warehouseId: activeWarehouseId }) }),
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка создания инвентаризации'),
+  });
+
+  const stocktakes = data?.data ?? [];
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        {activeWarehouses.length > 0 && (
+          <select
+            value={activeWarehouseId}
+            onChange={(e) => setWarehouseId(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            {activeWarehouses.map((wh) => (
+              <option key={wh.id} value={wh.id}>{wh.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!activeWarehouseId || createMutation.isPending}
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          Начать инвентаризацию
+        </button>
+      </div>
+
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : stocktakes.length === 0 ? (
+        <div className="mt-8 text-center text-gray-500">Инвентаризаций пока не было</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Номер</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Склад</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Начата</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Статус</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Позиций</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {stocktakes.map((st) => (
+                <tr key={st.id}>
+                  <td className="whitespace-nowrap px-4 py-3 text-sm">
+                    <Link href={`/inventory/stocktakes/${st.id}`} className="font-medium text-primary-600 hover:underline">
+                      {st.number}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{st.warehouse.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{new Date(st.createdAt).toLocaleString('ru-RU')}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STOCKTAKE_STATUS_COLORS[st.status]}`}>
+                      {STOCKTAKE_STATUS_LABELS[st.status]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{st._count.items}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
+
+// ===== Pricing Tab (markup rules) =====
+
+function describeRule(rule: MarkupRule): string {
+  const conditions = [
+    rule.brand && `бренд ${rule.brand}`,
+    rule.manufacturer && `производитель ${rule.manufacturer}`,
+    rule.supplier && `поставщик ${rule.supplier.name}`,
+    rule.minCost && `от ${formatPrice(rule.minCost)}`,
+    rule.maxCost && `до ${formatPrice(rule.maxCost)}`,
+  ].filter(Boolean);
+  return conditions.length ? conditions.join(', ') : 'все запчасти';
+}
+
+function PricingTab() {
+  const queryClient = useQueryClient();
+  const [editingRule, setEditingRule] = useState<MarkupRule | null>(null);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [showRecalc, setShowRecalc] = useState(false);
+
+  const { data: rules, isLoading } = useQuery<MarkupRule[]>({
+    queryKey: ['markup-rules'],
+    queryFn: () => apiFetch('/pricing/rules'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/pricing/rules/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['markup-rules'] }),
+  });
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Цена продажи = себестоимость + наценка. Пересчитывается при приходе по новой цене; правила с группой клиента задают цену для этой группы.
+        </p>
+        <div className="flex shrink-0 gap-2">
+          <button
+            onClick={() => setShowRecalc(true)}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Пересчитать цены
+          </button>
+          <button
+            onClick={() => { setEditingRule(null); setShowRuleModal(true); }}
+            className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+          >
+            Добавить правило
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : !rules?.length ? (
+        <div className="mt-8 text-center text-gray-500">Правил наценки нет — цены задаются вручную</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Правило</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Условия</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Группа клиента</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Наценка</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Приоритет</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.isActive ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{describeRule(rule)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{rule.clientGroup || 'Базовая цена'}</td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm font-medium text-gray-900">
+                    {Number(rule.markupPercent)}%
+                    {rule.roundTo && <span className="ml-1 text-xs font-normal text-gray-400">↑{Number(rule.roundTo)}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{rule.priority}</td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                    <button onClick={() => { setEditingRule(rule); setShowRuleModal(true); }} className="text-primary-600 hover:text-primary-800">
+                      Изменить
+                    </button>
+                    <button
+                      onClick={() => { if (confirm(`Удалить правило «${rule.name}»?`)) deleteMutation.mutate(rule.id); }}
+                      className="ml-3 text-red-600 hover:text-red-800"
+                    >
+                      Удалить
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showRuleModal && (
+        <MarkupRuleModal
+          rule={editingRule}
+          onClose={() => setShowRuleModal(false)}
+          onSuccess={() => { setShowRuleModal(false); queryClient.invalidateQueries({ queryKey: ['markup-rules'] }); }}
+        />
+      )}
+      {showRecalc && (
+        <RecalcPricesModal
+          onClose={() => setShowRecalc(false)}
+          onSuccess={() => { setShowRecalc(false); queryClient.invalidateQueries({ queryKey: ['parts'] }); }}
+        />
+      )}
+    </>
+  );
+}
+
+function PriceChangesTable({ items }: { items: PriceChange[] }) {
+  return (
+    <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="sticky top-0 bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Запчасть</th>
+            <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Себест.</th>
+            <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Сейчас</th>
+            <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Станет</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {items.map((c) => (
+            <tr key={c.partId}>
+              <td className="px-3 py-2">
+                <div className="text-gray-900">{c.name}</div>
+                <div className="text-xs text-gray-400">{[c.brand, c.sku, c.ruleName].filter(Boolean).join(' · ')}</div>
+              </td>
+              <td className="whitespace-nowrap px-3 py-2 text-right text-gray-600">{formatPrice(c.costPrice)}</td>
+              <td className="whitespace-nowrap px-3 py-2 text-right text-gray-600">{formatPrice(c.currentPrice)}</td>
+              <td className={`whitespace-nowrap px-3 py-2 text-right font-medium ${c.newPrice > c.currentPrice ? 'text-red-600' : 'text-green-600'}`}>
+                {formatPrice(c.newPrice)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function MarkupRuleModal({ rule, onClose, onSuccess }: { rule: MarkupRule | null; onClose: () => void; onSuccess: () => void }) {
+  const [name, setName] = useState(rule?.name || '');
+  const [priority, setPriority] = useState(String(rule?.priority ?? 0));
+  const [brand, setBrand] = useState(rule?.brand || '');
+  const [manufacturer, setManufacturer] = useState(rule?.manufacturer || '');
+  const [supplierId, setSupplierId] = useState(rule?.supplierId || '');
+  const [minCost, setMinCost] = useState(rule?.minCost ? String(Number(rule.minCost)) : '');
+  const [maxCost, setMaxCost] = useState(rule?.maxCost ? String(Number(rule.maxCost)) : '');
+  const [clientGroup, setClientGroup] = useState(rule?.clientGroup || '');
+  const [markupPercent, setMarkupPercent] = useState(rule ? String(Number(rule.markupPercent)) : '');
+  const [roundTo, setRoundTo] = useState(rule?.roundTo ? String(Number(rule.roundTo)) : '');
+  const [isActive, setIsActive] = useState(rule?.isActive ?? true);
+  const [preview, setPreview] = useState<{ count: number; items: PriceChange[] } | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: suppliers } = useQuery<PaginatedResponse<{ id: string; name: string }>>({
+    queryKey: ['suppliers-all'],
+    queryFn: () => apiFetch('/suppliers?limit=100&sort=name&order=asc'),
+  });
+
+  function buildBody() {
+    return {
+      name,
+      priority: Number(priority) || 0,
+      brand: brand || null,
+      manufacturer: manufacturer || null,
+      supplierId: supplierId || null,
+      minCost: minCost ? Number(minCost) : null,
+      maxCost: maxCost ? Number(maxCost) : null,
+      clientGroup: clientGroup || null,
+      markupPercent: Number(markupPercent),
+      roundTo: roundTo ? Number(roundTo) : null,
+      isActive,
+    };
+  }
+
+  async function handlePreview() {
+    setError('');
+    try {
+      const result = await apiFetch<{ count: number; items: PriceChange[] }>('/pricing/preview', {
+        method: 'POST',
+        body: JSON.stringify({ rule: { ...buildBody(), id: rule?.id } }),
+      });
+      setPreview(result);
+    } catch (err: any) {
+      setError(err.message || 'Ошибка предпросмотра');
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      if (rule) {
+        await apiFetch(`/pricing/rules/${rule.id}`, { method: 'PATCH', body: JSON.stringify(buildBody()) });
+      } else {
+        await apiFetch('/pricing/rules', { method: 'POST', body: JSON.stringify(buildBody()) });
+      }
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputCls = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">{rule ? 'Правило наценки' : 'Новое правило наценки'}</h2>
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Название *</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} required className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Приоритет</label>
+              <input type="number" step="1" value={priority} onChange={(e) => setPriority(e.target.value)} className={inputCls} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Условия — пустое поле подходит к любому значению</p>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Бренд</label>
+              <input type="text" value={brand} onChange={(e) => setBrand(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Производитель</label>
+              <input type="text" value={manufacturer} onChange={(e) => setManufacturer(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Поставщик</label>
+              <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={inputCls}>
+                <option value="">Любой</option>
+                {suppliers?.data.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Себестоимость от</label>
+              <input type="number" step="0.01" min="0" value={minCost} onChange={(e) => setMinCost(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">до (не включая)</label>
+              <input type="number" step="0.01" min="0" value={maxCost} onChange={(e) => setMaxCost(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Группа клиента</label>
+              <input type="text" value={clientGroup} onChange={(e) => setClientGroup(e.target.value)} placeholder="Базовая цена" className={inputCls} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Наценка, % *</label>
+              <input type="number" step="0.01" value={markupPercent} onChange={(e) => setMarkupPercent(e.target.value)} required className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Округлять вверх до</label>
+              <input type="number" step="0.01" min="0.01" value={roundTo} onChange={(e) => setRoundTo(e.target.value)} placeholder="10" className={inputCls} />
+            </div>
+            <div className="flex items-end pb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500" />
+                Активно
+              </label>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {preview.count > 0
+                  ? `После пересчёта изменится базовая цена у ${preview.count} запчастей:`
+                  : 'Базовые цены не изменятся'}
+              </p>
+              {preview.count > 0 && <PriceChangesTable items={preview.items} />}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-between gap-3 pt-2">
+            <button type="button" onClick={handlePreview} disabled={!markupPercent}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50">
+              Предпросмотр
+            </button>
+            <div className="flex gap-3">
+              <button type="button" onClick={onClose}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">Отмена</button>
+              <button type="submit" disabled={saving}
+                className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50">
+                {saving ? 'Сохранение...' : rule ? 'Сохранить' : 'Создать'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function RecalcPricesModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data, isLoading } = useQuery<{ count: number; items: PriceChange[] }>({
+    queryKey: ['pricing-preview'],
+    queryFn: () => apiFetch('/pricing/preview', { method: 'POST', body: JSON.stringify({}) }),
+  });
+
+  async function handleApply() {
+    setError('');
+    setSaving(true);
+    try {
+      await apiFetch('/pricing/apply', { method: 'POST', body: JSON.stringify({}) });
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка пересчёта');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Пересчёт цен по правилам</h2>
+        <div className="mt-4 space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Расчёт...</p>
+          ) : !data?.count ? (
+            <p className="text-sm text-gray-500">Все базовые цены соответствуют правилам</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700">Изменится цена у {data.count} запчастей:</p>
+              <PriceChangesTable items={data.items} />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">Отмена</button>
+            <button type="button" onClick={handleApply} disabled={saving || !data?.count}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50">
+              {saving ? 'Пересчёт...' : 'Применить'}
+            </button>
+          </div>
+        </div>
       </div>
+    </div>
+  );
+}
 
-      <div className="mt-4">
-        {tab === 'stock' ? <StockTab /> : <PartsTab />}
+function PriceHistoryModal({ part, onClose }: { part: Part; onClose: () => void }) {
+  const { data, isLoading } = useQuery<PriceHistoryEntry[]>({
+    queryKey: ['price-history', part.id],
+    queryFn: () => apiFetch(`/pricing/parts/${part.id}/history`),
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">История цен</h2>
+        <p className="text-sm text-gray-500">{part.name}</p>
+        <div className="mt-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Загрузка...</p>
+          ) : !data?.length ? (
+            <p className="text-sm text-gray-500">Цена не менялась</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Дата</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Источник</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Себестоимость</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Цена продажи</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {data.map((h) => (
+                    <tr key={h.id}>
+                      <td className="whitespace-nowrap px-3 py-2 text-gray-600">{new Date(h.createdAt).toLocaleString('ru-RU')}</td>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-900">{PRICE_SOURCE_LABELS[h.source]}</div>
+                        <div className="text-xs text-gray-400">{[h.reference, h.rule?.name].filter(Boolean).join(' · ')}</div>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-right text-gray-600">
+                        {formatPrice(h.prevCostPrice)} → {formatPrice(h.costPrice)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-right font-medium text-gray-900">
+                        {formatPrice(h.prevSellPrice)} → {formatPrice(h.sellPrice)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button type="button" onClick={onClose}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">Закрыть</button>
+        </div>
       </div>
     </div>
   );
 }
 
-// ===== Stock Tab =====
+// ===== Reports Tab =====
 
-function StockTab() {
-  const [page, setPage] = useState(1);
-  const [search, setSearch] = useState('');
+function ReportsTab() {
+  const [report, setReport] = useState<InventoryReport>('valuation');
   const [warehouseId, setWarehouseId] = useState('');
-  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [date, setDate] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [days, setDays] = useState('180');
+  const [error, setError] = useState('');
 
   const { data: warehouses } = useQuery<Warehouse[]>({
     queryKey: ['warehouses'],
     queryFn: () => apiFetch('/inventory/warehouses'),
   });
 
-  const { data, isLoading } = useQuery<PaginatedResponse<StockItem>>({
-    queryKey: ['stock-summary', page, search, warehouseId],
-    queryFn: () =>
-      apiFetch(
-        `/inventory/stock/summary?page=${page}&limit=50${search ? `&search=${encodeURIComponent(search)}` : ''}${warehouseId ? `&warehouseId=${warehouseId}` : ''}`,
-      ),
+  const params = new URLSearchParams();
+  if (report === 'valuation' && date) params.set('date', date);
+  if (report === 'dead-stock' && days) params.set('days', days);
+  if ((report === 'turnover' || report === 'abc-xyz') && from) params.set('from', from);
+  if ((report === 'turnover' || report === 'abc-xyz') && to) params.set('to', to);
+  if (report !== 'abc-xyz' && warehouseId) params.set('warehouseId', warehouseId);
+  const qs = params.toString();
+
+  const { data, isLoading } = useQuery<any>({
+    queryKey: ['inventory-report', report, qs],
+    queryFn: () => apiFetch(`/inventory/reports/${report}?${qs}`),
   });
 
+  async function handleExport() {
+    setError('');
+    try {
+      await apiDownload(`/inventory/reports/${report}/export?${qs}`, `${report}.xlsx`);
+    } catch (err: any) {
+      setError(err.message || 'Ошибка выгрузки');
+    }
+  }
+
+  const inputClass =
+    'rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
   return (
     <>
-      <div className="flex items-center gap-3">
-        <input
-          type="text"
-          placeholder="Поиск по названию, артикулу, бренду..."
-          value={search}
-          onChange={(e) => { setSearch(e.target.value); setPage(1); }}
-          className="w-full max-w-sm rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
-        />
-        {warehouses && warehouses.length > 0 && (
-          <select
-            value={warehouseId}
-            onChange={(e) => { setWarehouseId(e.target.value); setPage(1); }}
-            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
-          >
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={report} onChange={(e) => setReport(e.target.value as InventoryReport)} className={inputClass}>
+          {(Object.keys(REPORT_LABELS) as InventoryReport[]).map((r) => (
+            <option key={r} value={r}>{REPORT_LABELS[r]}</option>
+          ))}
+        </select>
+        {report !== 'abc-xyz' && (
+          <select value={warehouseId} onChange={(e) => setWarehouseId(e.target.value)} className={inputClass}>
             <option value="">Все склады</option>
-            {warehouses.map((wh) => (
+            {(warehouses ?? []).map((wh) => (
               <option key={wh.id} value={wh.id}>{wh.name}</option>
             ))}
           </select>
         )}
+        {report === 'valuation' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            На дату
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          </label>
+        )}
+        {report === 'dead-stock' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Без движения, дней
+            <input type="number" min={1} value={days} onChange={(e) => setDays(e.target.value)} className={`${inputClass} w-24`} />
+          </label>
+        )}
+        {(report === 'turnover' || report === 'abc-xyz') && (
+          <>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              С
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              по
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+          </>
+        )}
+        <button
+          onClick={handleExport}
+          className="ml-auto rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Выгрузить в Excel
+        </button>
       </div>
 
-      {isLoading ? (
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {isLoading || !data ? (
         <div className="mt-8 text-center text-gray-500">Загрузка...</div>
-      ) : !data?.data.length ? (
-        <div className="mt-8 text-center text-gray-500">Нет данных об остатках</div>
       ) : (
-        <>
-          <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Название</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Артикул</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Производитель</th>
-                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Остаток</th>
-                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Резерв</th>
-                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Свободно</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Ед.</th>
-                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Цена</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {data.data.map((item) => (
-                  <>
-                    <tr
-                      key={item.id}
-                      className="hover:bg-gray-50 cursor-pointer"
-                      onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
-                    >
-                      <td className="px-4 py-3">
-                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
-                        {item.brand && (
-                          <div className="text-xs text-gray-500">{item.brand}</div>
-                        )}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
-                        {item.sku || '—'}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
-                        {item.manufacturer || '—'}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right font-medium">
-                        <span className={item.totalQuantity <= item.minStock ? 'text-red-600' : 'text-gray-900'}>
-                          {item.totalQuantity}
-                        </span>
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right text-orange-600">
-                        {item.totalReserved > 0 ? item.totalReserved : '—'}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right font-medium text-green-700">
-                        {item.available}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
-                        {item.unit}
-                      </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-sm text-right text-gray-900 font-medium">
-                        {formatPrice(item.sellPrice)}
-                      </td>
-                    </tr>
-                    {expandedId === item.id && item.warehouses.length > 0 && (
-                      <tr key={`${item.id}-detail`}>
-                        <td colSpan={8} className="bg-gray-50 px-8 py-2">
-                          <div className="text-xs text-gray-500 mb-1 font-medium">Разбивка по складам:</div>
-                          <div className="flex flex-wrap gap-4">
-                            {item.warehouses.map((wh) => (
-                              <div key={wh.warehouseId} className="flex items-center gap-2 text-sm">
-                                <span className="text-gray-600">{wh.warehouseName}:</span>
-                                <span className="font-medium">{wh.quantity}</span>
-                                {wh.reserved > 0 && (
-                                  <span className="text-orange-600 text-xs">(резерв: {wh.reserved})</span>
-                                )}
-                              </div>
-                            ))}
-                          </div>
-                        </td>
-                      </tr>
-                    )}
-                  </>
-                ))}
-              </tbody>
-            </table>
-          </div>
-
-          {data.meta.totalPages > 1 && (
-            <div className="mt-4 flex items-center justify-between">
-              <p className="text-sm text-gray-600">
-                Всего: {data.meta.total}. Страница {data.meta.page} из {data.meta.totalPages}
-              </p>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
-                >
-                  Назад
-                </button>
-                <button
-                  onClick={() => setPage((p) => Math.min(data.meta.totalPages, p + 1))}
-                  disabled={page === data.meta.totalPages}
-                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm hover:bg-gray-50 disabled:opacity-50"
-                >
-                  Вперёд
-                </button>
-              </div>
-            </div>
-          )}
-        </>
+        <div className="mt-4">
+          {report === 'valuation' && <ValuationReportView data={data as ValuationReport} />}
+          {report === 'dead-stock' && <DeadStockReportView data={data as DeadStockReport} />}
+          {report === 'turnover' && <TurnoverReportView data={data as TurnoverReport} />}
+          {report === 'abc-xyz' && <AbcXyzReportView data={data as AbcXyzReport} />}
+        </div>
       )}
     </>
   );
 }
 
+function ReportTable({ header, rows }: { header: string[]; rows: React.ReactNode[][] }) {
+  if (rows.length === 0) {
+    return <div className="mt-8 text-center text-gray-500">Нет данных</div>;
+  }
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {header.map((h, i) => (
+              <th key={h} className={`px-4 py-3 text-xs font-medium uppercase text-gray-500 ${i === 0 ? 'text-left' : 'text-right'}`}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map((cells, r) => (
+            <tr key={r}>
+              {cells.map((cell, i) => (
+                <td key={i} className={`px-4 py-2 text-sm ${i === 0 ? 'text-left text-gray-900' : 'text-right text-gray-600'}`}>
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ValuationReportView({ data }: { data: ValuationReport }) {
+  return (
+    <ReportTable
+      header={['Склад', 'Количество', 'Себестоимость', 'В ценах продажи']}
+      rows={[
+        ...data.warehouses.map((w) => [w.warehouseName, w.quantity, formatPrice(w.costValue), formatPrice(w.sellValue)]),
+        [<span key="total" className="font-medium">Итого на {new Date(data.date).toLocaleDateString('ru-RU')}</span>,
+          data.totals.quantity, formatPrice(data.totals.costValue), formatPrice(data.totals.sellValue)],
+      ]}
+    />
+  );
+}
+
+function DeadStockReportView({ data }: { data: DeadStockReport }) {
+  return (
+    <>
+      <p className="mb-3 text-sm text-gray-600">
+        {data.totals.positions} позиций без движения {data.days}+ дней на {formatPrice(data.totals.costValue)} по себестоимости
+      </p>
+      <ReportTable
+        header={['Запчасть', 'Склад', 'Остаток', 'Себестоимость', 'Последнее движение', 'Дней']}
+        rows={data.items.map((i) => [
+          <>{i.name}{i.sku && <span className="ml-1 text-xs text-gray-400">{i.sku}</span>}</>,
+          i.warehouseName,
+          `${i.quantity} ${i.unit}`,
+          formatPrice(i.costValue),
+          i.lastMovementAt ? new Date(i.lastMovementAt).toLocaleDateString('ru-RU') : 'никогда',
+          i.daysIdle ?? '—',
+        ])}
+      />
+    </>
+  );
+}
+
+function TurnoverReportView({ data }: { data: TurnoverReport }) {
+  return (
+    <>
+      <p className="mb-3 text-sm text-gray-600">
+        За {data.periodDays} дн.: списано на {formatPrice(data.totals.consumedCost)} при среднем запасе{' '}
+        {formatPrice(data.totals.averageValue)} — оборачиваемость {data.totals.turnover ?? '—'}, запаса на{' '}
+        {data.totals.daysOfStock ?? '—'} дн.
+      </p>
+      <ReportTable
+        header={['Запчасть', 'Средний запас', 'Списано', 'Оборачиваемость', 'Дней запаса']}
+        rows={data.items.map((i) => [
+          <>{i.name}{i.sku && <span className="ml-1 text-xs text-gray-400">{i.sku}</span>}</>,
+          formatPrice(i.averageValue),
+          formatPrice(i.consumedCost),
+          i.turnover ?? '—',
+          i.daysOfStock ?? '—',
+        ])}
+      />
+    </>
+  );
+}
+
+function AbcXyzReportView({ data }: { data: AbcXyzReport }) {
+  return (
+    <>
+      <div className="mb-4 inline-grid grid-cols-4 gap-px overflow-hidden rounded-lg border border-gray-200 bg-gray-200 text-sm">
+        <div className="bg-gray-50 px-4 py-2" />
+        {['X', 'Y', 'Z'].map((xyz) => (
+          <div key={xyz} className="bg-gray-50 px-4 py-2 text-center font-medium text-gray-500">{xyz}</div>
+        ))}
+        {['A', 'B', 'C'].map((abc) => (
+          <Fragment key={abc}>
+            <div className="bg-gray-50 px-4 py-2 font-medium text-gray-500">{abc}</div>
+            {['X', 'Y', 'Z'].map((xyz) => (
+              <div key={abc + xyz} className="bg-white px-4 py-2 text-center text-gray-900">{data.matrix[abc + xyz]}</div>
+            ))}
+          </Fragment>
+        ))}
+      </div>
+      <ReportTable
+        header={['Запчасть', 'Выручка', 'Доля, %', 'Продано', 'Вариация, %', 'Группа']}
+        rows={data.items.map((i) => [
+          <>{i.name}{i.sku && <span className="ml-1 text-xs text-gray-400">{i.sku}</span>}</>,
+          formatPrice(i.revenue),
+          i.share,
+          i.quantity,
+          i.cv ?? '—',
+          <span key="group" className="font-medium text-gray-900">{i.group}</span>,
+        ])}
+      />
+    </>
+  );
+}
+
 // ===== Parts Tab (catalog CRUD) =====
 
 function PartsTab() {
@@ -268,6 +2137,8 @@ function PartsTab() {
   const [search, setSearch] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingPart, setEditingPart] = useState<Part | null>(null);
+  const [historyPart, setHistoryPart] = useState<Part | null>(null);
+  const [barcodesPart, setBarcodesPart] = useState<Part | null>(null);
 
   const { data, isLoading } = useQuery<PaginatedResponse<Part>>({
     queryKey: ['parts', page, search],
@@ -328,8 +2199,8 @@ function PartsTab() {
                     <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{formatPrice(part.costPrice)}</td>
                     <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-900 font-medium">{formatPrice(part.sellPrice)}</td>
                     <td className="whitespace-nowrap px-4 py-3 text-sm">
-                      <span className={part.currentStock <= part.minStock ? 'text-red-600 font-medium' : 'text-gray-600'}>
-                        {part.currentStock}
+                      <span className={Number(part.currentStock) <= Number(part.minStock) ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                        {Number(part.currentStock)}
                       </span>
                     </td>
                     <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{part.unit}</td>
@@ -344,6 +2215,12 @@ function PartsTab() {
                       <button onClick={() => { setEditingPart(part); setShowModal(true); }} className="text-primary-600 hover:text-primary-800">
                         Изменить
                       </button>
+                      <button onClick={() => setHistoryPart(part)} className="ml-3 text-gray-600 hover:text-gray-800">
+                        Цены
+                      </button>
+                      <button onClick={() => setBarcodesPart(part)} className="ml-3 text-gray-600 hover:text-gray-800">
+                        Штрихкоды
+                      </button>
                       <button
                         onClick={() => { if (confirm(`Удалить запчасть «${part.name}»?`)) deleteMutation.mutate(part.id); }}
                         className="ml-3 text-red-600 hover:text-red-800"
@@ -380,10 +2257,158 @@ function PartsTab() {
           onSuccess={() => { setShowModal(false); queryClient.invalidateQueries({ queryKey: ['parts'] }); }}
         />
       )}
+      {historyPart && <PriceHistoryModal part={historyPart} onClose={() => setHistoryPart(null)} />}
+      {barcodesPart && <BarcodesModal part={barcodesPart} onClose={() => setBarcodesPart(null)} />}
     </>
   );
 }
 
+// ===== Barcodes Modal =====
+
+function BarcodesModal({ part, onClose }: { part: Part; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState('');
+  const [isManufacturer, setIsManufacturer] = useState(true);
+  const [copies, setCopies] = useState('1');
+  const [error, setError] = useState('');
+
+  const { data: barcodes } = useQuery<PartBarcode[]>({
+    queryKey: ['part-barcodes', part.id],
+    queryFn: () => apiFetch(`/parts/${part.id}/barcodes`),
+  });
+
+  const invalidate = () => {
+    setError('');
+    queryClient.invalidateQueries({ queryKey: ['part-barcodes', part.id] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiFetch(`/parts/${part.id}/barcodes`, { method: 'POST', body: JSON.stringify({ code, isManufacturer }) }),
+    onSuccess: () => {
+      setCode('');
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка добавления штрихкода'),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () => apiFetch(`/parts/${part.id}/barcodes/generate`, { method: 'POST' }),
+    onSuccess: invalidate,
+    onError: (err: any) => setError(err.message || 'Ошибка генерации штрихкода'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/parts/barcodes/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError: (err: any) => setError(err.message || 'Ошибка удаления штрихкода'),
+  });
+
+  async function handlePrint() {
+    setError('');
+    try {
+      await apiDownload('/parts/labels', 'labels.pdf', {
+        method: 'POST',
+        body: JSON.stringify({ items: [{ partId: part.id, copies: Number(copies) || 1 }] }),
+      });
+      // Если своего штрихкода не было, он сгенерирован при печати
+      invalidate();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка печати этикеток');
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Штрихкоды</h2>
+        <p className="text-sm text-gray-500">{part.name}</p>
+
+        {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+        <div className="mt-4 space-y-2">
+          {(barcodes ?? []).length === 0 ? (
+            <p className="text-sm text-gray-500">Штрихкодов нет</p>
+          ) : (
+            (barcodes ?? []).map((b) => (
+              <div key={b.id} className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                <div>
+                  <span className="font-mono text-gray-900">{b.code}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {BARCODE_FORMAT_LABELS[b.format]} · {b.isManufacturer ? 'производителя' : 'свой'}
+                  </span>
+                </div>
+                <button
+                  onClick={() => removeMutation.mutate(b.id)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  Удалить
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (code.trim()) addMutation.mutate(); }}
+          className="mt-4 flex items-center gap-2"
+        >
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Отсканируйте или введите код"
+            autoFocus
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input type="checkbox" checked={isManufacturer} onChange={(e) => setIsManufacturer(e.target.checked)} />
+            производителя
+          </label>
+          <button
+            type="submit"
+            disabled={!code.trim() || addMutation.isPending}
+            className="rounded-lg bg-primary-600 px-3 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Добавить
+          </button>
+        </form>
+
+        <div className="mt-4 flex flex-wrap items-center gap-2 border-t border-gray-200 pt-4">
+          <button
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Сгенерировать свой
+          </button>
+          <div className="ml-auto flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={copies}
+              onChange={(e) => setCopies(e.target.value)}
+              className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+            <button
+              onClick={handlePrint}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Печать этикеток
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ===== Part Edit Modal =====
 
 function PartModal({ part, onClose, onSuccess }: { part: Part | null; onClose: () => void; onSuccess: () => void }) {
@@ -393,9 +2418,11 @@ function PartModal({ part, onClose, onSuccess }: { part: Part | null; onClose: (
   const [oemNumber, setOemNumber] = useState(part?.oemNumber || '');
   const [costPrice, setCostPrice] = useState(part ? String(part.costPrice) : '');
   const [sellPrice, setSellPrice] = useState(part ? String(part.sellPrice) : '');
-  const [currentStock, setCurrentStock] = useState(String(part?.currentStock ?? 0));
-  const [minStock, setMinStock] = useState(String(part?.minStock ?? 0));
+  const [currentStock, setCurrentStock] = useState(String(Number(part?.currentStock ?? 0)));
+  const [minStock, setMinStock] = useState(String(Number(part?.minStock ?? 0)));
   const [unit, setUnit] = useState(part?.unit || 'шт');
+  const [purchaseUnit, setPurchaseUnit] = useState(part?.purchaseUnit || '');
+  const [purchaseUnitFactor, setPurchaseUnitFactor] = useState(part?.purchaseUnitFactor ? String(Number(part.purchaseUnitFactor)) : '');
   const [isActive, setIsActive] = useState(part?.isActive ?? true);
   const [error, setError] = useState('');
   const [saving, setSaving] = useState(false);
@@ -415,6 +2442,8 @@ function PartModal({ part, onClose, onSuccess }: { part: Part | null; onClose: (
       currentStock: Number(currentStock),
       minStock: Number(minStock),
       unit,
+      purchaseUnit: purchaseUnit || (part ? null : undefined),
+      purchaseUnitFactor: purchaseUnit && purchaseUnitFactor ? Number(purchaseUnitFactor) : (part ? null : undefined),
     };
     if (part) body.isActive = isActive;
 
@@ -474,12 +2503,12 @@ function PartModal({ part, onClose, onSuccess }: { part: Part | null; onClose: (
           <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">Остаток</label>
-              <input type="number" min="0" value={currentStock} onChange={(e) => setCurrentStock(e.target.value)}
+              <input type="number" step="0.001" min="0" value={currentStock} onChange={(e) => setCurrentStock(e.target.value)}
                 className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500" />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700">Мин. остаток</label>
-              <input type="number" min="0" value={minStock} onChange={(e) => setMinStock(e.target.value)}
+              <input type="number" step="0.001" min="0" value={minStock} onChange={(e) => setMinStock(e.target.value)}
                 className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500" />
             </div>
             <div>
@@ -494,6 +2523,19 @@ function PartModal({ part, onClose, onSuccess }: { part: Part | null; onClose: (
               </select>
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Ед. закупки</label>
+              <input type="text" value={purchaseUnit} onChange={(e) => setPurchaseUnit(e.target.value)} placeholder="бочка, канистра..."
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{unit} в ед. закупки</label>
+              <input type="number" step="0.001" min="0.001" value={purchaseUnitFactor} onChange={(e) => setPurchaseUnitFactor(e.target.value)}
+                disabled={!purchaseUnit} required={!!purchaseUnit} placeholder="208"
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50" />
+            </div>
+          </div>
           {part && (
             <div>
               <label className="flex items-center gap-2 text-sm">
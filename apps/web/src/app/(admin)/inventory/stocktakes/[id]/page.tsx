@@ -0,0 +1,365 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+
+// ===== Types =====
+
+type StocktakeStatus = 'IN_PROGRESS' | 'APPROVED' | 'CANCELLED';
+
+interface StocktakeLine {
+  id: string;
+  partId: string;
+  part: { id: string; name: string; sku: string | null; brand: string | null; oemNumber: string | null; unit: string };
+  expectedQty: number;
+  countedQty: number | null;
+  unitCost: number;
+  difference: number | null;
+  differenceCost: number | null;
+}
+
+interface StocktakeDetail {
+  id: string;
+  number: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+  warehouse: { id: string; name: string; code: string | null; address: string | null };
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+  approvedBy: { id: string; firstName: string; lastName: string } | null;
+  items: StocktakeLine[];
+  summary: {
+    itemsCount: number;
+    countedCount: number;
+    discrepancyCount: number;
+    expectedCost: number;
+    surplusCost: number;
+    shortageCost: number;
+    netCost: number;
+  };
+}
+
+const STATUS_LABELS: Record<StocktakeStatus, string> = {
+  IN_PROGRESS: 'В работе',
+  APPROVED: 'Утверждена',
+  CANCELLED: 'Отменена',
+};
+
+const STATUS_COLORS: Record<StocktakeStatus, string> = {
+  IN_PROGRESS: 'bg-amber-100 text-amber-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+function formatPrice(price: string | number): string {
+  return Number(price).toLocaleString('ru-RU', { style: 'currency', currency: 'RUB', minimumFractionDigits: 2 });
+}
+
+function formatDiff(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+// ===== Page =====
+
+export default function StocktakePage() {
+  const params = useParams();
+  const id = params.id as string;
+  const queryClient = useQueryClient();
+
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [scanMessage, setScanMessage] = useState('');
+  const [onlyDiscrepancies, setOnlyDiscrepancies] = useState(false);
+  const [error, setError] = useState('');
+
+  const { data: stocktake, isLoading } = useQuery<StocktakeDetail>({
+    queryKey: ['stocktake', id],
+    queryFn: () => apiFetch(`/stocktakes/${id}`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['stocktake', id] });
+    queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (items: Array<{ partId: string; countedQty: number | null }>) =>
+      apiFetch(`/stocktakes/${id}/counts`, { method: 'PUT', body: JSON.stringify({ items }) }),
+    onSuccess: () => {
+      setError('');
+      setCounts({});
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка сохранения'),
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: (code: string) =>
+      apiFetch<StocktakeLine>(`/stocktakes/${id}/scan`, { method: 'POST', body: JSON.stringify({ code }) }),
+    onSuccess: (line) => {
+      setError('');
+      setScanCode('');
+      setScanMessage(`${line.part.name}: ${line.countedQty} ${line.part.unit}`);
+      invalidate();
+    },
+    onError: (err: any) => {
+      setScanMessage('');
+      setError(err.message || 'Ошибка сканирования');
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (uncountedAsZero: boolean) =>
+      apiFetch(`/stocktakes/${id}/approve`, { method: 'POST', body: JSON.stringify({ uncountedAsZero }) }),
+    onSuccess: () => {
+      setError('');
+      invalidate();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка утверждения'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiFetch(`/stocktakes/${id}/cancel`, { method: 'POST' }),
+    onSuccess: invalidate,
+    onError: (err: any) => setError(err.message || 'Ошибка отмены'),
+  });
+
+  if (isLoading) return <div className="py-12 text-center text-gray-500">Загрузка...</div>;
+  if (!stocktake) return <div className="py-12 text-center text-gray-500">Инвентаризация не найдена</div>;
+
+  const editable = stocktake.status === 'IN_PROGRESS';
+  const dirty = Object.keys(counts);
+  const lines = onlyDiscrepancies
+    ? stocktake.items.filter((i) => i.difference !== null && i.difference !== 0)
+    : stocktake.items;
+  const uncounted = stocktake.summary.itemsCount - stocktake.summary.countedCount;
+
+  function saveCounts() {
+    saveMutation.mutate(dirty.map((partId) => ({
+      partId,
+      countedQty: counts[partId] === '' ? null : Number(counts[partId]),
+    })));
+  }
+
+  function approve() {
+    if (dirty.length > 0) {
+      setError('Сначала сохраните введённые количества');
+      return;
+    }
+    if (uncounted > 0) {
+      if (!confirm(`Не посчитано позиций: ${uncounted}. Считать их фактический остаток нулевым и утвердить?`)) return;
+      approveMutation.mutate(true);
+      return;
+    }
+    if (confirm('Утвердить инвентаризацию? Расхождения будут проведены корректировками остатков.')) {
+      approveMutation.mutate(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-4 print:hidden">
+        <Link href="/inventory" className="text-sm text-primary-600 hover:underline">← Склад</Link>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Инвентаризационная опись {stocktake.number}
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Склад: {stocktake.warehouse.name}
+            {stocktake.warehouse.address && `, ${stocktake.warehouse.address}`}
+          </p>
+          <p className="mt-1 text-sm text-gray-600">
+            Начата {new Date(stocktake.createdAt).toLocaleString('ru-RU')}
+            {stocktake.createdBy && ` (${stocktake.createdBy.lastName} ${stocktake.createdBy.firstName})`}
+            {stocktake.approvedAt && `, утверждена ${new Date(stocktake.approvedAt).toLocaleString('ru-RU')}`}
+          </p>
+          {stocktake.notes && <p className="mt-1 text-sm text-gray-500">{stocktake.notes}</p>}
+        </div>
+        <div className="flex items-center gap-2 print:hidden">
+          <span className={`rounded-full px-3 py-1 text-xs font-medium ${STATUS_COLORS[stocktake.status]}`}>
+            {STATUS_LABELS[stocktake.status]}
+          </span>
+          <button
+            onClick={() => window.print()}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Печать
+          </button>
+          {editable && (
+            <>
+              <button
+                onClick={() => { if (confirm('Отменить инвентаризацию?')) cancelMutation.mutate(); }}
+                disabled={cancelMutation.isPending}
+                className="rounded-lg border border-red-300 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                Отменить
+              </button>
+              <button
+                onClick={approve}
+                disabled={approveMutation.isPending}
+                className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                Утвердить
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+        <div className="rounded-lg border border-gray-200 bg-white p-3">
+          <p className="text-xs text-gray-500">Посчитано</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {stocktake.summary.countedCount} / {stocktake.summary.itemsCount}
+          </p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-3">
+          <p className="text-xs text-gray-500">Учётная стоимость</p>
+          <p className="text-lg font-semibold text-gray-900">{formatPrice(stocktake.summary.expectedCost)}</p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-3">
+          <p className="text-xs text-gray-500">Излишки</p>
+          <p className="text-lg font-semibold text-green-600">{formatPrice(stocktake.summary.surplusCost)}</p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-3">
+          <p className="text-xs text-gray-500">Недостача</p>
+          <p className="text-lg font-semibold text-red-600">{formatPrice(stocktake.summary.shortageCost)}</p>
+        </div>
+      </div>
+
+      {error && <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700 print:hidden">{error}</div>}
+
+      {/* Toolbar */}
+      <div className="mt-4 flex flex-wrap items-center gap-3 print:hidden">
+        {editable && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (scanCode.trim()) scanMutation.mutate(scanCode.trim());
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              type="text"
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Сканируйте или введите артикул"
+              autoFocus
+              className="w-72 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+            <button
+              type="submit"
+              disabled={scanMutation.isPending}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              +1
+            </button>
+            {scanMessage && <span className="text-sm text-green-600">{scanMessage}</span>}
+          </form>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={onlyDiscrepancies} onChange={(e) => setOnlyDiscrepancies(e.target.checked)} />
+          Только расхождения ({stocktake.summary.discrepancyCount})
+        </label>
+        {editable && dirty.length > 0 && (
+          <button
+            onClick={saveCounts}
+            disabled={saveMutation.isPending}
+            className="ml-auto rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            Сохранить ({dirty.length})
+          </button>
+        )}
+      </div>
+
+      {/* Lines */}
+      <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">№</th>
+              <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Запчасть</th>
+              <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Артикул</th>
+              <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Ед.</th>
+              <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Цена</th>
+              <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Учёт</th>
+              <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Факт</th>
+              <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Разница</th>
+              <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Сумма</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {lines.map((line, idx) => (
+              <tr key={line.id} className={line.countedQty === null ? 'bg-amber-50/40' : ''}>
+                <td className="px-3 py-2 text-sm text-gray-500">{idx + 1}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {line.part.name}
+                  {line.part.brand && <span className="ml-1 text-xs text-gray-500">{line.part.brand}</span>}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-600">{line.part.sku || line.part.oemNumber || '—'}</td>
+                <td className="px-3 py-2 text-sm text-gray-600">{line.part.unit}</td>
+                <td className="px-3 py-2 text-right text-sm text-gray-600">{formatPrice(line.unitCost)}</td>
+                <td className="px-3 py-2 text-right text-sm text-gray-900">{line.expectedQty}</td>
+                <td className="px-3 py-2 text-right text-sm">
+                  {editable ? (
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={counts[line.partId] ?? (line.countedQty === null ? '' : String(line.countedQty))}
+                      onChange={(e) => setCounts({ ...counts, [line.partId]: e.target.value })}
+                      className="w-24 rounded border border-gray-300 px-2 py-1 text-right text-sm focus:border-primary-500 focus:outline-none print:border-0"
+                    />
+                  ) : (
+                    <span className="text-gray-900">{line.countedQty ?? '—'}</span>
+                  )}
+                </td>
+                <td className={`px-3 py-2 text-right text-sm font-medium ${
+                  !line.difference ? 'text-gray-400' : line.difference > 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {line.difference === null ? '—' : formatDiff(line.difference)}
+                </td>
+                <td className={`px-3 py-2 text-right text-sm ${
+                  !line.differenceCost ? 'text-gray-400' : line.differenceCost > 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {line.differenceCost === null ? '—' : formatPrice(line.differenceCost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={8} className="px-3 py-2 text-right text-sm font-medium text-gray-700">Итого расхождение:</td>
+              <td className={`px-3 py-2 text-right text-sm font-semibold ${
+                stocktake.summary.netCost >= 0 ? 'text-green-600' : 'text-red-600'
+              }`}>
+                {formatPrice(stocktake.summary.netCost)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Signatures (print only) */}
+      <div className="mt-12 hidden grid-cols-2 gap-12 text-sm text-gray-900 print:grid">
+        <div>
+          <p>Председатель комиссии: ____________________</p>
+          <p className="mt-6">Члены комиссии: ____________________</p>
+          <p className="mt-6">____________________</p>
+        </div>
+        <div>
+          <p>Материально ответственное лицо: ____________________</p>
+          <p className="mt-6">Дата: ____________________</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,773 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api';
+
+// ===== Types =====
+
+interface Employee {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  isActive: boolean;
+}
+
+interface RepairType {
+  id: string;
+  name: string;
+  isPaid: boolean;
+}
+
+interface PayrollScheme {
+  id: string;
+  fixedSalary: string;
+  laborPercent: string;
+  normHourRate: string;
+  notes: string | null;
+  user: Employee;
+  repairTypeRates: Array<{ id: string; laborPercent: string; normHourRate: string; repairType: RepairType }>;
+}
+
+/** Рабочее время по графику смен; null — графика нет, оклад не уменьшается */
+interface WorkTime {
+  hasSchedule: boolean;
+  scheduledDays: number;
+  absentDays: number;
+  plannedHours: number;
+  attendedHours: number;
+}
+
+interface CalculationRow {
+  user: Employee;
+  fixed: number;
+  workTime: WorkTime | null;
+  normHours: number;
+  laborBase: number;
+  piecework: number;
+  margin: number;
+  bonusRate: number;
+  bonus: number;
+  total: number;
+  workOrders: number;
+  advisedWorkOrders: number;
+}
+
+interface BonusTier {
+  minMargin: number;
+  rate: number;
+}
+
+interface Payslip {
+  user: Employee;
+  scheme: { fixedSalary: number; laborPercent: number; normHourRate: number };
+  fixed: number;
+  workTime: WorkTime | null;
+  normHours: number;
+  laborBase: number;
+  piecework: number;
+  total: number;
+  advisor: {
+    margin: number;
+    rate: number;
+    bonus: number;
+    workOrders: Array<{
+      workOrderId: string;
+      orderNumber: string;
+      completedAt: string;
+      revenue: number;
+      partsCost: number;
+      refunds: number;
+      margin: number;
+    }>;
+  } | null;
+  workOrders: Array<{
+    workOrderId: string;
+    orderNumber: string;
+    completedAt: string;
+    repairType: RepairType | null;
+    laborPercent: number;
+    normHourRate: number;
+    normHours: number;
+    laborBase: number;
+    amount: number;
+    items: Array<{ id: string; description: string; contributionPercent: number; laborBase: number; normHours: number; amount: number }>;
+  }>;
+}
+
+const EMPLOYEE_ROLES: Record<string, string> = {
+  MECHANIC: 'Механик',
+  RECEPTIONIST: 'Приёмщик',
+  MANAGER: 'Менеджер',
+  OWNER: 'Владелец',
+};
+
+function formatMoney(value: string | number): string {
+  return Number(value).toLocaleString('ru-RU', { style: 'currency', currency: 'RUB', maximumFractionDigits: 2 });
+}
+
+/** Период по месяцу «2026-03» — с первого по последнее число */
+function monthPeriod(month: string): { from: string; to: string } {
+  const [year, m] = month.split('-').map(Number);
+  const last = new Date(year, m, 0).getDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, '0')}` };
+}
+
+// ===== Main Page =====
+
+export default function PayrollPage() {
+  const [tab, setTab] = useState<'calculation' | 'schemes'>('calculation');
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900">Зарплата</h1>
+
+      <div className="mt-4 flex gap-1 border-b border-gray-200">
+        <button
+          onClick={() => setTab('calculation')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'calculation'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Расчёт
+        </button>
+        <button
+          onClick={() => setTab('schemes')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+            tab === 'schemes'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Схемы оплаты
+        </button>
+      </div>
+
+      <div className="mt-4">
+        {tab === 'calculation' && <CalculationTab />}
+        {tab === 'schemes' && <SchemesTab />}
+      </div>
+    </div>
+  );
+}
+
+// ===== Calculation Tab =====
+
+function CalculationTab() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const { from, to } = monthPeriod(month);
+
+  const { data, isLoading } = useQuery<{ employees: CalculationRow[]; total: number }>({
+    queryKey: ['payroll-calculation', from, to],
+    queryFn: () => apiFetch(`/payroll/calculation?from=${from}&to=${to}`),
+  });
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-gray-600">Месяц</label>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => { if (e.target.value) { setMonth(e.target.value); setSelectedUserId(null); } }}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <span className="text-xs text-gray-500">Учитываются закрытые заказ-наряды, завершённые в периоде</span>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : !data?.employees.length ? (
+        <div className="mt-8 text-center text-gray-500">Схемы оплаты не заданы — настройте их на вкладке «Схемы оплаты»</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Заказ-нарядов</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Нормо-часы</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Работы</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Оклад</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Сдельно</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Бонус от маржи</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Итого</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {data.employees.map((row) => (
+                <tr
+                  key={row.user.id}
+                  onClick={() => setSelectedUserId(row.user.id)}
+                  className={`cursor-pointer hover:bg-gray-50 ${selectedUserId === row.user.id ? 'bg-primary-50' : ''}`}
+                >
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{row.user.lastName} {row.user.firstName}</div>
+                    <div className="text-xs text-gray-500">{EMPLOYEE_ROLES[row.user.role] || row.user.role}</div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{row.workOrders}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{row.normHours}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{formatMoney(row.laborBase)}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">
+                    {formatMoney(row.fixed)}
+                    {row.workTime && row.workTime.absentDays > 0 && (
+                      <div className="text-xs text-gray-400">
+                        −{row.workTime.absentDays} из {row.workTime.scheduledDays} дн.
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">{formatMoney(row.piecework)}</td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-600">
+                    {row.user.role === 'RECEPTIONIST' ? (
+                      <>
+                        {formatMoney(row.bonus)}
+                        <div className="text-xs text-gray-400">
+                          {(row.bonusRate * 100).toLocaleString('ru-RU')}% от {formatMoney(row.margin)}
+                        </div>
+                      </>
+                    ) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm font-medium text-gray-900">{formatMoney(row.total)}</td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50">
+                <td colSpan={7} className="px-4 py-3 text-right text-sm font-medium text-gray-700">Итого к выплате</td>
+                <td className="px-4 py-3 text-right text-sm font-bold text-gray-900">{formatMoney(data.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedUserId && <PayslipCard userId={selectedUserId} from={from} to={to} />}
+    </>
+  );
+}
+
+function PayslipCard({ userId, from, to }: { userId: string; from: string; to: string }) {
+  const { data: slip, isLoading } = useQuery<Payslip>({
+    queryKey: ['payroll-payslip', userId, from, to],
+    queryFn: () => apiFetch(`/payroll/payslips/${userId}?from=${from}&to=${to}`),
+  });
+
+  if (isLoading || !slip) return <div className="mt-6 text-center text-gray-500">Загрузка...</div>;
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Расчётный листок: {slip.user.lastName} {slip.user.firstName}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {new Date(from).toLocaleDateString('ru-RU')} — {new Date(to).toLocaleDateString('ru-RU')} · оклад{' '}
+            {formatMoney(slip.scheme.fixedSalary)}/мес, {slip.scheme.laborPercent}% от работ,{' '}
+            {formatMoney(slip.scheme.normHourRate)} за нормо-час
+          </p>
+        </div>
+        <div className="text-right text-sm">
+          <div className="text-gray-600">Оклад: {formatMoney(slip.fixed)}</div>
+          {slip.workTime?.hasSchedule && (
+            <div className="text-xs text-gray-400">
+              Смен {slip.workTime.scheduledDays - slip.workTime.absentDays} из {slip.workTime.scheduledDays}
+              {slip.workTime.attendedHours > 0 && ` · отмечено ${slip.workTime.attendedHours} ч`}
+            </div>
+          )}
+          <div className="text-gray-600">Сдельно: {formatMoney(slip.piecework)}</div>
+          {slip.advisor && <div className="text-gray-600">Бонус от маржи: {formatMoney(slip.advisor.bonus)}</div>}
+          <div className="font-bold text-gray-900">Итого: {formatMoney(slip.total)}</div>
+        </div>
+      </div>
+
+      {slip.advisor && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-gray-900">
+            Бонус приёмщика: {(slip.advisor.rate * 100).toLocaleString('ru-RU')}% от маржи {formatMoney(slip.advisor.margin)}
+          </h3>
+          {slip.advisor.workOrders.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">Закрытых заказ-нарядов приёмщика за период нет</p>
+          ) : (
+            <table className="mt-2 min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                  <th className="py-2 font-medium">Заказ-наряд</th>
+                  <th className="py-2 text-right font-medium">Выручка</th>
+                  <th className="py-2 text-right font-medium">Себестоимость запчастей</th>
+                  <th className="py-2 text-right font-medium">Возвраты</th>
+                  <th className="py-2 text-right font-medium">Маржа</th>
+                </tr>
+              </thead>
+              <tbody>
+                {slip.advisor.workOrders.map((wo) => (
+                  <tr key={wo.workOrderId} className="border-b border-gray-100 text-gray-600">
+                    <td className="py-1.5">
+                      <Link href={`/work-orders/${wo.workOrderId}`} className="text-primary-600 hover:underline">
+                        {wo.orderNumber}
+                      </Link>
+                      <span className="ml-2 text-xs text-gray-500">{new Date(wo.completedAt).toLocaleDateString('ru-RU')}</span>
+                    </td>
+                    <td className="py-1.5 text-right">{formatMoney(wo.revenue)}</td>
+                    <td className="py-1.5 text-right">{formatMoney(wo.partsCost)}</td>
+                    <td className="py-1.5 text-right">{wo.refunds ? formatMoney(wo.refunds) : '—'}</td>
+                    <td className="py-1.5 text-right font-medium text-gray-900">{formatMoney(wo.margin)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {slip.workOrders.length === 0 ? (
+        !slip.advisor && <p className="mt-4 text-sm text-gray-500">Работ по закрытым заказ-нарядам за период нет</p>
+      ) : (
+        <table className="mt-4 min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+              <th className="py-2 font-medium">Заказ-наряд / работа</th>
+              <th className="py-2 text-right font-medium">Доля</th>
+              <th className="py-2 text-right font-medium">Нормо-часы</th>
+              <th className="py-2 text-right font-medium">Работы</th>
+              <th className="py-2 text-right font-medium">Начислено</th>
+            </tr>
+          </thead>
+          <tbody>
+            {slip.workOrders.map((wo) => (
+              <Fragment key={wo.workOrderId}>
+                <tr className="border-b border-gray-100 bg-gray-50">
+                  <td className="py-2 font-medium">
+                    <Link href={`/work-orders/${wo.workOrderId}`} className="text-primary-600 hover:underline">
+                      {wo.orderNumber}
+                    </Link>
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {new Date(wo.completedAt).toLocaleDateString('ru-RU')}
+                      {wo.repairType && ` · ${wo.repairType.name}`} · {wo.laborPercent}% / {formatMoney(wo.normHourRate)} н/ч
+                    </span>
+                  </td>
+                  <td />
+                  <td className="py-2 text-right">{wo.normHours}</td>
+                  <td className="py-2 text-right">{formatMoney(wo.laborBase)}</td>
+                  <td className="py-2 text-right font-medium">{formatMoney(wo.amount)}</td>
+                </tr>
+                {wo.items.map((item) => (
+                  <tr key={item.id} className="border-b border-gray-100 text-gray-600">
+                    <td className="py-1.5 pl-4">{item.description}</td>
+                    <td className="py-1.5 text-right">{item.contributionPercent}%</td>
+                    <td className="py-1.5 text-right">{item.normHours}</td>
+                    <td className="py-1.5 text-right">{formatMoney(item.laborBase)}</td>
+                    <td className="py-1.5 text-right">{formatMoney(item.amount)}</td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ===== Schemes Tab =====
+
+function SchemesTab() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Employee | null>(null);
+
+  const { data: employees, isLoading } = useQuery<{ data: Employee[] }>({
+    queryKey: ['payroll-employees'],
+    queryFn: () => apiFetch('/users?limit=100&sort=lastName&order=asc&excludeRole=CLIENT'),
+  });
+
+  const { data: schemes } = useQuery<PayrollScheme[]>({
+    queryKey: ['payroll-schemes'],
+    queryFn: () => apiFetch('/payroll/schemes'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (userId: string) => apiFetch(`/payroll/schemes/${userId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['payroll-schemes'] }),
+  });
+
+  if (isLoading) return <div className="mt-8 text-center text-gray-500">Загрузка...</div>;
+
+  return (
+    <>
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Оклад</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">% от работ</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">За нормо-час</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Особые ставки</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {(employees?.data ?? []).map((user) => {
+              const scheme = schemes?.find((s) => s.user.id === user.id);
+              return (
+                <tr key={user.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{user.lastName} {user.firstName}</div>
+                    <div className="text-xs text-gray-500">{EMPLOYEE_ROLES[user.role] || user.role}</div>
+                  </td>
+                  {scheme ? (
+                    <>
+                      <td className="px-4 py-3 text-right text-sm text-gray-600">{formatMoney(scheme.fixedSalary)}</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-600">{Number(scheme.laborPercent)}%</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-600">{formatMoney(scheme.normHourRate)}</td>
+                      <td className="px-4 py-3 text-xs text-gray-500">
+                        {scheme.repairTypeRates.length
+                          ? scheme.repairTypeRates
+                              .map((r) => `${r.repairType.name}: ${Number(r.laborPercent)}% / ${formatMoney(r.normHourRate)}`)
+                              .join('; ')
+                          : '—'}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="px-4 py-3 text-sm text-gray-400">Схема не задана</td>
+                  )}
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                    <button onClick={() => setEditing(user)} className="text-primary-600 hover:text-primary-800">
+                      {scheme ? 'Изменить' : 'Задать'}
+                    </button>
+                    {scheme && (
+                      <button
+                        onClick={() => { if (confirm('Удалить схему оплаты?')) deleteMutation.mutate(user.id); }}
+                        className="ml-3 text-red-600 hover:text-red-800"
+                      >
+                        Удалить
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <BonusTiersCard />
+
+      {editing && (
+        <SchemeModal
+          user={editing}
+          scheme={schemes?.find((s) => s.user.id === editing.id) ?? null}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            queryClient.invalidateQueries({ queryKey: ['payroll-schemes'] });
+            queryClient.invalidateQueries({ queryKey: ['payroll-calculation'] });
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function BonusTiersCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Array<{ minMargin: string; rate: string }> | null>(null);
+  const [error, setError] = useState('');
+
+  const { data } = useQuery<{ tiers: BonusTier[]; isDefault: boolean }>({
+    queryKey: ['payroll-bonus-tiers'],
+    queryFn: () => apiFetch('/payroll/bonus-tiers'),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (tiers: BonusTier[] | null) =>
+      apiFetch('/payroll/bonus-tiers', { method: 'PUT', body: JSON.stringify({ tiers }) }),
+    onSuccess: () => {
+      setDraft(null);
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['payroll-bonus-tiers'] });
+      queryClient.invalidateQueries({ queryKey: ['payroll-calculation'] });
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка сохранения'),
+  });
+
+  if (!data) return null;
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Бонус приёмщика от маржи</h2>
+          <p className="text-sm text-gray-500">
+            Маржа закрытых заказ-нарядов приёмщика за период (выручка − себестоимость запчастей − возвраты).
+            Ставка самой высокой достигнутой ступени применяется ко всей марже.
+            {data.isDefault && ' Сейчас действуют ступени по умолчанию.'}
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(data.tiers.map((t) => ({ minMargin: String(t.minMargin), rate: String(t.rate * 100) })))}
+            className="whitespace-nowrap text-sm text-primary-600 hover:text-primary-800"
+          >
+            Изменить
+          </button>
+        )}
+      </div>
+
+      {!draft ? (
+        data.tiers.length === 0 ? (
+          <p className="mt-3 text-sm text-gray-500">Бонус отключён</p>
+        ) : (
+          <ul className="mt-3 space-y-1 text-sm text-gray-700">
+            {data.tiers.map((t) => (
+              <li key={t.minMargin}>
+                маржа свыше {formatMoney(t.minMargin)} — {(t.rate * 100).toLocaleString('ru-RU')}%
+              </li>
+            ))}
+          </ul>
+        )
+      ) : (
+        <div className="mt-3 space-y-2">
+          {draft.map((tier, i) => (
+            <div key={i} className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">свыше</span>
+              <input
+                type="number"
+                min={0}
+                value={tier.minMargin}
+                onChange={(e) => setDraft(draft.map((t, j) => (j === i ? { ...t, minMargin: e.target.value } : t)))}
+                className="w-36 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+              />
+              <span className="text-gray-600">₽ —</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={tier.rate}
+                onChange={(e) => setDraft(draft.map((t, j) => (j === i ? { ...t, rate: e.target.value } : t)))}
+                className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+              />
+              <span className="text-gray-600">%</span>
+              <button
+                type="button"
+                onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setDraft([...draft, { minMargin: '', rate: '' }])}
+            className="text-sm text-primary-600 hover:text-primary-800"
+          >
+            + Добавить ступень
+          </button>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            {!data.isDefault && (
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate(null)}
+                className="mr-auto text-sm text-gray-500 hover:text-gray-700"
+              >
+                Вернуть по умолчанию
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => { setDraft(null); setError(''); }}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="button"
+              disabled={saveMutation.isPending}
+              onClick={() =>
+                saveMutation.mutate(
+                  draft.map((t) => ({ minMargin: Number(t.minMargin) || 0, rate: (Number(t.rate) || 0) / 100 })),
+                )
+              }
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saveMutation.isPending ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SchemeModal({
+  user,
+  scheme,
+  onClose,
+  onSuccess,
+}: {
+  user: Employee;
+  scheme: PayrollScheme | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [fixedSalary, setFixedSalary] = useState(scheme ? String(Number(scheme.fixedSalary)) : '0');
+  const [laborPercent, setLaborPercent] = useState(scheme ? String(Number(scheme.laborPercent)) : '0');
+  const [normHourRate, setNormHourRate] = useState(scheme ? String(Number(scheme.normHourRate)) : '0');
+  const [notes, setNotes] = useState(scheme?.notes || '');
+  const [rates, setRates] = useState(
+    (scheme?.repairTypeRates ?? []).map((r) => ({
+      repairTypeId: r.repairType.id,
+      laborPercent: String(Number(r.laborPercent)),
+      normHourRate: String(Number(r.normHourRate)),
+    })),
+  );
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: repairTypes } = useQuery<RepairType[]>({
+    queryKey: ['payroll-repair-types'],
+    queryFn: () => apiFetch('/payroll/repair-types'),
+  });
+
+  const inputCls =
+    'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+  const freeTypes = (repairTypes ?? []).filter((t) => !rates.some((r) => r.repairTypeId === t.id));
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      await apiFetch(`/payroll/schemes/${user.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          fixedSalary: Number(fixedSalary) || 0,
+          laborPercent: Number(laborPercent) || 0,
+          normHourRate: Number(normHourRate) || 0,
+          notes: notes || undefined,
+          repairTypeRates: rates.map((r) => ({
+            repairTypeId: r.repairTypeId,
+            laborPercent: Number(r.laborPercent) || 0,
+            normHourRate: Number(r.normHourRate) || 0,
+          })),
+        }),
+      });
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Схема оплаты</h2>
+        <p className="text-sm text-gray-500">{user.lastName} {user.firstName}</p>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Оклад, ₽/мес</label>
+              <input type="number" min={0} value={fixedSalary} onChange={(e) => setFixedSalary(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">% от работ</label>
+              <input type="number" min={0} max={100} step="0.01" value={laborPercent} onChange={(e) => setLaborPercent(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">₽ за нормо-час</label>
+              <input type="number" min={0} value={normHourRate} onChange={(e) => setNormHourRate(e.target.value)} className={inputCls} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Особые ставки по видам ремонта</label>
+            <p className="text-xs text-gray-500">Например, гарантийный или внутренний ремонт — вместо основных ставок</p>
+            {rates.map((rate, i) => (
+              <div key={rate.repairTypeId} className="mt-2 flex items-center gap-2">
+                <span className="flex-1 text-sm text-gray-700">
+                  {repairTypes?.find((t) => t.id === rate.repairTypeId)?.name ?? '—'}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={rate.laborPercent}
+                  onChange={(e) => setRates(rates.map((r, j) => (j === i ? { ...r, laborPercent: e.target.value } : r)))}
+                  className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                  title="% от работ"
+                />
+                <span className="text-xs text-gray-500">%</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={rate.normHourRate}
+                  onChange={(e) => setRates(rates.map((r, j) => (j === i ? { ...r, normHourRate: e.target.value } : r)))}
+                  className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                  title="₽ за нормо-час"
+                />
+                <span className="text-xs text-gray-500">₽/н-ч</span>
+                <button
+                  type="button"
+                  onClick={() => setRates(rates.filter((_, j) => j !== i))}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {freeTypes.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  if (e.target.value) setRates([...rates, { repairTypeId: e.target.value, laborPercent: '0', normHourRate: '0' }]);
+                }}
+                className={inputCls}
+              >
+                <option value="">+ Добавить вид ремонта</option>
+                {freeTypes.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}{t.isPaid ? '' : ' (бесплатный для клиента)'}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Примечание</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputCls} />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
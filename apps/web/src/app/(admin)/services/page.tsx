@@ -17,6 +17,15 @@ interface Service {
   createdAt: string;
 }
 
+interface ServiceBay {
+  id: string;
+  name: string;
+  type: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  workOrders: Array<{ id: string; orderNumber: string; vehicle: { make: string; model: string; licensePlate: string | null } }>;
+}
+
 interface PaginatedResponse {
   data: Service[];
   meta: { total: number; page: number; limit: number; totalPages: number };
@@ -211,6 +220,200 @@ export default function ServicesPage() {
           }}
         />
       )}
+
+      <ServiceBaysSection />
+    </div>
+  );
+}
+
+// ===== Service Bays =====
+
+function ServiceBaysSection() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ServiceBay | 'new' | null>(null);
+
+  const { data: bays, isLoading } = useQuery<ServiceBay[]>({
+    queryKey: ['service-bays', 'all'],
+    queryFn: () => apiFetch('/service-bays?includeInactive=true'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/service-bays/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['service-bays'] }),
+    onError: (err: Error) => alert(err.message),
+  });
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Рабочие посты</h2>
+          <p className="text-xs text-gray-500">Подъёмники и боксы: на одном посту не может быть двух записей в одно время</p>
+        </div>
+        <button
+          onClick={() => setEditing('new')}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Добавить пост
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-4 text-center text-gray-500">Загрузка...</div>
+      ) : !bays?.length ? (
+        <div className="mt-4 text-center text-sm text-gray-500">Посты не заведены</div>
+      ) : (
+        <div className="mt-2 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Пост</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Тип</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сейчас</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Статус</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {bays.map((bay) => (
+                <tr key={bay.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{bay.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{bay.type || '—'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {bay.workOrders.length
+                      ? bay.workOrders.map((wo) => `${wo.orderNumber} · ${wo.vehicle.make} ${wo.vehicle.model}`).join(', ')
+                      : <span className="text-gray-400">свободен</span>}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                        bay.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {bay.isActive ? 'Активен' : 'Неактивен'}
+                    </span>
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                    <button onClick={() => setEditing(bay)} className="text-primary-600 hover:text-primary-800">
+                      Изменить
+                    </button>
+                    <button
+                      onClick={() => { if (confirm(`Удалить пост «${bay.name}»?`)) deleteMutation.mutate(bay.id); }}
+                      className="ml-3 text-red-600 hover:text-red-800"
+                    >
+                      Удалить
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <ServiceBayModal
+          bay={editing === 'new' ? null : editing}
+          nextSortOrder={bays?.length ?? 0}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            queryClient.invalidateQueries({ queryKey: ['service-bays'] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ServiceBayModal({
+  bay,
+  nextSortOrder,
+  onClose,
+  onSuccess,
+}: {
+  bay: ServiceBay | null;
+  nextSortOrder: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [name, setName] = useState(bay?.name || '');
+  const [type, setType] = useState(bay?.type || '');
+  const [sortOrder, setSortOrder] = useState(String(bay?.sortOrder ?? nextSortOrder));
+  const [isActive, setIsActive] = useState(bay?.isActive ?? true);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const inputCls =
+    'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    const body: any = { name, type: type || undefined, sortOrder: Number(sortOrder) || 0 };
+    if (bay) body.isActive = isActive;
+    try {
+      if (bay) {
+        await apiFetch(`/service-bays/${bay.id}`, { method: 'PATCH', body: JSON.stringify(body) });
+      } else {
+        await apiFetch('/service-bays', { method: 'POST', body: JSON.stringify(body) });
+      }
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">{bay ? 'Редактировать пост' : 'Новый пост'}</h2>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Название *</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputCls} placeholder="Подъёмник 1" required />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Тип</label>
+              <input type="text" value={type} onChange={(e) => setType(e.target.value)} className={inputCls} placeholder="Двухстоечный, яма…" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Порядок в календаре</label>
+              <input type="number" min={0} value={sortOrder} onChange={(e) => setSortOrder(e.target.value)} className={inputCls} />
+            </div>
+          </div>
+          {bay && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              Активен
+            </label>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   );
 }
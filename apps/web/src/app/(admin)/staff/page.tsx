@@ -1,10 +1,758 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { SHIFT_PRESETS } from '@sto-crm/shared';
+import { apiFetch } from '@/lib/api';
+
+// ===== Types =====
+
+interface Employee {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+interface ShiftSchedule {
+  id: string;
+  pattern: 'WEEKLY' | 'CYCLE';
+  weekDays: number[];
+  cycleWorkDays: number;
+  cycleRestDays: number;
+  cycleStart: string | null;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  user: Employee;
+}
+
+interface Absence {
+  id: string;
+  type: string;
+  dateFrom: string;
+  dateTo: string;
+  notes: string | null;
+  user: Employee;
+  createdBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface Attendance {
+  id: string;
+  clockIn: string;
+  clockOut: string | null;
+  user: Employee;
+}
+
+interface Roster {
+  days: string[];
+  employees: Array<{
+    user: Employee;
+    schedule: ShiftSchedule;
+    days: Array<{
+      date: string;
+      isWorkday: boolean;
+      absence: { id: string; type: string } | null;
+      start: string | null;
+      end: string | null;
+      hours: number;
+      attendedHours: number;
+    }>;
+  }>;
+}
+
+const EMPLOYEE_ROLES: Record<string, string> = {
+  MECHANIC: 'Механик',
+  RECEPTIONIST: 'Приёмщик',
+  MANAGER: 'Менеджер',
+  OWNER: 'Владелец',
+};
+
+const ABSENCE_TYPES: Record<string, string> = {
+  VACATION: 'Отпуск',
+  SICK_LEAVE: 'Больничный',
+  DAY_OFF: 'Отгул',
+  OTHER: 'Другое',
+};
+
+/** Короткие отметки отсутствий в ячейках табеля */
+const ABSENCE_CODES: Record<string, { code: string; color: string }> = {
+  VACATION: { code: 'О', color: 'bg-blue-100 text-blue-700' },
+  SICK_LEAVE: { code: 'Б', color: 'bg-red-100 text-red-700' },
+  DAY_OFF: { code: 'В', color: 'bg-yellow-100 text-yellow-700' },
+  OTHER: { code: '—', color: 'bg-gray-100 text-gray-600' },
+};
+
+const WEEK_DAYS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+
+const inputCls =
+  'rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+function monthPeriod(month: string): { from: string; to: string } {
+  const [year, m] = month.split('-').map(Number);
+  const last = new Date(year, m, 0).getDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, '0')}` };
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+}
+
+function describeSchedule(schedule: ShiftSchedule): string {
+  const days = schedule.pattern === 'WEEKLY'
+    ? schedule.weekDays.map((d) => WEEK_DAYS[d - 1]).join(', ')
+    : `${schedule.cycleWorkDays}/${schedule.cycleRestDays} с ${new Date(schedule.cycleStart!).toLocaleDateString('ru-RU', { timeZone: 'UTC' })}`;
+  return `${days} · ${schedule.startTime}–${schedule.endTime}`;
+}
+
+// ===== Main Page =====
+
 export default function StaffPage() {
+  const [tab, setTab] = useState<'roster' | 'schedules' | 'absences' | 'attendance'>('roster');
+  const tabs = [
+    { key: 'roster', label: 'Табель' },
+    { key: 'schedules', label: 'Графики смен' },
+    { key: 'absences', label: 'Отсутствия' },
+    { key: 'attendance', label: 'Отметки' },
+  ] as const;
+
   return (
     <div>
-      <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Персонал</h1>
+      <h1 className="text-2xl font-bold text-gray-900">Персонал</h1>
+
+      <div className="mt-4 flex gap-1 border-b border-gray-200">
+        {tabs.map((t) => (
+          <button
+            key={t.key}
+            onClick={() => setTab(t.key)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition ${
+              tab === t.key
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4">
+        {tab === 'roster' && <RosterTab />}
+        {tab === 'schedules' && <SchedulesTab />}
+        {tab === 'absences' && <AbsencesTab />}
+        {tab === 'attendance' && <AttendanceTab />}
       </div>
-      <p className="mt-4 text-gray-600">Управление персоналом будет здесь.</p>
     </div>
   );
 }
+
+// ===== Roster Tab =====
+
+function RosterTab() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const { from, to } = monthPeriod(month);
+
+  const { data: roster, isLoading, error } = useQuery<Roster>({
+    queryKey: ['shifts-roster', from, to],
+    queryFn: () => apiFetch(`/shifts/roster?from=${from}&to=${to}`),
+  });
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-4">
+        <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputCls} />
+        <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+          {Object.entries(ABSENCE_CODES).map(([type, { code, color }]) => (
+            <span key={type} className="flex items-center gap-1">
+              <span className={`rounded px-1.5 py-0.5 font-medium ${color}`}>{code}</span>
+              {ABSENCE_TYPES[type]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : error ? (
+        <div className="mt-8 text-center text-red-600">{(error as Error).message}</div>
+      ) : !roster?.employees.length ? (
+        <div className="mt-8 text-center text-gray-500">Графики смен не заданы</div>
+      ) : (
+        <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="sticky left-0 bg-gray-50 px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+                {roster.days.map((day) => {
+                  const date = new Date(`${day}T00:00:00`);
+                  const weekend = date.getDay() === 0 || date.getDay() === 6;
+                  return (
+                    <th key={day} className={`px-1 py-3 text-center text-xs font-medium ${weekend ? 'text-red-500' : 'text-gray-500'}`}>
+                      {date.getDate()}
+                    </th>
+                  );
+                })}
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">План, ч</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Факт, ч</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {roster.employees.map((row) => (
+                <tr key={row.user.id}>
+                  <td className="sticky left-0 whitespace-nowrap bg-white px-4 py-2 text-sm">
+                    <div className="font-medium text-gray-900">{row.user.lastName} {row.user.firstName}</div>
+                    <div className="text-xs text-gray-500">{EMPLOYEE_ROLES[row.user.role] || row.user.role}</div>
+                  </td>
+                  {row.days.map((day) => {
+                    const absence = day.absence ? ABSENCE_CODES[day.absence.type] : null;
+                    return (
+                      <td
+                        key={day.date}
+                        className="px-1 py-2 text-center text-xs"
+                        title={
+                          day.absence
+                            ? ABSENCE_TYPES[day.absence.type]
+                            : day.start && day.end
+                              ? `${formatTime(day.start)}–${formatTime(day.end)}`
+                              : 'Выходной'
+                        }
+                      >
+                        {absence ? (
+                          <span className={`rounded px-1.5 py-0.5 font-medium ${absence.color}`}>{absence.code}</span>
+                        ) : day.isWorkday ? (
+                          <span className="rounded bg-green-100 px-1.5 py-0.5 font-medium text-green-700">{day.hours}</span>
+                        ) : (
+                          <span className="text-gray-300">·</span>
+                        )}
+                        {day.attendedHours > 0 && (
+                          <div className="mt-0.5 text-[10px] text-gray-500">{day.attendedHours}</div>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-right text-sm text-gray-600">
+                    {Math.round(row.days.reduce((s, d) => s + d.hours, 0) * 100) / 100}
+                  </td>
+                  <td className="px-4 py-2 text-right text-sm text-gray-600">
+                    {Math.round(row.days.reduce((s, d) => s + d.attendedHours, 0) * 100) / 100}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
+
+// ===== Schedules Tab =====
+
+function SchedulesTab() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Employee | null>(null);
+
+  const { data: employees, isLoading } = useQuery<{ data: Employee[] }>({
+    queryKey: ['shifts-employees'],
+    queryFn: () => apiFetch('/users?limit=100&sort=lastName&order=asc&excludeRole=CLIENT'),
+  });
+
+  const { data: schedules } = useQuery<ShiftSchedule[]>({
+    queryKey: ['shifts-schedules'],
+    queryFn: () => apiFetch('/shifts/schedules'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (userId: string) => apiFetch(`/shifts/schedules/${userId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts-roster'] });
+    },
+  });
+
+  if (isLoading) return <div className="mt-8 text-center text-gray-500">Загрузка...</div>;
+
+  return (
+    <>
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+              <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">График</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Перерыв, мин</th>
+              <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {(employees?.data ?? []).map((user) => {
+              const schedule = schedules?.find((s) => s.user.id === user.id);
+              return (
+                <tr key={user.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{user.lastName} {user.firstName}</div>
+                    <div className="text-xs text-gray-500">{EMPLOYEE_ROLES[user.role] || user.role}</div>
+                  </td>
+                  {schedule ? (
+                    <>
+                      <td className="px-4 py-3 text-sm text-gray-600">{describeSchedule(schedule)}</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-600">{schedule.breakMinutes}</td>
+                    </>
+                  ) : (
+                    <td colSpan={2} className="px-4 py-3 text-sm text-gray-400">График не задан</td>
+                  )}
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                    <button onClick={() => setEditing(user)} className="text-primary-600 hover:text-primary-800">
+                      {schedule ? 'Изменить' : 'Задать'}
+                    </button>
+                    {schedule && (
+                      <button
+                        onClick={() => { if (confirm('Удалить график смен?')) deleteMutation.mutate(user.id); }}
+                        className="ml-3 text-red-600 hover:text-red-800"
+                      >
+                        Удалить
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Пока у механиков нет графиков, запись клиентов принимается на любое время
+      </p>
+
+      {editing && (
+        <ScheduleModal
+          user={editing}
+          schedule={schedules?.find((s) => s.user.id === editing.id) ?? null}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            queryClient.invalidateQueries({ queryKey: ['shifts-schedules'] });
+            queryClient.invalidateQueries({ queryKey: ['shifts-roster'] });
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function ScheduleModal({
+  user,
+  schedule,
+  onClose,
+  onSuccess,
+}: {
+  user: Employee;
+  schedule: ShiftSchedule | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const [pattern, setPattern] = useState<'WEEKLY' | 'CYCLE'>(schedule?.pattern ?? 'WEEKLY');
+  const [weekDays, setWeekDays] = useState<number[]>(schedule?.weekDays ?? [1, 2, 3, 4, 5]);
+  const [cycleWorkDays, setCycleWorkDays] = useState(String(schedule?.cycleWorkDays ?? 2));
+  const [cycleRestDays, setCycleRestDays] = useState(String(schedule?.cycleRestDays ?? 2));
+  const [cycleStart, setCycleStart] = useState(
+    schedule?.cycleStart?.slice(0, 10) ?? new Date().toLocaleDateString('sv-SE'),
+  );
+  const [startTime, setStartTime] = useState(schedule?.startTime ?? '09:00');
+  const [endTime, setEndTime] = useState(schedule?.endTime ?? '18:00');
+  const [breakMinutes, setBreakMinutes] = useState(String(schedule?.breakMinutes ?? 60));
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  function applyPreset(name: string) {
+    const preset = SHIFT_PRESETS[name];
+    setPattern(preset.pattern);
+    if (preset.pattern === 'WEEKLY') setWeekDays(preset.weekDays);
+    setCycleWorkDays(String(preset.cycleWorkDays));
+    setCycleRestDays(String(preset.cycleRestDays));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      await apiFetch(`/shifts/schedules/${user.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          pattern,
+          weekDays: pattern === 'WEEKLY' ? weekDays : [],
+          cycleWorkDays: Number(cycleWorkDays) || 1,
+          cycleRestDays: Number(cycleRestDays) || 1,
+          cycleStart: pattern === 'CYCLE' ? cycleStart : undefined,
+          startTime,
+          endTime,
+          breakMinutes: Number(breakMinutes) || 0,
+        }),
+      });
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">График смен</h2>
+        <p className="text-sm text-gray-500">{user.lastName} {user.firstName}</p>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(SHIFT_PRESETS).map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => applyPreset(name)}
+                className="rounded-lg border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={pattern === 'WEEKLY'} onChange={() => setPattern('WEEKLY')} />
+              По дням недели
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={pattern === 'CYCLE'} onChange={() => setPattern('CYCLE')} />
+              Сменный цикл
+            </label>
+          </div>
+
+          {pattern === 'WEEKLY' ? (
+            <div className="flex gap-1">
+              {WEEK_DAYS.map((label, i) => {
+                const day = i + 1;
+                const active = weekDays.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => setWeekDays(active ? weekDays.filter((d) => d !== day) : [...weekDays, day].sort())}
+                    className={`w-10 rounded-lg border py-1 text-sm ${
+                      active ? 'border-primary-600 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-500'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Рабочих дней</label>
+                <input type="number" min={1} max={14} value={cycleWorkDays} onChange={(e) => setCycleWorkDays(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Выходных</label>
+                <input type="number" min={1} max={14} value={cycleRestDays} onChange={(e) => setCycleRestDays(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Первый рабочий</label>
+                <input type="date" value={cycleStart} onChange={(e) => setCycleStart(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Начало</label>
+              <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Конец</label>
+              <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Перерыв, мин</label>
+              <input type="number" min={0} max={480} value={breakMinutes} onChange={(e) => setBreakMinutes(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Если конец раньше начала, смена заканчивается на следующий день</p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ===== Absences Tab =====
+
+function AbsencesTab() {
+  const queryClient = useQueryClient();
+  const [showCreate, setShowCreate] = useState(false);
+
+  const { data: absences, isLoading } = useQuery<Absence[]>({
+    queryKey: ['shifts-absences'],
+    queryFn: () => apiFetch('/shifts/absences'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch(`/shifts/absences/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts-absences'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts-roster'] });
+    },
+  });
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString('ru-RU', { timeZone: 'UTC' });
+
+  return (
+    <>
+      <div className="flex justify-end">
+        <button
+          onClick={() => setShowCreate(true)}
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+        >
+          + Отсутствие
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Тип</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Период</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Примечание</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {!absences?.length ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">Отсутствий нет</td>
+                </tr>
+              ) : absences.map((a) => (
+                <tr key={a.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{a.user.lastName} {a.user.firstName}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ABSENCE_CODES[a.type]?.color}`}>
+                      {ABSENCE_TYPES[a.type] || a.type}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {formatDate(a.dateFrom)}
+                    {a.dateTo !== a.dateFrom && ` — ${formatDate(a.dateTo)}`}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{a.notes || '—'}</td>
+                  <td className="px-4 py-3 text-right text-sm">
+                    <button
+                      onClick={() => { if (confirm('Удалить отсутствие?')) deleteMutation.mutate(a.id); }}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Удалить
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showCreate && (
+        <AbsenceModal
+          onClose={() => setShowCreate(false)}
+          onSuccess={() => {
+            setShowCreate(false);
+            queryClient.invalidateQueries({ queryKey: ['shifts-absences'] });
+            queryClient.invalidateQueries({ queryKey: ['shifts-roster'] });
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function AbsenceModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const today = new Date().toLocaleDateString('sv-SE');
+  const [userId, setUserId] = useState('');
+  const [type, setType] = useState('VACATION');
+  const [dateFrom, setDateFrom] = useState(today);
+  const [dateTo, setDateTo] = useState(today);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: employees } = useQuery<{ data: Employee[] }>({
+    queryKey: ['shifts-employees'],
+    queryFn: () => apiFetch('/users?limit=100&sort=lastName&order=asc&excludeRole=CLIENT'),
+  });
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      await apiFetch('/shifts/absences', {
+        method: 'POST',
+        body: JSON.stringify({ userId, type, dateFrom, dateTo, notes: notes || undefined }),
+      });
+      onSuccess();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Отсутствие</h2>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Сотрудник</label>
+            <select required value={userId} onChange={(e) => setUserId(e.target.value)} className={`mt-1 block w-full ${inputCls}`}>
+              <option value="">Выберите сотрудника</option>
+              {(employees?.data ?? []).map((u) => (
+                <option key={u.id} value={u.id}>{u.lastName} {u.firstName}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Тип</label>
+            <select value={type} onChange={(e) => setType(e.target.value)} className={`mt-1 block w-full ${inputCls}`}>
+              {Object.entries(ABSENCE_TYPES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">С</label>
+              <input type="date" required value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">По</label>
+              <input type="date" required value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Примечание</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={`mt-1 block w-full ${inputCls}`} />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ===== Attendance Tab =====
+
+function AttendanceTab() {
+  const today = new Date();
+  const [from, setFrom] = useState(
+    () => new Date(today.getFullYear(), today.getMonth(), 1).toLocaleDateString('sv-SE'),
+  );
+  const [to, setTo] = useState(() => today.toLocaleDateString('sv-SE'));
+
+  const { data: records, isLoading } = useQuery<Attendance[]>({
+    queryKey: ['shifts-attendance', from, to],
+    queryFn: () => apiFetch(`/shifts/attendance?from=${from}&to=${to}`),
+    enabled: Boolean(from && to),
+  });
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+        <span className="text-gray-500">—</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Сотрудник</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Дата</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Приход</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Уход</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Часов</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {!records?.length ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">Отметок за период нет</td>
+                </tr>
+              ) : records.map((r) => {
+                const end = r.clockOut ? new Date(r.clockOut) : new Date();
+                const hours = Math.round(((end.getTime() - new Date(r.clockIn).getTime()) / 3_600_000) * 100) / 100;
+                return (
+                  <tr key={r.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{r.user.lastName} {r.user.firstName}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{new Date(r.clockIn).toLocaleDateString('ru-RU')}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{formatTime(r.clockIn)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {r.clockOut ? formatTime(r.clockOut) : <span className="text-green-600">на смене</span>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{hours}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
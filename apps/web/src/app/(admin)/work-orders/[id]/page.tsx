@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/providers/auth-provider';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import {
@@ -19,8 +20,8 @@ interface ItemMechanicEntry {
 }
 
 interface WarehouseStockEntry {
-  quantity: number;
-  reserved: number;
+  quantity: string | number;
+  reserved: string | number;
   warehouse: { id: string; name: string };
 }
 
@@ -43,7 +44,7 @@ interface WorkOrderItem {
     sku: string | null;
     manufacturer: string | null;
     unit: string;
-    currentStock: number;
+    currentStock: string | number;
     warehouseStock: WarehouseStockEntry[];
   } | null;
 }
@@ -53,6 +54,16 @@ interface WorkLogEntry {
   description: string;
   hoursWorked: string | number;
   logDate: string;
+  workOrderItemId: string | null;
+  mechanic: { id: string; firstName: string; lastName: string };
+}
+
+interface WorkTimerEntry {
+  id: string;
+  status: 'RUNNING' | 'PAUSED';
+  segmentStartedAt: string | null;
+  elapsedSeconds: number;
+  workOrderItemId: string;
   mechanic: { id: string; firstName: string; lastName: string };
 }
 
@@ -65,6 +76,27 @@ interface ActivityEntry {
   user: { id: string; firstName: string; lastName: string } | null;
 }
 
+interface PaymentEntry {
+  id: string;
+  amount: string | number;
+  method: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'BONUS';
+  isPrepayment: boolean;
+  notes: string | null;
+  paidAt: string;
+  receivedBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface ClientReturnEntry {
+  id: string;
+  number: string;
+  reason: string | null;
+  refundAmount: string | number;
+  refundMethod: PaymentEntry['method'];
+  createdAt: string;
+  warehouse: { id: string; name: string };
+  items: { id: string; workOrderItemId: string; quantity: string | number; amount: string | number }[];
+}
+
 interface WorkOrderDetail {
   id: string;
   orderNumber: string;
@@ -77,15 +109,21 @@ interface WorkOrderDetail {
   totalLabor: string | number;
   totalParts: string | number;
   totalAmount: string | number;
+  paidAmount: string | number;
+  partsCost: string | number;
   createdAt: string;
   updatedAt: string;
   client: { id: string; firstName: string; lastName: string; phone: string | null; email: string | null };
   advisor: { id: string; firstName: string; lastName: string } | null;
   mechanic: { id: string; firstName: string; lastName: string } | null;
+  serviceBay: { id: string; name: string } | null;
   vehicle: { id: string; make: string; model: string; licensePlate: string | null; year: number | null; vin: string | null; mileage: number | null };
   items: WorkOrderItem[];
   workLogs: WorkLogEntry[];
+  workTimers: WorkTimerEntry[];
   activities: ActivityEntry[];
+  payments: PaymentEntry[];
+  returns: ClientReturnEntry[];
 }
 
 const STATUS_LABELS: Record<string, string> = {
@@ -135,8 +173,22 @@ const ACTIVITY_DOT_COLORS: Record<string, string> = {
   ITEM_DELETED: 'bg-red-500',
   UPDATED: 'bg-gray-400',
   WORK_LOG: 'bg-yellow-500',
+  TIMER: 'bg-sky-500',
+  PAYMENT: 'bg-emerald-500',
+  RETURN: 'bg-rose-500',
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentEntry['method'], string> = {
+  CASH: 'Наличные',
+  CARD: 'Карта',
+  BANK_TRANSFER: 'Безналичный перевод',
+  BONUS: 'Бонусы',
 };
 
+const PAYABLE_STATUSES = ['APPROVED', 'IN_PROGRESS', 'PAUSED', 'COMPLETED', 'INVOICED'];
+
+const RETURNABLE_STATUSES = ['PAID', 'CLOSED'];
+
 function formatMoney(amount: number | string): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount;
   if (!num) return '0 ₽';
@@ -155,9 +207,10 @@ export default function WorkOrderDetailPage() {
   const queryClient = useQueryClient();
   const id = params.id as string;
 
-  const [tab, setTab] = useState<'labor' | 'parts' | 'logs' | 'activity'>('labor');
+  const [tab, setTab] = useState<'labor' | 'parts' | 'logs' | 'payments' | 'activity'>('labor');
   const [showAddItem, setShowAddItem] = useState(false);
   const [editItem, setEditItem] = useState<WorkOrderDetail['items'][0] | null>(null);
+  const [showReturn, setShowReturn] = useState(false);
 
   const { data: wo, isLoading } = useQuery<WorkOrderDetail>({
     queryKey: ['work-order', id],
@@ -185,6 +238,7 @@ export default function WorkOrderDetailPage() {
     mutationFn: (data: Record<string, string | null>) =>
       apiFetch(`/work-orders/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['work-order', id] }),
+    onError: (err: Error) => alert(err.message),
   });
 
   const addMechanicMutation = useMutation({
@@ -219,6 +273,15 @@ export default function WorkOrderDetailPage() {
   const allLogsCompleted = wo.workLogs.length >= laborItems.length;
   const needsLogsForCompleted = wo.status === 'IN_PROGRESS' && !allLogsCompleted;
   const isLocked = wo.status === 'CLOSED' || wo.status === 'CANCELLED';
+  const outstanding = Math.max(0, Number(wo.totalAmount) - Number(wo.paidAmount));
+  const canReturn = RETURNABLE_STATUSES.includes(wo.status) && wo.items.some((i) => i.type === 'PART' && i.part);
+  const returnedByItem = new Map<string, number>();
+  for (const r of wo.returns) {
+    for (const ri of r.items) {
+      returnedByItem.set(ri.workOrderItemId, (returnedByItem.get(ri.workOrderItemId) ?? 0) + Number(ri.quantity));
+    }
+  }
+  const needsPaymentForPaid = wo.status === 'INVOICED' && outstanding > 0;
 
   return (
     <div>
@@ -237,14 +300,30 @@ export default function WorkOrderDetailPage() {
         </div>
         <div className="flex flex-col items-end gap-1">
           <div className="flex gap-2">
+          {wo.items.some((i) => i.type === 'PART' && i.part) && (
+            <Link
+              href={`/work-orders/${wo.id}/pick-list`}
+              className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Лист подбора
+            </Link>
+          )}
           {allowedTransitions.filter((s) => s !== 'CANCELLED').map((status) => {
-            const disabled = statusMutation.isPending || (status === 'COMPLETED' && needsLogsForCompleted);
+            const disabled = statusMutation.isPending
+              || (status === 'COMPLETED' && needsLogsForCompleted)
+              || (status === 'PAID' && needsPaymentForPaid);
             return (
               <button
                 key={status}
                 onClick={() => statusMutation.mutate(status)}
                 disabled={disabled}
-                title={status === 'COMPLETED' && needsLogsForCompleted ? 'Отметьте все работы в Логах работ' : undefined}
+                title={
+                  status === 'COMPLETED' && needsLogsForCompleted
+                    ? 'Отметьте все работы в Логах работ'
+                    : status === 'PAID' && needsPaymentForPaid
+                      ? `Остаток к оплате: ${formatMoney(outstanding)}`
+                      : undefined
+                }
                 className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {STATUS_LABELS[status]}
@@ -281,6 +360,14 @@ export default function WorkOrderDetailPage() {
               {' '}перед переводом в &laquo;Готов&raquo;
             </p>
           )}
+          {needsPaymentForPaid && (
+            <p className="text-xs text-amber-600">
+              <button type="button" onClick={() => setTab('payments')} className="underline hover:text-amber-700">
+                Внесите оплату
+              </button>
+              {' '}&mdash; остаток {formatMoney(outstanding)}
+            </p>
+          )}
         </div>
       </div>
 
@@ -328,6 +415,14 @@ export default function WorkOrderDetailPage() {
               onAssign={(userId) => updateFieldMutation.mutate({ advisorId: userId || null })}
               disabled={isLocked}
             />
+            <AssignField
+              label="Пост"
+              currentValue={wo.serviceBay?.name ?? null}
+              fetchUrl="/service-bays"
+              fieldType="bay"
+              onAssign={(bayId) => updateFieldMutation.mutate({ serviceBayId: bayId || null })}
+              disabled={isLocked}
+            />
 {wo.mileageAtIntake != null && (
               <div className="flex justify-between">
                 <span className="text-gray-500">Пробег</span>
@@ -359,10 +454,39 @@ export default function WorkOrderDetailPage() {
               <span className="text-gray-500">Запчасти</span>
               <span className="text-gray-900">{formatMoney(wo.totalParts)}</span>
             </div>
+            {Number(wo.partsCost) > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Себестоимость запчастей</span>
+                  <span className="text-gray-600">{formatMoney(wo.partsCost)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Маржа по запчастям</span>
+                  <span className={Number(wo.totalParts) >= Number(wo.partsCost) ? 'text-green-700' : 'text-red-600'}>
+                    {formatMoney(Number(wo.totalParts) - Number(wo.partsCost))}
+                    {Number(wo.totalParts) > 0 && (
+                      <span className="ml-1 text-xs text-gray-400">
+                        ({Math.round(((Number(wo.totalParts) - Number(wo.partsCost)) / Number(wo.totalParts)) * 100)}%)
+                      </span>
+                    )}
+                  </span>
+                </div>
+              </>
+            )}
             <div className="flex justify-between border-t border-gray-100 pt-2">
               <span className="font-semibold text-gray-700">Общая сумма</span>
               <span className="text-lg font-bold text-gray-900">{formatMoney(wo.totalAmount)}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Оплачено</span>
+              <span className="text-green-700">{formatMoney(wo.paidAmount)}</span>
+            </div>
+            {outstanding > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">К оплате</span>
+                <span className="font-medium text-amber-600">{formatMoney(outstanding)}</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -405,6 +529,12 @@ export default function WorkOrderDetailPage() {
           >
             Логи работ ({wo.workLogs.length}/{wo.items.filter((i) => i.type === 'LABOR' && (!i.recommended || i.approvedByClient === true)).length})
           </button>
+          <button
+            onClick={() => setTab('payments')}
+            className={`px-4 py-2 text-sm font-medium ${tab === 'payments' ? 'border-b-2 border-primary-600 text-primary-600' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Оплаты ({wo.payments.length})
+          </button>
           <button
             onClick={() => setTab('activity')}
             className={`px-4 py-2 text-sm font-medium ${tab === 'activity' ? 'border-b-2 border-primary-600 text-primary-600' : 'text-gray-500 hover:text-gray-700'}`}
@@ -418,14 +548,24 @@ export default function WorkOrderDetailPage() {
           const filtered = wo.items.filter((i) => i.type === filterType);
           return (
           <div className="mt-4">
-            {!isLocked && (
-            <div className="mb-3 flex justify-end">
+            {(!isLocked || (filterType === 'PART' && canReturn)) && (
+            <div className="mb-3 flex justify-end gap-2">
+              {filterType === 'PART' && canReturn && (
+                <button
+                  onClick={() => setShowReturn(true)}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Возврат от клиента
+                </button>
+              )}
+              {!isLocked && (
               <button
                 onClick={() => setShowAddItem(true)}
                 className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700"
               >
                 Добавить позицию
               </button>
+              )}
             </div>
             )}
 
@@ -490,7 +630,12 @@ export default function WorkOrderDetailPage() {
                             {item.part?.manufacturer || '—'}
                           </td>
                         )}
-                        <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-600">{Number(item.quantity)}</td>
+                        <td className="whitespace-nowrap px-4 py-3 text-right text-sm text-gray-600">
+                          {Number(item.quantity)}
+                          {returnedByItem.get(item.id) ? (
+                            <div className="text-xs text-rose-600">возврат: {returnedByItem.get(item.id)}</div>
+                          ) : null}
+                        </td>
                         {filterType === 'PART' && (() => {
                           if (!item.part) {
                             return (
@@ -503,13 +648,13 @@ export default function WorkOrderDetailPage() {
                             );
                           }
                           const stocks = item.part.warehouseStock || [];
-                          const totalQty = stocks.reduce((s: number, ws: any) => s + ws.quantity, 0);
-                          const totalRes = stocks.reduce((s: number, ws: any) => s + ws.reserved, 0);
+                          const totalQty = Math.round(stocks.reduce((s: number, ws: any) => s + Number(ws.quantity), 0) * 1000) / 1000;
+                          const totalRes = Math.round(stocks.reduce((s: number, ws: any) => s + Number(ws.reserved), 0) * 1000) / 1000;
                           const available = totalQty - totalRes;
                           const needed = Number(item.quantity);
                           const stockColor = available >= needed ? 'text-green-600' : available > 0 ? 'text-orange-500' : 'text-red-500';
-                          const whTooltip = stocks.map((ws: any) => `${ws.warehouse.name}: ${ws.quantity} (рез. ${ws.reserved})`).join('\n');
-                          const primaryWh = stocks.sort((a: any, b: any) => b.quantity - a.quantity)[0];
+                          const whTooltip = stocks.map((ws: any) => `${ws.warehouse.name}: ${Number(ws.quantity)} (рез. ${Number(ws.reserved)})`).join('\n');
+                          const primaryWh = stocks.sort((a: any, b: any) => Number(b.quantity) - Number(a.quantity))[0];
                           return (
                             <>
                               <td className={`whitespace-nowrap px-3 py-3 text-right text-sm font-medium ${stockColor}`} title={whTooltip}>
@@ -560,6 +705,27 @@ export default function WorkOrderDetailPage() {
                 </table>
               </div>
             )}
+
+            {filterType === 'PART' && wo.returns.length > 0 && (
+              <div className="mt-4 rounded-lg border border-gray-200 bg-white p-4">
+                <h3 className="text-sm font-semibold text-gray-900">Возвраты от клиента</h3>
+                <div className="mt-2 divide-y divide-gray-100">
+                  {wo.returns.map((r) => (
+                    <div key={r.id} className="flex items-center justify-between py-2 text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">{r.number}</span>
+                        <span className="ml-2 text-gray-500">{formatDate(r.createdAt)} · на склад «{r.warehouse.name}»</span>
+                        {r.reason && <div className="text-xs text-gray-400">{r.reason}</div>}
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium text-rose-600">−{formatMoney(r.refundAmount)}</div>
+                        <div className="text-xs text-gray-400">{PAYMENT_METHOD_LABELS[r.refundMethod]}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           );
         })()}
@@ -571,6 +737,14 @@ export default function WorkOrderDetailPage() {
           />
         )}
 
+        {tab === 'payments' && (
+          <PaymentsTab
+            workOrder={wo}
+            outstanding={outstanding}
+            onChange={() => queryClient.invalidateQueries({ queryKey: ['work-order', id] })}
+          />
+        )}
+
         {tab === 'activity' && (
           <div className="mt-4">
             {wo.activities.length === 0 ? (
@@ -618,6 +792,17 @@ export default function WorkOrderDetailPage() {
           }}
         />
       )}
+      {showReturn && (
+        <ClientReturnModal
+          workOrder={wo}
+          returnedByItem={returnedByItem}
+          onClose={() => setShowReturn(false)}
+          onSuccess={() => {
+            setShowReturn(false);
+            queryClient.invalidateQueries({ queryKey: ['work-order', id] });
+          }}
+        />
+      )}
       {editItem && (
         <EditItemModal
           workOrderId={id}
@@ -816,6 +1001,22 @@ function ItemMechanicsCell({
   );
 }
 
+const TIMER_STATUSES = ['APPROVED', 'IN_PROGRESS', 'PAUSED'];
+
+function timerSeconds(timer: WorkTimerEntry, now: number): number {
+  const current = timer.segmentStartedAt
+    ? Math.max(0, Math.floor((now - new Date(timer.segmentStartedAt).getTime()) / 1000))
+    : 0;
+  return timer.elapsedSeconds + current;
+}
+
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+}
+
 function WorkLogsTab({
   workOrder,
   onComplete,
@@ -823,22 +1024,35 @@ function WorkLogsTab({
   workOrder: WorkOrderDetail;
   onComplete: () => void;
 }) {
+  const { user } = useAuth();
   const [completing, setCompleting] = useState<string | null>(null);
   const [error, setError] = useState('');
+  const [now, setNow] = useState(() => Date.now());
 
   const laborItems = workOrder.items.filter(
     (i) => i.type === 'LABOR' && (!i.recommended || i.approvedByClient === true),
   );
+  const canTime = TIMER_STATUSES.includes(workOrder.status);
+  const hasRunning = workOrder.workTimers.some((t) => t.status === 'RUNNING');
+
+  // Секундомер идущих таймеров
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
 
-  // Match work logs to items by description+index (handles duplicates)
+  // Логи таймеров привязаны к работе; ручные логи без привязки — по описанию+индексу (дубли)
   const completedItemIds = new Set<string>();
   const logByItemId = new Map<string, WorkLogEntry>();
   const usedLogIds = new Set<string>();
 
   for (const item of laborItems) {
-    const log = workOrder.workLogs.find(
-      (l) => l.description === item.description && !usedLogIds.has(l.id),
-    );
+    const log =
+      workOrder.workLogs.find((l) => l.workOrderItemId === item.id) ??
+      workOrder.workLogs.find(
+        (l) => !l.workOrderItemId && l.description === item.description && !usedLogIds.has(l.id),
+      );
     if (log) {
       completedItemIds.add(item.id);
       logByItemId.set(item.id, log);
@@ -856,6 +1070,7 @@ function WorkLogsTab({
         body: JSON.stringify({
           description: item.description,
           hoursWorked: item.normHours ? Number(item.normHours) : 1,
+          workOrderItemId: item.id,
         }),
       });
       onComplete();
@@ -866,6 +1081,20 @@ function WorkLogsTab({
     }
   }
 
+  async function handleTimer(item: WorkOrderItem, action: 'start' | 'pause' | 'stop') {
+    setCompleting(item.id);
+    setError('');
+    try {
+      await apiFetch(`/work-orders/${workOrder.id}/items/${item.id}/timer/${action}`, { method: 'POST' });
+      setNow(Date.now());
+      onComplete();
+    } catch (err: any) {
+      setError(err.message || 'Ошибка таймера');
+    } finally {
+      setCompleting(null);
+    }
+  }
+
   return (
     <div className="mt-4">
       {error && (
@@ -879,16 +1108,25 @@ function WorkLogsTab({
             const done = completedItemIds.has(item.id);
             const isLoading = completing === item.id;
             const log = logByItemId.get(item.id);
+            const timers = workOrder.workTimers.filter((t) => t.workOrderItemId === item.id);
+            const myTimer = timers.find((t) => t.mechanic.id === user?.id);
+            const otherTimers = timers.filter((t) => t !== myTimer);
+            const loggedHours = workOrder.workLogs
+              .filter((l) => l.workOrderItemId === item.id)
+              .reduce((sum, l) => sum + Number(l.hoursWorked), 0);
             return (
               <div
                 key={item.id}
                 className={`flex items-center gap-3 rounded-lg border p-4 ${
-                  done ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-white'
+                  myTimer?.status === 'RUNNING'
+                    ? 'border-sky-300 bg-sky-50'
+                    : done ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-white'
                 }`}
               >
                 <button
                   onClick={() => handleToggle(item)}
-                  disabled={done || isLoading}
+                  disabled={done || isLoading || timers.length > 0}
+                  title={timers.length > 0 ? 'Остановите таймер — время запишется в лог' : undefined}
                   className={`flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-md border-2 transition-colors ${
                     done
                       ? 'border-green-500 bg-green-500 text-white'
@@ -905,15 +1143,57 @@ function WorkLogsTab({
                   )}
                 </button>
                 <div className="min-w-0 flex-1">
-                  <p className={`text-sm font-medium ${done ? 'text-green-700 line-through' : 'text-gray-900'}`}>
+                  <p className={`text-sm font-medium ${done && timers.length === 0 ? 'text-green-700 line-through' : 'text-gray-900'}`}>
                     {item.description}
                   </p>
                   <span className="text-xs text-gray-500">
                     {Number(item.quantity)} x {formatMoney(item.unitPrice)}
                     {item.normHours ? ` \u00B7 ${Number(item.normHours)} н/ч` : ''}
+                    {loggedHours > 0 && ` \u00B7 факт ${Math.round(loggedHours * 100) / 100} ч`}
                   </span>
+                  {otherTimers.map((t) => (
+                    <div key={t.id} className="text-xs text-gray-500">
+                      {t.mechanic.firstName} {t.mechanic.lastName}: {t.status === 'RUNNING' ? 'в работе' : 'пауза'}{' '}
+                      {formatDuration(timerSeconds(t, now))}
+                    </div>
+                  ))}
                 </div>
-                {done && log && (
+                {canTime && (
+                  <div className="flex items-center gap-2">
+                    {myTimer && (
+                      <span className={`font-mono text-sm ${myTimer.status === 'RUNNING' ? 'text-sky-700' : 'text-gray-500'}`}>
+                        {formatDuration(timerSeconds(myTimer, now))}
+                      </span>
+                    )}
+                    {myTimer?.status === 'RUNNING' ? (
+                      <button
+                        onClick={() => handleTimer(item, 'pause')}
+                        disabled={isLoading}
+                        className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Пауза
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleTimer(item, 'start')}
+                        disabled={isLoading}
+                        className="rounded-lg bg-sky-600 px-3 py-1 text-xs font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+                      >
+                        {myTimer ? 'Продолжить' : 'Старт'}
+                      </button>
+                    )}
+                    {myTimer && (
+                      <button
+                        onClick={() => handleTimer(item, 'stop')}
+                        disabled={isLoading}
+                        className="rounded-lg border border-red-300 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Стоп
+                      </button>
+                    )}
+                  </div>
+                )}
+                {done && log && !myTimer && (
                   <div className="text-right text-xs text-gray-500">
                     <div>{log.mechanic.firstName} {log.mechanic.lastName}</div>
                     <div>{formatDate(log.logDate)}</div>
@@ -928,6 +1208,320 @@ function WorkLogsTab({
   );
 }
 
+function PaymentsTab({
+  workOrder,
+  outstanding,
+  onChange,
+}: {
+  workOrder: WorkOrderDetail;
+  outstanding: number;
+  onChange: () => void;
+}) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentEntry['method']>('CASH');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const canPay = PAYABLE_STATUSES.includes(workOrder.status) && outstanding > 0;
+  const canDelete = workOrder.status !== 'PAID' && workOrder.status !== 'CLOSED';
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiFetch(`/work-orders/${workOrder.id}/payments`, {
+        method: 'POST',
+        body: JSON.stringify({ amount: Number(amount), method, notes: notes || undefined }),
+      }),
+    onSuccess: () => {
+      setAmount('');
+      setNotes('');
+      setError('');
+      onChange();
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка при сохранении'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (paymentId: string) =>
+      apiFetch(`/work-orders/${workOrder.id}/payments/${paymentId}`, { method: 'DELETE' }),
+    onSuccess: onChange,
+    onError: (err: any) => setError(err.message || 'Ошибка при удалении'),
+  });
+
+  return (
+    <div className="mt-4">
+      {error && (
+        <div className="mb-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {canPay && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="mb-4 flex flex-wrap items-end gap-3 rounded-lg border border-gray-200 bg-white p-4"
+        >
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Сумма</label>
+            <div className="mt-1 flex gap-1">
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={outstanding}
+                required
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-32 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => setAmount(String(outstanding))}
+                className="rounded-lg border border-gray-300 px-2 py-1.5 text-xs text-gray-600 hover:bg-gray-50"
+              >
+                Весь остаток
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Способ</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentEntry['method'])}
+              className="mt-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none"
+            >
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="min-w-[12rem] flex-1">
+            <label className="block text-xs font-medium text-gray-500">Комментарий</label>
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={createMutation.isPending || !amount}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {workOrder.status === 'INVOICED' ? 'Принять оплату' : 'Принять предоплату'}
+          </button>
+        </form>
+      )}
+
+      {workOrder.payments.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-500">Оплат нет</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Дата</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Способ</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Принял</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Комментарий</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Сумма</th>
+                {canDelete && <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Действия</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {workOrder.payments.map((p) => (
+                <tr key={p.id} className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">{formatDate(p.paidAt)}</td>
+                  <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-900">
+                    {PAYMENT_METHOD_LABELS[p.method]}
+                    {p.isPrepayment && (
+                      <span className="ml-2 inline-flex rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                        Предоплата
+                      </span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                    {p.receivedBy ? `${p.receivedBy.firstName} ${p.receivedBy.lastName}` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{p.notes || '—'}</td>
+                  <td className="whitespace-nowrap px-4 py-3 text-right text-sm font-medium text-gray-900">{formatMoney(p.amount)}</td>
+                  {canDelete && (
+                    <td className="whitespace-nowrap px-4 py-3 text-right text-sm">
+                      <button
+                        onClick={() => {
+                          if (confirm('Удалить оплату?')) deleteMutation.mutate(p.id);
+                        }}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Удалить
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ClientReturnModal({
+  workOrder,
+  returnedByItem,
+  onClose,
+  onSuccess,
+}: {
+  workOrder: WorkOrderDetail;
+  returnedByItem: Map<string, number>;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const partItems = workOrder.items.filter(
+    (i) => i.type === 'PART' && i.part && (!i.recommended || i.approvedByClient === true),
+  );
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [warehouseId, setWarehouseId] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentEntry['method']>('CASH');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: warehouses } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['warehouses'],
+    queryFn: () => apiFetch('/inventory/warehouses'),
+  });
+
+  const lines = partItems
+    .map((item) => ({ item, quantity: Number(quantities[item.id]) || 0 }))
+    .filter((l) => l.quantity > 0);
+  const refundTotal = lines.reduce(
+    (s, l) => s + (Number(l.item.totalPrice) / Number(l.item.quantity)) * l.quantity,
+    0,
+  );
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiFetch(`/work-orders/${workOrder.id}/returns`, {
+        method: 'POST',
+        body: JSON.stringify({
+          warehouseId: warehouseId || warehouses?.[0]?.id,
+          refundMethod,
+          reason: reason || undefined,
+          items: lines.map((l) => ({ itemId: l.item.id, quantity: l.quantity })),
+        }),
+      }),
+    onSuccess,
+    onError: (err: any) => setError(err.message || 'Ошибка оформления возврата'),
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-900">Возврат запчастей от клиента</h2>
+        <p className="text-sm text-gray-500">Запчасти вернутся на склад, клиенту — деньги за них</p>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="mt-4 space-y-4"
+        >
+          <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Запчасть</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Можно вернуть</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium uppercase text-gray-500">Возврат</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {partItems.map((item) => {
+                  const left = Math.round((Number(item.quantity) - (returnedByItem.get(item.id) ?? 0)) * 100) / 100;
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-3 py-2 text-gray-900">{item.description}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-right text-gray-600">
+                        {left} {item.part?.unit || 'шт'}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={left}
+                          step="0.01"
+                          disabled={left <= 0}
+                          value={quantities[item.id] ?? ''}
+                          onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                          className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-right text-sm focus:border-primary-500 focus:outline-none disabled:bg-gray-100"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Склад</label>
+              <select
+                value={warehouseId || warehouses?.[0]?.id || ''}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none"
+              >
+                {warehouses?.map((wh) => (
+                  <option key={wh.id} value={wh.id}>{wh.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Вернуть деньги</label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value as PaymentEntry['method'])}
+                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none"
+              >
+                {Object.entries(PAYMENT_METHOD_LABELS)
+                  .filter(([value]) => value !== 'BONUS')
+                  .map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Причина</label>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none"
+            />
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">К возврату клиенту:</span>
+            <span className="font-semibold text-gray-900">{formatMoney(Math.round(refundTotal * 100) / 100)}</span>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onClose} className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+              Отмена
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending || lines.length === 0 || !warehouses?.length}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Сохранение...' : 'Оформить возврат'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 function AddItemModal({
   workOrderId,
   onClose,
@@ -1188,11 +1782,13 @@ function AssignField({
   disabled?: boolean;
 }) {
   const [editing, setEditing] = useState(false);
-  const { data } = useQuery<{ data: any[] }>({
+  const { data } = useQuery<{ data: any[] } | any[]>({
     queryKey: ['assign-field', fetchUrl],
     queryFn: () => apiFetch(fetchUrl),
     enabled: editing,
   });
+  // Списки пользователей приходят постранично, посты — массивом
+  const options = Array.isArray(data) ? data : data?.data;
 
   if (disabled) {
     return (
@@ -1218,7 +1814,7 @@ function AssignField({
           onBlur={() => setEditing(false)}
         >
           <option value="">Не назначен</option>
-          {data?.data?.map((item: any) => (
+          {options?.map((item: any) => (
             <option key={item.id} value={item.id}>
               {fieldType === 'bay' ? item.name : `${item.firstName} ${item.lastName}`}
             </option>
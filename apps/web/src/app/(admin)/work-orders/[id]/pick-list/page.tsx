@@ -0,0 +1,127 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+
+interface PickSource {
+  warehouseId: string;
+  warehouseName: string;
+  reserved: number;
+  locations: Array<{ id: string; code: string; quantity: number }>;
+  unplaced: number;
+}
+
+interface PickLine {
+  itemId: string;
+  description: string;
+  part: { id: string; name: string; sku: string | null; brand: string | null; oemNumber: string | null; unit: string };
+  quantity: number;
+  sources: PickSource[];
+}
+
+interface PickList {
+  workOrder: {
+    id: string;
+    orderNumber: string;
+    vehicle: { make: string; model: string; licensePlate: string | null } | null;
+    mechanic: { firstName: string; lastName: string } | null;
+  };
+  lines: PickLine[];
+}
+
+export default function PickListPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const { data, isLoading } = useQuery<PickList>({
+    queryKey: ['pick-list', id],
+    queryFn: () => apiFetch(`/inventory/pick-list/${id}`),
+  });
+
+  if (isLoading) return <div className="py-12 text-center text-gray-500">Загрузка...</div>;
+  if (!data) return <div className="py-12 text-center text-gray-500">Заказ-наряд не найден</div>;
+
+  const { workOrder, lines } = data;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between print:hidden">
+        <Link href={`/work-orders/${id}`} className="text-sm text-primary-600 hover:underline">
+          ← {workOrder.orderNumber}
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Печать
+        </button>
+      </div>
+
+      <h1 className="mt-4 text-2xl font-bold text-gray-900">Лист подбора — {workOrder.orderNumber}</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        {workOrder.vehicle && `${workOrder.vehicle.make} ${workOrder.vehicle.model}`}
+        {workOrder.vehicle?.licensePlate && `, ${workOrder.vehicle.licensePlate}`}
+        {workOrder.mechanic && ` · Механик: ${workOrder.mechanic.lastName} ${workOrder.mechanic.firstName}`}
+      </p>
+
+      {lines.length === 0 ? (
+        <div className="mt-8 text-center text-gray-500">В заказ-наряде нет запчастей со склада</div>
+      ) : (
+        <div className="mt-4 overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Место</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Запчасть</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Артикул</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Кол-во</th>
+                <th className="px-4 py-3 text-center text-xs font-medium uppercase text-gray-500">✓</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lines.map((line) => (
+                <tr key={line.itemId} className="align-top">
+                  <td className="px-4 py-3 text-sm">
+                    {line.sources.length === 0 ? (
+                      <span className="text-red-600">Нет на складе</span>
+                    ) : (
+                      line.sources.map((src) => (
+                        <div key={src.warehouseId} className="mb-1 last:mb-0">
+                          {line.sources.length > 1 && (
+                            <span className="text-xs text-gray-500">{src.warehouseName}: </span>
+                          )}
+                          {src.locations.map((loc) => (
+                            <span key={loc.id} className="mr-2 font-mono font-semibold text-gray-900">
+                              {loc.code}
+                              <span className="ml-1 font-sans text-xs font-normal text-gray-500">({loc.quantity})</span>
+                            </span>
+                          ))}
+                          {src.unplaced > 0 && (
+                            <span className="text-xs text-amber-600">не размещено: {src.unplaced}</span>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {line.part.name}
+                    {line.part.brand && <span className="ml-1 text-xs text-gray-500">{line.part.brand}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{line.part.sku || line.part.oemNumber || '—'}</td>
+                  <td className="px-4 py-3 text-right text-sm font-medium text-gray-900">
+                    {line.quantity} {line.part.unit}
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    <span className="inline-block h-4 w-4 rounded border border-gray-400" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
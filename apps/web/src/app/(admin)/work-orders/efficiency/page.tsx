@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { apiFetch } from '@/lib/api';
+
+// ===== Types =====
+
+interface EfficiencyReport {
+  totals: { workOrders: number; normHours: number; actualHours: number; efficiency: number | null };
+  mechanics: Array<{
+    user: { id: string; firstName: string; lastName: string; role: string };
+    workOrders: number;
+    normHours: number;
+    actualHours: number;
+    efficiency: number | null;
+    paidHours: number;
+    utilisation: number | null;
+  }>;
+  services: Array<{
+    serviceId: string | null;
+    name: string;
+    items: number;
+    normHours: number;
+    actualHours: number;
+    efficiency: number | null;
+  }>;
+  outliers: Array<{
+    workOrderId: string;
+    orderNumber: string;
+    completedAt: string;
+    repairType: { id: string; name: string } | null;
+    mechanics: Array<{ id: string; name: string }>;
+    normHours: number;
+    actualHours: number;
+    efficiency: number | null;
+    reason: 'NO_NORM' | 'NO_LOGS' | 'SLOW' | 'FAST';
+  }>;
+}
+
+const OUTLIER_LABELS: Record<string, string> = {
+  NO_NORM: 'Нет нормо-часов',
+  NO_LOGS: 'Нет логов работ',
+  SLOW: 'Дольше нормы',
+  FAST: 'Быстрее нормы',
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value.toLocaleString('ru-RU')}%`;
+}
+
+/** Выработка ниже 80% — красным, выше 120% — жёлтым: норма, возможно, завышена */
+function efficiencyColor(value: number | null): string {
+  if (value === null) return 'text-gray-400';
+  if (value < 80) return 'text-red-600';
+  if (value > 120) return 'text-yellow-600';
+  return 'text-green-600';
+}
+
+// ===== Main Page =====
+
+export default function LaborEfficiencyPage() {
+  const today = new Date();
+  const [from, setFrom] = useState(
+    () => new Date(today.getFullYear(), today.getMonth(), 1).toLocaleDateString('sv-SE'),
+  );
+  const [to, setTo] = useState(() => today.toLocaleDateString('sv-SE'));
+  const [repairTypeId, setRepairTypeId] = useState('');
+
+  const { data: repairTypes } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ['payroll-repair-types'],
+    queryFn: () => apiFetch('/payroll/repair-types'),
+  });
+
+  const { data: report, isLoading, error } = useQuery<EfficiencyReport>({
+    queryKey: ['labor-efficiency', from, to, repairTypeId],
+    queryFn: () =>
+      apiFetch(`/work-orders/reports/labor-efficiency?from=${from}&to=${to}${repairTypeId ? `&repairTypeId=${repairTypeId}` : ''}`),
+    enabled: Boolean(from && to),
+  });
+
+  const inputCls =
+    'rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/work-orders" className="text-sm text-primary-600 hover:underline">← Заказ-наряды</Link>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900">Контроль нормо-часов</h1>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+        <span className="text-gray-500">—</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+        <select value={repairTypeId} onChange={(e) => setRepairTypeId(e.target.value)} className={inputCls}>
+          <option value="">Все виды ремонта</option>
+          {(repairTypes ?? []).map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-8 text-center text-gray-500">Загрузка...</div>
+      ) : error ? (
+        <div className="mt-8 text-center text-red-600">{(error as Error).message}</div>
+      ) : report && (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-4 md:grid-cols-4">
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <p className="text-sm text-gray-500">Заказ-нарядов</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{report.totals.workOrders}</p>
+            </div>
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <p className="text-sm text-gray-500">Норма, ч</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{report.totals.normHours}</p>
+            </div>
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <p className="text-sm text-gray-500">Факт, ч</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{report.totals.actualHours}</p>
+            </div>
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <p className="text-sm text-gray-500">Выработка</p>
+              <p className={`mt-1 text-2xl font-bold ${efficiencyColor(report.totals.efficiency)}`}>
+                {formatPercent(report.totals.efficiency)}
+              </p>
+            </div>
+          </div>
+
+          <h2 className="mt-6 text-lg font-semibold text-gray-900">По механикам</h2>
+          <div className="mt-2 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Механик</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Заказ-нарядов</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Норма, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Факт, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Выработка</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Смена, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Загрузка</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.mechanics.map((m) => (
+                  <tr key={m.user.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{m.user.lastName} {m.user.firstName}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{m.workOrders}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{m.normHours}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{m.actualHours}</td>
+                    <td className={`px-4 py-3 text-right text-sm font-medium ${efficiencyColor(m.efficiency)}`}>
+                      {formatPercent(m.efficiency)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{m.paidHours}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{formatPercent(m.utilisation)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="mt-6 text-lg font-semibold text-gray-900">По услугам</h2>
+          <p className="text-xs text-gray-500">
+            Время таймеров идёт в факт своей работы; логи без привязки к работе распределяются пропорционально нормо-часам
+          </p>
+          <div className="mt-2 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Услуга</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Выполнено</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Норма, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Факт, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Выработка</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.services.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">Работ за период нет</td>
+                  </tr>
+                ) : report.services.map((s) => (
+                  <tr key={s.serviceId ?? s.name} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {s.name}
+                      {!s.serviceId && <span className="ml-2 text-xs text-gray-400">не из каталога</span>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{s.items}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{s.normHours}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{s.actualHours}</td>
+                    <td className={`px-4 py-3 text-right text-sm font-medium ${efficiencyColor(s.efficiency)}`}>
+                      {formatPercent(s.efficiency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="mt-6 text-lg font-semibold text-gray-900">Выбросы</h2>
+          <p className="text-xs text-gray-500">Заказ-наряды, где факт отличается от нормы больше чем вдвое</p>
+          <div className="mt-2 overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Заказ-наряд</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Механики</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Норма, ч</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium uppercase text-gray-500">Факт, ч</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium uppercase text-gray-500">Причина</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.outliers.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">Выбросов нет</td>
+                  </tr>
+                ) : report.outliers.map((o) => (
+                  <tr key={o.workOrderId} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <Link href={`/work-orders/${o.workOrderId}`} className="font-medium text-primary-600 hover:underline">
+                        {o.orderNumber}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {new Date(o.completedAt).toLocaleDateString('ru-RU')}
+                        {o.repairType && ` · ${o.repairType.name}`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{o.mechanics.map((m) => m.name).join(', ') || '—'}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{o.normHours}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-600">{o.actualHours}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {OUTLIER_LABELS[o.reason]}
+                      {o.efficiency !== null && ` (${formatPercent(o.efficiency)})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
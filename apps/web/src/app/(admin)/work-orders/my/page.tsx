@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api';
 import Link from 'next/link';
 
@@ -17,6 +17,18 @@ interface WorkOrderCard {
   _count: { items: number };
 }
 
+interface MyTimer {
+  id: string;
+  status: 'RUNNING' | 'PAUSED';
+  workOrder: { id: string; orderNumber: string };
+  workOrderItem: { id: string; description: string };
+}
+
+interface ClockStatus {
+  clockedIn: boolean;
+  attendance: { id: string; clockIn: string } | null;
+}
+
 interface PaginatedResponse {
   data: WorkOrderCard[];
   meta: { total: number; page: number; limit: number; totalPages: number };
@@ -51,6 +63,7 @@ function formatMoney(amount: number | string): string {
 }
 
 export default function MyWorkOrdersPage() {
+  const queryClient = useQueryClient();
   const [page, setPage] = useState(1);
 
   const { data, isLoading } = useQuery<PaginatedResponse>({
@@ -58,9 +71,64 @@ export default function MyWorkOrdersPage() {
     queryFn: () => apiFetch(`/work-orders/my?page=${page}&limit=20`),
   });
 
+  const { data: timers } = useQuery<MyTimer[]>({
+    queryKey: ['my-work-timers'],
+    queryFn: () => apiFetch('/work-orders/timers/my'),
+  });
+
+  const { data: clock } = useQuery<ClockStatus>({
+    queryKey: ['shifts-clock'],
+    queryFn: () => apiFetch('/shifts/clock'),
+  });
+
+  const clockMutation = useMutation({
+    mutationFn: (action: 'clock-in' | 'clock-out') => apiFetch(`/shifts/${action}`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['shifts-clock'] }),
+    onError: (err: Error) => alert(err.message),
+  });
+
   return (
     <div>
-      <h1 className="text-2xl font-bold text-gray-900">Мои заказ-наряды</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Мои заказ-наряды</h1>
+        {clock && (
+          <div className="flex items-center gap-3">
+            {clock.attendance && (
+              <span className="text-sm text-gray-500">
+                На смене с {new Date(clock.attendance.clockIn).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+            <button
+              onClick={() => clockMutation.mutate(clock.clockedIn ? 'clock-out' : 'clock-in')}
+              disabled={clockMutation.isPending}
+              className={`rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50 ${
+                clock.clockedIn ? 'bg-gray-600 hover:bg-gray-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
+            >
+              {clock.clockedIn ? 'Уход' : 'Приход'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {timers && timers.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {timers.map((t) => (
+            <Link
+              key={t.id}
+              href={`/work-orders/${t.workOrder.id}`}
+              className={`flex items-center justify-between rounded-lg border px-4 py-2 text-sm ${
+                t.status === 'RUNNING' ? 'border-sky-300 bg-sky-50 text-sky-800' : 'border-gray-200 bg-white text-gray-700'
+              }`}
+            >
+              <span>
+                <span className="font-medium">{t.workOrder.orderNumber}</span> · {t.workOrderItem.description}
+              </span>
+              <span className="text-xs">{t.status === 'RUNNING' ? 'Таймер идёт' : 'Таймер на паузе'}</span>
+            </Link>
+          ))}
+        </div>
+      )}
 
       {isLoading ? (
         <div className="mt-8 text-center text-gray-500">Загрузка...</div>
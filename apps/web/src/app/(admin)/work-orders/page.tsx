@@ -84,12 +84,20 @@ export default function WorkOrdersPage() {
     <div>
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Заказ-наряды</h1>
-        <button
-          onClick={() => setShowModal(true)}
-          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
-        >
-          Создать заказ-наряд
-        </button>
+        <div className="flex gap-2">
+          <Link
+            href="/work-orders/efficiency"
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Нормо-часы
+          </Link>
+          <button
+            onClick={() => setShowModal(true)}
+            className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+          >
+            Создать заказ-наряд
+          </button>
+        </div>
       </div>
 
       <div className="mt-4 flex gap-2">
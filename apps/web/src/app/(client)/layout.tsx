@@ -6,6 +6,7 @@ import { cn } from '@/lib/utils';
 import { useAuth } from '@/providers/auth-provider';
 
 const navigation = [
+  { name: 'Записаться', href: '/my/book' },
   { name: 'Мои записи', href: '/my/appointments' },
   { name: 'Мои автомобили', href: '/my/vehicles' },
   { name: 'История ремонтов', href: '/my/orders' },
@@ -1,11 +1,13 @@
 'use client';
 
+import Link from 'next/link';
 import { useQuery } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api';
 import { useAuth } from '@/providers/auth-provider';
 
 const STATUS_LABELS: Record<string, string> = {
   PENDING: 'Ожидает',
+  ESTIMATING: 'Согласование',
   CONFIRMED: 'Подтверждена',
   IN_PROGRESS: 'В работе',
   COMPLETED: 'Завершена',
@@ -15,6 +17,7 @@ const STATUS_LABELS: Record<string, string> = {
 
 const STATUS_COLORS: Record<string, string> = {
   PENDING: 'bg-yellow-100 text-yellow-700',
+  ESTIMATING: 'bg-amber-100 text-amber-700',
   CONFIRMED: 'bg-blue-100 text-blue-700',
   IN_PROGRESS: 'bg-indigo-100 text-indigo-700',
   COMPLETED: 'bg-green-100 text-green-700',
@@ -41,7 +44,15 @@ export default function MyAppointmentsPage() {
 
   return (
     <div>
-      <h1 className="text-2xl font-bold text-gray-900">Мои записи</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Мои записи</h1>
+        <Link
+          href="/my/book"
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+        >
+          Записаться
+        </Link>
+      </div>
 
       {isLoading ? (
         <div className="mt-8 text-center text-gray-500">Загрузка...</div>
@@ -0,0 +1,395 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { apiFetch } from '@/lib/api';
+import { useAuth } from '@/providers/auth-provider';
+
+interface Vehicle {
+  id: string;
+  make: string;
+  model: string;
+  year: number | null;
+  licensePlate: string | null;
+}
+
+interface Service {
+  id: string;
+  name: string;
+  description: string | null;
+  price: string | number;
+  estimatedMinutes: number;
+  serviceUsage: string;
+}
+
+interface Slot {
+  start: string;
+  end: string;
+}
+
+const STEPS = ['Автомобиль', 'Услуги', 'Время', 'Подтверждение'];
+
+function formatMoney(amount: number | string): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (!num) return '0 ₽';
+  return new Intl.NumberFormat('ru-RU', { style: 'currency', currency: 'RUB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(num);
+}
+
+function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return [h ? `${h} ч` : '', m ? `${m} мин` : ''].filter(Boolean).join(' ') || '0 мин';
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function BookAppointmentPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState(0);
+  const [vehicleId, setVehicleId] = useState('');
+  const [showNewVehicle, setShowNewVehicle] = useState(false);
+  const [newVehicle, setNewVehicle] = useState({ make: '', model: '', year: '', licensePlate: '' });
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [date, setDate] = useState(() => new Date().toLocaleDateString('sv-SE'));
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: vehicles } = useQuery<{ data: Vehicle[] }>({
+    queryKey: ['my-vehicles'],
+    queryFn: () => apiFetch(`/vehicles?clientId=${user?.id}&limit=50`),
+    enabled: !!user,
+  });
+
+  const { data: services } = useQuery<{ data: Service[] }>({
+    queryKey: ['booking-services'],
+    queryFn: () => apiFetch('/services?limit=100&isActive=true&sort=name&order=asc'),
+  });
+  // Клиенту доступны только услуги для записи
+  const bookable = (services?.data ?? []).filter((s) => s.serviceUsage === 'PLANNING' || s.serviceUsage === 'BOTH');
+  const selected = bookable.filter((s) => serviceIds.includes(s.id));
+  const totalPrice = selected.reduce((sum, s) => sum + Number(s.price), 0);
+  const totalMinutes = selected.reduce((sum, s) => sum + s.estimatedMinutes, 0);
+
+  const { data: slotsData, isFetching: slotsLoading } = useQuery<{ durationMinutes: number; slots: Slot[] }>({
+    queryKey: ['booking-slots', date, serviceIds, vehicleId],
+    queryFn: () =>
+      apiFetch(`/appointments/slots?from=${date}&to=${date}&serviceIds=${serviceIds.join(',')}&vehicleId=${vehicleId}`),
+    enabled: step === 2 && !!date && serviceIds.length > 0,
+  });
+
+  const vehicleMutation = useMutation({
+    mutationFn: () =>
+      apiFetch<Vehicle>('/vehicles', {
+        method: 'POST',
+        body: JSON.stringify({
+          make: newVehicle.make,
+          model: newVehicle.model,
+          year: newVehicle.year ? Number(newVehicle.year) : undefined,
+          licensePlate: newVehicle.licensePlate || undefined,
+          clientId: user?.id,
+        }),
+      }),
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['my-vehicles'] });
+      setVehicleId(created.id);
+      setShowNewVehicle(false);
+      setNewVehicle({ make: '', model: '', year: '', licensePlate: '' });
+      setError('');
+    },
+    onError: (err: any) => setError(err.message || 'Ошибка добавления автомобиля'),
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: () =>
+      apiFetch('/appointments/self-booking', {
+        method: 'POST',
+        body: JSON.stringify({ vehicleId, serviceIds, scheduledStart: slot!.start, notes: notes || undefined }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-appointments'] });
+      router.push('/my/appointments');
+    },
+    onError: (err: any) => {
+      setError(err.message || 'Ошибка записи');
+      // Слот могли занять, пока клиент подтверждал, — возвращаем к выбору времени
+      if (err.statusCode === 409) {
+        setSlot(null);
+        setStep(2);
+        queryClient.invalidateQueries({ queryKey: ['booking-slots'] });
+      }
+    },
+  });
+
+  const vehicle = vehicles?.data?.find((v) => v.id === vehicleId);
+  const canNext = [!!vehicleId, serviceIds.length > 0, !!slot, true][step];
+
+  function toggleService(id: string) {
+    setServiceIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+    setSlot(null);
+  }
+
+  const inputCls = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900">Запись на обслуживание</h1>
+
+      {/* Steps */}
+      <div className="mt-6 flex gap-2">
+        {STEPS.map((label, i) => (
+          <div
+            key={label}
+            className={`flex-1 border-b-2 pb-2 text-sm font-medium ${
+              i === step ? 'border-primary-600 text-primary-600' : i < step ? 'border-primary-200 text-gray-700' : 'border-gray-200 text-gray-400'
+            }`}
+          >
+            {i + 1}. {label}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6">
+        {/* Step 1: vehicle */}
+        {step === 0 && (
+          <div className="space-y-3">
+            {!vehicles?.data?.length && !showNewVehicle && (
+              <p className="text-sm text-gray-500">У вас пока нет автомобилей — добавьте свой</p>
+            )}
+            <div className="grid gap-3 sm:grid-cols-2">
+              {vehicles?.data?.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => { setVehicleId(v.id); setSlot(null); }}
+                  className={`rounded-lg border p-4 text-left ${
+                    vehicleId === v.id ? 'border-primary-600 bg-primary-50' : 'border-gray-200 hover:border-primary-300'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">{v.make} {v.model}</div>
+                  <div className="text-sm text-gray-500">
+                    {v.year ?? ''} {v.licensePlate && <span className="font-mono">{v.licensePlate}</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {showNewVehicle ? (
+              <div className="space-y-2 rounded-lg border border-dashed border-gray-300 bg-gray-50 p-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    placeholder="Марка *"
+                    value={newVehicle.make}
+                    onChange={(e) => setNewVehicle({ ...newVehicle, make: e.target.value })}
+                    className={inputCls}
+                  />
+                  <input
+                    placeholder="Модель *"
+                    value={newVehicle.model}
+                    onChange={(e) => setNewVehicle({ ...newVehicle, model: e.target.value })}
+                    className={inputCls}
+                  />
+                  <input
+                    placeholder="Год"
+                    type="number"
+                    min={1900}
+                    value={newVehicle.year}
+                    onChange={(e) => setNewVehicle({ ...newVehicle, year: e.target.value })}
+                    className={inputCls}
+                  />
+                  <input
+                    placeholder="Госномер"
+                    value={newVehicle.licensePlate}
+                    onChange={(e) => setNewVehicle({ ...newVehicle, licensePlate: e.target.value.toUpperCase() })}
+                    className={inputCls}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setShowNewVehicle(false)}
+                    className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Отмена
+                  </button>
+                  <button
+                    onClick={() => vehicleMutation.mutate()}
+                    disabled={!newVehicle.make || !newVehicle.model || vehicleMutation.isPending}
+                    className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {vehicleMutation.isPending ? 'Сохранение...' : 'Добавить'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowNewVehicle(true)}
+                className="text-sm font-medium text-primary-600 hover:text-primary-700"
+              >
+                + Добавить автомобиль
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Step 2: services */}
+        {step === 1 && (
+          <div>
+            {!bookable.length ? (
+              <p className="text-sm text-gray-500">Нет услуг для онлайн-записи</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {bookable.map((svc) => (
+                  <label key={svc.id} className="flex cursor-pointer items-start gap-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={serviceIds.includes(svc.id)}
+                      onChange={() => toggleService(svc.id)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1">
+                      <div className="text-sm font-medium text-gray-900">{svc.name}</div>
+                      {svc.description && <div className="text-xs text-gray-500">{svc.description}</div>}
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="font-medium text-gray-900">{formatMoney(svc.price)}</div>
+                      <div className="text-xs text-gray-500">{formatDuration(svc.estimatedMinutes)}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+            {selected.length > 0 && (
+              <div className="mt-4 flex justify-between rounded-lg bg-gray-50 px-4 py-3 text-sm">
+                <span className="text-gray-600">Ориентировочно</span>
+                <span className="font-medium text-gray-900">
+                  {formatMoney(totalPrice)} · {formatDuration(totalMinutes)}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Step 3: time */}
+        {step === 2 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Дата</label>
+            <input
+              type="date"
+              value={date}
+              min={new Date().toLocaleDateString('sv-SE')}
+              onChange={(e) => { setDate(e.target.value); setSlot(null); }}
+              className={`${inputCls} max-w-xs`}
+            />
+            <div className="mt-4">
+              {slotsLoading ? (
+                <p className="text-sm text-gray-500">Подбираем свободное время...</p>
+              ) : !slotsData?.slots.length ? (
+                <p className="text-sm text-gray-500">На эту дату свободного времени нет — выберите другой день</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {slotsData.slots.map((s) => (
+                    <button
+                      key={s.start}
+                      onClick={() => setSlot(s)}
+                      className={`rounded-lg border px-3 py-2 text-sm font-medium ${
+                        slot?.start === s.start
+                          ? 'border-primary-600 bg-primary-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:border-primary-400'
+                      }`}
+                    >
+                      {formatTime(s.start)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: confirm */}
+        {step === 3 && slot && (
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Автомобиль</span>
+              <span className="font-medium text-gray-900">
+                {vehicle?.make} {vehicle?.model} {vehicle?.licensePlate && `(${vehicle.licensePlate})`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Время</span>
+              <span className="font-medium text-gray-900">
+                {new Date(slot.start).toLocaleDateString('ru-RU', { weekday: 'long', day: 'numeric', month: 'long' })},{' '}
+                {formatTime(slot.start)}–{formatTime(slot.end)}
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-500">Услуги</span>
+              <ul className="mt-1 space-y-1">
+                {selected.map((s) => (
+                  <li key={s.id} className="flex justify-between text-gray-700">
+                    <span>{s.name}</span>
+                    <span>{formatMoney(s.price)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="flex justify-between border-t border-gray-100 pt-2">
+              <span className="text-gray-500">Итого ориентировочно</span>
+              <span className="font-bold text-gray-900">{formatMoney(totalPrice)}</span>
+            </div>
+            <div>
+              <label className="block text-gray-500">Комментарий</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Что беспокоит в машине"
+                className={inputCls}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Окончательная стоимость определяется после осмотра. Мы свяжемся с вами для подтверждения записи.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={() => {
+              setError('');
+              if (step === 0) router.push('/my/appointments');
+              else setStep(step - 1);
+            }}
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            {step === 0 ? 'Отмена' : 'Назад'}
+          </button>
+          {step < STEPS.length - 1 ? (
+            <button
+              onClick={() => { setError(''); setStep(step + 1); }}
+              disabled={!canNext}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              Далее
+            </button>
+          ) : (
+            <button
+              onClick={() => bookMutation.mutate()}
+              disabled={bookMutation.isPending}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {bookMutation.isPending ? 'Запись...' : 'Записаться'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
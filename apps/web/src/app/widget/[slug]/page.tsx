@@ -0,0 +1,303 @@
+'use client';
+
+/**
+ * Виджет записи для сайта автосервиса. Встраивается через iframe:
+ * <iframe src="https://crm.example.ru/widget/onemotors?utm_source=site" width="100%" height="900"></iframe>
+ * UTM-метки из адреса попадают в рекламный канал записи.
+ */
+
+import { useRef, useState } from 'react';
+import Script from 'next/script';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api/v1';
+const CAPTCHA_SITE_KEY = process.env.NEXT_PUBLIC_SMARTCAPTCHA_SITE_KEY;
+
+interface Widget {
+  name: string;
+  services: { id: string; name: string; price: string | number; estimatedMinutes: number }[];
+  captchaRequired: boolean;
+}
+
+interface Slot {
+  start: string;
+  end: string;
+}
+
+interface Booking {
+  id: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+}
+
+declare global {
+  interface Window {
+    smartCaptcha?: { reset: () => void };
+  }
+}
+
+async function publicFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`${API_URL}/public/booking${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const message = Array.isArray(data.message) ? data.message.join(', ') : data.message;
+    throw Object.assign(new Error(message || 'Ошибка записи'), { statusCode: res.status });
+  }
+  return data as T;
+}
+
+function formatMoney(amount: number | string): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (!num) return '0 ₽';
+  return new Intl.NumberFormat('ru-RU', { style: 'currency', currency: 'RUB', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(num);
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('ru-RU', { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+export default function BookingWidgetPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const searchParams = useSearchParams();
+  const queryClient = useQueryClient();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const [form, setForm] = useState({
+    firstName: '',
+    lastName: '',
+    phone: '',
+    vehicleMake: '',
+    vehicleModel: '',
+    licensePlate: '',
+    notes: '',
+  });
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [date, setDate] = useState(() => new Date().toLocaleDateString('sv-SE'));
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: widget, isLoading, error: widgetError } = useQuery<Widget>({
+    queryKey: ['widget', slug],
+    queryFn: () => publicFetch(`/${slug}`),
+    retry: false,
+  });
+
+  const { data: slotsData, isFetching: slotsLoading } = useQuery<{ durationMinutes: number; slots: Slot[] }>({
+    queryKey: ['widget-slots', slug, date, serviceIds],
+    queryFn: () => publicFetch(`/${slug}/slots?date=${date}&serviceIds=${serviceIds.join(',')}`),
+    enabled: !!widget && !!date,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: () => {
+      const captchaInput = formRef.current?.elements.namedItem('smart-token') as HTMLInputElement | null;
+      return publicFetch<Booking>(`/${slug}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          firstName: form.firstName,
+          lastName: form.lastName || undefined,
+          phone: form.phone,
+          vehicleMake: form.vehicleMake,
+          vehicleModel: form.vehicleModel,
+          licensePlate: form.licensePlate || undefined,
+          serviceIds: serviceIds.length ? serviceIds : undefined,
+          scheduledStart: slot!.start,
+          notes: form.notes || undefined,
+          utmSource: searchParams.get('utm_source') || undefined,
+          utmMedium: searchParams.get('utm_medium') || undefined,
+          utmCampaign: searchParams.get('utm_campaign') || undefined,
+          captchaToken: captchaInput?.value || undefined,
+        }),
+      });
+    },
+    onError: (err: any) => {
+      setError(err.message || 'Ошибка записи');
+      window.smartCaptcha?.reset();
+      // Слот могли занять, пока заполняли форму
+      if (err.statusCode === 409) {
+        setSlot(null);
+        queryClient.invalidateQueries({ queryKey: ['widget-slots'] });
+      }
+    },
+  });
+
+  function updateField(field: keyof typeof form, value: string) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function toggleService(id: string) {
+    setServiceIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+    setSlot(null);
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    bookMutation.mutate();
+  }
+
+  const inputCls = 'mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  if (isLoading) {
+    return <p className="p-6 text-sm text-gray-500">Загрузка...</p>;
+  }
+
+  if (widgetError || !widget) {
+    return <p className="p-6 text-sm text-red-600">{(widgetError as Error)?.message || 'Автосервис не найден'}</p>;
+  }
+
+  if (bookMutation.data) {
+    const booking = bookMutation.data;
+    return (
+      <div className="mx-auto max-w-lg p-6 text-center">
+        <h1 className="text-xl font-bold text-gray-900">Вы записаны!</h1>
+        <p className="mt-2 text-gray-700">
+          {widget.name} ждёт вас {formatDay(booking.scheduledStart)}, {formatTime(booking.scheduledStart)}–
+          {formatTime(booking.scheduledEnd)}.
+        </p>
+        <p className="mt-2 text-sm text-gray-500">Мы перезвоним, чтобы подтвердить запись.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-bold text-gray-900">Запись в {widget.name}</h1>
+
+      <form ref={formRef} onSubmit={handleSubmit} className="mt-4 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Имя *</label>
+            <input value={form.firstName} onChange={(e) => updateField('firstName', e.target.value)} className={inputCls} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Фамилия</label>
+            <input value={form.lastName} onChange={(e) => updateField('lastName', e.target.value)} className={inputCls} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Телефон *</label>
+          <input
+            type="tel"
+            value={form.phone}
+            onChange={(e) => updateField('phone', e.target.value)}
+            className={inputCls}
+            placeholder="+79001234567"
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Марка *</label>
+            <input value={form.vehicleMake} onChange={(e) => updateField('vehicleMake', e.target.value)} className={inputCls} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Модель *</label>
+            <input value={form.vehicleModel} onChange={(e) => updateField('vehicleModel', e.target.value)} className={inputCls} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Госномер</label>
+            <input
+              value={form.licensePlate}
+              onChange={(e) => updateField('licensePlate', e.target.value.toUpperCase())}
+              className={inputCls}
+            />
+          </div>
+        </div>
+
+        {widget.services.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Услуги</label>
+            <div className="mt-1 max-h-48 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200 px-3">
+              {widget.services.map((svc) => (
+                <label key={svc.id} className="flex cursor-pointer items-center gap-3 py-2 text-sm">
+                  <input type="checkbox" checked={serviceIds.includes(svc.id)} onChange={() => toggleService(svc.id)} />
+                  <span className="flex-1 text-gray-900">{svc.name}</span>
+                  <span className="text-gray-500">от {formatMoney(svc.price)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Дата</label>
+          <input
+            type="date"
+            value={date}
+            min={new Date().toLocaleDateString('sv-SE')}
+            onChange={(e) => { setDate(e.target.value); setSlot(null); }}
+            className={`${inputCls} max-w-xs`}
+          />
+          <div className="mt-3">
+            {slotsLoading ? (
+              <p className="text-sm text-gray-500">Подбираем свободное время...</p>
+            ) : !slotsData?.slots.length ? (
+              <p className="text-sm text-gray-500">На эту дату свободного времени нет — выберите другой день</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {slotsData.slots.map((s) => (
+                  <button
+                    type="button"
+                    key={s.start}
+                    onClick={() => setSlot(s)}
+                    className={`rounded-lg border px-3 py-2 text-sm font-medium ${
+                      slot?.start === s.start
+                        ? 'border-primary-600 bg-primary-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-primary-400'
+                    }`}
+                  >
+                    {formatTime(s.start)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Комментарий</label>
+          <textarea
+            value={form.notes}
+            onChange={(e) => updateField('notes', e.target.value)}
+            rows={2}
+            placeholder="Что беспокоит в машине"
+            className={inputCls}
+          />
+        </div>
+
+        {widget.captchaRequired && CAPTCHA_SITE_KEY && (
+          <>
+            <Script src="https://smartcaptcha.yandexcloud.net/captcha.js" strategy="afterInteractive" />
+            <div className="smart-captcha" data-sitekey={CAPTCHA_SITE_KEY} />
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!slot || bookMutation.isPending}
+          className="w-full rounded-lg bg-primary-600 px-4 py-2 text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {bookMutation.isPending ? 'Запись...' : slot ? `Записаться на ${formatTime(slot.start)}` : 'Выберите время'}
+        </button>
+
+        <p className="text-xs text-gray-500">
+          Нажимая «Записаться», вы соглашаетесь на обработку персональных данных. Окончательная стоимость
+          определяется после осмотра.
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -101,4 +101,44 @@ export async function apiFetch<T>(path: string, options: FetchOptions = {}): Pro
   return (text ? JSON.parse(text) : null) as T;
 }
 
+/** Скачивание файла (XLSX, PDF) с авторизацией — сохраняет ответ под именем из Content-Disposition */
+export async function apiDownload(
+  path: string,
+  fallbackName: string,
+  options: { method?: string; body?: string } = {},
+): Promise<void> {
+  const request = (token: string | null) =>
+    fetch(`${API_URL}${path}`, {
+      method: options.method ?? 'GET',
+      body: options.body,
+      credentials: 'include',
+      headers: {
+        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  let res = await request(localStorage.getItem('accessToken'));
+  if (res.status === 401) {
+    const newToken = await refreshAccessToken();
+    if (!newToken) {
+      throw new ApiError(401, 'Необходима авторизация');
+    }
+    res = await request(newToken);
+  }
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ message: 'Ошибка сервера' }));
+    throw new ApiError(res.status, error.message, error.details);
+  }
+
+  const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export { ApiError };
@@ -32,6 +32,13 @@ export function useAuth() {
 
 const PUBLIC_PATHS = ['/login', '/register', '/forgot-password', '/reset-password', '/'];
 
+// Виджет записи встраивается на сайт автосервиса и открывается без входа
+const PUBLIC_PREFIXES = ['/widget/'];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.includes(pathname) || PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const { user, accessToken, isLoading, setUser, setToken, logout: storeLogout, setLoading } = useAuthStore();
   const router = useRouter();
@@ -40,7 +47,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     if (!accessToken) {
       setLoading(false);
-      if (!PUBLIC_PATHS.includes(pathname)) {
+      if (!isPublicPath(pathname)) {
         router.push('/login');
       }
       return;
@@ -58,7 +65,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       })
       .catch(() => {
         storeLogout();
-        if (!PUBLIC_PATHS.includes(pathname)) {
+        if (!isPublicPath(pathname)) {
           router.push('/login');
         }
       });
@@ -0,0 +1,31 @@
+import { TransactionType } from './statuses';
+
+/** Категория прихода при оплате заказ-наряда */
+export const WORK_ORDER_PAYMENT_CATEGORY = 'Оплата заказ-наряда';
+
+/** Категория расхода при возврате денег клиенту за вернувшиеся запчасти */
+export const CLIENT_REFUND_CATEGORY = 'Возврат клиенту';
+
+/** Категория прихода, когда поставщик возвращает деньги за возвращённый товар */
+export const SUPPLIER_REFUND_CATEGORY = 'Возврат от поставщика';
+
+/** Базовые категории финансовых операций (тенант может добавлять свои) */
+export const TRANSACTION_CATEGORIES: Record<TransactionType, string[]> = {
+  [TransactionType.INCOME]: [
+    WORK_ORDER_PAYMENT_CATEGORY,
+    SUPPLIER_REFUND_CATEGORY,
+    'Продажа запчастей',
+    'Прочий доход',
+  ],
+  [TransactionType.EXPENSE]: [
+    'Закупка запчастей',
+    CLIENT_REFUND_CATEGORY,
+    'Зарплата',
+    'Аренда',
+    'Коммунальные услуги',
+    'Налоги',
+    'Реклама',
+    'Инструмент и оборудование',
+    'Прочий расход',
+  ],
+};
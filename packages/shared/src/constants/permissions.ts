@@ -47,6 +47,12 @@ export const Permission = {
   'finance:read': 'finance:read',
   'finance:create': 'finance:create',
   'finance:update': 'finance:update',
+  'finance:delete': 'finance:delete',
+
+  // Смены и учёт рабочего времени
+  'shifts:read': 'shifts:read',
+  'shifts:update': 'shifts:update',
+  'shifts:clock': 'shifts:clock',
 
   // Отчёты
   'reports:read': 'reports:read',
@@ -78,6 +84,9 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission['parts:create'],
     Permission['parts:update'],
     Permission['finance:read'],
+    Permission['shifts:read'],
+    Permission['shifts:update'],
+    Permission['shifts:clock'],
     Permission['reports:read'],
   ],
 
@@ -94,6 +103,8 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission['work-orders:create'],
     Permission['work-orders:update'],
     Permission['parts:read'],
+    Permission['shifts:read'],
+    Permission['shifts:clock'],
   ],
 
   [UserRole.MECHANIC]: [
@@ -102,6 +113,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     Permission['work-orders:read'],
     Permission['work-orders:update'],
     Permission['parts:read'],
+    Permission['shifts:clock'],
   ],
 
   [UserRole.CLIENT]: [
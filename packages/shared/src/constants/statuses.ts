@@ -55,6 +55,42 @@ export const TransactionType = {
 
 export type TransactionType = (typeof TransactionType)[keyof typeof TransactionType];
 
+export const PaymentMethod = {
+  CASH: 'CASH',
+  CARD: 'CARD',
+  BANK_TRANSFER: 'BANK_TRANSFER',
+  BONUS: 'BONUS',
+} as const;
+
+export type PaymentMethod = (typeof PaymentMethod)[keyof typeof PaymentMethod];
+
+/** Статусы ЗН, в которых принимается оплата (до INVOICED — предоплата) */
+export const PAYABLE_WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+  WorkOrderStatus.APPROVED,
+  WorkOrderStatus.IN_PROGRESS,
+  WorkOrderStatus.PAUSED,
+  WorkOrderStatus.COMPLETED,
+  WorkOrderStatus.INVOICED,
+];
+
+export const PurchaseOrderStatus = {
+  DRAFT: 'DRAFT',
+  ORDERED: 'ORDERED',
+  PARTIALLY_RECEIVED: 'PARTIALLY_RECEIVED',
+  RECEIVED: 'RECEIVED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type PurchaseOrderStatus = (typeof PurchaseOrderStatus)[keyof typeof PurchaseOrderStatus];
+
+export const StocktakeStatus = {
+  IN_PROGRESS: 'IN_PROGRESS',
+  APPROVED: 'APPROVED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type StocktakeStatus = (typeof StocktakeStatus)[keyof typeof StocktakeStatus];
+
 export const RecommendationType = {
   PRIMARY: 'PRIMARY',
   SECONDARY: 'SECONDARY',
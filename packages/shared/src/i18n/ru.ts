@@ -31,6 +31,27 @@ export const ru = {
     CANCELLED: 'Отменён',
   },
 
+  paymentMethod: {
+    CASH: 'Наличные',
+    CARD: 'Карта',
+    BANK_TRANSFER: 'Безналичный перевод',
+    BONUS: 'Бонусы',
+  },
+
+  purchaseOrderStatus: {
+    DRAFT: 'Черновик',
+    ORDERED: 'Заказан',
+    PARTIALLY_RECEIVED: 'Принят частично',
+    RECEIVED: 'Принят',
+    CANCELLED: 'Отменён',
+  },
+
+  stocktakeStatus: {
+    IN_PROGRESS: 'В работе',
+    APPROVED: 'Утверждена',
+    CANCELLED: 'Отменена',
+  },
+
   errors: {
     unauthorized: 'Необходима авторизация',
     forbidden: 'Недостаточно прав для выполнения операции',
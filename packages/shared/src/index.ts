@@ -2,7 +2,12 @@ export * from './constants/roles';
 export * from './constants/statuses';
 export * from './constants/permissions';
 export * from './constants/inspection-checklist';
+export * from './constants/finance';
 export * from './i18n/ru';
 export * from './schemas';
 export * from './utils/money.utils';
+export * from './utils/quantity.utils';
+export * from './utils/part.utils';
+export * from './utils/barcode.utils';
+export * from './utils/shift.utils';
 export * from './utils/date.utils';
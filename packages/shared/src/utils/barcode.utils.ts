@@ -0,0 +1,33 @@
+export type BarcodeFormat = 'EAN13' | 'EAN8' | 'CODE128';
+
+/**
+ * Нормализация отсканированного кода: без пробелов по краям и внутри;
+ * 12-значный UPC-A приводится к EAN-13 ведущим нулём — сканеры отдают его по-разному.
+ */
+export function normalizeBarcode(code: string): string {
+  const value = code.trim().replace(/\s+/g, '');
+  return /^\d{12}$/.test(value) ? `0${value}` : value;
+}
+
+/** Контрольная цифра EAN-8/EAN-13 для кода без неё (7 или 12 цифр) */
+export function eanCheckDigit(digits: string): number {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((s, d, i) => s + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan(code: string): boolean {
+  if (!/^(\d{8}|\d{13})$/.test(code)) return false;
+  return eanCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Формат кода: 8 или 13 цифр с верной контрольной цифрой — EAN, остальное печатаемое ASCII — Code128.
+ * null — код не закодировать (кириллица, управляющие символы).
+ */
+export function detectBarcodeFormat(code: string): BarcodeFormat | null {
+  if (isValidEan(code)) return code.length === 13 ? 'EAN13' : 'EAN8';
+  return /^[\x20-\x7E]{1,48}$/.test(code) ? 'CODE128' : null;
+}
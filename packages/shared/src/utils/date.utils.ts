@@ -39,3 +39,74 @@ export function getFollowUpDate(completionDate: Date | string): Date {
 export function generateWorkOrderNumber(sequenceNumber: number): string {
   return `WO-${String(sequenceNumber).padStart(5, '0')}`;
 }
+
+/** Часовой пояс автосервиса, пока в Tenant.settings.timezone не задан свой */
+export const DEFAULT_TIME_ZONE = 'Europe/Moscow';
+
+/** Часовой пояс из Tenant.settings; неизвестный Intl пояс заменяется поясом по умолчанию */
+export function tenantTimeZone(settings: unknown): string {
+  const timeZone = (settings as Record<string, any> | null)?.timezone;
+  if (typeof timeZone !== 'string' || !timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/** Смещение пояса от UTC в этот момент, мс */
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** «ГГГГ-ММ-ДД» — дата момента в часовом поясе автосервиса */
+export function zonedDateKey(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** «ЧЧ:ММ» — время момента в часовом поясе автосервиса */
+export function zonedTimeLabel(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/** Момент, когда в поясе наступает «ГГГГ-ММ-ДД» + minutes минут местного времени */
+export function zonedDateTime(dateKey: string, minutes: number, timeZone: string): Date {
+  const [y, m, d] = dateKey.slice(0, 10).split('-').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d) + minutes * 60_000;
+  // Смещение берём на сам момент — второй проход уточняет его на границе перехода на летнее время
+  let result = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  result = wallClock - zoneOffsetMs(new Date(result), timeZone);
+  return new Date(result);
+}
+
+/** Календарный сдвиг «ГГГГ-ММ-ДД» на days дней */
+export function addDaysToKey(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** День недели «ГГГГ-ММ-ДД»: 1 — понедельник … 7 — воскресенье */
+export function weekdayOfKey(dateKey: string): number {
+  const [y, m, d] = dateKey.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay() || 7;
+}
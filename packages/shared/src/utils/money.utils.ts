@@ -39,24 +39,35 @@ export function isPriceChangeExceeded(
   return change > threshold;
 }
 
+export type ReceptionistBonusTier = {
+  /** Маржа за период, выше которой действует ставка */
+  minMargin: number;
+  /** Доля маржи в бонус: 0.05 = 5% */
+  rate: number;
+};
+
 /**
- * Расчёт зарплаты приёмщика по ступеням маржи
+ * Ступени по умолчанию — пока автосервис не настроил свои в Tenant.settings.receptionistBonusTiers
+ */
+export const DEFAULT_RECEPTIONIST_BONUS_TIERS: ReceptionistBonusTier[] = [
+  { minMargin: 800_000, rate: 0.03 },
+  { minMargin: 1_000_000, rate: 0.04 },
+  { minMargin: 1_200_000, rate: 0.05 },
+  { minMargin: 1_500_000, rate: 0.06 },
+];
+
+/**
+ * Расчёт зарплаты приёмщика по ступеням маржи: ставка самой высокой ступени,
+ * порог которой маржа превысила, применяется ко всей марже
  */
 export function calculateReceptionistSalary(
   baseSalary: number,
   totalMargin: number,
+  tiers: ReceptionistBonusTier[] = DEFAULT_RECEPTIONIST_BONUS_TIERS,
 ): { baseSalary: number; bonus: number; rate: number; total: number } {
-  let rate = 0;
-
-  if (totalMargin > 1_500_000) {
-    rate = 0.06;
-  } else if (totalMargin > 1_200_000) {
-    rate = 0.05;
-  } else if (totalMargin > 1_000_000) {
-    rate = 0.04;
-  } else if (totalMargin > 800_000) {
-    rate = 0.03;
-  }
+  const rate = tiers
+    .filter((tier) => totalMargin > tier.minMargin)
+    .reduce((best, tier) => (tier.minMargin > best.minMargin ? tier : best), { minMargin: -Infinity, rate: 0 }).rate;
 
   const bonus = totalMargin * rate;
 
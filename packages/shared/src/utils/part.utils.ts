@@ -0,0 +1,8 @@
+/**
+ * Нормализация OEM-номера для сравнения: «04152-YZZA1» и «04152 yzza1» → «04152YZZA1»
+ */
+export function normalizeOemNumber(oemNumber?: string | null): string | null {
+  if (!oemNumber) return null;
+  const key = oemNumber.toUpperCase().replace(/[^A-Z0-9А-ЯЁ]/g, '');
+  return key || null;
+}
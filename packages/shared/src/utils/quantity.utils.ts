@@ -0,0 +1,24 @@
+/** Точность складских количеств (3 знака — граммы, миллилитры) */
+export const QUANTITY_PRECISION = 3;
+
+/**
+ * Округление количества до складской точности
+ */
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** QUANTITY_PRECISION;
+  return Math.round(quantity * factor) / factor;
+}
+
+/**
+ * Пересчёт из единиц закупки в единицы хранения (2 бочки × 208 = 416 л)
+ */
+export function toStockUnits(quantity: number, purchaseUnitFactor?: number | null): number {
+  return roundQuantity(quantity * (purchaseUnitFactor || 1));
+}
+
+/**
+ * Пересчёт из единиц хранения в единицы закупки (420 л / 208 = 2.019 бочки)
+ */
+export function toPurchaseUnits(quantity: number, purchaseUnitFactor?: number | null): number {
+  return roundQuantity(quantity / (purchaseUnitFactor || 1));
+}
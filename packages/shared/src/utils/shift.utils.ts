@@ -0,0 +1,108 @@
+import { weekdayOfKey, zonedDateTime } from './date.utils';
+
+export type ShiftPattern = 'WEEKLY' | 'CYCLE';
+
+/**
+ * График смен сотрудника: по дням недели (5/2, 6/1) или цикл «N рабочих / M выходных»
+ * (2/2, 3/3), отсчитываемый от даты cycleStart. Время смены — местное, «ЧЧ:ММ».
+ */
+export type ShiftScheduleRule = {
+  pattern: ShiftPattern;
+  /** Рабочие дни недели для WEEKLY: 1 — понедельник … 7 — воскресенье */
+  weekDays: number[];
+  cycleWorkDays: number;
+  cycleRestDays: number;
+  /** Первый рабочий день цикла, «ГГГГ-ММ-ДД» */
+  cycleStart: Date | string | null;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+};
+
+export const SHIFT_PRESETS: Record<string, Pick<ShiftScheduleRule, 'pattern' | 'weekDays' | 'cycleWorkDays' | 'cycleRestDays'>> = {
+  '5/2': { pattern: 'WEEKLY', weekDays: [1, 2, 3, 4, 5], cycleWorkDays: 2, cycleRestDays: 2 },
+  '6/1': { pattern: 'WEEKLY', weekDays: [1, 2, 3, 4, 5, 6], cycleWorkDays: 2, cycleRestDays: 2 },
+  '2/2': { pattern: 'CYCLE', weekDays: [], cycleWorkDays: 2, cycleRestDays: 2 },
+  '3/3': { pattern: 'CYCLE', weekDays: [], cycleWorkDays: 3, cycleRestDays: 3 },
+};
+
+/** Режим работы автосервиса из Tenant.settings.workSchedule: дни недели 1–7 и время «ЧЧ:ММ» в его поясе */
+export type WorkSchedule = {
+  workDays: number[];
+  startTime: string;
+  endTime: string;
+};
+
+/** Режим работы по умолчанию — пока в Tenant.settings.workSchedule нет своего */
+export const DEFAULT_WORK_SCHEDULE: WorkSchedule = { workDays: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '18:00' };
+
+const TIME_PATTERN = /^\d{1,2}:\d{2}$/;
+
+const DAY_MS = 86_400_000;
+
+/** «ГГГГ-ММ-ДД» по местной дате; у Date из колонки @db.Date берётся UTC-дата */
+export function toDateKey(date: Date | string, utc = false): string {
+  if (typeof date === 'string') return date.slice(0, 10);
+  if (utc) return date.toISOString().slice(0, 10);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function dayNumber(key: string): number {
+  const [y, m, d] = key.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+function parseTime(value: string): number {
+  const [h, m] = value.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+/** Рабочий ли день «ГГГГ-ММ-ДД» по графику (без учёта отсутствий) */
+export function isScheduledWorkday(rule: ShiftScheduleRule, day: string): boolean {
+  if (rule.pattern === 'WEEKLY') return rule.weekDays.includes(weekdayOfKey(day));
+
+  if (!rule.cycleStart) return false;
+  const cycle = rule.cycleWorkDays + rule.cycleRestDays;
+  if (cycle <= 0) return false;
+  const offset = dayNumber(day) - dayNumber(toDateKey(rule.cycleStart, true));
+  return ((offset % cycle) + cycle) % cycle < rule.cycleWorkDays;
+}
+
+/** Оплачиваемые часы одной смены: длительность минус перерыв. Смена может переходить через полночь */
+export function shiftHours(rule: ShiftScheduleRule): number {
+  let minutes = parseTime(rule.endTime) - parseTime(rule.startTime);
+  if (minutes <= 0) minutes += 24 * 60;
+  return Math.max(0, Math.round(((minutes - rule.breakMinutes) / 60) * 100) / 100);
+}
+
+/** Начало и конец смены, начинающейся в день «ГГГГ-ММ-ДД»; время смены — в часовом поясе автосервиса */
+export function shiftBounds(rule: ShiftScheduleRule, day: string, timeZone: string): { start: Date; end: Date } {
+  const startMinutes = parseTime(rule.startTime);
+  let endMinutes = parseTime(rule.endTime);
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+  return {
+    start: zonedDateTime(day, startMinutes, timeZone),
+    end: zonedDateTime(day, endMinutes, timeZone),
+  };
+}
+
+/** Режим работы из Tenant.settings; некорректные поля заменяются режимом по умолчанию */
+export function tenantWorkSchedule(settings: unknown): WorkSchedule {
+  const schedule = (settings as Record<string, any> | null)?.workSchedule ?? {};
+  const workDays = Array.isArray(schedule.workDays)
+    ? schedule.workDays.map(Number).filter((d: number) => Number.isInteger(d) && d >= 1 && d <= 7)
+    : DEFAULT_WORK_SCHEDULE.workDays;
+  return {
+    workDays,
+    startTime: TIME_PATTERN.test(schedule.startTime ?? '') ? schedule.startTime : DEFAULT_WORK_SCHEDULE.startTime,
+    endTime: TIME_PATTERN.test(schedule.endTime ?? '') ? schedule.endTime : DEFAULT_WORK_SCHEDULE.endTime,
+  };
+}
+
+/** Часы работы автосервиса в рабочий день по режиму: от открытия до закрытия */
+export function workScheduleHours(schedule: WorkSchedule): number {
+  let minutes = parseTime(schedule.endTime) - parseTime(schedule.startTime);
+  if (minutes <= 0) minutes += 24 * 60;
+  return Math.round((minutes / 60) * 100) / 100;
+}